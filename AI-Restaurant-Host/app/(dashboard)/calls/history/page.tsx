@@ -27,7 +27,8 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet"
 import { Search, Filter, Play, Download, ChevronDown, ChevronUp, Loader2 } from "lucide-react"
-import { format } from "date-fns"
+import { format, parseISO, subMonths } from "date-fns"
+import { useRestaurantTime } from "@/lib/location-context"
 import { toast } from "@/hooks/use-toast"
 
 interface CallLog {
@@ -64,6 +65,7 @@ export default function CallHistoryPage() {
   const [expandedRow, setExpandedRow] = useState<string | null>(null)
   const [dateFilter, setDateFilter] = useState("all")
   const [typeFilter, setTypeFilter] = useState("all")
+  const { formatTime, today } = useRestaurantTime()
 
   useEffect(() => {
     fetchCallLogs()
@@ -76,18 +78,15 @@ export default function CallHistoryPage() {
       const params = new URLSearchParams()
 
       // Add date filter
+      // Restaurant days, whatever the browser's timezone
       if (dateFilter === 'today') {
-        params.append('date', format(new Date(), 'yyyy-MM-dd'))
+        params.append('date', today())
       } else if (dateFilter === 'week') {
-        const weekAgo = new Date()
-        weekAgo.setDate(weekAgo.getDate() - 7)
-        params.append('startDate', format(weekAgo, 'yyyy-MM-dd'))
-        params.append('endDate', format(new Date(), 'yyyy-MM-dd'))
+        params.append('startDate', today(-7))
+        params.append('endDate', today())
       } else if (dateFilter === 'month') {
-        const monthAgo = new Date()
-        monthAgo.setMonth(monthAgo.getMonth() - 1)
-        params.append('startDate', format(monthAgo, 'yyyy-MM-dd'))
-        params.append('endDate', format(new Date(), 'yyyy-MM-dd'))
+        params.append('startDate', format(subMonths(parseISO(today()), 1), 'yyyy-MM-dd'))
+        params.append('endDate', today())
       }
 
       // Add type filter
@@ -241,7 +240,7 @@ export default function CallHistoryPage() {
                       onClick={() => setExpandedRow(expandedRow === call.id ? null : call.id)}
                     >
                       <TableCell>
-                        {format(new Date(call.created_at), 'MMM dd, HH:mm')}
+                        {formatTime(call.created_at, 'MMM dd, HH:mm')}
                       </TableCell>
                       <TableCell>
                         <div>
@@ -306,7 +305,7 @@ export default function CallHistoryPage() {
                                 <h4 className="font-semibold">Related Reservation</h4>
                                 <p className="text-sm">
                                   {call.reservations.party_size} on {' '}
-                                  {format(new Date(call.reservations.appointment_date), 'MMM dd, yyyy')}
+                                  {formatTime(call.reservations.appointment_date, 'MMM dd, yyyy')}
                                   {' - '}
                                   <Badge variant="outline">{call.reservations.status}</Badge>
                                 </p>
@@ -346,7 +345,7 @@ export default function CallHistoryPage() {
                 <div>
                   <p className="text-muted-foreground">Date & Time</p>
                   <p className="font-medium">
-                    {format(new Date(selectedCall.created_at), 'MMM dd, yyyy HH:mm')}
+                    {formatTime(selectedCall.created_at, 'MMM dd, yyyy HH:mm')}
                   </p>
                 </div>
                 <div>
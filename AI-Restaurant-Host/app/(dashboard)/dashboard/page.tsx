@@ -5,8 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Phone, PhoneMissed, Users, Calendar, TrendingUp, TrendingDown } from "lucide-react"
 import { useLanguage } from "@/lib/language-context"
+import { useRestaurantTime } from "@/lib/location-context"
 import { LiveDateTime } from "@/components/live-datetime"
 import { RealTimeCalls } from "@/components/dashboard/real-time-calls"
+import { FloorStatus } from "@/components/dashboard/floor-status"
 import { supabaseAdmin } from "@/lib/supabase/client"
 import { toast } from "@/hooks/use-toast"
 
@@ -58,6 +60,7 @@ export default function DashboardPage() {
     todaysReservations: 0
   })
   const [loading, setLoading] = useState(true)
+  const { timezone, startOfDay } = useRestaurantTime()
 
   useEffect(() => {
     fetchDashboardData()
@@ -66,15 +69,13 @@ export default function DashboardPage() {
     const interval = setInterval(fetchDashboardData, 30000)
 
     return () => clearInterval(interval)
-  }, [])
+  }, [timezone])
 
   const fetchDashboardData = async () => {
     try {
-      // Fetch today's analytics
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const tomorrow = new Date(today)
-      tomorrow.setDate(tomorrow.getDate() + 1)
+      // Fetch today's analytics, from the restaurant's midnight
+      const today = startOfDay()
+      const tomorrow = startOfDay(1)
 
       const { data: analyticsData } = await supabaseAdmin.getAnalytics({
         start: today,
@@ -177,6 +178,9 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {/* Live Floor */}
+      <FloorStatus />
+
       {/* Recent Calls - Now using real-time component */}
       <RealTimeCalls />
 
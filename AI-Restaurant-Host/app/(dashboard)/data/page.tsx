@@ -0,0 +1,14 @@
+"use client"
+
+import { ImportWizard } from "@/components/data/import-wizard"
+import { ExportPanel } from "@/components/data/export-panel"
+
+export default function DataPage() {
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-3xl font-bold">Import &amp; Export</h1>
+      <ImportWizard />
+      <ExportPanel />
+    </div>
+  )
+}
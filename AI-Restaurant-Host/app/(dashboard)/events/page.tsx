@@ -0,0 +1,306 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Plus, Users } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import { toast } from "@/hooks/use-toast"
+import {
+  EventDetail,
+  PrivateEvent,
+  eventStatusColors,
+  eventStatusLabels,
+} from "@/components/events/event-detail"
+
+const pipeline: PrivateEvent['status'][] = ['inquiry', 'proposal_sent', 'confirmed']
+
+const emptyInquiry = {
+  contact_name: '',
+  contact_phone: '',
+  contact_email: '',
+  company: '',
+  event_type: 'private_dining' as PrivateEvent['event_type'],
+  event_date: '',
+  start_time: '',
+  guest_count: '',
+  occasion: '',
+  notes: ''
+}
+
+export default function EventsPage() {
+  const [events, setEvents] = useState<PrivateEvent[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showClosed, setShowClosed] = useState(false)
+  const [showNewInquiry, setShowNewInquiry] = useState(false)
+  const [inquiry, setInquiry] = useState(emptyInquiry)
+  const [loading, setLoading] = useState(true)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchEvents()
+  }, [showClosed])
+
+  const fetchEvents = async () => {
+    try {
+      const status = showClosed ? '' : `?status=${pipeline.join(',')}`
+      const response = await fetch(`${backendUrl}/api/events${status}`)
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch events')
+      }
+
+      setEvents(await response.json())
+    } catch (error) {
+      console.error('Error fetching events:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to load events',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const createInquiry = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...inquiry,
+          start_time: inquiry.start_time || undefined,
+          guest_count: Number(inquiry.guest_count)
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Inquiry added' })
+      setShowNewInquiry(false)
+      setInquiry(emptyInquiry)
+      setSelectedId(data.id)
+      await fetchEvents()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const selectedEvent = events.find(event => event.id === selectedId)
+  const pipelineValue = (status: PrivateEvent['status']) =>
+    events.filter(event => event.status === status).reduce((sum, event) => sum + event.totals.total, 0)
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Private Events</h1>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => setShowClosed(!showClosed)}>
+            {showClosed ? 'Hide closed' : 'Show closed'}
+          </Button>
+          <Button onClick={() => setShowNewInquiry(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Inquiry
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {pipeline.map(status => (
+          <Card key={status}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {eventStatusLabels[status]}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {events.filter(event => event.status === status).length}
+              </div>
+              <p className="text-xs text-muted-foreground">${pipelineValue(status).toFixed(0)} total value</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map(i => (
+                  <div key={i} className="h-14 bg-gray-100 rounded animate-pulse" />
+                ))}
+              </div>
+            ) : events.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                No events
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {events.map(event => (
+                  <button
+                    key={event.id}
+                    className={`w-full rounded-lg border p-3 text-left hover:bg-muted/50 ${selectedId === event.id ? 'border-primary' : ''}`}
+                    onClick={() => setSelectedId(event.id)}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{event.company || event.contact_name}</span>
+                      <Badge className={eventStatusColors[event.status]}>{eventStatusLabels[event.status]}</Badge>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      {format(parseISO(event.event_date), 'MMM d, yyyy')}
+                      <Users className="h-3 w-3" />
+                      {event.guest_count}
+                      {event.event_type === 'buyout' && <Badge variant="outline">Buyout</Badge>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2">
+          {selectedEvent ? (
+            <EventDetail event={selectedEvent} onChange={fetchEvents} />
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Select an event to build its proposal
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={showNewInquiry} onOpenChange={setShowNewInquiry}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Event Inquiry</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Contact name</Label>
+              <Input
+                value={inquiry.contact_name}
+                onChange={(e) => setInquiry(prev => ({ ...prev, contact_name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Company</Label>
+              <Input
+                value={inquiry.company}
+                onChange={(e) => setInquiry(prev => ({ ...prev, company: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Phone</Label>
+              <Input
+                value={inquiry.contact_phone}
+                onChange={(e) => setInquiry(prev => ({ ...prev, contact_phone: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={inquiry.contact_email}
+                onChange={(e) => setInquiry(prev => ({ ...prev, contact_email: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={inquiry.event_type}
+                onValueChange={(event_type: PrivateEvent['event_type']) => setInquiry(prev => ({ ...prev, event_type }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="private_dining">Private dining room</SelectItem>
+                  <SelectItem value="buyout">Full buyout</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Guests</Label>
+              <Input
+                type="number"
+                value={inquiry.guest_count}
+                onChange={(e) => setInquiry(prev => ({ ...prev, guest_count: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={inquiry.event_date}
+                onChange={(e) => setInquiry(prev => ({ ...prev, event_date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Start time</Label>
+              <Input
+                type="time"
+                value={inquiry.start_time}
+                onChange={(e) => setInquiry(prev => ({ ...prev, start_time: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Occasion</Label>
+              <Input
+                placeholder="e.g. Rehearsal dinner"
+                value={inquiry.occasion}
+                onChange={(e) => setInquiry(prev => ({ ...prev, occasion: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Notes</Label>
+              <Textarea
+                value={inquiry.notes}
+                onChange={(e) => setInquiry(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewInquiry(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={createInquiry}
+              disabled={!inquiry.contact_name || !inquiry.event_date || !inquiry.guest_count}
+            >
+              Add Inquiry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,286 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Copy, Crown, ListChecks, Plus, Search } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import { Guest, GuestDetail } from "@/components/guests/guest-detail"
+import { DuplicateGuests } from "@/components/guests/duplicate-guests"
+import { PreferenceSuggestions } from "@/components/guests/preference-suggestions"
+
+const emptyGuest = {
+  name: '',
+  phone: '',
+  email: '',
+  notes: ''
+}
+
+export default function GuestsPage() {
+  const [guests, setGuests] = useState<Guest[]>([])
+  const [search, setSearch] = useState('')
+  const [vipOnly, setVipOnly] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showNewGuest, setShowNewGuest] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showPreferences, setShowPreferences] = useState(false)
+  // Bumped after a merge or preference review so the open profile reloads
+  const [profileVersion, setProfileVersion] = useState(0)
+  const [newGuest, setNewGuest] = useState(emptyGuest)
+  const [loading, setLoading] = useState(true)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    // Wait for the host to stop typing before searching
+    const timer = setTimeout(fetchGuests, 300)
+    return () => clearTimeout(timer)
+  }, [search, vipOnly])
+
+  const fetchGuests = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (search.trim()) params.set('search', search.trim())
+      if (vipOnly) params.set('vip', 'true')
+      const response = await fetch(`${backendUrl}/api/guests?${params}`)
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch guests')
+      }
+
+      setGuests(await response.json())
+    } catch (error) {
+      console.error('Error fetching guests:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to load guests',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const createGuest = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/guests`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...newGuest,
+          phone: newGuest.phone || undefined,
+          email: newGuest.email || undefined
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        if (data.duplicate_id) {
+          setShowNewGuest(false)
+          setSelectedId(data.duplicate_id)
+        }
+        throw new Error(data.error)
+      }
+      toast({ title: 'Guest added' })
+      setShowNewGuest(false)
+      setNewGuest(emptyGuest)
+      setSelectedId(data.id)
+      await fetchGuests()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Guests</h1>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => setShowPreferences(true)}>
+            <ListChecks className="mr-2 h-4 w-4" />
+            Review Preferences
+          </Button>
+          <Button variant="outline" onClick={() => setShowDuplicates(true)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Find Duplicates
+          </Button>
+          <Button onClick={() => setShowNewGuest(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Guest
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card>
+          <CardHeader className="space-y-3">
+            <CardTitle>Guest List</CardTitle>
+            <div className="relative">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Name, phone or email"
+                className="pl-10"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <Button variant={vipOnly ? "default" : "outline"} size="sm" onClick={() => setVipOnly(!vipOnly)}>
+              <Crown className="mr-2 h-4 w-4" />
+              VIPs only
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map(i => (
+                  <div key={i} className="h-14 bg-gray-100 rounded animate-pulse" />
+                ))}
+              </div>
+            ) : guests.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                No guests found
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {guests.map(guest => (
+                  <button
+                    key={guest.id}
+                    className={`w-full rounded-lg border p-3 text-left hover:bg-muted/50 ${selectedId === guest.id ? 'border-primary' : ''}`}
+                    onClick={() => setSelectedId(guest.id)}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-1 font-medium">
+                        {guest.name}
+                        {guest.vip_status && <Crown className="h-3 w-3 text-yellow-500" />}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {guest.visit_count} visit{guest.visit_count === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 text-sm text-muted-foreground">
+                      {guest.phone}
+                      {(guest.tags || []).map(tag => (
+                        <Badge key={tag} variant="outline">{tag}</Badge>
+                      ))}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2">
+          {selectedId ? (
+            <GuestDetail
+              key={`${selectedId}-${profileVersion}`}
+              guestId={selectedId}
+              onChange={fetchGuests}
+              onDeleted={() => {
+                setSelectedId(null)
+                fetchGuests()
+              }}
+            />
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Select a guest to see their profile and visits
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={showDuplicates} onOpenChange={setShowDuplicates}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Possible Duplicates</DialogTitle>
+          </DialogHeader>
+          {showDuplicates && (
+            <DuplicateGuests
+              onMerged={(survivorId) => {
+                setSelectedId(survivorId)
+                setProfileVersion(version => version + 1)
+                fetchGuests()
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showPreferences} onOpenChange={setShowPreferences}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Preferences From Calls</DialogTitle>
+          </DialogHeader>
+          {showPreferences && (
+            <PreferenceSuggestions
+              onReviewed={(guestId) => {
+                if (guestId === selectedId) {
+                  setProfileVersion(version => version + 1)
+                }
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showNewGuest} onOpenChange={setShowNewGuest}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Guest</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={newGuest.name}
+                onChange={(e) => setNewGuest(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Phone</Label>
+              <Input
+                value={newGuest.phone}
+                onChange={(e) => setNewGuest(prev => ({ ...prev, phone: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={newGuest.email}
+                onChange={(e) => setNewGuest(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Notes</Label>
+              <Textarea
+                value={newGuest.notes}
+                onChange={(e) => setNewGuest(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowNewGuest(false)}>
+              Cancel
+            </Button>
+            <Button onClick={createGuest} disabled={!newGuest.name.trim()}>
+              Add Guest
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -22,10 +22,16 @@ import {
   Calendar as CalendarIcon,
   Phone,
   Mail,
-  Loader2
+  Loader2,
+  AlertTriangle,
+  ClipboardList
 } from "lucide-react"
 import { ReservationBooking } from "@/components/reservations/reservation-booking"
-import { format } from "date-fns"
+import { StandingReservations } from "@/components/reservations/standing-reservations"
+import { ReservationAllergies } from "@/components/reservations/reservation-allergies"
+import { format, parseISO } from "date-fns"
+import { useRestaurantTime } from "@/lib/location-context"
+import { HoursPeriod } from "@/lib/mock-data/restaurant-data"
 import { toast } from "@/hooks/use-toast"
 
 interface Reservation {
@@ -34,10 +40,18 @@ interface Reservation {
   guest_phone: string
   guest_email?: string
   reservation_date: string
+  reservation_time: string
   party_size: string
   table_id?: string
   status: string
+  allergies?: string[]
   created_at: string
+  guests?: {
+    id: string
+    no_show_count: number
+    reliability_score: number
+    vip_status: boolean
+  }
   tables?: {
     id: string
     name: string
@@ -45,12 +59,31 @@ interface Reservation {
   }
 }
 
-const timeSlots = [
-  "08:00", "08:30", "09:00", "09:30", "10:00", "10:30",
-  "11:00", "11:30", "12:00", "12:30", "13:00", "13:30",
-  "14:00", "14:30", "15:00", "15:30", "16:00", "16:30",
-  "17:00", "17:30", "18:00"
-]
+// A day's opening hours from the backend, with closures and special hours applied
+interface DaySchedule {
+  date: string
+  open: boolean
+  periods: HoursPeriod[]
+  blackouts: HoursPeriod[]
+  reason?: string
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Half-hour rows across each opening period of the day
+const slotsForSchedule = (schedule: DaySchedule | null): string[] => {
+  const slots: string[] = []
+  for (const period of schedule?.open ? schedule.periods : []) {
+    for (let t = toMinutes(period.open); t < toMinutes(period.close); t += 30) {
+      const slot = `${String(Math.floor(t / 60)).padStart(2, '0')}:${String(t % 60).padStart(2, '0')}`
+      if (!slots.includes(slot)) slots.push(slot)
+    }
+  }
+  return slots.sort()
+}
 
 export default function ReservationsPage() {
   // Default to September 15, 2025 to show our data
@@ -60,6 +93,9 @@ export default function ReservationsPage() {
   const [viewMode, setViewMode] = useState<"week" | "day">("day")
   const [reservations, setReservations] = useState<Reservation[]>([])
   const [loading, setLoading] = useState(true)
+  const [schedule, setSchedule] = useState<DaySchedule | null>(null)
+  const { today } = useRestaurantTime()
+  const timeSlots = slotsForSchedule(schedule)
 
   useEffect(() => {
     fetchReservations()
@@ -72,14 +108,18 @@ export default function ReservationsPage() {
 
       // Use backend API instead of Supabase directly
       const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
-      const response = await fetch(`${backendUrl}/api/reservations?date=${dateStr}`)
+      const [response, hoursResponse] = await Promise.all([
+        fetch(`${backendUrl}/api/reservations?date=${dateStr}`),
+        fetch(`${backendUrl}/api/availability/hours?from=${dateStr}&to=${dateStr}`)
+      ])
 
       if (!response.ok) {
         throw new Error('Failed to fetch reservations')
       }
 
       const data = await response.json()
-      setReservations(data.reservations || [])
+      setReservations(Array.isArray(data) ? data : data.reservations || [])
+      setSchedule(hoursResponse.ok ? (await hoursResponse.json())[0] || null : null)
     } catch (error) {
       console.error('Error fetching reservations:', error)
       toast({
@@ -123,11 +163,17 @@ export default function ReservationsPage() {
 
   const getReservationForSlot = (slot: string) => {
     return reservations.find(apt => {
-      const aptTime = getTimeFromDate(apt.reservation_date)
+      const aptTime = apt.reservation_time?.slice(0, 5) || getTimeFromDate(apt.reservation_date)
       return aptTime === slot
     })
   }
 
+  // Repeat no-shows should be asked for a deposit (mirrors the backend thresholds)
+  const needsDeposit = (reservation: Reservation) => {
+    const guest = reservation.guests
+    return !!guest && (guest.reliability_score < 60 || guest.no_show_count >= 2)
+  }
+
   const navigateDate = (direction: 'prev' | 'next') => {
     if (!selectedDate) return
     const newDate = new Date(selectedDate)
@@ -156,6 +202,16 @@ export default function ReservationsPage() {
               Week
             </Button>
           </div>
+          <Button variant="outline" asChild>
+            <a
+              href={`/kitchen/allergy-sheet/${selectedDate ? format(selectedDate, 'yyyy-MM-dd') : today()}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <ClipboardList className="mr-2 h-4 w-4" />
+              Allergy Sheet
+            </a>
+          </Button>
           <Button onClick={() => setShowNewReservation(true)}>
             <Plus className="mr-2 h-4 w-4" />
             New Reservation
@@ -212,6 +268,10 @@ export default function ReservationsPage() {
                 <div className="flex items-center justify-center py-12">
                   <Loader2 className="h-8 w-8 animate-spin" />
                 </div>
+              ) : schedule && !schedule.open ? (
+                <div className="py-12 text-center text-muted-foreground">
+                  Closed{schedule.reason ? `: ${schedule.reason}` : ''}
+                </div>
               ) : (
                 <div className="divide-y">
                   {timeSlots.map((slot) => {
@@ -237,6 +297,17 @@ export default function ReservationsPage() {
                                   <Badge className={getStatusColor(reservation.status)}>
                                     {reservation.status}
                                   </Badge>
+                                  {needsDeposit(reservation) && (
+                                    <Badge className="bg-orange-100 text-orange-800">
+                                      Ask for deposit
+                                    </Badge>
+                                  )}
+                                  {reservation.allergies && reservation.allergies.length > 0 && (
+                                    <Badge className="bg-red-100 text-red-800">
+                                      <AlertTriangle className="mr-1 h-3 w-3" />
+                                      {reservation.allergies.join(', ').replace(/_/g, ' ')}
+                                    </Badge>
+                                  )}
                                 </div>
                                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                                   <span className="flex items-center gap-1">
@@ -314,6 +385,8 @@ export default function ReservationsPage() {
               </CardContent>
             </Card>
           </div>
+
+          <StandingReservations />
         </div>
       </div>
 
@@ -329,7 +402,7 @@ export default function ReservationsPage() {
 
       {/* Reservation Details Dialog */}
       <Dialog open={!!selectedReservation} onOpenChange={() => setSelectedReservation(null)}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Reservation Details</DialogTitle>
           </DialogHeader>
@@ -372,14 +445,24 @@ export default function ReservationsPage() {
                   <p className="text-muted-foreground">Table</p>
                   <p className="font-medium">{selectedReservation.tables?.name || 'Table 5'}</p>
                 </div>
+                <div>
+                  <p className="text-muted-foreground">Reliability</p>
+                  <p className="font-medium">
+                    {selectedReservation.guests
+                      ? `${selectedReservation.guests.reliability_score}% · ${selectedReservation.guests.no_show_count} no-show${selectedReservation.guests.no_show_count === 1 ? '' : 's'}`
+                      : 'New guest'}
+                  </p>
+                </div>
                 <div>
                   <p className="text-muted-foreground">Time</p>
                   <p className="font-medium">
-                    {format(new Date(selectedReservation.reservation_date), 'MMM dd, yyyy HH:mm')}
+                    {format(parseISO(selectedReservation.reservation_date), 'MMM dd, yyyy')} {selectedReservation.reservation_time?.slice(0, 5)}
                   </p>
                 </div>
               </div>
 
+              <ReservationAllergies reservationId={selectedReservation.id} onSaved={fetchReservations} />
+
               <DialogFooter>
                 <Button variant="outline" onClick={() => setSelectedReservation(null)}>
                   Close
@@ -28,8 +28,14 @@ import {
   Globe,
   Bell,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Clock
 } from "lucide-react"
+import { OpeningHours } from "@/components/settings/opening-hours"
+import { TurnTimes } from "@/components/settings/turn-times"
+import { TableCombinations } from "@/components/settings/table-combinations"
+import { CalendarFeeds } from "@/components/settings/calendar-feeds"
+import { Locations } from "@/components/settings/locations"
 
 export default function SettingsPage() {
   return (
@@ -37,11 +43,15 @@ export default function SettingsPage() {
       <h1 className="text-3xl font-bold">Settings</h1>
 
       <Tabs defaultValue="practice" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4 lg:grid-cols-7">
+        <TabsList className="grid w-full grid-cols-4 lg:grid-cols-8">
           <TabsTrigger value="practice">
             <Building className="mr-2 h-4 w-4" />
             <span className="hidden lg:inline">Practice</span>
           </TabsTrigger>
+          <TabsTrigger value="hours">
+            <Clock className="mr-2 h-4 w-4" />
+            <span className="hidden lg:inline">Hours</span>
+          </TabsTrigger>
           <TabsTrigger value="integrations">
             <Link className="mr-2 h-4 w-4" />
             <span className="hidden lg:inline">Integrations</span>
@@ -102,9 +112,17 @@ export default function SettingsPage() {
               <Button>Save Changes</Button>
             </CardContent>
           </Card>
+          <Locations />
+        </TabsContent>
+
+        <TabsContent value="hours" className="space-y-4">
+          <OpeningHours />
+          <TurnTimes />
+          <TableCombinations />
         </TabsContent>
 
         <TabsContent value="integrations" className="space-y-4">
+          <CalendarFeeds />
           <Card>
             <CardHeader>
               <CardTitle>Integrations</CardTitle>
@@ -0,0 +1,185 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useParams } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Printer } from "lucide-react"
+import {
+  EventMenuItem,
+  EventTotals,
+  PrivateEvent,
+  eventStatusLabels,
+} from "@/components/events/event-detail"
+
+interface Beo {
+  restaurant: { name?: string; address?: string; phone?: string; email?: string }
+  event: Omit<PrivateEvent, 'totals'>
+  space: string
+  courses: Record<string, EventMenuItem[]>
+  allergens: string[]
+  totals: EventTotals
+}
+
+const money = (amount: number) => `$${Number(amount || 0).toFixed(2)}`
+
+// Printable banquet event order: one sheet for the kitchen, floor and the client
+export default function BeoPage() {
+  const params = useParams()
+  const [beo, setBeo] = useState<Beo | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchBeo()
+  }, [params.id])
+
+  const fetchBeo = async () => {
+    try {
+      const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+      const response = await fetch(`${backendUrl}/api/events/${params.id}/beo`)
+
+      if (!response.ok) {
+        throw new Error('Event not found')
+      }
+
+      setBeo(await response.json())
+    } catch (error: any) {
+      setError(error.message)
+    }
+  }
+
+  if (error) {
+    return <div className="p-8 text-center text-muted-foreground">{error}</div>
+  }
+
+  if (!beo) {
+    return <div className="p-8 text-center text-muted-foreground">Loading...</div>
+  }
+
+  const { event, totals } = beo
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 bg-white p-8 text-sm text-black">
+      <div className="flex justify-end print:hidden">
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      <div className="flex items-start justify-between border-b pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Banquet Event Order</h1>
+          <p>{beo.restaurant.name}</p>
+          <p className="text-gray-600">{beo.restaurant.address}</p>
+        </div>
+        <div className="text-right">
+          <p className="font-medium">{eventStatusLabels[event.status]}</p>
+          <p className="text-gray-600">BEO #{event.id.slice(0, 8).toUpperCase()}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-1">
+          <h2 className="font-semibold uppercase text-gray-600">Event</h2>
+          <p><span className="font-medium">Date:</span> {format(parseISO(event.event_date), 'EEEE, MMMM d, yyyy')}</p>
+          <p>
+            <span className="font-medium">Time:</span> {event.start_time?.slice(0, 5) || 'TBC'}
+            {event.end_time ? ` – ${event.end_time.slice(0, 5)}` : ''}
+          </p>
+          <p><span className="font-medium">Space:</span> {beo.space}</p>
+          <p><span className="font-medium">Guests:</span> {event.guest_count}</p>
+          {event.occasion && <p><span className="font-medium">Occasion:</span> {event.occasion}</p>}
+        </div>
+        <div className="space-y-1">
+          <h2 className="font-semibold uppercase text-gray-600">Client</h2>
+          <p>{event.contact_name}</p>
+          {event.company && <p>{event.company}</p>}
+          {event.contact_phone && <p>{event.contact_phone}</p>}
+          {event.contact_email && <p>{event.contact_email}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h2 className="font-semibold uppercase text-gray-600">Menu</h2>
+        {Object.keys(beo.courses).length === 0 ? (
+          <p className="text-gray-600">Menu to be confirmed</p>
+        ) : Object.entries(beo.courses).map(([course, items]) => (
+          <div key={course}>
+            <p className="font-medium capitalize">{course}</p>
+            <ul className="list-disc pl-6">
+              {items.map(item => (
+                <li key={item.menu_item_id}>
+                  {item.name}
+                  {item.allergens && item.allergens.length > 0 && (
+                    <span className="text-gray-600"> (contains {item.allergens.join(', ')})</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {(event.dietary_requirements || beo.allergens.length > 0) && (
+        <div className="space-y-1 rounded border border-black p-3">
+          <h2 className="font-semibold uppercase">Dietary & Allergens</h2>
+          {event.dietary_requirements && <p>{event.dietary_requirements}</p>}
+          {beo.allergens.length > 0 && <p>Menu allergens: {beo.allergens.join(', ')}</p>}
+        </div>
+      )}
+
+      {event.notes && (
+        <div className="space-y-1">
+          <h2 className="font-semibold uppercase text-gray-600">Notes</h2>
+          <p className="whitespace-pre-wrap">{event.notes}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-1">
+          <h2 className="font-semibold uppercase text-gray-600">Charges</h2>
+          <div className="flex justify-between">
+            <span>{event.guest_count} × {money(event.price_per_guest || 0)}</span>
+            <span>{money(totals.food)}</span>
+          </div>
+          {totals.minimum_spend_shortfall > 0 && (
+            <div className="flex justify-between">
+              <span>Minimum spend ({money(event.minimum_spend)}) shortfall</span>
+              <span>{money(totals.minimum_spend_shortfall)}</span>
+            </div>
+          )}
+          {totals.room_fee > 0 && (
+            <div className="flex justify-between"><span>Room fee</span><span>{money(totals.room_fee)}</span></div>
+          )}
+          {totals.service_charge > 0 && (
+            <div className="flex justify-between">
+              <span>Service charge ({event.service_charge_percent}%)</span>
+              <span>{money(totals.service_charge)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t pt-1 font-semibold">
+            <span>Total</span><span>{money(totals.total)}</span>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <h2 className="font-semibold uppercase text-gray-600">Payments</h2>
+          {event.deposit_schedule.map((instalment, index) => (
+            <div key={index} className="flex justify-between">
+              <span>{instalment.label} · due {instalment.due_date}</span>
+              <span>{money(instalment.amount)}{instalment.paid_at ? ' (paid)' : ''}</span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t pt-1 font-semibold">
+            <span>Balance outstanding</span><span>{money(totals.outstanding)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-12 pt-8">
+        <div className="border-t pt-1 text-gray-600">Client signature</div>
+        <div className="border-t pt-1 text-gray-600">Date</div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useParams } from "next/navigation"
+import { format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Printer } from "lucide-react"
+import { allergenLabel } from "@/components/reservations/allergy-picker"
+
+interface AllergySheetEntry {
+  reservation_id: string
+  reservation_time: string
+  guest_name: string
+  party_size: number
+  status?: string
+  tables: string[]
+  allergies: string[]
+  dietary_restrictions?: string
+  unsafe_items: { menu_item_id: string; name: string; allergens: string[] }[]
+}
+
+interface AllergySheet {
+  date: string
+  restaurant?: string
+  reservations: AllergySheetEntry[]
+  allergen_counts: Record<string, number>
+  covers: number
+}
+
+// Printable pre-service sheet: every table with an allergy tonight and what it must not be served
+export default function AllergySheetPage() {
+  const params = useParams()
+  const [sheet, setSheet] = useState<AllergySheet | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSheet()
+  }, [params.date])
+
+  const fetchSheet = async () => {
+    try {
+      const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+      const response = await fetch(`${backendUrl}/api/reservations/reports/allergy-sheet?date=${params.date}`)
+
+      if (!response.ok) {
+        throw new Error('Failed to load the allergy sheet')
+      }
+
+      setSheet(await response.json())
+    } catch (error: any) {
+      setError(error.message)
+    }
+  }
+
+  if (error) {
+    return <div className="p-8 text-center text-muted-foreground">{error}</div>
+  }
+
+  if (!sheet) {
+    return <div className="p-8 text-center text-muted-foreground">Loading...</div>
+  }
+
+  const counts = Object.entries(sheet.allergen_counts).sort((a, b) => b[1] - a[1])
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 bg-white p-8 text-sm text-black">
+      <div className="flex justify-end print:hidden">
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+
+      <div className="flex items-start justify-between border-b pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">Allergy Sheet</h1>
+          <p>{sheet.restaurant}</p>
+        </div>
+        <div className="text-right">
+          <p className="font-medium">{format(parseISO(sheet.date), 'EEEE, MMMM d, yyyy')}</p>
+          <p className="text-gray-600">
+            {sheet.reservations.length} table{sheet.reservations.length === 1 ? '' : 's'} · {sheet.covers} covers
+          </p>
+        </div>
+      </div>
+
+      {counts.length > 0 && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 rounded border border-black p-3">
+          {counts.map(([allergen, count]) => (
+            <span key={allergen}>
+              <span className="font-semibold">{allergenLabel(allergen)}</span> × {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {sheet.reservations.length === 0 ? (
+        <p className="text-gray-600">No allergies recorded for this service.</p>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b text-left uppercase text-gray-600">
+              <th className="py-2 pr-4">Time</th>
+              <th className="py-2 pr-4">Table</th>
+              <th className="py-2 pr-4">Guest</th>
+              <th className="py-2 pr-4">Allergies</th>
+              <th className="py-2">Do not serve</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.reservations.map(entry => (
+              <tr key={entry.reservation_id} className="border-b align-top">
+                <td className="py-2 pr-4">{entry.reservation_time.slice(0, 5)}</td>
+                <td className="py-2 pr-4 font-medium">{entry.tables.join(' + ')}</td>
+                <td className="py-2 pr-4">
+                  {entry.guest_name}
+                  <span className="text-gray-600"> ({entry.party_size})</span>
+                </td>
+                <td className="py-2 pr-4">
+                  <p className="font-semibold">{entry.allergies.map(allergenLabel).join(', ')}</p>
+                  {entry.dietary_restrictions && <p className="text-gray-600">{entry.dietary_restrictions}</p>}
+                </td>
+                <td className="py-2">
+                  {entry.unsafe_items.length === 0
+                    ? <span className="text-gray-600">No listed dishes</span>
+                    : entry.unsafe_items.map(item => item.name).join(', ')}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { GeistMono } from 'geist/font/mono'
 import { Analytics } from '@vercel/analytics/next'
 import './globals.css'
 import { LanguageProvider } from '@/lib/language-context'
+import { LocationProvider } from '@/lib/location-context'
 import { SEOScripts } from '@/components/seo-scripts'
 
 export const metadata: Metadata = {
@@ -77,9 +78,11 @@ export default function RootLayout({
       </head>
       <body className={`${GeistSans.className} ${GeistMono.variable}`}>
         <LanguageProvider>
-          {children}
-          <SEOScripts />
-          <Analytics />
+          <LocationProvider>
+            {children}
+            <SEOScripts />
+            <Analytics />
+          </LocationProvider>
         </LanguageProvider>
       </body>
     </html>
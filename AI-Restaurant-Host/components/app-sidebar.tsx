@@ -11,6 +11,9 @@ import {
   Settings,
   HelpCircle,
   Mic,
+  PartyPopper,
+  Users,
+  FileSpreadsheet,
 } from "lucide-react"
 
 import {
@@ -50,11 +53,26 @@ import {
       icon: Calendar,
       href: "/reservations",
     },
+    {
+      titleKey: "guests",
+      icon: Users,
+      href: "/guests",
+    },
+    {
+      titleKey: "events",
+      icon: PartyPopper,
+      href: "/events",
+    },
     {
       titleKey: "analytics",
       icon: BarChart3,
       href: "/analytics",
     },
+    {
+      titleKey: "importExport",
+      icon: FileSpreadsheet,
+      href: "/data",
+    },
     {
       titleKey: "settings",
       icon: Settings,
@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { LayoutGrid } from 'lucide-react'
+import { useLocation, useRestaurantTime } from '@/lib/location-context'
+
+type TableStatus = 'available' | 'occupied' | 'reserved' | 'cleaning'
+
+interface FloorTable {
+  id: string
+  table_number: string
+  capacity: number
+  location?: string
+  status: TableStatus
+  expected_free_at?: string
+}
+
+const statusColors: Record<TableStatus, string> = {
+  available: 'bg-green-100 text-green-800 border-green-200',
+  reserved: 'bg-blue-100 text-blue-800 border-blue-200',
+  occupied: 'bg-orange-100 text-orange-800 border-orange-200',
+  cleaning: 'bg-gray-100 text-gray-800 border-gray-200'
+}
+
+// Moves the host can make from each status, mirroring the backend state machine
+const nextStatus: Partial<Record<TableStatus, TableStatus>> = {
+  available: 'occupied',
+  reserved: 'occupied',
+  occupied: 'cleaning',
+  cleaning: 'available'
+}
+
+export function FloorStatus() {
+  const [tables, setTables] = useState<FloorTable[]>([])
+  const [connected, setConnected] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const { restaurantId } = useLocation()
+  const { formatTime } = useRestaurantTime()
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchTables()
+
+    // Live updates pushed by the backend whenever a table changes status
+    const scope = restaurantId ? `&restaurant_id=${restaurantId}` : ''
+    const socket = new WebSocket(`${backendUrl.replace(/^http/, 'ws')}/websocket?channel=floor${scope}`)
+    socket.onopen = () => setConnected(true)
+    socket.onclose = () => setConnected(false)
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data)
+      if (message.event === 'table_status') {
+        const updated = message.payload as FloorTable
+        if (updated.status === 'occupied') {
+          // Refetch so the newly seated party gets its predicted leave time
+          fetchTables()
+        } else {
+          setTables(prev => prev.map(table => table.id === updated.id ? { ...table, ...updated, expected_free_at: undefined } : table))
+        }
+      }
+    }
+
+    return () => {
+      socket.close()
+    }
+  }, [])
+
+  const fetchTables = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/tables`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch tables')
+      }
+      setTables(await response.json())
+    } catch (error) {
+      console.error('Error fetching tables:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const advanceTable = async (table: FloorTable) => {
+    const status = nextStatus[table.status]
+    if (!status) return
+
+    try {
+      const response = await fetch(`${backendUrl}/api/tables/${table.id}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+    } catch (error) {
+      console.error('Error updating table status:', error)
+    }
+  }
+
+  const counts = tables.reduce<Record<string, number>>((acc, table) => {
+    acc[table.status] = (acc[table.status] || 0) + 1
+    return acc
+  }, {})
+
+  return (
+    <Card className="col-span-2">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <LayoutGrid className="h-5 w-5" />
+            Floor
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {(Object.keys(statusColors) as TableStatus[]).map(status => (
+              <Badge key={status} className={statusColors[status]}>
+                {counts[status] || 0} {status}
+              </Badge>
+            ))}
+            <Badge variant={connected ? 'outline' : 'destructive'}>
+              {connected ? 'Live' : 'Offline'}
+            </Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="grid grid-cols-4 gap-3 md:grid-cols-6">
+            {[1, 2, 3, 4, 5, 6].map(i => (
+              <div key={i} className="h-16 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : tables.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No tables configured
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 gap-3 md:grid-cols-6">
+            {tables.map(table => (
+              <button
+                key={table.id}
+                onClick={() => advanceTable(table)}
+                title={nextStatus[table.status] ? `Mark ${nextStatus[table.status]}` : undefined}
+                className={`p-3 rounded-lg border text-left transition-colors ${statusColors[table.status]}`}
+              >
+                <div className="font-medium">{table.table_number}</div>
+                <div className="text-xs">
+                  {table.capacity} seats · {table.status}
+                </div>
+                {table.expected_free_at && (
+                  <div className="text-xs">
+                    free ~{formatTime(table.expected_free_at, 'HH:mm')}
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Phone, PhoneIncoming, PhoneOutgoing, Clock, User, Calendar } from 'lucide-react'
 import { supabase } from '@/lib/supabase/client'
-import { format } from 'date-fns'
+import { useRestaurantTime } from '@/lib/location-context'
 
 interface CallLog {
   id: string
@@ -21,6 +21,7 @@ export function RealTimeCalls() {
   const [calls, setCalls] = useState<CallLog[]>([])
   const [activeCalls, setActiveCalls] = useState<number>(0)
   const [loading, setLoading] = useState(true)
+  const { formatTime } = useRestaurantTime()
 
   useEffect(() => {
     // Fetch initial call logs
@@ -142,7 +143,7 @@ export function RealTimeCalls() {
                       </span>
                       <span className="flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
-                        {format(new Date(call.created_at), 'MMM d, h:mm a')}
+                        {formatTime(call.created_at, 'MMM d, h:mm a')}
                       </span>
                     </div>
                   </div>
@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, Loader2 } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+const exportTypes = [
+  { value: 'reservations', label: 'Reservations', dated: true },
+  { value: 'guests', label: 'Guests', dated: false },
+  { value: 'call_logs', label: 'Call logs', dated: true },
+  { value: 'menu', label: 'Menu items', dated: false },
+]
+
+const statusOptions = ['pending_payment', 'confirmed', 'arrived', 'seated', 'completed', 'cancelled', 'no-show']
+
+// Download reservations, guests, call logs or the menu as CSV
+export function ExportPanel() {
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [status, setStatus] = useState('all')
+  const [downloading, setDownloading] = useState<string | null>(null)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  const download = async (type: string, dated: boolean) => {
+    setDownloading(type)
+    try {
+      const params = new URLSearchParams()
+      if (dated && from) params.set('from', from)
+      if (dated && to) params.set('to', to)
+      if (type === 'reservations' && status !== 'all') params.set('status', status)
+
+      const response = await fetch(`${backendUrl}/api/data/export/${type}?${params}`)
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+
+      const name = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `${type}.csv`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = name
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Export to CSV</CardTitle>
+        <CardDescription>
+          Exports open in any spreadsheet and use the same columns as imports, so they can be loaded back in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Reservation status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {statusOptions.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Dates apply to reservations and call logs; leave them empty to export everything.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {exportTypes.map(option => (
+            <Button
+              key={option.value}
+              variant="outline"
+              disabled={downloading !== null}
+              onClick={() => download(option.value, option.dated)}
+            >
+              {downloading === option.value
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <Download className="mr-2 h-4 w-4" />}
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
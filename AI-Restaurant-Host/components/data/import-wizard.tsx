@@ -0,0 +1,365 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { CircleCheck, FileUp, Loader2, TriangleAlert } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+type ImportType = 'guests' | 'reservations' | 'menu'
+
+interface ImportField {
+  key: string
+  label: string
+  required?: boolean
+  alternatives?: string[]
+}
+
+interface Preview {
+  headers: string[]
+  fields: ImportField[]
+  mapping: Record<string, string>
+  sample: Record<string, string>[]
+  total_rows: number
+}
+
+interface ImportReport {
+  dry_run: boolean
+  total_rows: number
+  valid_rows: number
+  created: number
+  updated: number
+  skipped: number
+  guests_created?: number
+  errors: { row: number; field?: string; message: string }[]
+  duplicates: { row: number; key: string; existing_id?: string; duplicate_of_row?: number; action: 'skip' | 'update' }[]
+}
+
+const importTypes: { value: ImportType; label: string }[] = [
+  { value: 'guests', label: 'Guests' },
+  { value: 'reservations', label: 'Reservations' },
+  { value: 'menu', label: 'Menu items' },
+]
+
+// Radix selects can't hold an empty value, so unmapped fields use this
+const NOT_MAPPED = '__none'
+
+// Rows of errors and duplicates shown before "and N more"
+const LIST_LIMIT = 100
+
+// Upload a CSV, map its columns, check a dry run, then import
+export function ImportWizard() {
+  const [step, setStep] = useState<'upload' | 'map' | 'review' | 'done'>('upload')
+  const [type, setType] = useState<ImportType>('guests')
+  const [csv, setCsv] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+  const [duplicates, setDuplicates] = useState<'skip' | 'update'>('skip')
+  const [dateFormat, setDateFormat] = useState<'mdy' | 'dmy'>('mdy')
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [working, setWorking] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  const post = async (path: string, body: Record<string, any>) => {
+    const response = await fetch(`${backendUrl}/api/data/import/${type}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error)
+    }
+    return data
+  }
+
+  const loadFile = async (file?: File) => {
+    if (!file) return
+    setWorking(true)
+    try {
+      const text = await file.text()
+      const data: Preview = await post('/preview', { csv: text })
+      setCsv(text)
+      setFileName(file.name)
+      setPreview(data)
+      setMapping(data.mapping)
+      setStep('map')
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setWorking(true)
+    try {
+      const data: ImportReport = await post('', {
+        csv,
+        mapping,
+        dry_run: dryRun,
+        duplicates,
+        date_format: dateFormat,
+      })
+      setReport(data)
+      setStep(dryRun ? 'review' : 'done')
+      if (!dryRun) {
+        toast({ title: 'Import finished', description: `${data.created} created, ${data.updated} updated` })
+      }
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const reset = () => {
+    setStep('upload')
+    setCsv('')
+    setFileName('')
+    setPreview(null)
+    setMapping({})
+    setReport(null)
+  }
+
+  const missing = (preview?.fields || []).filter(field =>
+    field.required && !mapping[field.key] && !(field.alternatives || []).some(key => mapping[key]))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import from CSV</CardTitle>
+        <CardDescription>
+          Bring guests, bookings and menu items over from another system. Nothing is saved until you confirm the checked file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {step === 'upload' && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>What are you importing?</Label>
+              <Select value={type} onValueChange={(value) => setType(value as ImportType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {importTypes.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>CSV file</Label>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                disabled={working}
+                onChange={(e) => loadFile(e.target.files?.[0])}
+              />
+              <p className="text-xs text-muted-foreground">
+                The first row must hold column names. Comma, semicolon and tab separated files all work.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {preview.total_rows} rows. Match each field to a column in your file; we guessed where we could.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Column in file</TableHead>
+                  <TableHead>First row</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.fields.map(field => (
+                  <TableRow key={field.key}>
+                    <TableCell className="font-medium">
+                      {field.label}
+                      {field.required && <span className="text-red-600"> *</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[field.key] || NOT_MAPPED}
+                        onValueChange={(value) => setMapping(prev => {
+                          const next = { ...prev }
+                          if (value === NOT_MAPPED) delete next[field.key]
+                          else next[field.key] = value
+                          return next
+                        })}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Don&apos;t import</SelectItem>
+                          {preview.headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-muted-foreground">
+                      {mapping[field.key] ? preview.sample[0]?.[mapping[field.key]] : ''}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Rows that already exist</Label>
+                <Select value={duplicates} onValueChange={(value) => setDuplicates(value as 'skip' | 'update')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Skip them</SelectItem>
+                    <SelectItem value="update">Update the existing record</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {type !== 'menu' && (
+                <div className="space-y-2">
+                  <Label>Dates like 03/04/2026 are</Label>
+                  <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as 'mdy' | 'dmy')}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mdy">Month / day / year</SelectItem>
+                      <SelectItem value="dmy">Day / month / year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            {missing.length > 0 && (
+              <p className="text-sm text-red-600">Choose a column for: {missing.map(field => field.label).join(', ')}</p>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={reset}>Start over</Button>
+              <Button onClick={() => runImport(true)} disabled={working || missing.length > 0}>
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check file
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(step === 'review' || step === 'done') && report && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              {step === 'done'
+                ? <CircleCheck className="h-5 w-5 text-green-600" />
+                : <FileUp className="h-5 w-5 text-muted-foreground" />}
+              <p className="font-medium">
+                {step === 'done' ? 'Import complete' : 'Dry run: nothing has been saved yet'}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{report.total_rows} rows</Badge>
+              <Badge variant="outline">{report.created} {step === 'done' ? 'created' : 'to create'}</Badge>
+              <Badge variant="outline">{report.updated} {step === 'done' ? 'updated' : 'to update'}</Badge>
+              <Badge variant="outline">{report.skipped} skipped</Badge>
+              {report.guests_created !== undefined && (
+                <Badge variant="outline">{report.guests_created} new guest profiles</Badge>
+              )}
+              <Badge variant={report.errors.length ? 'destructive' : 'outline'}>{report.errors.length} errors</Badge>
+            </div>
+
+            {report.errors.length > 0 && (
+              <div className="space-y-2">
+                <p className="flex items-center gap-2 text-sm font-medium">
+                  <TriangleAlert className="h-4 w-4 text-red-600" />
+                  Rows with errors are left out. Fix them in the file and import it again.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.errors.slice(0, LIST_LIMIT).map((error, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{error.row}</TableCell>
+                        <TableCell>{error.field || ''}</TableCell>
+                        <TableCell>{error.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {report.errors.length > LIST_LIMIT && (
+                  <p className="text-xs text-muted-foreground">and {report.errors.length - LIST_LIMIT} more</p>
+                )}
+              </div>
+            )}
+
+            {report.duplicates.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Duplicates</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Matches</TableHead>
+                      <TableHead>Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.duplicates.slice(0, LIST_LIMIT).map(duplicate => (
+                      <TableRow key={duplicate.row}>
+                        <TableCell>{duplicate.row}</TableCell>
+                        <TableCell>
+                          {duplicate.duplicate_of_row
+                            ? `Row ${duplicate.duplicate_of_row} of this file`
+                            : `Existing record (${duplicate.key})`}
+                        </TableCell>
+                        <TableCell>{duplicate.action === 'update' ? 'Update' : 'Skip'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {report.duplicates.length > LIST_LIMIT && (
+                  <p className="text-xs text-muted-foreground">and {report.duplicates.length - LIST_LIMIT} more</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {step === 'review' ? (
+                <>
+                  <Button variant="outline" onClick={() => setStep('map')}>Back to mapping</Button>
+                  <Button onClick={() => runImport(false)} disabled={working || report.created + report.updated === 0}>
+                    {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Import {report.created + report.updated} rows
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={reset}>Import another file</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,462 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertTriangle, Check, Printer } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+export interface EventMenuItem {
+  menu_item_id: string
+  name: string
+  category?: string
+  price: number
+  allergens?: string[]
+}
+
+export interface DepositInstalment {
+  label: string
+  due_date: string
+  amount: number
+  paid_at?: string
+}
+
+export interface EventTotals {
+  food: number
+  minimum_spend_shortfall: number
+  room_fee: number
+  service_charge: number
+  total: number
+  paid: number
+  outstanding: number
+}
+
+export interface PrivateEvent {
+  id: string
+  contact_name: string
+  contact_phone?: string
+  contact_email?: string
+  company?: string
+  event_type: 'private_dining' | 'buyout'
+  event_date: string
+  start_time?: string
+  end_time?: string
+  guest_count: number
+  occasion?: string
+  status: 'inquiry' | 'proposal_sent' | 'confirmed' | 'completed' | 'cancelled' | 'lost'
+  set_menu: EventMenuItem[]
+  price_per_guest?: number
+  minimum_spend: number
+  room_fee: number
+  service_charge_percent: number
+  deposit_schedule: DepositInstalment[]
+  dietary_requirements?: string
+  notes?: string
+  source?: string
+  lost_reason?: string
+  totals: EventTotals
+}
+
+interface MenuItem {
+  id: string
+  name: string
+  category?: string
+  price: number
+}
+
+interface Conflict {
+  id: string
+  guest_name: string
+  reservation_time: string
+  party_size: number
+}
+
+export const eventStatusLabels: Record<PrivateEvent['status'], string> = {
+  inquiry: 'Inquiry',
+  proposal_sent: 'Proposal sent',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  lost: 'Lost'
+}
+
+export const eventStatusColors: Record<PrivateEvent['status'], string> = {
+  inquiry: 'bg-yellow-100 text-yellow-800',
+  proposal_sent: 'bg-blue-100 text-blue-800',
+  confirmed: 'bg-green-100 text-green-800',
+  completed: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800',
+  lost: 'bg-red-100 text-red-800'
+}
+
+// Next steps offered from each status
+const nextStatuses: Record<PrivateEvent['status'], PrivateEvent['status'][]> = {
+  inquiry: ['proposal_sent', 'lost', 'cancelled'],
+  proposal_sent: ['confirmed', 'lost', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  lost: []
+}
+
+const statusActions: Record<PrivateEvent['status'], string> = {
+  inquiry: 'Reopen',
+  proposal_sent: 'Send proposal',
+  confirmed: 'Confirm',
+  completed: 'Mark completed',
+  cancelled: 'Cancel event',
+  lost: 'Mark lost'
+}
+
+const money = (amount: number) => `$${Number(amount || 0).toFixed(2)}`
+
+export function EventDetail({ event, onChange }: { event: PrivateEvent; onChange: () => void }) {
+  const [menuItems, setMenuItems] = useState<MenuItem[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [form, setForm] = useState({
+    start_time: '',
+    end_time: '',
+    guest_count: '',
+    price_per_guest: '',
+    minimum_spend: '',
+    room_fee: '',
+    service_charge_percent: '',
+    dietary_requirements: '',
+    notes: ''
+  })
+  const [conflicts, setConflicts] = useState<Conflict[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+  const editable = nextStatuses[event.status].length > 0
+
+  useEffect(() => {
+    fetchMenuItems()
+  }, [])
+
+  useEffect(() => {
+    setSelected(event.set_menu.map(item => item.menu_item_id))
+    setForm({
+      start_time: event.start_time?.slice(0, 5) || '',
+      end_time: event.end_time?.slice(0, 5) || '',
+      guest_count: String(event.guest_count),
+      price_per_guest: event.price_per_guest != null ? String(event.price_per_guest) : '',
+      minimum_spend: String(event.minimum_spend ?? ''),
+      room_fee: String(event.room_fee ?? ''),
+      service_charge_percent: String(event.service_charge_percent ?? ''),
+      dietary_requirements: event.dietary_requirements || '',
+      notes: event.notes || ''
+    })
+    setConflicts([])
+  }, [event])
+
+  const fetchMenuItems = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/menu?available=true`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch menu items')
+      }
+      setMenuItems(await response.json())
+    } catch (error) {
+      console.error('Error fetching menu items:', error)
+    }
+  }
+
+  const toggleItem = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(itemId => itemId !== id) : [...prev, id])
+  }
+
+  const request = async (path: string, method: string, body: Record<string, any>) => {
+    const response = await fetch(`${backendUrl}/api/events/${event.id}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error)
+    }
+    return data
+  }
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const menuChanged = selected.join() !== event.set_menu.map(item => item.menu_item_id).join()
+      const data = await request('', 'PUT', {
+        start_time: form.start_time || undefined,
+        end_time: form.end_time || undefined,
+        guest_count: Number(form.guest_count),
+        // A changed menu reprices the event unless a price was typed in
+        price_per_guest: form.price_per_guest === '' || menuChanged ? undefined : Number(form.price_per_guest),
+        minimum_spend: Number(form.minimum_spend || 0),
+        room_fee: Number(form.room_fee || 0),
+        service_charge_percent: Number(form.service_charge_percent || 0),
+        dietary_requirements: form.dietary_requirements,
+        notes: form.notes,
+        ...(menuChanged ? { set_menu: selected } : {})
+      })
+      setConflicts(data.conflicts || [])
+      toast({ title: 'Event saved' })
+      onChange()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const changeStatus = async (status: PrivateEvent['status']) => {
+    const reason = status === 'lost' || status === 'cancelled'
+      ? window.prompt(status === 'lost' ? 'Why was the event lost?' : 'Reason for cancelling') ?? undefined
+      : undefined
+    try {
+      const data = await request('/status', 'PATCH', { status, reason })
+      setConflicts(data.conflicts || [])
+      toast({ title: eventStatusLabels[status] })
+      onChange()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const toggleDeposit = async (index: number, paid: boolean) => {
+    try {
+      await request(`/deposits/${index}`, 'PATCH', { paid })
+      onChange()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const courses = menuItems.reduce<Record<string, MenuItem[]>>((groups, item) => {
+    const course = item.category || 'other'
+    return { ...groups, [course]: [...(groups[course] || []), item] }
+  }, {})
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle>{event.company || event.contact_name}</CardTitle>
+            <CardDescription>
+              {format(parseISO(event.event_date), 'EEEE, MMMM d, yyyy')} · {event.guest_count} guests ·{' '}
+              {event.event_type === 'buyout' ? 'Buyout' : 'Private dining'}
+              {event.occasion ? ` · ${event.occasion}` : ''}
+            </CardDescription>
+            <div className="mt-1 text-sm text-muted-foreground">
+              {event.contact_name}{event.contact_phone ? ` · ${event.contact_phone}` : ''}
+              {event.contact_email ? ` · ${event.contact_email}` : ''}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className={eventStatusColors[event.status]}>{eventStatusLabels[event.status]}</Badge>
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/events/${event.id}/beo`} target="_blank">
+                <Printer className="mr-2 h-4 w-4" />
+                BEO
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {conflicts.length > 0 && (
+          <div className="rounded-lg bg-amber-50 p-3 text-sm text-amber-900">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              {conflicts.length} reservation{conflicts.length === 1 ? '' : 's'} overlap this event and need moving
+            </div>
+            <ul className="mt-1 list-disc pl-6">
+              {conflicts.map(conflict => (
+                <li key={conflict.id}>
+                  {conflict.reservation_time.slice(0, 5)} · {conflict.guest_name} ({conflict.party_size})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Start</Label>
+            <Input
+              type="time"
+              disabled={!editable}
+              value={form.start_time}
+              onChange={(e) => setForm(prev => ({ ...prev, start_time: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>End</Label>
+            <Input
+              type="time"
+              disabled={!editable}
+              value={form.end_time}
+              onChange={(e) => setForm(prev => ({ ...prev, end_time: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Guests</Label>
+            <Input
+              type="number"
+              disabled={!editable}
+              value={form.guest_count}
+              onChange={(e) => setForm(prev => ({ ...prev, guest_count: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Set menu (guests choose one dish per course)</Label>
+          <div className="grid gap-4 md:grid-cols-3">
+            {Object.entries(courses).map(([course, items]) => (
+              <div key={course} className="space-y-1">
+                <div className="text-sm font-medium capitalize">{course}</div>
+                {items.map(item => (
+                  <label key={item.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      disabled={!editable}
+                      checked={selected.includes(item.id)}
+                      onChange={() => toggleItem(item.id)}
+                    />
+                    <span className="flex-1">{item.name}</span>
+                    <span className="text-muted-foreground">{money(item.price)}</span>
+                  </label>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Price per guest</Label>
+            <Input
+              type="number"
+              placeholder="From set menu"
+              disabled={!editable}
+              value={form.price_per_guest}
+              onChange={(e) => setForm(prev => ({ ...prev, price_per_guest: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Minimum spend</Label>
+            <Input
+              type="number"
+              disabled={!editable}
+              value={form.minimum_spend}
+              onChange={(e) => setForm(prev => ({ ...prev, minimum_spend: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Room fee</Label>
+            <Input
+              type="number"
+              disabled={!editable}
+              value={form.room_fee}
+              onChange={(e) => setForm(prev => ({ ...prev, room_fee: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Service charge %</Label>
+            <Input
+              type="number"
+              disabled={!editable}
+              value={form.service_charge_percent}
+              onChange={(e) => setForm(prev => ({ ...prev, service_charge_percent: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Dietary requirements</Label>
+            <Textarea
+              disabled={!editable}
+              value={form.dietary_requirements}
+              onChange={(e) => setForm(prev => ({ ...prev, dietary_requirements: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea
+              disabled={!editable}
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-1 text-sm">
+            <div className="font-medium">Totals</div>
+            <div className="flex justify-between"><span>Food & beverage</span><span>{money(event.totals.food)}</span></div>
+            {event.totals.minimum_spend_shortfall > 0 && (
+              <div className="flex justify-between text-amber-700">
+                <span>Minimum spend shortfall</span><span>{money(event.totals.minimum_spend_shortfall)}</span>
+              </div>
+            )}
+            <div className="flex justify-between"><span>Room fee</span><span>{money(event.totals.room_fee)}</span></div>
+            <div className="flex justify-between"><span>Service charge</span><span>{money(event.totals.service_charge)}</span></div>
+            <div className="flex justify-between border-t pt-1 font-medium"><span>Total</span><span>{money(event.totals.total)}</span></div>
+            <div className="flex justify-between text-muted-foreground"><span>Outstanding</span><span>{money(event.totals.outstanding)}</span></div>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <div className="font-medium">Deposit schedule</div>
+            {event.deposit_schedule.length === 0 ? (
+              <p className="text-muted-foreground">Set when the proposal is sent</p>
+            ) : event.deposit_schedule.map((instalment, index) => (
+              <div key={index} className="flex items-center justify-between">
+                <span>{instalment.label} · due {instalment.due_date}</span>
+                <div className="flex items-center gap-2">
+                  <span>{money(instalment.amount)}</span>
+                  {instalment.paid_at ? (
+                    <Button variant="ghost" size="sm" onClick={() => toggleDeposit(index, false)}>
+                      <Check className="mr-1 h-4 w-4 text-green-600" />
+                      Paid
+                    </Button>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => toggleDeposit(index, true)}>
+                      Mark paid
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {event.lost_reason && (
+          <p className="text-sm text-muted-foreground">Reason: {event.lost_reason}</p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {editable && (
+            <Button onClick={save} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+          {nextStatuses[event.status].map(status => (
+            <Button
+              key={status}
+              variant={status === 'lost' || status === 'cancelled' ? 'outline' : 'secondary'}
+              onClick={() => changeStatus(status)}
+            >
+              {statusActions[status]}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Crown, Loader2 } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { Guest } from './guest-detail'
+
+interface DuplicateProposal {
+  guests: [Guest, Guest]
+  reasons: string[]
+  confidence: number
+  suggested_survivor_id: string
+}
+
+const reasonLabels: Record<string, string> = {
+  phone: 'Same phone',
+  similar_phone: 'Similar phone',
+  email: 'Same email',
+  name: 'Similar name',
+}
+
+const pairKey = (proposal: DuplicateProposal) => proposal.guests.map(guest => guest.id).join(':')
+
+// Proposed duplicate guests; staff pick which record survives, merge, or dismiss the pair
+export function DuplicateGuests({ onMerged }: { onMerged: (survivorId: string) => void }) {
+  const [proposals, setProposals] = useState<DuplicateProposal[] | null>(null)
+  const [survivors, setSurvivors] = useState<Record<string, string>>({})
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchProposals()
+  }, [])
+
+  const fetchProposals = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/duplicates`)
+      if (!response.ok) {
+        throw new Error('Failed to find duplicates')
+      }
+      setProposals(await response.json())
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+      setProposals([])
+    }
+  }
+
+  const merge = async (proposal: DuplicateProposal) => {
+    const key = pairKey(proposal)
+    const survivorId = survivors[key] || proposal.suggested_survivor_id
+    setBusyKey(key)
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          survivor_id: survivorId,
+          merged_ids: proposal.guests.map(guest => guest.id).filter(id => id !== survivorId),
+          reason: proposal.reasons.map(reason => reasonLabels[reason] || reason).join(', '),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Guests merged' })
+      onMerged(survivorId)
+      await fetchProposals()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const dismiss = async (proposal: DuplicateProposal) => {
+    const key = pairKey(proposal)
+    setBusyKey(key)
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/duplicates/dismiss`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guest_ids: proposal.guests.map(guest => guest.id) }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      setProposals(prev => (prev || []).filter(p => pairKey(p) !== key))
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  if (!proposals) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  if (proposals.length === 0) {
+    return <div className="text-center py-6 text-muted-foreground">No likely duplicates found</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {proposals.map(proposal => {
+        const key = pairKey(proposal)
+        const survivorId = survivors[key] || proposal.suggested_survivor_id
+        const survivor = proposal.guests.find(guest => guest.id === survivorId)
+
+        return (
+          <div key={key} className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              {proposal.reasons.map(reason => (
+                <Badge key={reason} variant="outline">{reasonLabels[reason] || reason}</Badge>
+              ))}
+              <span className="ml-auto text-sm text-muted-foreground">
+                {Math.round(proposal.confidence * 100)}% match
+              </span>
+            </div>
+            <div className="grid gap-2 md:grid-cols-2">
+              {proposal.guests.map(guest => (
+                <button
+                  key={guest.id}
+                  className={`rounded-lg border p-2 text-left text-sm ${guest.id === survivorId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+                  onClick={() => setSurvivors(prev => ({ ...prev, [key]: guest.id }))}
+                >
+                  <p className="flex items-center gap-1 font-medium">
+                    {guest.name}
+                    {guest.vip_status && <Crown className="h-3 w-3 text-yellow-500" />}
+                  </p>
+                  <p className="text-muted-foreground">{guest.phone || 'No phone'}</p>
+                  <p className="text-muted-foreground">{guest.email || 'No email'}</p>
+                  <p className="text-muted-foreground">
+                    {guest.visit_count} visit{guest.visit_count === 1 ? '' : 's'}
+                    {guest.id === survivorId && ' · keep'}
+                  </p>
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" disabled={busyKey === key} onClick={() => dismiss(proposal)}>
+                Not duplicates
+              </Button>
+              <Button size="sm" disabled={busyKey === key} onClick={() => merge(proposal)}>
+                {busyKey === key && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                Merge into {survivor?.name}
+              </Button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
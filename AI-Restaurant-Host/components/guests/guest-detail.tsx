@@ -0,0 +1,311 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Crown, Trash2, X } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { preferenceLabels } from './preference-suggestions'
+
+export interface Guest {
+  id: string
+  name: string
+  phone?: string
+  email?: string
+  preferences?: Record<string, any>
+  visit_count: number
+  no_show_count: number
+  reliability_score: number
+  vip_status: boolean
+  tags: string[]
+  notes?: string
+  last_visit_date?: string
+  created_at: string
+}
+
+interface GuestProfile extends Guest {
+  upcoming: GuestReservation[]
+}
+
+interface GuestReservation {
+  id: string
+  reservation_date: string
+  reservation_time: string
+  party_size: number
+  status: string
+  occasion?: string
+}
+
+interface VisitHistory {
+  reservations: GuestReservation[]
+  summary: {
+    total: number
+    visits: number
+    no_shows: number
+    cancellations: number
+    average_party_size: number
+    first_visit?: string
+    last_visit?: string
+  }
+}
+
+const statusColors: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  confirmed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  'no-show': 'bg-red-100 text-red-800',
+}
+
+interface GuestDetailProps {
+  guestId: string
+  onChange: () => void
+  onDeleted: () => void
+}
+
+// A guest's profile, editable, with their visit history
+export function GuestDetail({ guestId, onChange, onDeleted }: GuestDetailProps) {
+  const [guest, setGuest] = useState<GuestProfile | null>(null)
+  const [history, setHistory] = useState<VisitHistory | null>(null)
+  const [form, setForm] = useState({ name: '', phone: '', email: '', tags: '', notes: '', vip_status: false })
+  const [saving, setSaving] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchGuest()
+  }, [guestId])
+
+  const fetchGuest = async () => {
+    try {
+      const [profileResponse, visitsResponse] = await Promise.all([
+        fetch(`${backendUrl}/api/guests/${guestId}`),
+        fetch(`${backendUrl}/api/guests/${guestId}/visits`),
+      ])
+      if (!profileResponse.ok) {
+        throw new Error('Failed to load guest')
+      }
+      const profile: GuestProfile = await profileResponse.json()
+      setGuest(profile)
+      setForm({
+        name: profile.name,
+        phone: profile.phone || '',
+        email: profile.email || '',
+        tags: (profile.tags || []).join(', '),
+        notes: profile.notes || '',
+        vip_status: profile.vip_status,
+      })
+      setHistory(visitsResponse.ok ? await visitsResponse.json() : null)
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const saveGuest = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/${guestId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          email: form.email || null,
+          tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Guest saved' })
+      await fetchGuest()
+      onChange()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Approved preferences are lists by category; hosts can drop one that no longer holds
+  const removePreference = async (category: string, value: string) => {
+    const preferences = { ...(guest?.preferences || {}) }
+    preferences[category] = (preferences[category] || []).filter((item: string) => item !== value)
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/${guestId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preferences }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setGuest(prev => (prev ? { ...prev, preferences } : prev))
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const deleteGuest = async () => {
+    if (!confirm(`Delete ${guest?.name}? Their reservations are kept.`)) {
+      return
+    }
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/${guestId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      toast({ title: 'Guest deleted' })
+      onDeleted()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  if (!guest) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">Loading...</CardContent>
+      </Card>
+    )
+  }
+
+  const preferenceEntries = Object.entries(guest.preferences || {})
+    .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]) && entry[1].length > 0)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {guest.name}
+            {guest.vip_status && <Crown className="h-4 w-4 text-yellow-500" />}
+          </CardTitle>
+          <CardDescription>
+            {guest.visit_count} visit{guest.visit_count === 1 ? '' : 's'}
+            {guest.last_visit_date && ` · last ${format(parseISO(guest.last_visit_date), 'MMM d, yyyy')}`}
+            {` · ${guest.reliability_score}% reliable`}
+            {guest.no_show_count > 0 && ` · ${guest.no_show_count} no-show${guest.no_show_count === 1 ? '' : 's'}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Phone</Label>
+              <Input value={form.phone} onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))} />
+            </div>
+            <div className="space-y-2">
+              <Label>Email</Label>
+              <Input
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2 md:col-span-2">
+              <Label>Tags</Label>
+              <Input
+                placeholder="e.g. regular, wine lover"
+                value={form.tags}
+                onChange={(e) => setForm(prev => ({ ...prev, tags: e.target.value }))}
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                checked={form.vip_status}
+                onCheckedChange={(vip_status) => setForm(prev => ({ ...prev, vip_status }))}
+              />
+              <Label>VIP</Label>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Notes</Label>
+            <Textarea value={form.notes} onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))} />
+          </div>
+          <div className="flex justify-between">
+            <Button variant="outline" className="text-red-600" onClick={deleteGuest}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+            <Button onClick={saveGuest} disabled={saving || !form.name.trim()}>
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preferences</CardTitle>
+          <CardDescription>Approved from calls and applied to new bookings</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {preferenceEntries.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">No preferences recorded</div>
+          ) : (
+            <div className="space-y-2">
+              {preferenceEntries.map(([category, values]) => (
+                <div key={category} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="w-32 text-muted-foreground">{preferenceLabels[category] || category}</span>
+                  {values.map(value => (
+                    <Badge key={value} variant="secondary" className="gap-1">
+                      {value}
+                      <button onClick={() => removePreference(category, value)} aria-label={`Remove ${value}`}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Visit History</CardTitle>
+          {history && (
+            <CardDescription>
+              {history.summary.visits} visits · {history.summary.no_shows} no-shows · {history.summary.cancellations} cancellations
+              {history.summary.average_party_size > 0 && ` · average party of ${history.summary.average_party_size}`}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {!history || history.reservations.length === 0 ? (
+            <div className="text-center py-6 text-muted-foreground">No reservations yet</div>
+          ) : (
+            <div className="divide-y">
+              {history.reservations.map(reservation => (
+                <div key={reservation.id} className="flex items-center justify-between py-2 text-sm">
+                  <span>
+                    {format(parseISO(reservation.reservation_date), 'EEE, MMM d, yyyy')} at {reservation.reservation_time.slice(0, 5)}
+                    <span className="text-muted-foreground"> · party of {reservation.party_size}</span>
+                    {reservation.occasion && <span className="text-muted-foreground"> · {reservation.occasion}</span>}
+                  </span>
+                  <Badge className={statusColors[reservation.status] || 'bg-gray-100 text-gray-800'}>
+                    {reservation.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Check, Loader2, X } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { useRestaurantTime } from '@/lib/location-context'
+
+interface PreferenceSuggestion {
+  id: string
+  guest_id: string
+  category: string
+  value: string
+  evidence?: string
+  created_at: string
+  guests?: { id: string; name: string; phone?: string }
+}
+
+export const preferenceLabels: Record<string, string> = {
+  seating: 'Seating',
+  dietary: 'Dietary',
+  allergies: 'Allergies',
+  occasions: 'Occasions',
+  favorite_dishes: 'Favorite dishes',
+}
+
+interface PreferenceSuggestionsProps {
+  guestId?: string
+  onReviewed: (guestId: string) => void
+}
+
+// Preferences heard on calls, waiting for a host to approve (optionally corrected) or reject
+export function PreferenceSuggestions({ guestId, onReviewed }: PreferenceSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<PreferenceSuggestion[] | null>(null)
+  const [edits, setEdits] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { formatTime } = useRestaurantTime()
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchSuggestions()
+  }, [guestId])
+
+  const fetchSuggestions = async () => {
+    try {
+      const params = new URLSearchParams({ status: 'pending' })
+      if (guestId) params.set('guest_id', guestId)
+      const response = await fetch(`${backendUrl}/api/guests/preference-suggestions?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to load preference suggestions')
+      }
+      setSuggestions(await response.json())
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+      setSuggestions([])
+    }
+  }
+
+  const review = async (suggestion: PreferenceSuggestion, action: 'approve' | 'reject') => {
+    setBusyId(suggestion.id)
+    try {
+      const response = await fetch(`${backendUrl}/api/guests/preference-suggestions/${suggestion.id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'approve' ? { value: edits[suggestion.id] } : {}),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setSuggestions(prev => (prev || []).filter(s => s.id !== suggestion.id))
+      onReviewed(suggestion.guest_id)
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!suggestions) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    )
+  }
+
+  if (suggestions.length === 0) {
+    return <div className="text-center py-6 text-muted-foreground">No preferences waiting for review</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      {suggestions.map(suggestion => (
+        <div key={suggestion.id} className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center gap-2 text-sm">
+            <Badge variant="outline">{preferenceLabels[suggestion.category] || suggestion.category}</Badge>
+            {!guestId && <span className="font-medium">{suggestion.guests?.name}</span>}
+            <span className="ml-auto text-muted-foreground">
+              {formatTime(suggestion.created_at, 'MMM d, h:mm a')}
+            </span>
+          </div>
+          {suggestion.evidence && (
+            <p className="text-sm italic text-muted-foreground">&ldquo;{suggestion.evidence}&rdquo;</p>
+          )}
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8"
+              value={edits[suggestion.id] ?? suggestion.value}
+              onChange={(e) => setEdits(prev => ({ ...prev, [suggestion.id]: e.target.value }))}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busyId === suggestion.id}
+              onClick={() => review(suggestion, 'reject')}
+            >
+              <X className="mr-1 h-3 w-3" />
+              Reject
+            </Button>
+            <Button size="sm" disabled={busyId === suggestion.id} onClick={() => review(suggestion, 'approve')}>
+              <Check className="mr-1 h-3 w-3" />
+              Approve
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
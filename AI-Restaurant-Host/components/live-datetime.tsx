@@ -1,9 +1,11 @@
 "use client"
 
 import { useEffect, useState } from "react"
+import { useRestaurantTime } from "@/lib/location-context"
 
 export function LiveDateTime() {
   const [dateTime, setDateTime] = useState<Date>(new Date())
+  const { timezone } = useRestaurantTime()
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -21,7 +23,8 @@ export function LiveDateTime() {
       day: 'numeric',
       hour: 'numeric',
       minute: '2-digit',
-      hour12: true
+      hour12: true,
+      timeZone: timezone
     }
     
     return date.toLocaleDateString('en-US', options)
@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+// Same tags the backend matches against menu_items.allergens
+export const commonAllergens = [
+  'gluten',
+  'dairy',
+  'eggs',
+  'peanuts',
+  'tree_nuts',
+  'fish',
+  'shellfish',
+  'molluscs',
+  'soy',
+  'sesame',
+  'mustard',
+  'celery',
+  'sulphites',
+  'lupin',
+]
+
+export const allergenLabel = (allergen: string) =>
+  allergen.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase())
+
+interface AllergyPickerProps {
+  value: string[]
+  onChange: (allergies: string[]) => void
+  disabled?: boolean
+}
+
+// Toggle the common allergens, or add one the list doesn't cover
+export function AllergyPicker({ value, onChange, disabled }: AllergyPickerProps) {
+  const [other, setOther] = useState('')
+
+  const toggle = (allergen: string) => {
+    onChange(value.includes(allergen) ? value.filter(a => a !== allergen) : [...value, allergen])
+  }
+
+  const addOther = () => {
+    const allergen = other.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    if (allergen && !value.includes(allergen)) {
+      onChange([...value, allergen])
+    }
+    setOther('')
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {[...commonAllergens, ...value.filter(a => !commonAllergens.includes(a))].map(allergen => (
+          <Button
+            key={allergen}
+            type="button"
+            size="sm"
+            variant={value.includes(allergen) ? 'destructive' : 'outline'}
+            disabled={disabled}
+            onClick={() => toggle(allergen)}
+          >
+            {allergenLabel(allergen)}
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Other allergy"
+          value={other}
+          disabled={disabled}
+          onChange={(e) => setOther(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addOther()
+            }
+          }}
+        />
+        <Button type="button" variant="outline" size="icon" disabled={disabled || !other.trim()} onClick={addOther}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from '@/hooks/use-toast'
+import { AllergyPicker, allergenLabel } from './allergy-picker'
+
+interface UnsafeMenuItem {
+  menu_item_id: string
+  name: string
+  category?: string
+  allergens: string[]
+}
+
+interface AllergyReport {
+  allergies: string[]
+  dietary_restrictions?: string
+  unsafe_items: UnsafeMenuItem[]
+  unlabelled_items: string[]
+}
+
+interface ReservationAllergiesProps {
+  reservationId: string
+  onSaved?: () => void
+}
+
+// A reservation's allergies, editable, with the dishes the kitchen must not serve the table
+export function ReservationAllergies({ reservationId, onSaved }: ReservationAllergiesProps) {
+  const [report, setReport] = useState<AllergyReport | null>(null)
+  const [allergies, setAllergies] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchReport()
+  }, [reservationId])
+
+  const fetchReport = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/reservations/${reservationId}/allergies`)
+      if (!response.ok) {
+        throw new Error('Failed to load allergies')
+      }
+      const data: AllergyReport = await response.json()
+      setReport(data)
+      setAllergies(data.allergies)
+    } catch (error) {
+      console.error('Error fetching allergies:', error)
+    }
+  }
+
+  const saveAllergies = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/reservations/${reservationId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ allergies }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save allergies')
+      }
+      toast({ title: 'Allergies saved' })
+      await fetchReport()
+      onSaved?.()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!report) {
+    return (
+      <div className="flex justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    )
+  }
+
+  const changed = [...allergies].sort().join() !== [...report.allergies].sort().join()
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <p className="text-muted-foreground">Allergies</p>
+        {changed && (
+          <Button size="sm" onClick={saveAllergies} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+            Save
+          </Button>
+        )}
+      </div>
+      <AllergyPicker value={allergies} onChange={setAllergies} disabled={saving} />
+      {report.dietary_restrictions && (
+        <p className="text-muted-foreground">Notes: {report.dietary_restrictions}</p>
+      )}
+
+      {report.unsafe_items.length > 0 && (
+        <div className="space-y-1 rounded-lg border border-red-200 bg-red-50 p-3">
+          <p className="flex items-center gap-1 font-medium text-red-800">
+            <AlertTriangle className="h-3 w-3" />
+            Unsafe for this table
+          </p>
+          {report.unsafe_items.map(item => (
+            <div key={item.menu_item_id} className="flex items-center justify-between gap-2">
+              <span>{item.name}</span>
+              <span className="flex gap-1">
+                {item.allergens.map(allergen => (
+                  <Badge key={allergen} className="bg-red-100 text-red-800">{allergenLabel(allergen)}</Badge>
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {report.unlabelled_items.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          No allergen information for: {report.unlabelled_items.join(', ')}. Check with the kitchen.
+        </p>
+      )}
+    </div>
+  )
+}
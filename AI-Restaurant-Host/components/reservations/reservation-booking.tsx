@@ -34,6 +34,7 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { toast } from '@/hooks/use-toast'
+import { AllergyPicker } from './allergy-picker'
 
 const formSchema = z.object({
   guest_name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -56,6 +57,7 @@ export function ReservationBooking() {
   const [checkingSlots, setCheckingSlots] = useState(false)
   const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([])
   const [selectedDate, setSelectedDate] = useState<Date>()
+  const [allergies, setAllergies] = useState<string[]>([])
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -103,6 +105,7 @@ export function ReservationBooking() {
         },
         body: JSON.stringify({
           ...values,
+          allergies,
           reservation_date: selectedSlot?.start_time,
           table_id: selectedSlot?.table_name,
         }),
@@ -121,6 +124,7 @@ export function ReservationBooking() {
 
       // Reset form
       form.reset()
+      setAllergies([])
       setAvailableSlots([])
       setSelectedDate(undefined)
     } catch (error) {
@@ -327,6 +331,15 @@ export function ReservationBooking() {
               )}
             </div>
 
+            {/* Allergies */}
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold">Allergies</h3>
+              <p className="text-sm text-muted-foreground">
+                Let the kitchen know about any food allergies in your party
+              </p>
+              <AllergyPicker value={allergies} onChange={setAllergies} />
+            </div>
+
             <Button
               type="submit"
               className="w-full"
@@ -0,0 +1,211 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, Repeat } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+interface SeriesConflict {
+  id: string
+  occurrence_date: string
+  reason: string
+  alternatives: string[]
+}
+
+interface Occurrence {
+  id: string
+  reservation_date: string
+  reservation_time: string
+  status: string
+}
+
+interface Series {
+  id: string
+  guest_name: string
+  guest_phone: string
+  party_size: number
+  reservation_time: string
+  frequency: 'weekly' | 'biweekly' | 'monthly'
+  start_date: string
+  end_date?: string
+  skipped_dates: string[]
+  status: 'active' | 'ended'
+  conflicts: SeriesConflict[]
+  occurrences?: Occurrence[]
+}
+
+const frequencyLabels: Record<Series['frequency'], string> = {
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Every month'
+}
+
+export function StandingReservations() {
+  const [series, setSeries] = useState<Series[]>([])
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchSeries()
+  }, [])
+
+  const fetchSeries = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/reservations/series?status=active`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch standing reservations')
+      }
+      setSeries(await response.json())
+    } catch (error) {
+      console.error('Error fetching standing reservations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleSeries = async (id: string) => {
+    if (expanded === id) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(id)
+    await fetchDetail(id)
+  }
+
+  const fetchDetail = async (id: string) => {
+    try {
+      const response = await fetch(`${backendUrl}/api/reservations/series/${id}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch series')
+      }
+      const detail = await response.json()
+      setSeries(prev => prev.map(s => s.id === id ? { ...s, ...detail } : s))
+    } catch (error) {
+      console.error('Error fetching series:', error)
+    }
+  }
+
+  const skipDate = async (id: string, date: string) => {
+    try {
+      const response = await fetch(`${backendUrl}/api/reservations/series/${id}/skip`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date })
+      })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+      toast({ title: 'Occurrence skipped', description: `${date} will not be booked` })
+      await fetchSeries()
+      if (expanded === id) {
+        await fetchDetail(id)
+      }
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const endSeries = async (id: string) => {
+    try {
+      const response = await fetch(`${backendUrl}/api/reservations/series/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+      toast({ title: 'Standing reservation ended' })
+      setSeries(prev => prev.filter(s => s.id !== id))
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const conflictCount = series.reduce((sum, s) => sum + s.conflicts.length, 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            Standing Reservations
+          </CardTitle>
+          {conflictCount > 0 && (
+            <Badge variant="destructive">{conflictCount} need a table</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2].map(i => (
+              <div key={i} className="h-12 bg-gray-100 rounded animate-pulse" />
+            ))}
+          </div>
+        ) : series.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            No standing reservations
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {series.map(s => (
+              <div key={s.id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <button className="text-left" onClick={() => toggleSeries(s.id)}>
+                    <div className="font-medium">{s.guest_name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {frequencyLabels[s.frequency]} at {s.reservation_time.slice(0, 5)} · party of {s.party_size}
+                      {s.end_date ? ` · until ${s.end_date}` : ''}
+                    </div>
+                  </button>
+                  <Button variant="outline" size="sm" onClick={() => endSeries(s.id)}>
+                    End
+                  </Button>
+                </div>
+
+                {s.conflicts.map(conflict => (
+                  <div key={conflict.id} className="mt-2 flex items-center justify-between rounded bg-red-50 p-2 text-sm">
+                    <div className="flex items-center gap-2 text-red-800">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>
+                        {conflict.occurrence_date}: {conflict.reason}
+                        {conflict.alternatives?.length > 0 &&
+                          ` (free at ${conflict.alternatives.join(', ')})`}
+                      </span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => skipDate(s.id, conflict.occurrence_date)}>
+                      Skip
+                    </Button>
+                  </div>
+                ))}
+
+                {expanded === s.id && s.occurrences && (
+                  <div className="mt-2 space-y-1">
+                    {s.occurrences.map(occurrence => (
+                      <div key={occurrence.id} className="flex items-center justify-between text-sm">
+                        <span>{occurrence.reservation_date}</span>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{occurrence.status}</Badge>
+                          {occurrence.status === 'confirmed' && (
+                            <Button variant="ghost" size="sm" onClick={() => skipDate(s.id, occurrence.reservation_date)}>
+                              Skip
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
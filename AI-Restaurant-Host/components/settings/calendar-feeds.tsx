@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { CalendarPlus, Copy, Trash2 } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { useRestaurantTime } from '@/lib/location-context'
+
+interface CalendarFeed {
+  id: string
+  name: string
+  section?: string | null
+  statuses: string[]
+  days_ahead: number
+  url: string
+  last_accessed_at?: string
+}
+
+const statusOptions = ['pending_payment', 'confirmed', 'arrived', 'seated', 'completed', 'cancelled', 'no-show']
+
+const emptyFeed = { name: '', section: '', statuses: [] as string[], days_ahead: '7' }
+
+// Private iCalendar links managers subscribe to in Google, Apple or Outlook calendars
+export function CalendarFeeds() {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([])
+  const [newFeed, setNewFeed] = useState(emptyFeed)
+  const { formatTime } = useRestaurantTime()
+  const [creating, setCreating] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchFeeds()
+  }, [])
+
+  const fetchFeeds = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/calendar/feeds`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch calendar feeds')
+      }
+      setFeeds(await response.json())
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const toggleStatus = (status: string) => {
+    setNewFeed(prev => ({
+      ...prev,
+      statuses: prev.statuses.includes(status)
+        ? prev.statuses.filter(s => s !== status)
+        : [...prev.statuses, status],
+    }))
+  }
+
+  const createFeed = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/calendar/feeds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newFeed.name || undefined,
+          section: newFeed.section || undefined,
+          statuses: newFeed.statuses,
+          days_ahead: newFeed.days_ahead,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Calendar feed created', description: 'Copy the link into your calendar app.' })
+      setNewFeed(emptyFeed)
+      await fetchFeeds()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const deleteFeed = async (feed: CalendarFeed) => {
+    if (!confirm(`Revoke "${feed.name}"? Calendars subscribed to it will stop updating.`)) {
+      return
+    }
+    try {
+      const response = await fetch(`${backendUrl}/api/calendar/feeds/${feed.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      setFeeds(prev => prev.filter(f => f.id !== feed.id))
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    await navigator.clipboard.writeText(feed.url)
+    toast({ title: 'Link copied' })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feeds</CardTitle>
+        <CardDescription>
+          Subscribe to upcoming bookings from your calendar app. Anyone with a link can read it, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {feeds.length > 0 && (
+          <div className="divide-y rounded-lg border">
+            {feeds.map(feed => (
+              <div key={feed.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">{feed.name}</p>
+                  <div className="flex flex-wrap gap-1 text-sm text-muted-foreground">
+                    <Badge variant="outline">{feed.section || 'All sections'}</Badge>
+                    <Badge variant="outline">
+                      {feed.statuses.length ? feed.statuses.join(', ') : 'Upcoming and seated'}
+                    </Badge>
+                    <Badge variant="outline">Next {feed.days_ahead} days</Badge>
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {feed.last_accessed_at
+                      ? `Last synced ${formatTime(feed.last_accessed_at, 'MMM d, h:mm a')}`
+                      : 'Not synced yet'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => copyUrl(feed)}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Copy link
+                  </Button>
+                  <Button variant="outline" size="sm" className="text-red-600" onClick={() => deleteFeed(feed)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g. Patio this week"
+                value={newFeed.name}
+                onChange={(e) => setNewFeed(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Section</Label>
+              <Input
+                placeholder="All sections, or e.g. patio"
+                value={newFeed.section}
+                onChange={(e) => setNewFeed(prev => ({ ...prev, section: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Days ahead</Label>
+              <Input
+                type="number"
+                min={0}
+                max={60}
+                value={newFeed.days_ahead}
+                onChange={(e) => setNewFeed(prev => ({ ...prev, days_ahead: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Statuses</Label>
+            <div className="flex flex-wrap gap-2">
+              {statusOptions.map(status => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={newFeed.statuses.includes(status) ? 'default' : 'outline'}
+                  onClick={() => toggleStatus(status)}
+                >
+                  {status}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">None selected shows upcoming and seated bookings.</p>
+          </div>
+          <Button onClick={createFeed} disabled={creating}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Create Feed
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
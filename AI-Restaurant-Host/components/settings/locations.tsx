@@ -0,0 +1,324 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { MapPin, Plus, Save, UserCheck } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { Location } from '@/lib/location-context'
+
+interface StaffLocation {
+  user_id: string
+  restaurant_id: string
+}
+
+const emptyLocation = { name: '', phone_number: '', timezone: '', elevenlabs_agent_id: '', elevenlabs_phone_number_id: '' }
+
+// The group's restaurants, the agent and number answering each, and which staff can open them
+export function Locations() {
+  const [locations, setLocations] = useState<Location[]>([])
+  const [assignments, setAssignments] = useState<StaffLocation[]>([])
+  const [newLocation, setNewLocation] = useState(emptyLocation)
+  const [staffUser, setStaffUser] = useState('')
+  const [staffAccess, setStaffAccess] = useState<string[]>([])
+  const [saving, setSaving] = useState<string | null>(null)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchLocations()
+    fetchAssignments()
+  }, [])
+
+  const fetchLocations = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/locations?include_inactive=true`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch locations')
+      }
+      setLocations(await response.json())
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const fetchAssignments = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/locations/staff`)
+      if (response.ok) {
+        setAssignments(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching staff access:', error)
+    }
+  }
+
+  const updateField = (id: string, field: keyof Location, value: string | boolean) => {
+    setLocations(prev => prev.map(location => location.id === id ? { ...location, [field]: value } : location))
+  }
+
+  const saveLocation = async (location: Location) => {
+    setSaving(location.id)
+    try {
+      const response = await fetch(`${backendUrl}/api/locations/${location.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: location.name,
+          phone_number: location.phone_number || null,
+          timezone: location.timezone || null,
+          elevenlabs_agent_id: location.elevenlabs_agent_id || null,
+          elevenlabs_phone_number_id: location.elevenlabs_phone_number_id || null,
+          is_active: location.is_active !== false,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setLocations(prev => prev.map(l => l.id === data.id ? data : l))
+      toast({ title: 'Location saved', description: data.name })
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const createLocation = async () => {
+    setSaving('new')
+    try {
+      const response = await fetch(`${backendUrl}/api/locations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newLocation.name,
+          phone_number: newLocation.phone_number || undefined,
+          timezone: newLocation.timezone || undefined,
+          elevenlabs_agent_id: newLocation.elevenlabs_agent_id || undefined,
+          elevenlabs_phone_number_id: newLocation.elevenlabs_phone_number_id || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Location added', description: data.name })
+      setNewLocation(emptyLocation)
+      await fetchLocations()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const selectStaff = (userId: string) => {
+    setStaffUser(userId)
+    setStaffAccess(assignments.filter(a => a.user_id === userId).map(a => a.restaurant_id))
+  }
+
+  const toggleAccess = (restaurantId: string) => {
+    setStaffAccess(prev => prev.includes(restaurantId)
+      ? prev.filter(id => id !== restaurantId)
+      : [...prev, restaurantId])
+  }
+
+  const saveStaffAccess = async () => {
+    setSaving('staff')
+    try {
+      const response = await fetch(`${backendUrl}/api/locations/staff/${encodeURIComponent(staffUser.trim())}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ restaurant_ids: staffAccess }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Staff access saved', description: staffUser })
+      await fetchAssignments()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const staffUsers = assignments.map(a => a.user_id).filter((id, index, ids) => ids.indexOf(id) === index)
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name || id
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Locations</CardTitle>
+        <CardDescription>
+          Each location has its own tables, guests, bookings, settings and timezone. Calls are matched to a
+          location by the agent that answers them or the number that was dialled.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {locations.length > 0 && (
+          <div className="divide-y rounded-lg border">
+            {locations.map(location => (
+              <div key={location.id} className="space-y-3 p-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{location.name}</span>
+                    <Badge variant="outline">{location.slug}</Badge>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`active-${location.id}`} className="text-sm text-muted-foreground">Active</Label>
+                    <Switch
+                      id={`active-${location.id}`}
+                      checked={location.is_active !== false}
+                      onCheckedChange={(checked) => updateField(location.id, 'is_active', checked)}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-3 md:grid-cols-5">
+                  <Input
+                    placeholder="Name"
+                    value={location.name}
+                    onChange={(e) => updateField(location.id, 'name', e.target.value)}
+                  />
+                  <Input
+                    placeholder="Phone number"
+                    value={location.phone_number || ''}
+                    onChange={(e) => updateField(location.id, 'phone_number', e.target.value)}
+                  />
+                  <Input
+                    placeholder="Timezone, e.g. Europe/Rome"
+                    value={location.timezone || ''}
+                    onChange={(e) => updateField(location.id, 'timezone', e.target.value)}
+                  />
+                  <Input
+                    placeholder="ElevenLabs agent ID"
+                    value={location.elevenlabs_agent_id || ''}
+                    onChange={(e) => updateField(location.id, 'elevenlabs_agent_id', e.target.value)}
+                  />
+                  <Input
+                    placeholder="ElevenLabs phone number ID"
+                    value={location.elevenlabs_phone_number_id || ''}
+                    onChange={(e) => updateField(location.id, 'elevenlabs_phone_number_id', e.target.value)}
+                  />
+                </div>
+                <Button size="sm" variant="outline" disabled={saving !== null} onClick={() => saveLocation(location)}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g. Downtown"
+                value={newLocation.name}
+                onChange={(e) => setNewLocation(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Phone number</Label>
+              <Input
+                placeholder="+1 555 123 4567"
+                value={newLocation.phone_number}
+                onChange={(e) => setNewLocation(prev => ({ ...prev, phone_number: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Input
+                placeholder="e.g. Europe/Rome"
+                value={newLocation.timezone}
+                onChange={(e) => setNewLocation(prev => ({ ...prev, timezone: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Agent ID</Label>
+              <Input
+                placeholder="Optional"
+                value={newLocation.elevenlabs_agent_id}
+                onChange={(e) => setNewLocation(prev => ({ ...prev, elevenlabs_agent_id: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Agent phone number ID</Label>
+              <Input
+                placeholder="Optional"
+                value={newLocation.elevenlabs_phone_number_id}
+                onChange={(e) => setNewLocation(prev => ({ ...prev, elevenlabs_phone_number_id: e.target.value }))}
+              />
+            </div>
+          </div>
+          <Button onClick={createLocation} disabled={saving !== null || !newLocation.name.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Location
+          </Button>
+        </div>
+
+        {locations.length > 0 && (
+          <div className="space-y-4 border-t pt-6">
+            <div>
+              <h3 className="font-medium">Staff access</h3>
+              <p className="text-sm text-muted-foreground">
+                Staff only see the locations they are assigned to. Admins see every location.
+              </p>
+            </div>
+            {staffUsers.length > 0 && (
+              <div className="divide-y rounded-lg border">
+                {staffUsers.map(userId => (
+                  <button
+                    key={userId}
+                    className="flex w-full items-center justify-between gap-4 p-3 text-left hover:bg-muted/50"
+                    onClick={() => selectStaff(userId)}
+                  >
+                    <span className="font-medium">{userId}</span>
+                    <div className="flex flex-wrap gap-1">
+                      {assignments.filter(a => a.user_id === userId).map(a => (
+                        <Badge key={a.restaurant_id} variant="outline">{locationName(a.restaurant_id)}</Badge>
+                      ))}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Staff member</Label>
+              <Input
+                placeholder="User ID or email"
+                value={staffUser}
+                onChange={(e) => selectStaff(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {locations.map(location => (
+                <Button
+                  key={location.id}
+                  size="sm"
+                  variant={staffAccess.includes(location.id) ? 'default' : 'outline'}
+                  onClick={() => toggleAccess(location.id)}
+                >
+                  {location.name}
+                </Button>
+              ))}
+            </div>
+            <Button onClick={saveStaffAccess} disabled={saving !== null || !staffUser.trim()}>
+              <UserCheck className="mr-2 h-4 w-4" />
+              Save Access
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
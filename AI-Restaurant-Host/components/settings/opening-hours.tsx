@@ -0,0 +1,294 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { HoursPeriod, SpecialHours } from '@/lib/mock-data/restaurant-data'
+import { useRestaurantTime } from '@/lib/location-context'
+
+interface DaySchedule {
+  date: string
+  open: boolean
+  periods: HoursPeriod[]
+  blackouts: HoursPeriod[]
+  reason?: string
+  note?: string
+}
+
+const kindLabels: Record<SpecialHours['kind'], string> = {
+  closed: 'Closed',
+  special_hours: 'Special hours',
+  blackout: 'Private event'
+}
+
+const kindColors: Record<SpecialHours['kind'], string> = {
+  closed: 'bg-red-100 text-red-800',
+  special_hours: 'bg-blue-100 text-blue-800',
+  blackout: 'bg-purple-100 text-purple-800'
+}
+
+const emptyForm = {
+  kind: 'closed' as SpecialHours['kind'],
+  start_date: '',
+  end_date: '',
+  reason: '',
+  periods: [] as HoursPeriod[]
+}
+
+export function OpeningHours() {
+  const [week, setWeek] = useState<DaySchedule[]>([])
+  const [entries, setEntries] = useState<SpecialHours[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const { timezone, today } = useRestaurantTime()
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchHours()
+  }, [timezone])
+
+  const fetchHours = async () => {
+    try {
+      const [weekResponse, entriesResponse] = await Promise.all([
+        fetch(`${backendUrl}/api/availability/hours`),
+        fetch(`${backendUrl}/api/availability/special-hours?from=${today()}`)
+      ])
+      if (!weekResponse.ok || !entriesResponse.ok) {
+        throw new Error('Failed to fetch opening hours')
+      }
+      setWeek(await weekResponse.json())
+      setEntries(await entriesResponse.json())
+    } catch (error) {
+      console.error('Error fetching opening hours:', error)
+    }
+  }
+
+  const updatePeriod = (index: number, field: keyof HoursPeriod, value: string) => {
+    setForm(prev => ({
+      ...prev,
+      periods: prev.periods.map((period, i) => i === index ? { ...period, [field]: value } : period)
+    }))
+  }
+
+  const addEntry = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/availability/special-hours`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          end_date: form.end_date || form.start_date,
+          periods: form.kind === 'closed' ? [] : form.periods
+        })
+      })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+      toast({ title: 'Opening hours updated', description: 'Availability and the voice agent now use the new hours.' })
+      setForm(emptyForm)
+      await fetchHours()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeEntry = async (id: string) => {
+    try {
+      const response = await fetch(`${backendUrl}/api/availability/special-hours/${id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+      await fetchHours()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const describePeriods = (periods: HoursPeriod[] = []) =>
+    periods.map(p => `${p.name ? `${p.name} ` : ''}${p.open}–${p.close}`).join(', ')
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>This Week</CardTitle>
+          <CardDescription>
+            Opening hours guests will be offered, including any special hours below
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {week.map(day => (
+            <div key={day.date} className="flex items-center justify-between rounded-lg border p-3">
+              <span className="font-medium">{format(parseISO(day.date), 'EEEE, MMM d')}</span>
+              <div className="flex items-center gap-2 text-sm">
+                {day.note && <Badge variant="outline">{day.note}</Badge>}
+                {day.open ? (
+                  <span>
+                    {describePeriods(day.periods)}
+                    {day.blackouts.length > 0 && (
+                      <span className="text-muted-foreground"> (private event {describePeriods(day.blackouts)})</span>
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-red-600">{day.reason || 'Closed'}</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Special Hours & Closures</CardTitle>
+          <CardDescription>
+            Holidays, shortened days and private buyouts override the weekly schedule
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(kind: SpecialHours['kind']) => setForm(prev => ({
+                  ...prev,
+                  kind,
+                  periods: kind === 'special_hours' && prev.periods.length === 0
+                    ? [{ open: '17:00', close: '22:00' }]
+                    : prev.periods
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(kindLabels) as SpecialHours['kind'][]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{kindLabels[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm(prev => ({ ...prev, start_date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input
+                type="date"
+                value={form.end_date}
+                onChange={(e) => setForm(prev => ({ ...prev, end_date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Input
+                placeholder="e.g. Christmas Day"
+                value={form.reason}
+                onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {form.kind !== 'closed' && (
+            <div className="space-y-2">
+              <Label>
+                {form.kind === 'blackout' ? 'Blocked times (leave empty for the whole day)' : 'Service periods'}
+              </Label>
+              {form.periods.map((period, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    className="w-40"
+                    placeholder="Name (optional)"
+                    value={period.name || ''}
+                    onChange={(e) => updatePeriod(index, 'name', e.target.value)}
+                  />
+                  <Input
+                    className="w-32"
+                    type="time"
+                    value={period.open}
+                    onChange={(e) => updatePeriod(index, 'open', e.target.value)}
+                  />
+                  <span>to</span>
+                  <Input
+                    className="w-32"
+                    type="time"
+                    value={period.close}
+                    onChange={(e) => updatePeriod(index, 'close', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setForm(prev => ({ ...prev, periods: prev.periods.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, periods: [...prev.periods, { open: '17:00', close: '22:00' }] }))}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add period
+              </Button>
+            </div>
+          )}
+
+          <Button onClick={addEntry} disabled={saving || !form.start_date}>
+            {saving ? 'Saving...' : 'Add'}
+          </Button>
+
+          <div className="space-y-2">
+            {entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No upcoming special hours</p>
+            ) : entries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center gap-3">
+                  <Badge className={kindColors[entry.kind]}>{kindLabels[entry.kind]}</Badge>
+                  <div>
+                    <div className="font-medium">
+                      {entry.start_date}{entry.end_date !== entry.start_date ? ` – ${entry.end_date}` : ''}
+                      {entry.reason ? ` · ${entry.reason}` : ''}
+                    </div>
+                    {entry.periods && entry.periods.length > 0 && (
+                      <div className="text-sm text-muted-foreground">{describePeriods(entry.periods)}</div>
+                    )}
+                  </div>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => removeEntry(entry.id!)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+
+interface FloorTable {
+  id: string
+  table_number: string
+  capacity: number
+}
+
+interface TableCombination {
+  id: string
+  name: string
+  table_ids: string[]
+  min_party_size: number
+  max_party_size: number
+  is_active: boolean
+}
+
+const emptyCombination = { name: '', table_ids: [] as string[], min_party_size: '1', max_party_size: '' }
+
+// Groups of tables pushed together for larger parties; offered only when no single table fits
+export function TableCombinations() {
+  const [tables, setTables] = useState<FloorTable[]>([])
+  const [combinations, setCombinations] = useState<TableCombination[]>([])
+  const [newCombination, setNewCombination] = useState(emptyCombination)
+  const [creating, setCreating] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchTables()
+    fetchCombinations()
+  }, [])
+
+  const fetchTables = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/tables`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch tables')
+      }
+      setTables(await response.json())
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const fetchCombinations = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/tables/combinations`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch table combinations')
+      }
+      setCombinations(await response.json())
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const tableNumber = (id: string) => tables.find(table => table.id === id)?.table_number || 'Inactive table'
+
+  const toggleTable = (id: string) => {
+    setNewCombination(prev => {
+      const table_ids = prev.table_ids.includes(id)
+        ? prev.table_ids.filter(t => t !== id)
+        : [...prev.table_ids, id]
+      // Start from the combined seats; the manager can lower it after picking the tables
+      const seats = tables.filter(table => table_ids.includes(table.id)).reduce((sum, table) => sum + table.capacity, 0)
+      return { ...prev, table_ids, max_party_size: seats ? String(seats) : '' }
+    })
+  }
+
+  const createCombination = async () => {
+    setCreating(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/tables/combinations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newCombination.name || newCombination.table_ids.map(tableNumber).join('+'),
+          table_ids: newCombination.table_ids,
+          min_party_size: Number(newCombination.min_party_size || 1),
+          max_party_size: Number(newCombination.max_party_size),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: 'Combination added', description: `${data.name} can now be offered to larger parties.` })
+      setNewCombination(emptyCombination)
+      await fetchCombinations()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const updateCombination = async (combination: TableCombination, changes: Partial<TableCombination>) => {
+    try {
+      const response = await fetch(`${backendUrl}/api/tables/combinations/${combination.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      setCombinations(prev => prev.map(c => c.id === data.id ? data : c))
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  const deleteCombination = async (combination: TableCombination) => {
+    if (!confirm(`Delete "${combination.name}"? Existing bookings keep their tables.`)) {
+      return
+    }
+    try {
+      const response = await fetch(`${backendUrl}/api/tables/combinations/${combination.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error)
+      }
+      setCombinations(prev => prev.filter(c => c.id !== combination.id))
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Table Combinations</CardTitle>
+        <CardDescription>
+          Tables that can be pushed together for larger parties. A combination is only offered when no single table fits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {combinations.length > 0 && (
+          <div className="divide-y rounded-lg border">
+            {combinations.map(combination => (
+              <div key={combination.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">{combination.name}</p>
+                  <div className="flex flex-wrap gap-1 text-sm text-muted-foreground">
+                    {combination.table_ids.map(id => (
+                      <Badge key={id} variant="outline">{tableNumber(id)}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    aria-label="Smallest party"
+                    defaultValue={combination.min_party_size}
+                    onBlur={(e) => Number(e.target.value) !== combination.min_party_size &&
+                      updateCombination(combination, { min_party_size: Number(e.target.value) })}
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    aria-label="Largest party"
+                    defaultValue={combination.max_party_size}
+                    onBlur={(e) => Number(e.target.value) !== combination.max_party_size &&
+                      updateCombination(combination, { max_party_size: Number(e.target.value) })}
+                  />
+                  <span className="text-sm text-muted-foreground">guests</span>
+                  <Switch
+                    checked={combination.is_active}
+                    onCheckedChange={(checked) => updateCombination(combination, { is_active: checked })}
+                  />
+                  <Button variant="outline" size="sm" className="text-red-600" onClick={() => deleteCombination(combination)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Tables</Label>
+            <div className="flex flex-wrap gap-2">
+              {tables.map(table => (
+                <Button
+                  key={table.id}
+                  size="sm"
+                  variant={newCombination.table_ids.includes(table.id) ? 'default' : 'outline'}
+                  onClick={() => toggleTable(table.id)}
+                >
+                  {table.table_number} ({table.capacity})
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder={newCombination.table_ids.map(tableNumber).join('+') || 'e.g. T3+T4'}
+                value={newCombination.name}
+                onChange={(e) => setNewCombination(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Smallest party</Label>
+              <Input
+                type="number"
+                min={1}
+                value={newCombination.min_party_size}
+                onChange={(e) => setNewCombination(prev => ({ ...prev, min_party_size: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Largest party</Label>
+              <Input
+                type="number"
+                min={1}
+                value={newCombination.max_party_size}
+                onChange={(e) => setNewCombination(prev => ({ ...prev, max_party_size: e.target.value }))}
+              />
+            </div>
+          </div>
+          <Button onClick={createCombination} disabled={creating || newCombination.table_ids.length < 2}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Combination
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
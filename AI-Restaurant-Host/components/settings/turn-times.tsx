@@ -0,0 +1,242 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { toast } from '@/hooks/use-toast'
+import { useRestaurantTime } from '@/lib/location-context'
+
+interface TurnTimeOverride {
+  party_size_min?: number
+  party_size_max?: number
+  days?: string[]
+  period?: string
+  minutes: number
+}
+
+interface TurnTimes {
+  default_minutes: number
+  service_periods: string[]
+  min_samples: number
+  lookback_days: number
+  overrides: TurnTimeOverride[]
+  model: {
+    learned_at?: string
+    turn_times: Record<string, { minutes: number; samples: number }>
+  }
+}
+
+const partySizeBuckets = ['1-2', '3-4', '5-6', '7+']
+
+export function TurnTimes() {
+  const [turnTimes, setTurnTimes] = useState<TurnTimes | null>(null)
+  const [overrides, setOverrides] = useState<TurnTimeOverride[]>([])
+  const [saving, setSaving] = useState(false)
+  const { formatTime } = useRestaurantTime()
+  const [learning, setLearning] = useState(false)
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000'
+
+  useEffect(() => {
+    fetchTurnTimes()
+  }, [])
+
+  const fetchTurnTimes = async () => {
+    try {
+      const response = await fetch(`${backendUrl}/api/availability/turn-times`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch turn times')
+      }
+      const data: TurnTimes = await response.json()
+      setTurnTimes(data)
+      setOverrides(data.overrides)
+    } catch (error) {
+      console.error('Error fetching turn times:', error)
+    }
+  }
+
+  const updateOverride = (index: number, field: keyof TurnTimeOverride, value: string) => {
+    setOverrides(prev => prev.map((override, i) => {
+      if (i !== index) return override
+      if (field === 'days') {
+        const days = value.split(',').map(day => day.trim().toLowerCase()).filter(Boolean)
+        return { ...override, days: days.length ? days : undefined }
+      }
+      if (field === 'period') {
+        return { ...override, period: value || undefined }
+      }
+      return { ...override, [field]: value === '' ? undefined : Number(value) }
+    }))
+  }
+
+  const saveOverrides = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/availability/turn-times/overrides`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overrides })
+      })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+      toast({ title: 'Turn times saved' })
+      await fetchTurnTimes()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const relearn = async () => {
+    setLearning(true)
+    try {
+      const response = await fetch(`${backendUrl}/api/availability/turn-times/learn`, { method: 'POST' })
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+      const { visits } = await response.json()
+      toast({ title: 'Turn times relearned', description: `Based on ${visits} completed visits` })
+      await fetchTurnTimes()
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' })
+    } finally {
+      setLearning(false)
+    }
+  }
+
+  if (!turnTimes) {
+    return null
+  }
+
+  const periods = [...turnTimes.service_periods, '*']
+  const learned = (bucket: string, period: string) => turnTimes.model.turn_times[`${bucket}|*|${period}`]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Turn Times</CardTitle>
+            <CardDescription>
+              How long each party holds its table. Learned from completed visits over the last {turnTimes.lookback_days} days;
+              anything without {turnTimes.min_samples} visits uses the {turnTimes.default_minutes}-minute default.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={relearn} disabled={learning}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${learning ? 'animate-spin' : ''}`} />
+            Relearn
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Party size</TableHead>
+              {periods.map(period => (
+                <TableHead key={period} className="capitalize">{period === '*' ? 'Any time' : period}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {partySizeBuckets.map(bucket => (
+              <TableRow key={bucket}>
+                <TableCell className="font-medium">{bucket}</TableCell>
+                {periods.map(period => {
+                  const value = learned(bucket, period)
+                  return (
+                    <TableCell key={period}>
+                      {value ? `${value.minutes} min` : <span className="text-muted-foreground">default</span>}
+                      {value && <span className="ml-1 text-xs text-muted-foreground">({value.samples})</span>}
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {turnTimes.model.learned_at && (
+          <p className="text-xs text-muted-foreground">
+            Last learned {formatTime(turnTimes.model.learned_at, 'MMM d, yyyy h:mm a')}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label>Overrides (first match wins)</Label>
+          {overrides.map((override, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <Input
+                className="w-24"
+                type="number"
+                placeholder="Min size"
+                value={override.party_size_min ?? ''}
+                onChange={(e) => updateOverride(index, 'party_size_min', e.target.value)}
+              />
+              <Input
+                className="w-24"
+                type="number"
+                placeholder="Max size"
+                value={override.party_size_max ?? ''}
+                onChange={(e) => updateOverride(index, 'party_size_max', e.target.value)}
+              />
+              <Input
+                className="w-48"
+                placeholder="Days (e.g. friday, saturday)"
+                defaultValue={override.days?.join(', ') ?? ''}
+                onBlur={(e) => updateOverride(index, 'days', e.target.value)}
+              />
+              <Input
+                className="w-32"
+                placeholder="Period"
+                value={override.period ?? ''}
+                onChange={(e) => updateOverride(index, 'period', e.target.value)}
+              />
+              <Input
+                className="w-24"
+                type="number"
+                placeholder="Minutes"
+                value={override.minutes || ''}
+                onChange={(e) => updateOverride(index, 'minutes', e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setOverrides(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOverrides(prev => [...prev, { minutes: turnTimes.default_minutes }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add override
+            </Button>
+            <Button size="sm" onClick={saveOverrides} disabled={saving}>
+              {saving ? 'Saving...' : 'Save overrides'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
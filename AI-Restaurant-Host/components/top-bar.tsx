@@ -1,7 +1,9 @@
 "use client"
 
-import { Bell, ChevronDown, Globe } from "lucide-react"
+import { useEffect, useState } from "react"
+import { Bell, Check, ChevronDown, Globe, MapPin } from "lucide-react"
 import { useLanguage } from "@/lib/language-context"
+import { Location, useLocation } from "@/lib/location-context"
 import { useRouter } from "next/navigation"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
@@ -15,6 +17,59 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Badge } from "@/components/ui/badge"
 
+// Switch between the group's restaurants; hidden when there is only the one
+function LocationSwitcher() {
+  const { restaurantId, setRestaurantId } = useLocation()
+  const { t } = useLanguage()
+  const [locations, setLocations] = useState<Location[]>([])
+
+  const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:5000"
+
+  useEffect(() => {
+    fetch(`${backendUrl}/api/locations`)
+      .then(response => response.ok ? response.json() : [])
+      .then((data: Location[]) => {
+        setLocations(data)
+        // Start in the first location this user can open
+        if (data.length > 0 && !data.some(location => location.id === restaurantId)) {
+          setRestaurantId(data[0].id)
+        }
+      })
+      .catch(error => console.error("Error fetching locations:", error))
+  }, [])
+
+  const current = locations.find(location => location.id === restaurantId)
+  if (!current) {
+    return null
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <MapPin className="h-4 w-4" />
+          <span>{current.name}</span>
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuLabel>{t("locations")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {locations.map(location => (
+          <DropdownMenuItem
+            key={location.id}
+            className="cursor-pointer gap-2"
+            onClick={() => location.id !== restaurantId && setRestaurantId(location.id)}
+          >
+            <Check className={`h-4 w-4 ${location.id === restaurantId ? "" : "invisible"}`} />
+            {location.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
 export function TopBar() {
   const { language, setLanguage, t } = useLanguage()
   const router = useRouter()
@@ -30,19 +85,7 @@ export function TopBar() {
   return (
     <header className="relative z-50 flex h-16 items-center justify-between border-b bg-background px-6">
       <div className="flex items-center gap-4">
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="outline" className="gap-2">
-              <span>Smile Dental Clinic</span>
-              <ChevronDown className="h-4 w-4" />
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent>
-            <DropdownMenuItem>Smile Dental Clinic</DropdownMenuItem>
-            <DropdownMenuItem>Downtown Practice</DropdownMenuItem>
-            <DropdownMenuItem>West Side Office</DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        <LocationSwitcher />
       </div>
 
       <div className="flex items-center gap-4">
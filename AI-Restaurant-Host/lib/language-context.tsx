@@ -17,8 +17,11 @@ const translations = {
     activeCall: "Active Call",
     callHistory: "Call History",
     reservations: "Reservations",
+    guests: "Guests",
+    events: "Events",
     aiTraining: "AI Training",
     analytics: "Analytics",
+    importExport: "Import & Export",
     settings: "Settings",
     help: "Help",
     
@@ -30,6 +33,7 @@ const translations = {
     team: "Team",
     myAccount: "My Account",
     navigation: "Navigation",
+    locations: "Locations",
     
     // Dashboard
     goodMorning: "Good morning",
@@ -70,8 +74,11 @@ const translations = {
     activeCall: "Chiamata Attiva",
     callHistory: "Cronologia",
     reservations: "Prenotazioni",
+    guests: "Ospiti",
+    events: "Eventi",
     aiTraining: "Formazione IA",
     analytics: "Analisi",
+    importExport: "Importa ed Esporta",
     settings: "Impostazioni",
     help: "Aiuto",
     
@@ -83,6 +90,7 @@ const translations = {
     team: "Squadra",
     myAccount: "Il Mio Account",
     navigation: "Navigazione",
+    locations: "Sedi",
     
     // Dashboard
     goodMorning: "Buongiorno",
@@ -0,0 +1,107 @@
+"use client"
+
+import React, { createContext, useContext, useEffect, useState } from "react"
+import { addDays, format, parseISO } from "date-fns"
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz"
+
+const STORAGE_KEY = "restaurant_id"
+const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:5000"
+
+export interface Location {
+  id: string
+  name: string
+  slug: string
+  phone_number?: string | null
+  timezone?: string | null
+  elevenlabs_agent_id?: string | null
+  elevenlabs_phone_number_id?: string | null
+  is_active?: boolean
+}
+
+interface LocationContextType {
+  restaurantId: string | null
+  setRestaurantId: (id: string) => void
+  // IANA zone every date and time on the dashboard is shown in
+  timezone: string
+}
+
+function storedRestaurantId(): string | null {
+  return typeof window === "undefined" ? null : localStorage.getItem(STORAGE_KEY)
+}
+
+// Every backend request works in the selected location, so tag them all with it
+// here rather than in each component
+if (typeof window !== "undefined") {
+  const originalFetch = window.fetch.bind(window)
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url
+    const restaurantId = storedRestaurantId()
+    if (!restaurantId || !url.startsWith(backendUrl)) {
+      return originalFetch(input, init)
+    }
+
+    const headers = new Headers(init?.headers || (input instanceof Request ? input.headers : undefined))
+    if (!headers.has("X-Restaurant-Id")) {
+      headers.set("X-Restaurant-Id", restaurantId)
+    }
+    return originalFetch(input, { ...init, headers })
+  }
+}
+
+const LocationContext = createContext<LocationContextType | undefined>(undefined)
+
+export function LocationProvider({ children }: { children: React.ReactNode }) {
+  const [restaurantId] = useState<string | null>(storedRestaurantId)
+  const [timezone, setTimezone] = useState<string>(() => Intl.DateTimeFormat().resolvedOptions().timeZone)
+
+  useEffect(() => {
+    fetch(`${backendUrl}/api/locations/current`)
+      .then(response => response.ok ? response.json() : null)
+      .then(current => {
+        if (current?.timezone) {
+          setTimezone(current.timezone)
+        }
+      })
+      .catch(error => console.error("Error fetching restaurant timezone:", error))
+  }, [])
+
+  // Every open view holds the old location's data, so start afresh
+  const setRestaurantId = (id: string) => {
+    localStorage.setItem(STORAGE_KEY, id)
+    window.location.reload()
+  }
+
+  return (
+    <LocationContext.Provider value={{ restaurantId, setRestaurantId, timezone }}>
+      {children}
+    </LocationContext.Provider>
+  )
+}
+
+export function useLocation() {
+  const context = useContext(LocationContext)
+  if (!context) {
+    throw new Error("useLocation must be used within a LocationProvider")
+  }
+  return context
+}
+
+// Times as the restaurant sees them, wherever the browser is. Stored timestamps are instants;
+// reservation dates and times are already the restaurant's wall clock and need no conversion.
+export function useRestaurantTime() {
+  const { timezone } = useLocation()
+
+  const formatTime = (date: Date | string | number, pattern: string) => formatInTimeZone(date, timezone, pattern)
+
+  // yyyy-MM-dd at the restaurant, optionally some days before or after
+  const today = (offsetDays: number = 0) =>
+    format(addDays(parseISO(formatTime(new Date(), "yyyy-MM-dd")), offsetDays), "yyyy-MM-dd")
+
+  return {
+    timezone,
+    formatTime,
+    today,
+    // The instant a restaurant day starts, for filtering timestamps
+    startOfDay: (offsetDays: number = 0) => fromZonedTime(`${today(offsetDays)}T00:00:00`, timezone),
+  }
+}
@@ -402,33 +402,18 @@ export const getDiningServiceByName = (serviceName: string): DiningService | und
   );
 };
 
-export const isClinicOpen = (date: Date = new Date()): boolean => {
-  const dayOfWeek = date.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  const currentTime = date.toTimeString().slice(0, 5); // HH:MM format
-  
-  const todayHours = clinicInfo.hours[dayOfWeek as keyof typeof clinicInfo.hours];
-  if (!todayHours || todayHours.closed) {
-    return false;
-  }
-  
-  return currentTime >= todayHours.open && currentTime < todayHours.close;
-};
+export interface HoursPeriod {
+  name?: string;
+  open: string;
+  close: string;
+}
 
-export const getNextAvailableDay = (): string => {
-  const today = new Date();
-  
-  for (let i = 1; i <= 7; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() + i);
-    
-    if (isClinicOpen(checkDate)) {
-      return checkDate.toLocaleDateString('en-US', { 
-        weekday: 'long', 
-        month: 'long', 
-        day: 'numeric' 
-      });
-    }
-  }
-  
-  return 'Monday'; // fallback
-};
\ No newline at end of file
+// Date-specific override of the weekly hours, as stored in the backend's special_hours table
+export interface SpecialHours {
+  id?: string;
+  start_date: string;
+  end_date: string;
+  kind: 'closed' | 'special_hours' | 'blackout';
+  periods?: HoursPeriod[];
+  reason?: string;
+}
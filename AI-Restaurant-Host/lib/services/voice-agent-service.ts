@@ -471,7 +471,7 @@ F) Bleeding after extraction
 
 #Reschedule And Cancellation
 - To reschedule, confirm name, date of birth, and reservation reference if available. Offer next suitable options. Confirm and send new confirmation.
-- For cancellations, confirm identity and cancel. Offer to rebook.
+- For cancellations, confirm identity and cancel. If the cancellation is inside the notice window, state the cancellation policy exactly as returned and tell the guest it is recorded as a late cancellation. Do not promise to waive it; only a manager can. Offer to rebook.
 
 #Off-Scope Topics
 If asked for diagnoses, prescriptions, complex medical advice, or insurance policy decisions, say: "I cannot provide medical advice. A chef can help with that. I can book you in now."
@@ -851,20 +851,34 @@ Use short, direct lines. Examples:
   }
 
   async checkAvailability(params: any) {
-    const { date, service_type } = params;
-    
-    // Generate some mock available slots
-    const slots = [
-      { time: '09:00', chef: 'Dr. Sarah Weber', available: true },
-      { time: '10:30', chef: 'Dr. Sarah Weber', available: true },
-      { time: '14:00', chef: 'Dr. Michael Chen', available: true },
-      { time: '15:30', chef: 'Dr. Sarah Weber', available: true }
-    ];
-    
+    const { date, time, party_size } = params;
+    const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:5000';
+    const query = new URLSearchParams({ date, party_size: String(party_size || 2) });
+
+    if (time) {
+      query.set('time', time);
+    }
+
+    // Same table engine the phone agent uses
+    const response = await fetch(`${backendUrl}/api/reservations/slots/available?${query.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Availability check failed: ${response.status}`);
+    }
+
+    const availability = await response.json();
+
     return {
       date,
-      service_type: service_type || 'general',
-      available_slots: slots
+      party_size: availability.party_size,
+      available_slots: availability.slots
+        .filter((slot: any) => slot.available)
+        .map((slot: any) => ({
+          time: slot.start_time,
+          tables: slot.tables.map((table: any) => table.table_number),
+          available: true
+        })),
+      reason: availability.reason
     };
   }
 }
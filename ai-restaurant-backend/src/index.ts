@@ -14,7 +14,8 @@ import rateLimit from 'express-rate-limit';
 // Import middleware
 import { authenticateToken, optionalAuth, authenticateWebhook, authenticateApiKey } from './middleware/auth';
 import { sanitizeInput } from './middleware/validation';
-import { requestId, securityHeaders, errorHandler, notFound, sanitizeJsonResponse, attackDetection, ipRateLimiter } from './middleware/security';
+import { locationScope, callerLocationScope, authorizeSocket } from './middleware/location';
+import { requestId, saveRawBody, securityHeaders, errorHandler, notFound, sanitizeJsonResponse, attackDetection, ipRateLimiter } from './middleware/security';
 
 // Import routers
 import elevenLabsRouter from './routes/elevenlabs';
@@ -22,8 +23,19 @@ import reservationsRouter from './routes/reservations';
 import availabilityRouter from './routes/availability';
 import callLogsRouter from './routes/callLogs';
 import outboundRouter from './routes/outbound';
-import webhooksRouter, { setupWebSocketBridge } from './routes/webhooks';
+import webhooksRouter, { healthRouter as webhookHealthRouter, setupWebSocketBridge } from './routes/webhooks';
 import healthRouter from './routes/health';
+import waitlistRouter from './routes/waitlist';
+import tablesRouter from './routes/tables';
+import paymentsRouter, { providerRouter as paymentCallbacksRouter } from './routes/payments';
+import eventsRouter from './routes/events';
+import menuRouter from './routes/menu';
+import guestsRouter from './routes/guests';
+import calendarRouter, { feedRouter as calendarFeedRouter } from './routes/calendar';
+import dataRouter from './routes/data';
+import locationsRouter from './routes/locations';
+import realtimeService from './services/realtimeService';
+import reservationScheduler from './services/reservationScheduler';
 
 // Import services
 import { OutboundCallScheduler } from './services/outboundScheduler';
@@ -78,14 +90,14 @@ app.use(cors({
     }
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 }));
 
 // Logging
 app.use(morgan('combined'));
 
 // Body parsing
-app.use(bodyParser.json({ limit: '10mb' }));
+app.use(bodyParser.json({ limit: '10mb', verify: saveRawBody }));
 app.use(bodyParser.urlencoded({ extended: true, limit: '10mb' }));
 app.use(express.raw({ type: 'application/json' })); // For webhook verification
 
@@ -99,18 +111,31 @@ app.use(generalLimiter);
 
 // Public routes (no authentication required)
 app.use('/api/health', healthRouter);
+app.use('/api/payments', paymentCallbacksRouter);
+app.use('/api/calendar', calendarFeedRouter);
 
 // Protected API Routes - require authentication
 // Note: In development, set SKIP_AUTH=true in .env to bypass authentication
-app.use('/api/elevenlabs', optionalAuth, elevenLabsRouter);
-app.use('/api/reservations', optionalAuth, reservationsRouter);
-app.use('/api/availability', optionalAuth, availabilityRouter);
-app.use('/api/call-logs', optionalAuth, callLogsRouter);
-app.use('/api/outbound', optionalAuth, outboundRouter);
+// locationScope limits each request to one restaurant when several are set up
+app.use('/api/elevenlabs', optionalAuth, locationScope, elevenLabsRouter);
+app.use('/api/reservations', optionalAuth, locationScope, reservationsRouter);
+app.use('/api/availability', optionalAuth, locationScope, availabilityRouter);
+app.use('/api/call-logs', optionalAuth, locationScope, callLogsRouter);
+app.use('/api/outbound', optionalAuth, locationScope, outboundRouter);
+app.use('/api/waitlist', optionalAuth, locationScope, waitlistRouter);
+app.use('/api/tables', optionalAuth, locationScope, tablesRouter);
+app.use('/api/payments', optionalAuth, locationScope, paymentsRouter);
+app.use('/api/events', optionalAuth, locationScope, eventsRouter);
+app.use('/api/menu', optionalAuth, locationScope, menuRouter);
+app.use('/api/guests', optionalAuth, locationScope, guestsRouter);
+app.use('/api/calendar', optionalAuth, locationScope, calendarRouter);
+app.use('/api/data', optionalAuth, locationScope, dataRouter);
+app.use('/api/locations', optionalAuth, locationsRouter);
 
 // Webhook Routes - use webhook authentication
 // Apply strict rate limiting to webhook endpoints
-app.use('/webhooks', strictLimiter, webhooksRouter);
+app.use('/webhooks', webhookHealthRouter);
+app.use('/webhooks', strictLimiter, callerLocationScope, webhooksRouter);
 
 // 404 handler - must be after all routes
 app.use(notFound);
@@ -130,12 +155,16 @@ async function startServer() {
     // await scheduler.start();
     console.log('⚠️ Outbound scheduler skipped - using placeholder keys');
 
+    // Mark no-shows and release unpaid deposit holds
+    reservationScheduler.start();
+
     // Create HTTP server
     const server = createServer(app);
 
     // Setup WebSocket server
     const wss = new WebSocket.Server({ server, path: '/websocket' });
     setupWebSocketBridge(wss);
+    realtimeService.attach(wss, authorizeSocket);
     console.log('✅ WebSocket server configured');
 
     // Start server
@@ -155,11 +184,13 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully...');
+  reservationScheduler.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully...');
+  reservationScheduler.stop();
   process.exit(0);
 });
 
@@ -11,9 +11,22 @@ import rateLimit from 'express-rate-limit';
 
 // Import routes
 import healthRouter from './routes/health';
-import webhooksRouter from './routes/webhooks';
-import appointmentsRouter from './routes/appointments';
+import webhooksRouter, { healthRouter as webhookHealthRouter } from './routes/webhooks';
+import reservationsRouter from './routes/reservations';
 import callLogsRouter from './routes/call-logs';
+import waitlistRouter from './routes/waitlist';
+import tablesRouter from './routes/tables';
+import paymentsRouter, { providerRouter as paymentCallbacksRouter } from './routes/payments';
+import availabilityRouter from './routes/availability';
+import eventsRouter from './routes/events';
+import menuRouter from './routes/menu';
+import guestsRouter from './routes/guests';
+import calendarRouter, { feedRouter as calendarFeedRouter } from './routes/calendar';
+import dataRouter from './routes/data';
+import locationsRouter from './routes/locations';
+import { optionalAuth } from './middleware/auth';
+import { saveRawBody } from './middleware/security';
+import { locationScope, callerLocationScope } from './middleware/location';
 
 const app = express();
 
@@ -38,15 +51,28 @@ app.use(cors({
 if (process.env.NODE_ENV !== 'production') {
   app.use(morgan('combined'));
 }
-app.use(bodyParser.json());
+app.use(bodyParser.json({ limit: '10mb', verify: saveRawBody })); // CSV imports arrive as JSON
 app.use(bodyParser.urlencoded({ extended: true }));
 app.use(limiter);
 
 // Routes
 app.use('/api/health', healthRouter);
-app.use('/api/appointments', appointmentsRouter);
-app.use('/api/call-logs', callLogsRouter);
-app.use('/webhooks', webhooksRouter);
+app.use('/api/payments', paymentCallbacksRouter);
+app.use('/api/calendar', calendarFeedRouter);
+app.use('/api/reservations', optionalAuth, locationScope, reservationsRouter);
+app.use('/api/call-logs', optionalAuth, locationScope, callLogsRouter);
+app.use('/api/waitlist', optionalAuth, locationScope, waitlistRouter);
+app.use('/api/tables', optionalAuth, locationScope, tablesRouter);
+app.use('/api/payments', optionalAuth, locationScope, paymentsRouter);
+app.use('/api/availability', optionalAuth, locationScope, availabilityRouter);
+app.use('/api/events', optionalAuth, locationScope, eventsRouter);
+app.use('/api/menu', optionalAuth, locationScope, menuRouter);
+app.use('/api/guests', optionalAuth, locationScope, guestsRouter);
+app.use('/api/calendar', optionalAuth, locationScope, calendarRouter);
+app.use('/api/data', optionalAuth, locationScope, dataRouter);
+app.use('/api/locations', optionalAuth, locationsRouter);
+app.use('/webhooks', webhookHealthRouter);
+app.use('/webhooks', callerLocationScope, webhooksRouter);
 
 // Error handler
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
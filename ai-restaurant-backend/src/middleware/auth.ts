@@ -45,17 +45,22 @@ export const optionalAuth = (req: AuthRequest, res: Response, next: NextFunction
   const token = authHeader && authHeader.split(' ')[1];
 
   if (token) {
-    try {
-      const decoded = jwt.verify(token, JWT_SECRET) as any;
-      req.user = decoded;
-    } catch (err) {
-      // Invalid token, but continue without user
-    }
+    // Invalid token, but continue without user
+    req.user = decodeToken(token);
   }
 
   next();
 };
 
+// Decode a JWT, or undefined when it is invalid or expired
+export const decodeToken = (token: string): any => {
+  try {
+    return jwt.verify(token, JWT_SECRET) as any;
+  } catch (err) {
+    return undefined;
+  }
+};
+
 // Webhook authentication middleware
 export const authenticateWebhook = (req: Request, res: Response, next: NextFunction) => {
   const webhookSecret = req.headers['x-webhook-secret'];
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import idempotencyService from '../services/idempotencyService';
+
+const MAX_KEY_LENGTH = 200;
+
+// Idempotency middleware factory - a repeated request gets the first one's response instead
+// of running again. The key is the Idempotency-Key header, or for agent tool calls one
+// derived from conversation_id and the details picked out of the body.
+export const idempotent = (scope: string, details: (body: any) => Record<string, any>) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers['idempotency-key'] as string | undefined;
+    if (header && header.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+    }
+
+    const body = req.body || {};
+    const requestDetails = details(body);
+    const key = idempotencyService.keyFor(scope, body.conversation_id, requestDetails, header);
+    if (!key) {
+      return next();
+    }
+
+    const outcome = await idempotencyService.begin(key, scope, requestDetails);
+
+    if (outcome.state === 'replay') {
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(outcome.status_code).json(outcome.response);
+    }
+    if (outcome.state === 'in_progress') {
+      return res.status(409).json({
+        success: false,
+        in_progress: true,
+        message: 'I\'m still finishing that request. One moment, please.'
+      });
+    }
+    if (outcome.state === 'mismatch') {
+      return res.status(422).json({ error: 'Idempotency-Key was already used for a different request' });
+    }
+
+    // Store the response before it goes out, so a retry that follows sees it
+    const originalJson = res.json;
+    res.json = function(data: any) {
+      idempotencyService.complete(key, res.statusCode, data)
+        .catch(error => console.error('Error storing idempotent response:', error))
+        .finally(() => originalJson.call(this, data));
+      return this;
+    };
+
+    next();
+  };
+};
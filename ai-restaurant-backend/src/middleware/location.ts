@@ -0,0 +1,119 @@
+import { Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
+import { AuthRequest, decodeToken } from './auth';
+import locationService from '../services/locationService';
+import { Restaurant } from '../services/supabaseService';
+import { runInLocation } from '../services/locationContext';
+
+type DashboardLocation =
+  | { restaurant: Restaurant | null }
+  | { status: number; error: string; message?: string };
+
+/**
+ * Helper: The location a dashboard request or socket works in. X-Restaurant-Id (or ?restaurant_id=)
+ * must name a known location, and signed-in staff can only open the locations they are assigned to.
+ * Null when no locations are set up, so there is nothing to scope.
+ */
+async function resolveDashboardLocation(user: any, requested?: string | null): Promise<DashboardLocation> {
+  const restaurants = await locationService.getAll();
+
+  // Single-restaurant setups have nothing to scope
+  if (restaurants.length === 0) {
+    return { restaurant: null };
+  }
+
+  let restaurant = requested ? restaurants.find(location => location.id === requested) : undefined;
+
+  if (requested && !restaurant) {
+    return { status: 404, error: 'Location not found' };
+  }
+
+  if (user && user.role !== 'admin') {
+    const allowed = await locationService.getStaffAccess(user.id || user.email);
+    if (restaurant && !allowed.includes(restaurant.id!)) {
+      return { status: 403, error: 'Forbidden', message: 'You are not assigned to this location' };
+    }
+
+    // Staff who haven't picked a location work in the first one they're assigned to
+    restaurant = restaurant || restaurants.find(location => allowed.includes(location.id!));
+    if (!restaurant) {
+      return { status: 403, error: 'Forbidden', message: 'You are not assigned to any location' };
+    }
+  }
+
+  // Running unscoped would read every location's data and write rows that belong to none
+  if (!restaurant) {
+    return { status: 400, error: 'Choose a location with the X-Restaurant-Id header' };
+  }
+
+  return { restaurant };
+}
+
+// Location scoping for the dashboard - runs the rest of the request inside one restaurant's data.
+// Mounted after optionalAuth, so a signed-in user is checked against their assigned locations.
+export const locationScope = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const requested = (req.headers['x-restaurant-id'] as string) || (req.query.restaurant_id as string);
+  const result = await resolveDashboardLocation(req.user, requested);
+
+  if ('status' in result) {
+    const { status, ...body } = result;
+    return res.status(status).json(body);
+  }
+
+  if (!result.restaurant) {
+    return next();
+  }
+
+  runInLocation(result.restaurant, () => next());
+};
+
+// Authorization for dashboard sockets on /websocket?channel=...&restaurant_id=... - the same
+// location rules as locationScope, with the token taken from ?token= or the Authorization header
+export const authorizeSocket = async (req: IncomingMessage): Promise<{ restaurantId: string | null } | { error: string }> => {
+  const url = new URL(req.url || '', 'http://localhost');
+  const header = req.headers['authorization'];
+  const token = url.searchParams.get('token') || (header && header.split(' ')[1]);
+
+  const user = token ? decodeToken(token) : undefined;
+  if (token && !user) {
+    return { error: 'Invalid token' };
+  }
+
+  const result = await resolveDashboardLocation(user, url.searchParams.get('restaurant_id'));
+  if ('status' in result) {
+    return { error: result.status === 400 ? 'Choose a location with ?restaurant_id=' : result.message || result.error };
+  }
+
+  return { restaurantId: result.restaurant?.id || null };
+};
+
+// Location scoping for ElevenLabs and Twilio - matched by the location in the agent's tool URL
+// (?restaurant_id=), the agent that took the call or the number that was dialled. These callers
+// have no user; the webhooks check their own signatures and secrets.
+export const callerLocationScope = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const restaurants = await locationService.getAll();
+
+  if (restaurants.length === 0) {
+    return next();
+  }
+
+  const requested = req.query.restaurant_id as string;
+  const body = req.body || {};
+
+  const restaurant = requested
+    ? restaurants.find(location => location.id === requested)
+    : await locationService.resolve({
+      agent_id: body.agent_id || body.data?.agent_id,
+      phone: body.called_number || body.To
+    });
+
+  if (requested && !restaurant) {
+    return res.status(404).json({ error: 'Location not found' });
+  }
+
+  if (!restaurant) {
+    return res.status(404).json({ error: 'No location matches this agent or number' });
+  }
+
+  runInLocation(restaurant, () => next());
+};
@@ -1,6 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage } from 'http';
 import crypto from 'crypto';
 
+declare global {
+  namespace Express {
+    interface Request {
+      // Exact bytes of a JSON body, kept by saveRawBody for signature checks
+      rawBody?: Buffer;
+    }
+  }
+}
+
 // Generate unique request ID for tracking
 export const requestId = (req: Request, res: Response, next: NextFunction) => {
   req.headers['x-request-id'] = req.headers['x-request-id'] || crypto.randomUUID();
@@ -89,6 +99,11 @@ export const timingSafeCompare = (a: string, b: string): boolean => {
   return crypto.timingSafeEqual(bufferA, bufferB);
 };
 
+// Keep the raw JSON body for webhooks whose signatures cover the exact bytes sent
+export const saveRawBody = (req: IncomingMessage & { rawBody?: Buffer }, res: unknown, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
 // Log security events
 export const logSecurityEvent = (event: string, details: any) => {
   console.log('[SECURITY]', {
@@ -1,3 +1,209 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
+import supabaseService, { SpecialHours } from '../services/supabaseService';
+import availabilityService, { validateSpecialHours } from '../services/availabilityService';
+import turnTimeService from '../services/turnTimeService';
+import { AuthRequest } from '../middleware/auth';
+import { addDaysToDate, localDate } from '../services/restaurantTime';
+
 const router = Router();
+
+// Get opening hours for a date range (default: the next 7 days), with special hours applied
+router.get('/hours', async (req: AuthRequest, res: Response) => {
+  try {
+    const from = (req.query.from as string) || localDate();
+    const to = (req.query.to as string) || addDaysToDate(from, 6);
+
+    if (to < from) {
+      return res.status(400).json({ error: 'to must not be before from' });
+    }
+
+    const schedules = await availabilityService.getSchedules(from, to);
+
+    res.json(schedules);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Whether the restaurant is open right now and when it next opens
+router.get('/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const status = await availabilityService.getOpeningStatus();
+
+    res.json(status);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List closures, special hours and blackouts overlapping a date range
+router.get('/special-hours', async (req: AuthRequest, res: Response) => {
+  try {
+    const { from, to } = req.query;
+
+    const result = await supabaseService.getSpecialHours({
+      from: from as string | undefined,
+      to: to as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a closure, special hours or blackout
+router.post('/special-hours', async (req: AuthRequest, res: Response) => {
+  try {
+    const { start_date, end_date, kind, periods, reason } = req.body;
+    const entry: SpecialHours = {
+      start_date,
+      end_date: end_date || start_date,
+      kind,
+      periods: periods || [],
+      reason,
+      created_by: req.user?.email || req.user?.id || 'staff'
+    };
+
+    const invalid = validateSpecialHours(entry);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const result = await supabaseService.createSpecialHours(entry);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a special hours entry
+router.put('/special-hours/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { start_date, end_date, kind, periods, reason } = req.body;
+    const updates: Partial<SpecialHours> = { start_date, end_date: end_date || start_date, kind, periods, reason };
+
+    const invalid = validateSpecialHours(updates);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const result = await supabaseService.updateSpecialHours(id, updates);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a special hours entry
+router.delete('/special-hours/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await supabaseService.deleteSpecialHours(id);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Turn-time overrides, the learned model and the default duration
+router.get('/turn-times', async (req: AuthRequest, res: Response) => {
+  try {
+    const turnTimes = await turnTimeService.getTurnTimes();
+
+    res.json(turnTimes);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Predicted turn time for a party at a date and time
+router.get('/turn-times/predict', async (req: AuthRequest, res: Response) => {
+  try {
+    const { date, time, party_size } = req.query;
+
+    if (!date || !time || !party_size) {
+      return res.status(400).json({ error: 'date, time and party_size are required' });
+    }
+
+    const turnTimes = await availabilityService.getTurnTimePredictor();
+
+    res.json({
+      date,
+      time,
+      party_size: Number(party_size),
+      minutes: turnTimes.predict(Number(party_size), date as string, time as string)
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace the turn-time overrides
+router.put('/turn-times/overrides', async (req: AuthRequest, res: Response) => {
+  try {
+    const { overrides } = req.body;
+
+    if (!Array.isArray(overrides)) {
+      return res.status(400).json({ error: 'overrides must be an array' });
+    }
+
+    const result = await turnTimeService.saveOverrides(overrides);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Relearn turn times from reservation history now
+router.post('/turn-times/learn', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await turnTimeService.learnTurnTimes();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
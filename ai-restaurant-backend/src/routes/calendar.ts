@@ -0,0 +1,107 @@
+import { Router, Request, Response } from 'express';
+import calendarService from '../services/calendarService';
+import { CalendarFeed } from '../services/supabaseService';
+import { AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+// Feeds calendar apps fetch, mounted ahead of authentication: the token is their credential
+export const feedRouter = Router();
+
+/**
+ * Who owns a feed: the signed-in staff member
+ */
+function getOwner(req: AuthRequest): string {
+  return req.user?.id || req.user?.email || 'staff';
+}
+
+/**
+ * A feed with the subscription URL calendar apps need
+ */
+function withUrl(feed: CalendarFeed) {
+  const baseUrl = process.env.WEBHOOK_BASE_URL || 'http://localhost:5000';
+  return { ...feed, url: `${baseUrl}/api/calendar/${feed.token}.ics` };
+}
+
+// The signed-in staff member's feeds
+router.get('/feeds', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await calendarService.getFeeds(getOwner(req));
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json((result.data || []).map(withUrl));
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a feed: { name?, section?, statuses?: [...], days_ahead? }
+router.post('/feeds', async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, section, statuses, days_ahead } = req.body;
+
+    const result = await calendarService.createFeed(getOwner(req), {
+      name,
+      section,
+      statuses: Array.isArray(statuses) ? statuses : undefined,
+      days_ahead: days_ahead === undefined || days_ahead === '' ? undefined : Number(days_ahead)
+    });
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(withUrl(result.data));
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revoke a feed
+router.delete('/feeds/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await calendarService.deleteFeed(id, getOwner(req));
+
+    if (!result.success) {
+      return res.status(404).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The feed itself, for calendar apps; the token is the credential. ?section= and ?status= narrow it.
+feedRouter.get('/:token.ics', async (req: Request, res: Response) => {
+  try {
+    const token = req.params.token as string;
+
+    const result = await calendarService.renderFeed(token, {
+      section: req.query.section as string | undefined,
+      status: req.query.status as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(404).json({ error: result.error });
+    }
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="reservations.ics"');
+    res.set('Cache-Control', 'no-cache');
+    res.send(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { supabase } from '../services/supabase';
+import { localDayRange } from '../services/restaurantTime';
 
 const router = Router();
 
@@ -29,14 +30,15 @@ router.get('/', async (req: Request, res: Response) => {
 
     // Filter by date
     if (date) {
-      const dateStr = date as string;
+      const { start, end } = localDayRange(date as string);
       query = query
-        .gte('created_at', `${dateStr}T00:00:00`)
-        .lte('created_at', `${dateStr}T23:59:59`);
+        .gte('created_at', start)
+        .lt('created_at', end);
     } else if (startDate && endDate) {
+      const { start, end } = localDayRange(startDate as string, endDate as string);
       query = query
-        .gte('created_at', startDate as string)
-        .lte('created_at', endDate as string);
+        .gte('created_at', start)
+        .lt('created_at', end);
     }
 
     // Filter by outcome
@@ -208,14 +210,15 @@ router.get('/stats/summary', async (req: Request, res: Response) => {
 
     // Filter by date
     if (date) {
-      const dateStr = date as string;
+      const { start, end } = localDayRange(date as string);
       query = query
-        .gte('created_at', `${dateStr}T00:00:00`)
-        .lte('created_at', `${dateStr}T23:59:59`);
+        .gte('created_at', start)
+        .lt('created_at', end);
     } else if (startDate && endDate) {
+      const { start, end } = localDayRange(startDate as string, endDate as string);
       query = query
-        .gte('created_at', startDate as string)
-        .lte('created_at', endDate as string);
+        .gte('created_at', start)
+        .lt('created_at', end);
     } else {
       // Default to last 30 days
       const thirtyDaysAgo = new Date();
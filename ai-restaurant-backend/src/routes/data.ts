@@ -0,0 +1,92 @@
+import { Router, Response } from 'express';
+import { localDate } from '../services/restaurantTime';
+import importService, { IMPORT_FIELDS, ImportType } from '../services/importService';
+import exportService, { ExportType } from '../services/exportService';
+import { AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+const IMPORT_TYPES = Object.keys(IMPORT_FIELDS);
+const EXPORT_TYPES = ['reservations', 'guests', 'call_logs', 'menu'];
+
+// Columns found in a CSV, the suggested mapping and sample rows: { csv }
+router.post('/import/:type/preview', async (req: AuthRequest, res: Response) => {
+  try {
+    const type = req.params.type as ImportType;
+    if (!IMPORT_TYPES.includes(type)) {
+      return res.status(404).json({ error: `Unknown import type: ${type}` });
+    }
+
+    const result = importService.preview(type, req.body.csv);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Validate and import a CSV: { csv, mapping: { field: column }, dry_run?, duplicates?: 'skip' | 'update', date_format?: 'mdy' | 'dmy' }
+router.post('/import/:type', async (req: AuthRequest, res: Response) => {
+  try {
+    const type = req.params.type as ImportType;
+    if (!IMPORT_TYPES.includes(type)) {
+      return res.status(404).json({ error: `Unknown import type: ${type}` });
+    }
+
+    const { csv, mapping, dry_run, duplicates, date_format } = req.body;
+    if (typeof csv !== 'string' || !mapping || typeof mapping !== 'object') {
+      return res.status(400).json({ error: 'csv and mapping are required' });
+    }
+
+    const result = await importService.runImport(
+      type,
+      csv,
+      mapping,
+      { dry_run: dry_run === true || dry_run === 'true', duplicates, date_format },
+      req.user?.email || 'staff'
+    );
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download a CSV: ?from=&to= (yyyy-MM-dd) and, for reservations, ?status=
+router.get('/export/:type', async (req: AuthRequest, res: Response) => {
+  try {
+    const type = req.params.type as ExportType;
+    if (!EXPORT_TYPES.includes(type)) {
+      return res.status(404).json({ error: `Unknown export type: ${type}` });
+    }
+
+    const result = await exportService.exportCsv(type, {
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      status: req.query.status as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="${type}-${localDate()}.csv"`);
+    res.send(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
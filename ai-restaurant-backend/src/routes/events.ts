@@ -0,0 +1,157 @@
+import { Router, Response } from 'express';
+import supabaseService from '../services/supabaseService';
+import eventService, { computeEventTotals } from '../services/eventService';
+import { AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Who made a change, for the reservation_logs audit trail of room holds
+ */
+function getActor(req: AuthRequest): string {
+  return req.user?.email || req.user?.id || 'staff';
+}
+
+// List events, optionally by status (comma-separated) and date range
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { status, from, to, contact_phone } = req.query;
+
+    const result = await supabaseService.getEvents({
+      status: status as string | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+      contact_phone: contact_phone as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json((result.data || []).map(event => ({ ...event, totals: computeEventTotals(event) })));
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Record a new event inquiry
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { contact_name, event_date, guest_count } = req.body;
+
+    if (!contact_name || !event_date || !guest_count) {
+      return res.status(400).json({ error: 'contact_name, event_date and guest_count are required' });
+    }
+
+    const result = await eventService.createInquiry(req.body, getActor(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get an event with its totals
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await supabaseService.getEvent(id);
+
+    if (!result.success || !result.data) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    res.json({ ...result.data, totals: computeEventTotals(result.data) });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Everything for the printable banquet event order
+router.get('/:id/beo', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await eventService.getBeo(id);
+
+    if (!result.success) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update event details and the proposal (set_menu is a list of menu item ids)
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await eventService.updateEvent(id, req.body, getActor(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ ...result.data, conflicts: result.conflicts || [] });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Move an event through the pipeline (proposal_sent, confirmed, completed, cancelled, lost)
+router.patch('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { status, reason } = req.body;
+
+    if (!status) {
+      return res.status(400).json({ error: 'status is required' });
+    }
+
+    const result = await eventService.updateStatus(id, status, getActor(req), { reason });
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ ...result.data, conflicts: result.conflicts || [] });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a deposit instalment paid (or unpaid with { paid: false })
+router.patch('/:id/deposits/:index', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const index = parseInt(req.params.index as string, 10);
+    const { paid = true } = req.body || {};
+
+    const result = await eventService.recordDeposit(id, index, !!paid);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
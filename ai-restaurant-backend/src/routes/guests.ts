@@ -0,0 +1,280 @@
+import { Router, Response } from 'express';
+import supabaseService from '../services/supabaseService';
+import guestService from '../services/guestService';
+import guestMergeService from '../services/guestMergeService';
+import preferenceService from '../services/preferenceService';
+import { AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Who made a change, for the guest_merges and preference review audit trails
+ */
+function getActor(req: AuthRequest): string {
+  return req.user?.email || req.user?.id || 'staff';
+}
+
+// Search guests by name, email or phone; ?vip=true and ?tag= narrow the list
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { search, vip, tag } = req.query;
+
+    const result = await guestService.searchGuests({
+      search: search as string | undefined,
+      vip: vip === undefined ? undefined : vip === 'true',
+      tag: tag as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a guest profile
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await guestService.createGuest(req.body);
+
+    if (!result.success) {
+      return res.status(result.duplicate_id ? 409 : 400).json({ error: result.error, duplicate_id: result.duplicate_id });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Guests that look like the same person (phone, email, similar name), most likely first
+router.get('/duplicates', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await guestMergeService.findDuplicates();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a proposed pair as different people
+router.post('/duplicates/dismiss', async (req: AuthRequest, res: Response) => {
+  try {
+    const { guest_ids } = req.body;
+
+    if (!Array.isArray(guest_ids) || guest_ids.length !== 2) {
+      return res.status(400).json({ error: 'guest_ids must list the two guests' });
+    }
+
+    const result = await guestMergeService.dismiss(guest_ids[0], guest_ids[1], getActor(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Merge guests into a survivor: { survivor_id, merged_ids: [...], reason? }
+router.post('/merge', async (req: AuthRequest, res: Response) => {
+  try {
+    const { survivor_id, merged_ids, reason } = req.body;
+
+    if (!survivor_id || !Array.isArray(merged_ids)) {
+      return res.status(400).json({ error: 'survivor_id and merged_ids are required' });
+    }
+
+    const result = await guestMergeService.mergeGuests(survivor_id, merged_ids, getActor(req), reason);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Audit of past merges, optionally into one guest
+router.get('/merges', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await guestMergeService.getMergeHistory(req.query.guest_id as string | undefined);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Preferences proposed from call transcripts; pending by default, ?status= and ?guest_id= narrow it
+router.get('/preference-suggestions', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await preferenceService.getSuggestions({
+      status: req.query.status as string | undefined,
+      guest_id: req.query.guest_id as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Re-run extraction on a call: { call_log_id }
+router.post('/preference-suggestions/extract', async (req: AuthRequest, res: Response) => {
+  try {
+    const { call_log_id } = req.body;
+
+    if (!call_log_id) {
+      return res.status(400).json({ error: 'call_log_id is required' });
+    }
+
+    const result = await preferenceService.extractFromCall(call_log_id);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a suggestion to the guest's preferences; { value } corrects it first
+router.post('/preference-suggestions/:id/approve', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await preferenceService.approve(id, getActor(req), req.body?.value);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reject a suggestion so it isn't proposed again
+router.post('/preference-suggestions/:id/reject', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await preferenceService.reject(id, getActor(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a guest with their reliability and upcoming reservations
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await guestService.getProfile(id);
+
+    if (!result.success) {
+      return res.status(404).json({ error: 'Guest not found' });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a guest's reservations, newest first, with visit totals
+router.get('/:id/visits', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await guestService.getVisitHistory(id);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a guest profile, e.g. { vip_status: true } or { tags: ["regular"] }
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await guestService.updateGuest(id, req.body);
+
+    if (!result.success) {
+      return res.status(result.duplicate_id ? 409 : 400).json({ error: result.error, duplicate_id: result.duplicate_id });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a guest profile; their reservations and calls are kept, unlinked
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await supabaseService.deleteGuest(id);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -7,4 +7,13 @@ export { default as availabilityRouter } from './availability';
 export { default as callLogsRouter } from './callLogs';
 export { default as outboundRouter } from './outbound';
 export { default as webhooksRouter } from './webhooks';
+export { default as waitlistRouter } from './waitlist';
+export { default as tablesRouter } from './tables';
+export { default as paymentsRouter } from './payments';
+export { default as eventsRouter } from './events';
+export { default as menuRouter } from './menu';
+export { default as guestsRouter } from './guests';
+export { default as calendarRouter } from './calendar';
+export { default as dataRouter } from './data';
+export { default as locationsRouter } from './locations';
 export { default as healthRouter } from './health';
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { Router, Response } from 'express';
+import locationService from '../services/locationService';
+import { AuthRequest, requireRole } from '../middleware/auth';
+import { runInLocation } from '../services/locationContext';
+import { restaurantTimezone } from '../services/restaurantTime';
+
+const router = Router();
+
+// Only a signed-in admin manages locations and staff access
+const adminOnly = requireRole(['admin']);
+
+// Locations the signed-in staff member can switch between
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const locations = await locationService.getLocations(req.user);
+    res.json(req.query.include_inactive === 'true'
+      ? locations
+      : locations.filter(location => location.is_active !== false));
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The selected location (X-Restaurant-Id) or the single restaurant, with the timezone its times are shown in
+router.get('/current', async (req: AuthRequest, res: Response) => {
+  try {
+    const requested = (req.headers['x-restaurant-id'] as string) || (req.query.restaurant_id as string);
+    const location = requested ? await locationService.getById(requested) : undefined;
+
+    const describe = () => ({
+      id: location?.id || null,
+      name: locationService.restaurantName(),
+      timezone: restaurantTimezone()
+    });
+
+    res.json(location ? runInLocation(location, describe) : describe());
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a location: { name, slug?, phone_number?, timezone?, elevenlabs_agent_id?, elevenlabs_phone_number_id? }
+router.post('/', adminOnly, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await locationService.createLocation(req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Staff location assignments: [{ user_id, restaurant_id }]
+router.get('/staff', adminOnly, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await locationService.getAssignments();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set the locations a staff member can open: { restaurant_ids: [...] }
+router.put('/staff/:userId', adminOnly, async (req: AuthRequest, res: Response) => {
+  try {
+    const { restaurant_ids } = req.body;
+    if (!Array.isArray(restaurant_ids)) {
+      return res.status(400).json({ error: 'restaurant_ids must be a list' });
+    }
+
+    const result = await locationService.setStaffAccess(req.params.userId as string, restaurant_ids);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ user_id: req.params.userId, restaurant_ids: result.data });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a location's name, number, timezone, agent or active flag
+router.put('/:id', adminOnly, async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    if (!(await locationService.getById(id))) {
+      return res.status(404).json({ error: 'Location not found' });
+    }
+
+    const result = await locationService.updateLocation(id, req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
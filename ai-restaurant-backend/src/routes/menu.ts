@@ -0,0 +1,146 @@
+import { Router, Response } from 'express';
+import supabaseService, { MenuItem } from '../services/supabaseService';
+import menuService, { normalizeMenuItem, validateMenuItem } from '../services/menuService';
+import { AuthRequest } from '../middleware/auth';
+
+const router = Router();
+
+// Fields staff may set on a menu item
+const MENU_FIELDS: (keyof MenuItem)[] = [
+  'name',
+  'description',
+  'category',
+  'price',
+  'dietary_info',
+  'allergens',
+  'is_available',
+  'is_featured',
+  'preparation_time_minutes',
+  'image_url'
+];
+
+function pickMenuFields(body: Record<string, any>): Partial<MenuItem> {
+  const item: Partial<MenuItem> = {};
+  for (const field of MENU_FIELDS) {
+    if (body[field] !== undefined) {
+      (item as any)[field] = body[field];
+    }
+  }
+  return item;
+}
+
+/**
+ * Comma-separated query value as a list
+ */
+function listParam(value: unknown): string[] | undefined {
+  return value ? (value as string).split(',').map(v => v.trim()).filter(Boolean) : undefined;
+}
+
+// List menu items, filtered by category, availability, dietary tags and allergens to avoid
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { category, available, dietary, exclude_allergens, search } = req.query;
+
+    const result = await menuService.getMenu({
+      category: category as string | undefined,
+      available: available === undefined ? undefined : available === 'true',
+      dietary: listParam(dietary),
+      exclude_allergens: listParam(exclude_allergens),
+      search: search as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a single menu item
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await supabaseService.getMenuItem(id);
+
+    if (!result.success) {
+      return res.status(404).json({ error: 'Menu item not found' });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a menu item
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const item = pickMenuFields(req.body);
+
+    const invalid = validateMenuItem(item, true);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const result = await supabaseService.createMenuItem(normalizeMenuItem(item as MenuItem));
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a menu item, e.g. { is_available: false } when the kitchen runs out
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const updates = pickMenuFields(req.body);
+
+    const invalid = validateMenuItem(updates, false);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const result = await supabaseService.updateMenuItem(id, normalizeMenuItem(updates));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a menu item; event proposals keep their own copy of the dishes
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await supabaseService.deleteMenuItem(id);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
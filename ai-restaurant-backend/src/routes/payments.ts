@@ -0,0 +1,165 @@
+import { Router, Response } from 'express';
+import supabaseService from '../services/supabaseService';
+import reservationService from '../services/reservationService';
+import paymentService from '../services/paymentService';
+import reservationScheduler from '../services/reservationScheduler';
+import locationService from '../services/locationService';
+import { AuthRequest } from '../middleware/auth';
+import { runInLocation } from '../services/locationContext';
+
+const router = Router();
+
+// Callbacks from the payment provider and the guest's payment page. Mounted ahead of
+// authentication, as neither comes with a signed-in user.
+export const providerRouter = Router();
+
+// The fake provider's payment page confirms any payment it's asked to, so it only exists
+// where fake payments are configured, and never in production
+const fakeProviderRouter = Router();
+if (paymentService.providerName === 'fake' && process.env.NODE_ENV !== 'production') {
+  providerRouter.use('/fake', fakeProviderRouter);
+}
+
+/**
+ * Helper: Run fn in the location a payment belongs to, since provider callbacks don't say
+ */
+async function inPaymentLocation<T>(providerPaymentId: string, fn: () => Promise<T>): Promise<T> {
+  const { data: payment } = await supabaseService.getPaymentByProviderId(providerPaymentId);
+  const location = payment?.restaurant_id ? await locationService.getById(payment.restaurant_id) : undefined;
+  return location ? runInLocation(location, fn) : fn();
+}
+
+// Get payments, optionally for one reservation
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { reservation_id, status } = req.query;
+
+    const result = await supabaseService.getPayments({
+      reservation_id: reservation_id as string | undefined,
+      status: status as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Payment provider callback when a guest pays; only signed ones are believed
+providerRouter.post('/webhook', async (req: AuthRequest, res: Response) => {
+  try {
+    const payload = req.rawBody?.toString('utf8') || '';
+    if (!paymentService.verifyWebhook(payload, req.headers)) {
+      return res.status(401).json({ error: 'Invalid payment webhook signature' });
+    }
+
+    const { provider_payment_id, status } = req.body;
+
+    if (!provider_payment_id) {
+      return res.status(400).json({ error: 'provider_payment_id is required' });
+    }
+
+    if (status && status !== 'paid') {
+      return res.json({ received: true });
+    }
+
+    const result = await inPaymentLocation(provider_payment_id, () => reservationService.confirmPayment(provider_payment_id));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json({ received: true, reservation: result.data });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Release reservations with unpaid deposits (for deployments without the in-process scheduler)
+router.post('/expire', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await reservationScheduler.expireUnpaidReservations();
+    res.json(result);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Local fake provider: show what the guest is being asked to pay
+fakeProviderRouter.get('/:providerPaymentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const providerPaymentId = req.params.providerPaymentId as string;
+
+    const result = await supabaseService.getPaymentByProviderId(providerPaymentId);
+
+    if (!result.success) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    res.json({
+      ...result.data,
+      pay_url: `${req.baseUrl}/${providerPaymentId}/pay`
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Local fake provider: simulate the guest completing payment
+fakeProviderRouter.post('/:providerPaymentId/pay', async (req: AuthRequest, res: Response) => {
+  try {
+    const providerPaymentId = req.params.providerPaymentId as string;
+
+    const result = await inPaymentLocation(providerPaymentId, () => reservationService.confirmPayment(providerPaymentId));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Refund part or all of a deposit (managers only)
+router.post('/:id/refund', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    if (!['admin', 'manager'].includes(req.user?.role)) {
+      return res.status(403).json({ error: 'Only a manager can issue refunds' });
+    }
+
+    const { data: payment } = await supabaseService.getPayment(id);
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    const amount = req.body.amount !== undefined
+      ? Number(req.body.amount)
+      : Number(payment.amount) - Number(payment.refunded_amount || 0);
+
+    const result = await paymentService.refund(payment, amount);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,232 +1,413 @@
-import { Router, Request, Response } from 'express';
-import { supabase } from '../services/supabase';
+import { Router, Response } from 'express';
+import supabaseService, { TABLE_CONFLICT_MESSAGE } from '../services/supabaseService';
+import reservationService from '../services/reservationService';
+import reservationScheduler from '../services/reservationScheduler';
+import seriesService from '../services/seriesService';
+import allergyService from '../services/allergyService';
+import { AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
+import { localDate } from '../services/restaurantTime';
 
 const router = Router();
 
-// Get appointments for a specific date range
-router.get('/', async (req: Request, res: Response) => {
+/**
+ * Who made a change, for the reservation_logs audit trail
+ */
+function getActor(req: AuthRequest): string {
+  return req.user?.email || req.user?.id || 'staff';
+}
+
+/**
+ * Only managers may waive a late cancellation
+ */
+function canOverride(req: AuthRequest): boolean {
+  return ['admin', 'manager'].includes(req.user?.role);
+}
+
+// Get reservations for a date or date range
+router.get('/', async (req: AuthRequest, res: Response) => {
   try {
-    const { date, startDate, endDate, status } = req.query;
+    const { date, startDate, endDate, status, guest_phone, series_id } = req.query;
+
+    const result = await supabaseService.getReservations({
+      date: date as string | undefined,
+      startDate: startDate as string | undefined,
+      endDate: endDate as string | undefined,
+      status: status as string | undefined,
+      guest_phone: guest_phone as string | undefined,
+      series_id: series_id as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Late and manager-waived cancellations for a date range
+router.get('/reports/late-cancellations', async (req: AuthRequest, res: Response) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const result = await reservationService.getLateCancellationReport(
+      startDate as string | undefined,
+      endDate as string | undefined
+    );
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pre-service allergy sheet: every table with an allergy on the date (default today)
+router.get('/reports/allergy-sheet', async (req: AuthRequest, res: Response) => {
+  try {
+    const date = (req.query.date as string) || localDate();
+
+    const result = await allergyService.getKitchenSheet(date);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Run no-show detection now (for deployments without the in-process scheduler)
+router.post('/no-shows/detect', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await reservationScheduler.detectNoShows();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List standing reservations, with open conflicts
+router.get('/series', async (req: AuthRequest, res: Response) => {
+  try {
+    const { status, guest_phone } = req.query;
+
+    const [result, conflicts] = await Promise.all([
+      supabaseService.getSeriesList({
+        status: status as string | undefined,
+        guest_phone: guest_phone as string | undefined
+      }),
+      supabaseService.getSeriesConflicts()
+    ]);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json((result.data || []).map(series => ({
+      ...series,
+      conflicts: (conflicts.data || []).filter(c => c.series_id === series.id)
+    })));
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a standing reservation and book its occurrences inside the booking window
+router.post('/series', async (req: AuthRequest, res: Response) => {
+  try {
+    const { guest_name, guest_phone, party_size, reservation_time, frequency, start_date } = req.body;
+
+    if (!guest_name || !guest_phone || !party_size || !reservation_time || !frequency || !start_date) {
+      return res.status(400).json({
+        error: 'guest_name, guest_phone, party_size, reservation_time, frequency and start_date are required'
+      });
+    }
+
+    const result = await seriesService.createSeries(req.body, getActor(req));
+
+    if (result.success === false) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Book upcoming occurrences for every series now (for deployments without the in-process scheduler)
+router.post('/series/generate', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await reservationScheduler.generateSeriesOccurrences();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
 
-    let query = supabase
-      .from('appointments')
-      .select(`
-        *,
-        dentists (
-          id,
-          name,
-          specialization
-        ),
-        patients (
-          id,
-          name,
-          phone,
-          email
-        )
-      `)
-      .order('appointment_date', { ascending: true });
+    res.json(result);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Filter by date
-    if (date) {
-      const dateStr = date as string;
-      query = query
-        .gte('appointment_date', `${dateStr}T00:00:00`)
-        .lte('appointment_date', `${dateStr}T23:59:59`);
-    } else if (startDate && endDate) {
-      query = query
-        .gte('appointment_date', startDate as string)
-        .lte('appointment_date', endDate as string);
+// Get a series with its occurrences and conflicts
+router.get('/series/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await seriesService.getSeriesDetail(id);
+
+    if (!result.success) {
+      return res.status(404).json({ error: 'Series not found' });
     }
 
-    // Filter by status
-    if (status) {
-      query = query.eq('status', status as string);
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Skip one occurrence of a series
+router.post('/series/:id/skip', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { date } = req.body;
+
+    if (!date) {
+      return res.status(400).json({ error: 'date is required' });
     }
 
-    const { data, error } = await query;
+    const result = await seriesService.skipOccurrence(id, date, getActor(req));
 
-    if (error) {
-      console.error('Error fetching appointments:', error);
-      return res.status(500).json({ error: error.message });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
     }
 
-    res.json(data || []);
+    res.json(result.data);
   } catch (error) {
     console.error('Server error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get a single appointment
-router.get('/:id', async (req: Request, res: Response) => {
+// End a series, cancelling occurrences after end_date (default today)
+router.delete('/series/:id', async (req: AuthRequest, res: Response) => {
   try {
-    const { id } = req.params;
+    const id = req.params.id as string;
+    const { end_date } = req.body || {};
 
-    const { data, error } = await supabase
-      .from('appointments')
-      .select(`
-        *,
-        dentists (
-          id,
-          name,
-          specialization
-        ),
-        patients (
-          id,
-          name,
-          phone,
-          email,
-          medical_history
-        )
-      `)
-      .eq('id', id)
-      .single();
+    const result = await seriesService.endSeries(id, end_date, getActor(req));
 
-    if (error) {
-      console.error('Error fetching appointment:', error);
-      return res.status(404).json({ error: 'Appointment not found' });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
     }
 
-    res.json(data);
+    res.json(result.data);
   } catch (error) {
     console.error('Server error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Create a new appointment
-router.post('/', async (req: Request, res: Response) => {
+// Get a single reservation
+router.get('/:id', async (req: AuthRequest, res: Response) => {
   try {
-    const appointmentData = req.body;
+    const id = req.params.id as string;
 
-    // First check if patient exists, if not create one
-    let patientId = appointmentData.patient_id;
+    const result = await supabaseService.getReservation(id);
 
-    if (!patientId && appointmentData.patient_phone) {
-      const { data: existingPatient } = await supabase
-        .from('patients')
-        .select('id')
-        .eq('phone', appointmentData.patient_phone)
-        .single();
+    if (!result.success) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      if (existingPatient) {
-        patientId = existingPatient.id;
-      } else {
-        const { data: newPatient, error: patientError } = await supabase
-          .from('patients')
-          .insert({
-            name: appointmentData.patient_name,
-            phone: appointmentData.patient_phone,
-            email: appointmentData.patient_email
-          })
-          .select()
-          .single();
+// Get a reservation's status changes and edits, oldest first
+router.get('/:id/history', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
 
-        if (patientError) {
-          console.error('Error creating patient:', patientError);
-          return res.status(500).json({ error: 'Failed to create patient' });
-        }
+    const result = await reservationService.getHistory(id);
 
-        patientId = newPatient.id;
-      }
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
     }
 
-    // Create the appointment
-    const { data, error } = await supabase
-      .from('appointments')
-      .insert({
-        ...appointmentData,
-        patient_id: patientId,
-        created_by: 'frontend'
-      })
-      .select()
-      .single();
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Menu items unsafe for a reservation's allergies
+router.get('/:id/allergies', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await allergyService.getReservationReport(id);
 
-    if (error) {
-      console.error('Error creating appointment:', error);
-      return res.status(500).json({ error: error.message });
+    if (!result.success) {
+      return res.status(404).json({ error: 'Reservation not found' });
     }
 
-    res.status(201).json(data);
+    res.json(result.data);
   } catch (error) {
     console.error('Server error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Update an appointment
-router.put('/:id', async (req: Request, res: Response) => {
+// Create a new reservation; send an Idempotency-Key header to make retries safe
+router.post('/', idempotent('create_reservation', body => body), async (req: AuthRequest, res: Response) => {
   try {
-    const { id } = req.params;
-    const updates = req.body;
+    const { guest_name, guest_phone, reservation_date, reservation_time, party_size } = req.body;
 
-    const { data, error } = await supabase
-      .from('appointments')
-      .update({
-        ...updates,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', id)
-      .select()
-      .single();
+    if (!guest_name || !guest_phone || !reservation_date || !reservation_time || !party_size) {
+      return res.status(400).json({
+        error: 'guest_name, guest_phone, reservation_date, reservation_time and party_size are required'
+      });
+    }
+
+    const result = await reservationService.bookReservation({
+      ...req.body,
+      source: req.body.source || 'phone',
+      created_by: getActor(req)
+    });
+
+    if (!result.success) {
+      return res.status(409).json(result);
+    }
+
+    res.status(201).json(result.reservation);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update reservation details; status changes must follow the lifecycle
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await reservationService.modifyReservation(id, req.body, getActor(req));
+
+    if (!result.success) {
+      return res.status(result.conflict || result.error === TABLE_CONFLICT_MESSAGE ? 409 : 400).json({
+        error: result.error,
+        conflict: result.conflict,
+        alternatives: result.alternatives
+      });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Move a reservation to its next lifecycle status (arrived, seated, completed, ...)
+router.patch('/:id/status', async (req: AuthRequest, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { status, reason, override } = req.body;
+
+    if (!status) {
+      return res.status(400).json({ error: 'status is required' });
+    }
+
+    if (override && !canOverride(req)) {
+      return res.status(403).json({ error: 'Only a manager can waive the cancellation policy' });
+    }
+
+    const result = status === 'cancelled'
+      ? await reservationService.cancelReservation(id, getActor(req), { override, reason })
+      : await reservationService.updateStatus(id, status, getActor(req), reason ? { reason } : {});
 
-    if (error) {
-      console.error('Error updating appointment:', error);
-      return res.status(500).json({ error: error.message });
+    if (result.success === false) {
+      return res.status(400).json({ error: result.error });
     }
 
-    res.json(data);
+    res.json(result.data);
   } catch (error) {
     console.error('Server error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Delete an appointment
-router.delete('/:id', async (req: Request, res: Response) => {
+// Cancel a reservation; rows are kept for the audit trail
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
   try {
-    const { id } = req.params;
+    const id = req.params.id as string;
+    const { override, reason } = req.body || {};
 
-    const { error } = await supabase
-      .from('appointments')
-      .delete()
-      .eq('id', id);
+    if (override && !canOverride(req)) {
+      return res.status(403).json({ error: 'Only a manager can waive the cancellation policy' });
+    }
+
+    const result = await reservationService.cancelReservation(id, getActor(req), { override, reason });
 
-    if (error) {
-      console.error('Error deleting appointment:', error);
-      return res.status(500).json({ error: error.message });
+    if (result.success === false) {
+      return res.status(400).json({ error: result.error });
     }
 
-    res.status(204).send();
+    res.json({ ...result.data, policy: result.policy });
   } catch (error) {
     console.error('Server error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get available slots for a specific date
-router.get('/slots/available', async (req: Request, res: Response) => {
+// Get available tables and times for a date and party size
+router.get('/slots/available', async (req: AuthRequest, res: Response) => {
   try {
-    const { date } = req.query;
+    const { date, party_size, time } = req.query;
 
     if (!date) {
       return res.status(400).json({ error: 'Date parameter is required' });
     }
 
-    const { data, error } = await supabase
-      .from('available_slots')
-      .select('*')
-      .gte('start_time', `${date}T00:00:00`)
-      .lte('start_time', `${date}T23:59:59`)
-      .eq('is_available', true)
-      .order('start_time', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching available slots:', error);
-      return res.status(500).json({ error: error.message });
+    const partySize = parseInt((party_size as string) || '2', 10);
+    if (isNaN(partySize) || partySize < 1) {
+      return res.status(400).json({ error: 'party_size must be a positive number' });
     }
 
-    res.json(data || []);
+    const availability = await reservationService.checkAvailability(
+      date as string,
+      partySize,
+      time as string | undefined
+    );
+
+    res.json(availability);
   } catch (error) {
     console.error('Server error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -0,0 +1,146 @@
+import { Router, Request, Response } from 'express';
+import tableService, { TableStatus, TABLE_TRANSITIONS } from '../services/tableService';
+
+const router = Router();
+
+// Get the live floor, optionally filtered by status
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+
+    const result = await tableService.getFloor(status as TableStatus | undefined);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the allowed status transitions
+router.get('/transitions', (req: Request, res: Response) => {
+  res.json(TABLE_TRANSITIONS);
+});
+
+// Get the table combinations, active or not
+router.get('/combinations', async (req: Request, res: Response) => {
+  try {
+    const result = await tableService.getCombinations();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a table combination
+router.post('/combinations', async (req: Request, res: Response) => {
+  try {
+    if (!Array.isArray(req.body.table_ids)) {
+      return res.status(400).json({ error: 'table_ids must be a list of table ids' });
+    }
+
+    const result = await tableService.createCombination(req.body);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a table combination
+router.put('/combinations/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    if (req.body.table_ids !== undefined && !Array.isArray(req.body.table_ids)) {
+      return res.status(400).json({ error: 'table_ids must be a list of table ids' });
+    }
+
+    const result = await tableService.updateCombination(id, req.body);
+
+    if (!result.success) {
+      const status = result.error === 'Table combination not found' ? 404 : 400;
+      return res.status(status).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a table combination
+router.delete('/combinations/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+
+    const result = await tableService.deleteCombination(id);
+
+    if (!result.success) {
+      const status = result.error === 'Table combination not found' ? 404 : 400;
+      return res.status(status).json({ error: result.error });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Return tables whose clean time has passed to available
+router.post('/release-cleaned', async (req: Request, res: Response) => {
+  try {
+    const result = await tableService.releaseCleanedTables();
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change a table's status
+router.patch('/:id/status', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { status } = req.body;
+
+    if (!status) {
+      return res.status(400).json({ error: 'status is required' });
+    }
+
+    const result = await tableService.setStatus(id, status);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
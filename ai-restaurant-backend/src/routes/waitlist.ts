@@ -0,0 +1,134 @@
+import { Router, Request, Response } from 'express';
+import supabaseService from '../services/supabaseService';
+import waitlistService from '../services/waitlistService';
+
+const router = Router();
+
+// Get the waitlist, optionally filtered by status and date
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { status, date } = req.query;
+
+    const result = await supabaseService.getWaitlist({
+      status: status ? (status as string).split(',') : undefined,
+      date: date as string | undefined
+    });
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data || []);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Quote the current wait for a party size
+router.get('/quote', async (req: Request, res: Response) => {
+  try {
+    const partySize = parseInt(req.query.party_size as string, 10);
+
+    if (isNaN(partySize) || partySize < 1) {
+      return res.status(400).json({ error: 'party_size must be a positive number' });
+    }
+
+    const estimate = await waitlistService.estimateWait(partySize);
+
+    res.json({
+      party_size: partySize,
+      can_seat: estimate !== null,
+      estimated_wait_minutes: estimate
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a party to the waitlist
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { guest_name, guest_phone, party_size } = req.body;
+
+    if (!guest_name || !guest_phone || !party_size) {
+      return res.status(400).json({ error: 'guest_name, guest_phone and party_size are required' });
+    }
+
+    const result = await waitlistService.addToWaitlist(req.body);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Expire stale entries (past dates and notified parties who never arrived)
+router.post('/expire', async (req: Request, res: Response) => {
+  try {
+    const result = await waitlistService.expireStale();
+    res.json(result);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Text the party that their table is ready
+router.post('/:id/notify', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const result = await waitlistService.notifyReady(id);
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Seat the party
+router.post('/:id/seat', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const result = await waitlistService.seat(id, req.body?.table_ids);
+
+    if (!result.success) {
+      return res.status(result.conflict ? 409 : 400).json({ error: result.error, conflict: result.conflict });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove the party from the waitlist
+router.post('/:id/expire', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const result = await waitlistService.expire(id);
+
+    if (!result.success) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error('Server error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
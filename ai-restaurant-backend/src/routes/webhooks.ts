@@ -4,10 +4,48 @@ import elevenLabsService from '../services/elevenlabsService';
 import twilioService from '../services/twilioService';
 import supabaseService from '../services/supabaseService';
 import reservationService from '../services/reservationService';
+import availabilityService, { DaySchedule, TableSlot, toMinutes } from '../services/availabilityService';
+import eventService from '../services/eventService';
+import guestService, { callerVariables, normalizePhone } from '../services/guestService';
+import preferenceService from '../services/preferenceService';
+import menuService, { describeDietary, normalizeAllergen, normalizeTag } from '../services/menuService';
+import locationService from '../services/locationService';
+import { format, parseISO } from 'date-fns';
+import { localTime } from '../services/restaurantTime';
+import idempotencyService from '../services/idempotencyService';
+import { idempotent } from '../middleware/idempotency';
 import WebSocket from 'ws';
 
 const router = Router();
 
+// What makes two calls of a tool the same request, however the agent phrased them. A repeat
+// in the same conversation - a retried tool call or a redelivered webhook - gets the first result.
+const TOOL_REQUEST_DETAILS: Record<string, (params: any) => Record<string, any>> = {
+  book_reservation: params => ({
+    guest_phone: normalizePhone(params.guest_phone || ''),
+    reservation_date: params.reservation_date,
+    reservation_time: (params.reservation_time || '').slice(0, 5),
+    party_size: Number(params.party_size)
+  }),
+  cancel_reservation: params => ({
+    guest_phone: normalizePhone(params.guest_phone || '')
+  }),
+  modify_reservation: params => ({
+    guest_phone: normalizePhone(params.guest_phone || ''),
+    reservation_id: params.reservation_id,
+    new_date: params.new_date,
+    new_time: (params.new_time || '').slice(0, 5),
+    party_size: params.party_size ? Number(params.party_size) : undefined
+  }),
+  capture_event_inquiry: params => ({
+    contact_phone: normalizePhone(params.contact_phone || ''),
+    event_date: params.event_date,
+    start_time: params.start_time,
+    guest_count: Number(params.guest_count),
+    event_type: params.event_type
+  })
+};
+
 // Twilio webhook validation middleware
 const twilioWebhookAuth = (req: Request, res: Response, next: Function) => {
   const twilioSignature = req.headers['x-twilio-signature'] as string;
@@ -72,28 +110,67 @@ router.post('/elevenlabs', elevenLabsWebhookAuth, async (req: Request, res: Resp
   }
 });
 
+/**
+ * Webhook ElevenLabs calls before an inbound call starts: recognise the caller
+ * by phone and hand their profile to the agent as dynamic variables
+ */
+router.post('/elevenlabs/conversation-initiation', elevenLabsWebhookAuth, async (req: Request, res: Response) => {
+  try {
+    const { caller_id } = req.body;
+
+    const context = await guestService.getCallerContext(caller_id);
+
+    res.json({
+      type: 'conversation_initiation_client_data',
+      dynamic_variables: context.dynamic_variables,
+      conversation_config_override: {
+        agent: { first_message: callerGreeting(context.dynamic_variables) }
+      }
+    });
+  } catch (error: any) {
+    console.error('Conversation initiation webhook error:', error);
+    // Never hold up the call: the agent falls back to its default greeting
+    res.json({
+      type: 'conversation_initiation_client_data',
+      dynamic_variables: callerVariables(req.body?.caller_id || '')
+    });
+  }
+});
+
 async function handleConversationStarted(event: any) {
   const { conversation_id, metadata } = event;
+  const phone = metadata?.phone_number || 'unknown';
+  const { guest_id } = await guestService.getCallerContext(phone);
 
-  // Create initial call log
+  // Create initial call log, linked to the caller's profile when we know them
   await supabaseService.createCallLog({
     call_id: conversation_id,
     call_type: metadata?.call_type || 'inbound',
-    phone_number: metadata?.phone_number || 'unknown',
+    phone_number: phone,
     outcome: 'in_progress',
-    lead_id: metadata?.lead_id
+    lead_id: metadata?.lead_id,
+    guest_id
   });
 }
 
 async function handleConversationEnded(event: any) {
   const { conversation_id, duration, transcript, metadata } = event;
 
-  // Update call log with final details
-  await supabaseService.updateCallLog(conversation_id, {
-    duration_seconds: duration,
-    transcript: transcript,
-    outcome: metadata?.outcome || 'completed'
-  });
+  // Update call log with final details; logs are keyed by their own id, not the conversation's
+  const { data: callLog } = await supabaseService.getCallLogByCallId(conversation_id);
+  if (callLog) {
+    await supabaseService.updateCallLog(callLog.id!, {
+      duration_seconds: duration,
+      transcript: typeof transcript === 'string' ? transcript : JSON.stringify(transcript),
+      outcome: metadata?.outcome || 'completed'
+    });
+
+    // Propose what the caller told us (seating, dietary, occasions...) for host review
+    const extracted = await preferenceService.extractFromCall(callLog.id!);
+    if (!extracted.success) {
+      console.error('Preference extraction failed:', extracted.error);
+    }
+  }
 
   // If this was an outbound lead call, update the lead status
   if (metadata?.lead_id) {
@@ -108,22 +185,82 @@ async function handleConversationEnded(event: any) {
 async function handleToolCall(event: any) {
   const { tool_name, parameters, conversation_id } = event;
 
+  const details = TOOL_REQUEST_DETAILS[tool_name];
+  if (!details) {
+    return runToolCall(event);
+  }
+
+  const requestDetails = details(parameters || {});
+  return idempotencyService.run(
+    tool_name,
+    idempotencyService.keyFor(tool_name, conversation_id, requestDetails),
+    requestDetails,
+    () => runToolCall(event)
+  );
+}
+
+async function runToolCall(event: any) {
+  const { tool_name, parameters, conversation_id } = event;
+
   let result;
   switch (tool_name) {
     case 'check_availability':
-      result = await reservationService.checkAvailability(parameters.date);
+      result = await reservationService.checkAvailability(
+        parameters.date,
+        Number(parameters.party_size),
+        parameters.time
+      );
       break;
 
     case 'book_reservation':
-      result = await reservationService.bookAppointment({
+      result = await reservationService.bookReservation({
         ...parameters,
         created_by: 'ai_agent',
         conversation_id
       });
       break;
 
+    case 'cancel_reservation':
+      result = await reservationService.cancelAppointmentByPhone(parameters.guest_phone);
+      break;
+
+    case 'modify_reservation':
+      result = await reservationService.rescheduleByPhone(parameters.guest_phone, parameters.reservation_id, {
+        reservation_date: parameters.new_date,
+        reservation_time: parameters.new_time,
+        party_size: parameters.party_size ? Number(parameters.party_size) : undefined
+      });
+      break;
+
+    case 'get_opening_hours':
+      result = parameters?.date
+        ? await availabilityService.getScheduleForDate(parameters.date)
+        : await availabilityService.getOpeningStatus();
+      break;
+
+    case 'capture_event_inquiry':
+      result = await eventService.createInquiry({
+        ...parameters,
+        source: 'ai_agent',
+        conversation_id
+      }, 'ai_agent');
+      break;
+
+    case 'get_menu':
+      result = await menuService.getMenu({
+        category: parameters?.category,
+        dietary: parameters?.dietary ? [parameters.dietary] : undefined,
+        exclude_allergens: parameters?.exclude_allergen ? [parameters.exclude_allergen] : undefined,
+        available: true
+      });
+      break;
+
+    case 'check_dish':
+      result = await menuService.findDish(parameters.dish_name);
+      break;
+
     case 'get_guest_info':
-      result = await reservationService.getPatientInfo(parameters.phone);
+      result = await guestService.getCallerSummary(parameters.phone);
       break;
 
     default:
@@ -133,6 +270,83 @@ async function handleToolCall(event: any) {
   return result;
 }
 
+/**
+ * Spoken summary of one day's hours, e.g. "Friday, December 24: open 17:00 to 21:00"
+ */
+function describeSchedule(schedule: DaySchedule): string {
+  const day = format(parseISO(schedule.date), 'EEEE, MMMM d');
+
+  if (!schedule.open) {
+    return `${day}: ${schedule.reason?.toLowerCase() || 'closed'}`;
+  }
+
+  const periods = schedule.periods.map(p => `${p.open} to ${p.close}`).join(' and ');
+  const blackouts = schedule.blackouts.length > 0
+    ? `, except ${schedule.blackouts.map(b => `${b.open} to ${b.close}`).join(' and ')} for a private event`
+    : '';
+  const note = schedule.note && schedule.blackouts.length === 0 ? ` (${schedule.note.toLowerCase()})` : '';
+
+  return `${day}: open ${periods}${blackouts}${note}`;
+}
+
+/**
+ * The slot a requested time falls on. Times off the grid (19:10 with 15-minute slots) are
+ * matched to the nearest slot start within half an interval.
+ */
+function slotTimeFor(slots: TableSlot[], time: string, intervalMinutes: number): string | undefined {
+  const minutes = toMinutes(time);
+  const nearest = [...slots].sort((a, b) =>
+    Math.abs(toMinutes(a.start_time) - minutes) - Math.abs(toMinutes(b.start_time) - minutes))[0];
+  return nearest && Math.abs(toMinutes(nearest.start_time) - minutes) * 2 <= intervalMinutes
+    ? nearest.start_time
+    : undefined;
+}
+
+/**
+ * What the agent says instead of refusing a party too big for a regular table
+ */
+function largePartyMessage(partySize: number, maxPartySize: number): string {
+  return `For a group of ${partySize} we'd host you as a private event, since our regular tables seat up to ${maxPartySize}. May I take a few details so our events team can send you a proposal?`;
+}
+
+/**
+ * Read back the allergies recorded on a booking so the caller can correct them
+ */
+function allergyMessage(allergies: string[]): string {
+  if (allergies.length === 0) {
+    return '';
+  }
+  const names = allergies.map(allergen => allergen.replace(/_/g, ' '));
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  return ` I've noted the ${list} ${names.length > 1 ? 'allergies' : 'allergy'} for the kitchen.`;
+}
+
+/**
+ * Opening line for a call: returning guests are welcomed back by name and
+ * reminded of their next booking
+ */
+function callerGreeting(variables: Record<string, string | number | boolean>): string {
+  const restaurant = locationService.restaurantName();
+  if (!variables.caller_known) {
+    return `Thank you for calling ${restaurant}. How may I help you today?`;
+  }
+  const upcoming = variables.next_reservation_id
+    ? ' I see you have a reservation coming up with us. Are you calling about that, or can I help with something else?'
+    : ' How may I help you today?';
+  return `Hi ${variables.guest_first_name}, welcome back to ${restaurant}!${upcoming}`;
+}
+
+/**
+ * Let a returning guest know their usual preferences were carried over
+ */
+function preferenceMessage(applied: string[]): string {
+  if (applied.length === 0) {
+    return '';
+  }
+  const list = applied.length > 1 ? `${applied.slice(0, -1).join(', ')} and ${applied[applied.length - 1]}` : applied[0];
+  return ` I've also noted your usual preferences: ${list}.`;
+}
+
 async function handleTranscriptUpdate(event: any) {
   const { conversation_id, transcript } = event;
 
@@ -151,12 +365,16 @@ router.post('/twilio/voice', twilioWebhookAuth, async (req: Request, res: Respon
 
     console.log('Incoming call:', { From, To, CallSid, CallStatus });
 
+    // Recognise the caller before the agent speaks
+    const { guest_id } = await guestService.getCallerContext(From);
+
     // Log the incoming call
     await supabaseService.createCallLog({
       call_id: CallSid,
       call_type: 'inbound',
       phone_number: From,
-      outcome: 'transferring_to_ai'
+      outcome: 'transferring_to_ai',
+      guest_id
     });
 
     // Transfer to ElevenLabs AI agent
@@ -213,13 +431,19 @@ router.post('/twilio/sms', twilioWebhookAuth, async (req: Request, res: Response
         : 'No pending reservations found. Please call us for assistance.';
     } else if (message === 'cancel') {
       const reservation = await reservationService.cancelAppointmentByPhone(From);
+      const policy = reservation.success && reservation.policy ? ` ${reservation.policy}` : '';
       response = reservation.success
-        ? 'Your reservation has been cancelled. Call us to reschedule.'
+        ? `Your reservation has been cancelled.${policy} Call us to reschedule.`
         : 'No reservations found. Please call us for assistance.';
+    } else if (message === 'book') {
+      const booking = await reservationService.claimWaitlistOffer(From);
+      response = booking.success
+        ? 'You\'re booked! We\'ll send your confirmation shortly.'
+        : 'Sorry, that table is no longer available. We\'ll keep you on the waitlist.';
     } else if (message === 'reschedule') {
-      response = `To reschedule, please call us at ${process.env.CLINIC_PHONE}`;
+      response = `To reschedule, please call us at ${locationService.restaurantPhone()}`;
     } else {
-      response = `Thank you for contacting ${process.env.CLINIC_NAME}. For reservations, please call ${process.env.CLINIC_PHONE}`;
+      response = `Thank you for contacting ${locationService.restaurantName()}. For reservations, please call ${locationService.restaurantPhone()}`;
     }
 
     // Send response
@@ -241,14 +465,17 @@ router.post('/twilio/sms', twilioWebhookAuth, async (req: Request, res: Response
 router.post('/twilio/connect-elevenlabs', twilioWebhookAuth, async (req: Request, res: Response) => {
   try {
     const { CallSid, From } = req.body;
+    const context = await guestService.getCallerContext(From);
 
-    // Create ElevenLabs phone call
+    // Create ElevenLabs phone call, with the caller's profile for the agent
     const result = await elevenLabsService.createPhoneCall({
       phoneNumber: From,
       metadata: {
         twilio_call_sid: CallSid,
-        call_type: 'inbound'
-      }
+        call_type: 'inbound',
+        guest_id: context.guest_id
+      },
+      dynamicVariables: context.dynamic_variables
     });
 
     if (result.success) {
@@ -281,25 +508,66 @@ router.post('/twilio/connect-elevenlabs', twilioWebhookAuth, async (req: Request
  */
 router.post('/tools/check-availability', async (req: Request, res: Response) => {
   try {
-    const { date, service_type } = req.body;
+    const { date, time, party_size } = req.body;
 
-    // Query available slots from Supabase
-    const slots = await reservationService.checkAvailability(date);
+    if (!date || !party_size) {
+      return res.status(400).json({ error: 'date and party_size are required' });
+    }
+
+    // Parties above the table limit become event inquiries rather than a refusal
+    const { max_party_size, time_slot_interval_minutes } = await availabilityService.getReservationSettings();
+    if (Number(party_size) > max_party_size) {
+      return res.json({
+        available: false,
+        event_inquiry: true,
+        date,
+        party_size: Number(party_size),
+        slots: [],
+        message: largePartyMessage(Number(party_size), max_party_size)
+      });
+    }
+
+    const availability = await reservationService.checkAvailability(date, Number(party_size));
+    const openSlots = availability.slots.filter(slot => slot.available);
+    const slotTime = time ? slotTimeFor(availability.slots, time, time_slot_interval_minutes) : undefined;
+    const requested = slotTime ? openSlots.find(slot => slot.start_time === slotTime) : undefined;
+    const throttled = !!slotTime && availability.slots.some(slot => slot.start_time === slotTime && slot.throttled);
+
+    // Offer the open times closest to what the guest asked for
+    const nearest = time
+      ? [...openSlots].sort((a, b) =>
+          Math.abs(toMinutes(a.start_time) - toMinutes(time)) - Math.abs(toMinutes(b.start_time) - toMinutes(time)))
+      : openSlots;
+
+    let message: string;
+    if (!availability.open || availability.reason) {
+      message = `I'm sorry, ${availability.reason?.toLowerCase() || 'we are closed on that date'}. Would you like me to check another date?`;
+    } else if (requested) {
+      message = `Good news, we have a table for ${party_size} at ${requested.start_time} on ${date}. Shall I book it?`;
+    } else if (nearest.length > 0) {
+      const unavailable = throttled
+        ? `${time} is fully booked for the kitchen, but `
+        : time ? `${time} isn't available, but ` : '';
+      message = `${unavailable}I have tables for ${party_size} on ${date} at ${nearest.slice(0, 3).map(slot => slot.start_time).join(', ')}.`;
+    } else {
+      message = `I'm sorry, we don't have a table for ${party_size} on ${date}. Would you like me to check another date?`;
+    }
 
     // Format response for ElevenLabs
-    const response = {
-      available: slots.length > 0,
-      slots: slots.map((slot: any) => ({
+    res.json({
+      available: time ? !!requested : openSlots.length > 0,
+      // The slot the requested time was matched to, which is the time to book
+      time: requested?.start_time,
+      throttled,
+      date,
+      party_size: Number(party_size),
+      duration_minutes: availability.duration_minutes,
+      slots: openSlots.map(slot => ({
         time: slot.start_time,
-        dentist: slot.dentist_name,
-        duration: slot.duration_minutes
+        tables: slot.tables.map(table => table.table_number)
       })),
-      message: slots.length > 0
-        ? `I have ${slots.length} available slots on ${date}. ${slots.slice(0, 3).map((s: any) => `${s.start_time} with Dr. ${s.dentist_name}`).join(', ')}`
-        : `I'm sorry, we don't have any available slots on ${date}. Would you like me to check another date?`
-    };
-
-    res.json(response);
+      message
+    });
   } catch (error) {
     console.error('Error checking availability:', error);
     res.status(500).json({ error: 'Failed to check availability' });
@@ -307,9 +575,10 @@ router.post('/tools/check-availability', async (req: Request, res: Response) =>
 });
 
 /**
- * Tool Webhook: Book Appointment
+ * Tool Webhook: Book Reservation
+ * A retry (same Idempotency-Key, or same conversation and booking details) gets the original answer.
  */
-router.post('/tools/book-reservation', async (req: Request, res: Response) => {
+router.post('/tools/book-reservation', idempotent('book_reservation', TOOL_REQUEST_DETAILS.book_reservation), async (req: Request, res: Response) => {
   try {
     const {
       guest_name,
@@ -317,39 +586,85 @@ router.post('/tools/book-reservation', async (req: Request, res: Response) => {
       guest_email,
       reservation_date,
       reservation_time,
-      service_type,
+      party_size,
+      special_requests,
+      dietary_restrictions,
+      allergies,
+      occasion,
       notes
     } = req.body;
 
+    const { max_party_size, time_slot_interval_minutes } = await availabilityService.getReservationSettings();
+    if (Number(party_size) > max_party_size) {
+      return res.json({
+        success: false,
+        event_inquiry: true,
+        message: largePartyMessage(Number(party_size), max_party_size)
+      });
+    }
+
     // Book the reservation
-    const result = await reservationService.bookAppointment({
+    const result = await reservationService.bookReservation({
       guest_name,
       guest_phone,
       guest_email,
       reservation_date,
       reservation_time,
-      service_type,
-      procedure_type: service_type,
+      party_size: Number(party_size),
+      special_requests,
+      dietary_restrictions,
+      allergies,
+      occasion,
       notes,
       created_by: 'ai_agent',
       conversation_id: req.body.conversation_id
     });
 
-    if (result.success && (result as any).reservation) {
-      const reservation = (result as any).reservation;
-      // Send confirmation SMS
-      await twilioService.sendSMS({
-        to: guest_phone,
-        body: `Your reservation at ${process.env.CLINIC_NAME} is confirmed for ${reservation_date} at ${reservation_time}. Confirmation #${reservation.id}. Reply CANCEL to cancel.`
-      });
+    if (result.success) {
+      const { reservation, guest_reliability: reliability, deposit } = result;
+      const bookingNote = allergyMessage(reservation.allergies || [])
+        + preferenceMessage(result.applied_preferences);
+
+      if (deposit) {
+        // The payment link has been texted; confirmation follows once it is paid
+        return res.json({
+          success: true,
+          reservation_id: reservation.id,
+          status: reservation.status,
+          deposit_required: true,
+          deposit_amount: deposit.amount,
+          deposit_currency: deposit.currency,
+          reliability_score: reliability?.reliability_score,
+          message: `I've held a table for you on ${reservation_date} at ${reservation_time}. We ask for a ${deposit.amount} ${deposit.currency} ${deposit.kind === 'deposit' ? 'deposit' : 'card hold'} for ${deposit.reason}, so I've just texted you a secure payment link. Your booking is confirmed as soon as that's completed.${bookingNote}`
+        });
+      }
 
+      // bookReservation has already texted the confirmation
       res.json({
         success: true,
         reservation_id: reservation.id,
-        message: `Perfect! I've booked your reservation for ${reservation_date} at ${reservation_time}. You'll receive a confirmation text shortly. Your confirmation number is ${reservation.id}.`
+        reliability_score: reliability?.reliability_score,
+        no_show_count: reliability?.no_show_count,
+        deposit_recommended: reliability?.deposit_recommended,
+        allergies: reservation.allergies || [],
+        applied_preferences: result.applied_preferences,
+        message: `Perfect! I've booked your reservation for ${reservation_date} at ${reservation_time}. You'll receive a confirmation text shortly. Your confirmation number is ${reservation.id}.${bookingNote}`
+      });
+    } else if (result.success === false && result.alternatives) {
+      const { alternatives, conflict, throttled } = result;
+      res.json({
+        success: false,
+        alternatives,
+        throttled: !!throttled,
+        conflict: !!conflict,
+        message: conflict && alternatives.length > 0
+          ? `I'm sorry, that table was just booked by another guest. I can offer ${alternatives.join(', ')} instead.`
+          : alternatives.length > 0
+          ? `I'm sorry, ${reservation_time} is no longer available for ${party_size}${throttled ? ' because the kitchen is fully booked then' : ''}. I can offer ${alternatives.join(', ')} instead.`
+          : `I'm sorry, we don't have a table for ${party_size} on ${reservation_date}. Would you like to try another date?`
       });
     } else {
-      throw new Error((result as any).error || 'Failed to book reservation');
+      throw new Error(result.success === false && result.error || 'Failed to book reservation');
     }
   } catch (error) {
     console.error('Error booking reservation:', error);
@@ -360,29 +675,364 @@ router.post('/tools/book-reservation', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Tool Webhook: Cancel Reservation
+ */
+router.post('/tools/cancel-reservation', idempotent('cancel_reservation', TOOL_REQUEST_DETAILS.cancel_reservation), async (req: Request, res: Response) => {
+  try {
+    const { guest_phone } = req.body;
+
+    if (!guest_phone) {
+      return res.status(400).json({
+        success: false,
+        message: 'I need the phone number the reservation was made under to cancel it.'
+      });
+    }
+
+    const result = await reservationService.cancelAppointmentByPhone(guest_phone);
+
+    if (result.success) {
+      const policy = result.policy;
+      res.json({
+        success: true,
+        late_cancellation: result.late_cancellation,
+        message: policy
+          ? `Your reservation has been cancelled. ${policy}`
+          : 'Your reservation has been cancelled. We hope to see you another time.'
+      });
+    } else {
+      res.json({
+        success: false,
+        message: 'I couldn\'t find an upcoming reservation under that phone number.'
+      });
+    }
+  } catch (error) {
+    console.error('Error cancelling reservation:', error);
+    res.status(500).json({
+      success: false,
+      message: 'I\'m sorry, I couldn\'t cancel the reservation. Please try again or call us directly.'
+    });
+  }
+});
+
+/**
+ * Tool Webhook: Modify Reservation
+ */
+router.post('/tools/modify-reservation', idempotent('modify_reservation', TOOL_REQUEST_DETAILS.modify_reservation), async (req: Request, res: Response) => {
+  try {
+    const { guest_phone, reservation_id, new_date, new_time, party_size } = req.body;
+
+    if (!guest_phone) {
+      return res.status(400).json({
+        success: false,
+        message: 'I need the phone number the reservation was made under to change it.'
+      });
+    }
+    if (!new_date && !new_time && !party_size) {
+      return res.status(400).json({
+        success: false,
+        message: 'What would you like to change: the date, the time or the number of guests?'
+      });
+    }
+
+    const result = await reservationService.rescheduleByPhone(guest_phone, reservation_id, {
+      reservation_date: new_date,
+      reservation_time: new_time,
+      party_size: party_size ? Number(party_size) : undefined
+    });
+
+    if (result.success && result.data) {
+      const reservation = result.data;
+      res.json({
+        success: true,
+        reservation_id: reservation.id,
+        message: `All set! Your reservation is now on ${reservation.reservation_date} at ${reservation.reservation_time.slice(0, 5)} for ${reservation.party_size}.`
+      });
+    } else if (result.alternatives) {
+      const { alternatives, conflict } = result;
+      res.json({
+        success: false,
+        alternatives,
+        conflict: !!conflict,
+        message: conflict && alternatives.length > 0
+          ? `I'm sorry, that table was just booked by another guest. I can move you to ${alternatives.join(', ')} instead.`
+          : alternatives.length > 0
+          ? `I'm sorry, that time isn't available. I can move you to ${alternatives.join(', ')} instead.`
+          : 'I\'m sorry, we don\'t have a table for that. Would you like to try another date?'
+      });
+    } else {
+      res.json({
+        success: false,
+        message: result.error === 'No upcoming reservations'
+          ? 'I couldn\'t find an upcoming reservation under that phone number.'
+          : `I couldn't change that reservation: ${result.error}.`
+      });
+    }
+  } catch (error) {
+    console.error('Error modifying reservation:', error);
+    res.status(500).json({
+      success: false,
+      message: 'I\'m sorry, I couldn\'t change the reservation. Please try again or call us directly.'
+    });
+  }
+});
+
+/**
+ * Tool Webhook: Opening Hours
+ * With a date, the hours for that day; without one, whether we're open now and when we next open.
+ */
+router.post('/tools/opening-hours', async (req: Request, res: Response) => {
+  try {
+    const { date } = req.body;
+
+    if (date) {
+      const schedule = await availabilityService.getScheduleForDate(date);
+
+      return res.json({
+        ...schedule,
+        message: `${describeSchedule(schedule)}.`
+      });
+    }
+
+    const status = await availabilityService.getOpeningStatus();
+    const closing = status.today.periods.find(p => p.close > localTime());
+
+    let message: string;
+    if (status.open_now && closing) {
+      message = `We're open right now until ${closing.close}. Today is ${describeSchedule(status.today)}.`;
+    } else if (closing) {
+      message = `We're closed at the moment. Today is ${describeSchedule(status.today)}.`;
+    } else if (status.next_open_day) {
+      message = `We're closed for the rest of today. We next open on ${describeSchedule(status.next_open_day)}.`;
+    } else {
+      message = 'We\'re closed for the next two weeks. Please check our website for reopening dates.';
+    }
+
+    res.json({ ...status, message });
+  } catch (error) {
+    console.error('Error getting opening hours:', error);
+    res.status(500).json({
+      message: 'I\'m sorry, I couldn\'t look up our opening hours right now.'
+    });
+  }
+});
+
+/**
+ * Tool Webhook: Capture Event Inquiry
+ * Private dining and buyouts, including parties too large for a regular table
+ */
+router.post('/tools/event-inquiry', idempotent('capture_event_inquiry', TOOL_REQUEST_DETAILS.capture_event_inquiry), async (req: Request, res: Response) => {
+  try {
+    const {
+      contact_name,
+      contact_phone,
+      contact_email,
+      company,
+      event_type,
+      event_date,
+      start_time,
+      guest_count,
+      occasion,
+      dietary_requirements,
+      notes
+    } = req.body;
+
+    if (!contact_name || !contact_phone || !event_date || !guest_count) {
+      return res.json({
+        success: false,
+        message: 'To pass this on to our events team I need your name, phone number, the date and how many guests you expect.'
+      });
+    }
+
+    const result = await eventService.createInquiry({
+      contact_name,
+      contact_phone,
+      contact_email,
+      company,
+      event_type,
+      event_date,
+      start_time,
+      guest_count: Number(guest_count),
+      occasion,
+      dietary_requirements,
+      notes,
+      source: 'ai_agent',
+      conversation_id: req.body.conversation_id
+    }, 'ai_agent');
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to create event inquiry');
+    }
+
+    await twilioService.sendSMS({
+      to: contact_phone,
+      body: `Thank you for your event inquiry at ${locationService.restaurantName()} for ${guest_count} guests on ${event_date}. Our events team will be in touch shortly with a proposal.`
+    });
+
+    res.json({
+      success: true,
+      event_id: result.data.id,
+      message: `Thank you, I've passed your event for ${guest_count} guests on ${event_date} to our events team. They'll contact you with a proposal, including menu options and pricing, and I've texted you a confirmation.`
+    });
+  } catch (error) {
+    console.error('Error capturing event inquiry:', error);
+    res.status(500).json({
+      success: false,
+      message: 'I\'m sorry, I couldn\'t record your event inquiry. Please call back or email us and our events team will help.'
+    });
+  }
+});
+
+/**
+ * Tool Webhook: Menu
+ * What we're serving today, optionally narrowed to a course, a dietary need or an allergen to avoid
+ */
+router.post('/tools/menu', async (req: Request, res: Response) => {
+  try {
+    const { category, dietary, exclude_allergen } = req.body;
+
+    const result = await menuService.getMenu({
+      category,
+      dietary: dietary ? [dietary] : undefined,
+      exclude_allergens: exclude_allergen ? [exclude_allergen] : undefined,
+      available: true
+    });
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    const items = result.data || [];
+    const description = [
+      dietary ? normalizeTag(dietary).replace(/_/g, ' ') : '',
+      category ? category.toLowerCase() : 'dishes',
+      exclude_allergen ? `without ${exclude_allergen.toLowerCase()}` : ''
+    ].filter(Boolean).join(' ');
+
+    res.json({
+      items: items.map(item => ({
+        name: item.name,
+        category: item.category,
+        price: item.price,
+        description: item.description,
+        dietary: describeDietary(item),
+        allergens: item.allergens || []
+      })),
+      message: items.length > 0
+        ? `Our ${description} today: ${items.slice(0, 8).map(item => `${item.name}${item.price ? ` at $${Number(item.price)}` : ''}`).join(', ')}.`
+        : `I'm afraid we don't have any ${description} on the menu today.`
+    });
+  } catch (error) {
+    console.error('Error getting menu:', error);
+    res.status(500).json({
+      message: 'I\'m sorry, I couldn\'t look up the menu right now.'
+    });
+  }
+});
+
+/**
+ * Tool Webhook: Check Dish
+ * Whether a dish is on today, and its dietary labels and allergens
+ */
+router.post('/tools/check-dish', async (req: Request, res: Response) => {
+  try {
+    const { dish_name, dietary, allergen } = req.body;
+
+    if (!dish_name) {
+      return res.json({ found: false, message: 'Which dish would you like me to check?' });
+    }
+
+    const item = await menuService.findDish(dish_name);
+
+    if (!item) {
+      return res.json({
+        found: false,
+        message: `I can't find ${dish_name} on our menu. Would you like me to tell you what we have instead?`
+      });
+    }
+
+    if (!item.is_available) {
+      return res.json({
+        found: true,
+        available: false,
+        name: item.name,
+        message: `The ${item.name} is on our menu, but it isn't available today.`
+      });
+    }
+
+    const labels = describeDietary(item);
+    const allergens = (item.allergens || []).map(a => a.replace(/_/g, ' '));
+    const parts = [`Yes, we have the ${item.name}${item.price ? ` at $${Number(item.price)}` : ''}.`];
+    if (item.description) {
+      parts.push(`${item.description}.`);
+    }
+
+    if (dietary) {
+      const tag = normalizeTag(dietary);
+      parts.push(item.dietary_info?.[tag]
+        ? `It is ${tag.replace(/_/g, ' ')}.`
+        : `It isn't marked as ${tag.replace(/_/g, ' ')}.`);
+    } else if (labels.length > 0) {
+      parts.push(`It is ${labels.join(' and ')}.`);
+    }
+
+    if (allergen) {
+      const contains = (item.allergens || []).some(a => normalizeAllergen(a) === normalizeAllergen(allergen));
+      parts.push(contains
+        ? `It does contain ${allergen.toLowerCase()}.`
+        : `${allergen} isn't listed among its allergens, but please mention the allergy to your server so the kitchen can take care.`);
+    } else if (allergens.length > 0) {
+      parts.push(`It contains ${allergens.join(', ')}.`);
+    }
+
+    res.json({
+      found: true,
+      available: true,
+      name: item.name,
+      price: item.price,
+      dietary: labels,
+      allergens: item.allergens || [],
+      message: parts.join(' ')
+    });
+  } catch (error) {
+    console.error('Error checking dish:', error);
+    res.status(500).json({
+      message: 'I\'m sorry, I couldn\'t check that dish right now.'
+    });
+  }
+});
+
 /**
  * Tool Webhook: Check Patient Record
  */
 router.post('/tools/check-guest', async (req: Request, res: Response) => {
   try {
-    const { phone_number, guest_name } = req.body;
+    const { phone_number } = req.body;
 
-    const result = await reservationService.getPatientInfo(phone_number || guest_name);
+    const result = phone_number
+      ? await guestService.getCallerSummary(phone_number)
+      : { success: false, data: undefined };
 
-    if (result.success && result.guest) {
+    if (result.success && result.data) {
+      const guest = result.data;
+      const next = guest.upcoming[0];
       res.json({
         found: true,
         guest: {
-          name: result.guest.name,
-          last_visit: result.guest.lastVisit,
-          upcoming_reservations: result.guest.upcomingAppointments
+          name: guest.name,
+          visit_count: guest.visit_count,
+          last_visit: guest.last_visit_date,
+          vip: guest.vip,
+          upcoming_reservations: guest.upcoming
         },
-        message: `Yes, I found your record. ${result.guest.upcomingAppointments?.length > 0 ? 'You have upcoming reservations.' : 'You don\'t have any upcoming reservations.'}`
+        message: `Yes, I found your record, ${guest.name}. ${next
+          ? `You have a reservation on ${next.date} at ${next.time.slice(0, 5)} for ${next.party_size}.`
+          : 'You don\'t have any upcoming reservations.'}`
       });
     } else {
       res.json({
         found: false,
-        message: 'I couldn\'t find your record. No problem, I can still help you book an reservation as a new guest.'
+        message: 'I couldn\'t find your record. No problem, I can still help you book a reservation as a new guest.'
       });
     }
   } catch (error) {
@@ -415,7 +1065,10 @@ router.post('/tools/send-reminder', async (req: Request, res: Response) => {
 
 // ============= Health Check =============
 
-router.get('/health', (req: Request, res: Response) => {
+// Mounted ahead of the location scope: health probes name no agent, number or location
+export const healthRouter = Router();
+
+healthRouter.get('/health', (req: Request, res: Response) => {
   res.json({
     status: 'ok',
     webhooks: {
@@ -430,12 +1083,33 @@ router.get('/health', (req: Request, res: Response) => {
  * WebSocket Bridge for Twilio-ElevenLabs Media Streams
  */
 export function setupWebSocketBridge(wss: WebSocket.Server) {
-  wss.on('connection', (ws: WebSocket, req: any) => {
-    if (req.url === '/websocket/twilio-elevenlabs') {
+  wss.on('connection', async (ws: WebSocket, req: any) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    if (url.pathname === '/websocket/twilio-elevenlabs') {
       console.log('New WebSocket connection for Twilio-ElevenLabs bridge');
 
+      // Each location's stream names the location with ?restaurant_id=; the agent is the one
+      // configured for it, never one named by the caller
+      const restaurantId = url.searchParams.get('restaurant_id');
+      const location = restaurantId ? await locationService.getById(restaurantId) : undefined;
+      if (restaurantId && !location) {
+        ws.close(1008, 'Location not found');
+        return;
+      }
+
+      const agentId = location?.elevenlabs_agent_id || process.env.ELEVENLABS_AGENT_ID;
+      if (!agentId) {
+        ws.close(1011, 'No agent is configured');
+        return;
+      }
+
+      // Twilio may have hung up while the location was looked up
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
       // Create connection to ElevenLabs
-      const elevenLabsWs = new WebSocket(`wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${process.env.ELEVENLABS_AGENT_ID}`, {
+      const elevenLabsWs = new WebSocket(`wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${encodeURIComponent(agentId)}`, {
         headers: {
           'xi-api-key': process.env.ELEVENLABS_API_KEY!
         }
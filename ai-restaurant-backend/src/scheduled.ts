@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import reservationScheduler, { ScheduledJob } from './services/reservationScheduler';
+
+// Entry point for the scheduled Lambda functions in serverless.yml. The Lambda API has no
+// long-running process for node-cron, so each schedule invokes this with { job }.
+export const handler = async (event: { job: ScheduledJob }) => {
+  await reservationScheduler.runJob(event.job);
+  return { job: event.job, finished_at: new Date().toISOString() };
+};
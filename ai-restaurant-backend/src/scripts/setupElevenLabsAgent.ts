@@ -18,6 +18,9 @@ interface AgentConfig {
       };
       first_message: string;
       language: string;
+      dynamic_variables?: {
+        dynamic_variable_placeholders: Record<string, string | number | boolean>;
+      };
     };
   };
   platform_settings?: {
@@ -26,6 +29,12 @@ interface AgentConfig {
       auth_token?: string;
       phone_number?: string;
     };
+    overrides?: {
+      enable_conversation_initiation_client_data_from_webhook?: boolean;
+      conversation_config_override?: {
+        agent?: { first_message?: boolean };
+      };
+    };
   };
   tools?: Array<{
     type: string;
@@ -41,14 +50,26 @@ interface AgentConfig {
       type: string;
       description: string;
       required: boolean;
+      dynamic_variable?: string; // filled by ElevenLabs rather than the agent
     }>;
   }>;
 }
 
+// Sent with every tool that books or changes something, so a retried call in the same
+// conversation is recognised and answered from the first attempt instead of repeated
+const CONVERSATION_ID_PARAMETER = {
+  name: 'conversation_id',
+  type: 'string',
+  description: 'The current conversation',
+  required: false,
+  dynamic_variable: 'system__conversation_id'
+};
+
 class ElevenLabsAgentSetup {
   private apiKey: string;
   private apiClient: any;
   private supabase: any;
+  private restaurant: { id: string; name: string; elevenlabs_agent_id?: string } | null = null;
 
   constructor() {
     this.apiKey = ELEVENLABS_API_KEY;
@@ -64,27 +85,65 @@ class ElevenLabsAgentSetup {
   }
 
   /**
-   * Create or update the AI dental receptionist agent
+   * Create or update the AI dental receptionist agent. Pass a location's slug to set up
+   * that location's own agent; its tools then only see that location's data.
    */
-  async setupAgent() {
+  async setupAgent(locationSlug?: string) {
     console.log('Setting up ElevenLabs AI Dental Receptionist Agent...');
 
+    if (locationSlug) {
+      const { data, error } = await this.supabase
+        .from('restaurants')
+        .select('id, name, elevenlabs_agent_id')
+        .eq('slug', locationSlug)
+        .maybeSingle();
+
+      if (error || !data) {
+        throw new Error(`Location not found: ${locationSlug}`);
+      }
+      this.restaurant = data;
+      console.log(`Setting up the agent for ${data.name}`);
+    }
+
     const agentConfig: AgentConfig = {
-      name: 'Sarah - AI Dental Receptionist',
+      name: this.restaurant ? `Sarah - ${this.restaurant.name}` : 'Sarah - AI Dental Receptionist',
       conversation_config: {
         agent: {
           prompt: {
             prompt: this.getSystemPrompt()
           },
-          first_message: `Thank you for calling ${process.env.CLINIC_NAME || 'Bright Smile Dental Clinic'}. This is Sarah, your AI receptionist. How may I assist you today?`,
-          language: 'en'
+          first_message: `Thank you for calling ${this.restaurantName()}. This is Sarah, your AI receptionist. How may I assist you today?`,
+          language: 'en',
+          // Filled per call from the caller's guest profile; these are the unknown-caller defaults
+          dynamic_variables: {
+            dynamic_variable_placeholders: {
+              caller_phone: '',
+              caller_known: false,
+              guest_name: '',
+              guest_first_name: '',
+              is_vip: false,
+              visit_count: 0,
+              upcoming_reservations: 'none',
+              next_reservation_id: '',
+              guest_preferences: 'none',
+              today: '',
+              current_time: ''
+            }
+          }
         }
       },
       platform_settings: {
         twilio: {
           account_sid: process.env.TWILIO_ACCOUNT_SID,
           auth_token: process.env.TWILIO_AUTH_TOKEN,
-          phone_number: process.env.TWILIO_PHONE_NUMBER
+          phone_number: this.restaurant ? undefined : process.env.TWILIO_PHONE_NUMBER
+        },
+        // Lets the caller-recognition webhook personalise the greeting
+        overrides: {
+          enable_conversation_initiation_client_data_from_webhook: true,
+          conversation_config_override: {
+            agent: { first_message: true }
+          }
         }
       },
       tools: this.getAgentTools()
@@ -92,7 +151,7 @@ class ElevenLabsAgentSetup {
 
     try {
       // Check if agent exists
-      let agentId = process.env.ELEVENLABS_AGENT_ID;
+      let agentId = this.restaurant ? this.restaurant.elevenlabs_agent_id : process.env.ELEVENLABS_AGENT_ID;
 
       if (agentId) {
         // Update existing agent
@@ -104,11 +163,22 @@ class ElevenLabsAgentSetup {
         const response = await this.createAgent(agentConfig);
         agentId = response.agent_id;
         console.log(`Agent created with ID: ${agentId}`);
-        console.log('Please add this ID to your .env file as ELEVENLABS_AGENT_ID');
+
+        if (this.restaurant) {
+          // Calls and webhooks from this agent are matched to the location by its ID
+          await this.supabase
+            .from('restaurants')
+            .update({ elevenlabs_agent_id: agentId, updated_at: new Date().toISOString() })
+            .eq('id', this.restaurant.id);
+          console.log(`Saved the agent ID to ${this.restaurant.name}`);
+        } else {
+          console.log('Please add this ID to your .env file as ELEVENLABS_AGENT_ID');
+        }
       }
 
       // Configure webhooks
       await this.configureWebhooks(agentId);
+      await this.configureInitiationWebhook();
 
       console.log('Agent setup completed successfully!');
       return agentId;
@@ -162,11 +232,47 @@ class ElevenLabsAgentSetup {
     }
   }
 
+  /**
+   * Point inbound calls at the caller-recognition webhook, which runs before the agent speaks
+   */
+  async configureInitiationWebhook() {
+    console.log('Configuring caller recognition webhook...');
+
+    try {
+      await this.apiClient.patch('/convai/settings', {
+        conversation_initiation_client_data_webhook: {
+          url: `${WEBHOOK_BASE_URL}/api/webhooks/elevenlabs/conversation-initiation`,
+          request_headers: {
+            'X-Webhook-Secret': process.env.ELEVENLABS_WEBHOOK_SECRET || 'default-secret'
+          }
+        }
+      });
+      console.log('Caller recognition webhook configured successfully');
+    } catch (error: any) {
+      console.error('Error configuring caller recognition webhook:', error.response?.data || error.message);
+    }
+  }
+
+  /**
+   * Helper: The name callers hear
+   */
+  private restaurantName(): string {
+    return this.restaurant?.name || process.env.CLINIC_NAME || 'Bright Smile Dental Clinic';
+  }
+
+  /**
+   * Helper: A tool's webhook URL, tied to the location being set up
+   */
+  private toolUrl(tool: string): string {
+    const query = this.restaurant ? `?restaurant_id=${this.restaurant.id}` : '';
+    return `${WEBHOOK_BASE_URL}/api/webhooks/tools/${tool}${query}`;
+  }
+
   /**
    * Get the system prompt for the dental receptionist
    */
   private getSystemPrompt(): string {
-    return `You are Sarah, a friendly and professional AI receptionist for ${process.env.CLINIC_NAME || 'Bright Smile Dental Clinic'}.
+    return `You are Sarah, a friendly and professional AI receptionist for ${this.restaurantName()}.
 
 YOUR PERSONALITY:
 - Warm, empathetic, and patient
@@ -192,6 +298,8 @@ CLINIC INFORMATION:
   • Monday-Friday: ${process.env.CLINIC_HOURS_WEEKDAY || '9:00 AM - 6:00 PM'}
   • Saturday: ${process.env.CLINIC_HOURS_SATURDAY || '9:00 AM - 2:00 PM'}
   • Sunday: ${process.env.CLINIC_HOURS_SUNDAY || 'Closed'}
+  • Holidays, closures and private events change these hours; use the get_opening_hours tool before answering
+- Menu questions (dishes, prices, vegetarian or gluten-free options, allergens): answer from the get_menu and check_dish tools, never from memory
 - Emergency Line: ${process.env.EMERGENCY_NUMBER || 'Call 911 for severe emergencies'}
 
 SERVICES OFFERED:
@@ -214,6 +322,15 @@ INSURANCE INFORMATION:
 - Cash, credit card, and check payments accepted
 - New patient special: $99 for exam, cleaning, and X-rays
 
+RETURNING CALLERS:
+- Today is {{today}} and it is {{current_time}} at the restaurant; work out "tonight", "tomorrow" and weekdays from this
+- Caller known: {{caller_known}}. Name: {{guest_name}}. VIP: {{is_vip}}. Visits: {{visit_count}}
+- Upcoming reservations: {{upcoming_reservations}}
+- Preferences on file: {{guest_preferences}}
+- If the caller is known, greet them by first name ({{guest_first_name}}) and don't ask for details we already have; confirm their phone number instead
+- If they have an upcoming reservation, offer to change it. Use modify_reservation with reservation_id {{next_reservation_id}} (or the id of the one they mean) and their phone number; offer any alternatives it returns
+- Use their preferences when booking (e.g. mention a booth or a vegan option) and thank VIPs for their loyalty, without reading the profile out
+
 APPOINTMENT BOOKING PROCESS:
 1. Greet the caller warmly
 2. Ask for the reason for their visit
@@ -229,6 +346,9 @@ APPOINTMENT BOOKING PROCESS:
 7. Provide appointment confirmation number
 8. Remind about any preparation needed
 9. Ask if they need directions to the clinic
+10. Never turn away a group that is too large for a table: when check_availability returns event_inquiry, take their details with capture_event_inquiry for the events team
+11. Before booking, ask whether anyone in the party has a food allergy and pass each one in allergies; confirm them back to the caller
+12. If book_appointment returns conflict, someone else just took that table: apologise and offer the alternatives it returns instead of trying the same time again
 
 HANDLING DENTAL EMERGENCIES:
 For the following situations, express urgency and offer same-day appointments:
@@ -291,9 +411,9 @@ REMEMBER:
       {
         type: 'webhook',
         name: 'check_availability',
-        description: 'Check available appointment slots for a given date range',
+        description: 'Check which tables and times are free for a party on a given date',
         webhook: {
-          url: `${WEBHOOK_BASE_URL}/api/webhooks/tools/check-availability`,
+          url: this.toolUrl('check-availability'),
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -308,9 +428,15 @@ REMEMBER:
             required: true
           },
           {
-            name: 'service_type',
+            name: 'party_size',
+            type: 'number',
+            description: 'Number of guests in the party',
+            required: true
+          },
+          {
+            name: 'time',
             type: 'string',
-            description: 'Type of dental service needed',
+            description: 'Preferred time (HH:MM), if the caller has one',
             required: false
           }
         ]
@@ -320,7 +446,7 @@ REMEMBER:
         name: 'book_appointment',
         description: 'Book an appointment for a patient',
         webhook: {
-          url: `${WEBHOOK_BASE_URL}/api/webhooks/tools/book-appointment`,
+          url: this.toolUrl('book-appointment'),
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -328,6 +454,7 @@ REMEMBER:
           }
         },
         parameters: [
+          CONVERSATION_ID_PARAMETER,
           {
             name: 'patient_name',
             type: 'string',
@@ -369,6 +496,12 @@ REMEMBER:
             type: 'string',
             description: 'Additional notes or special requests',
             required: false
+          },
+          {
+            name: 'allergies',
+            type: 'string',
+            description: 'Food allergies in the party, comma-separated, e.g. peanuts, shellfish, gluten',
+            required: false
           }
         ]
       },
@@ -377,7 +510,7 @@ REMEMBER:
         name: 'check_patient_record',
         description: 'Look up existing patient information',
         webhook: {
-          url: `${WEBHOOK_BASE_URL}/api/webhooks/tools/check-patient`,
+          url: this.toolUrl('check-patient'),
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -399,12 +532,243 @@ REMEMBER:
           }
         ]
       },
+      {
+        type: 'webhook',
+        name: 'cancel_reservation',
+        description: 'Cancel the guest\'s next upcoming reservation. Read the returned message to the guest, including any cancellation policy statement.',
+        webhook: {
+          url: this.toolUrl('cancel-reservation'),
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env.API_KEY || 'internal-api-key'}`
+          }
+        },
+        parameters: [
+          CONVERSATION_ID_PARAMETER,
+          {
+            name: 'guest_phone',
+            type: 'string',
+            description: 'Phone number the reservation was made under',
+            required: true
+          }
+        ]
+      },
+      {
+        type: 'webhook',
+        name: 'modify_reservation',
+        description: 'Move a guest\'s reservation to a new date, time or party size. Read the returned message to the guest and offer any alternatives.',
+        webhook: {
+          url: this.toolUrl('modify-reservation'),
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env.API_KEY || 'internal-api-key'}`
+          }
+        },
+        parameters: [
+          CONVERSATION_ID_PARAMETER,
+          {
+            name: 'guest_phone',
+            type: 'string',
+            description: 'Phone number the reservation was made under',
+            required: true
+          },
+          {
+            name: 'reservation_id',
+            type: 'string',
+            description: 'Reservation to change; defaults to the guest\'s next one',
+            required: false
+          },
+          {
+            name: 'new_date',
+            type: 'string',
+            description: 'New date in YYYY-MM-DD format',
+            required: false
+          },
+          {
+            name: 'new_time',
+            type: 'string',
+            description: 'New time in HH:MM format',
+            required: false
+          },
+          {
+            name: 'party_size',
+            type: 'number',
+            description: 'New number of guests',
+            required: false
+          }
+        ]
+      },
+      {
+        type: 'webhook',
+        name: 'get_opening_hours',
+        description: 'Look up opening hours, including holiday hours, closures and private events. Use it for any question about when we are open.',
+        webhook: {
+          url: this.toolUrl('opening-hours'),
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env.API_KEY || 'internal-api-key'}`
+          }
+        },
+        parameters: [
+          {
+            name: 'date',
+            type: 'string',
+            description: 'Date to check in YYYY-MM-DD format. Leave empty to ask whether we are open now.',
+            required: false
+          }
+        ]
+      },
+      {
+        type: 'webhook',
+        name: 'get_menu',
+        description: 'List the dishes we are serving today. Narrow it with a course, a dietary need or an allergen the caller must avoid.',
+        webhook: {
+          url: this.toolUrl('menu'),
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env.API_KEY || 'internal-api-key'}`
+          }
+        },
+        parameters: [
+          {
+            name: 'category',
+            type: 'string',
+            description: 'Course: appetizer, main, dessert or beverage',
+            required: false
+          },
+          {
+            name: 'dietary',
+            type: 'string',
+            description: 'Dietary need, e.g. vegetarian, vegan, gluten_free',
+            required: false
+          },
+          {
+            name: 'exclude_allergen',
+            type: 'string',
+            description: 'Allergen the dishes must not contain, e.g. nuts, dairy, shellfish',
+            required: false
+          }
+        ]
+      },
+      {
+        type: 'webhook',
+        name: 'check_dish',
+        description: 'Check whether a specific dish is available today and whether it suits a dietary need or allergy.',
+        webhook: {
+          url: this.toolUrl('check-dish'),
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env.API_KEY || 'internal-api-key'}`
+          }
+        },
+        parameters: [
+          {
+            name: 'dish_name',
+            type: 'string',
+            description: 'The dish the caller asked about',
+            required: true
+          },
+          {
+            name: 'dietary',
+            type: 'string',
+            description: 'Dietary need to check, e.g. vegan, gluten_free',
+            required: false
+          },
+          {
+            name: 'allergen',
+            type: 'string',
+            description: 'Allergen to check for, e.g. nuts',
+            required: false
+          }
+        ]
+      },
+      {
+        type: 'webhook',
+        name: 'capture_event_inquiry',
+        description: 'Pass a private dining, buyout or large group inquiry to the events team. Use it for parties above the regular table limit instead of declining them.',
+        webhook: {
+          url: this.toolUrl('event-inquiry'),
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${process.env.API_KEY || 'internal-api-key'}`
+          }
+        },
+        parameters: [
+          CONVERSATION_ID_PARAMETER,
+          {
+            name: 'contact_name',
+            type: 'string',
+            description: 'Name of the person organising the event',
+            required: true
+          },
+          {
+            name: 'contact_phone',
+            type: 'string',
+            description: 'Organiser phone number',
+            required: true
+          },
+          {
+            name: 'contact_email',
+            type: 'string',
+            description: 'Organiser email, for the proposal',
+            required: false
+          },
+          {
+            name: 'event_date',
+            type: 'string',
+            description: 'Date of the event (YYYY-MM-DD)',
+            required: true
+          },
+          {
+            name: 'start_time',
+            type: 'string',
+            description: 'Preferred start time (HH:MM)',
+            required: false
+          },
+          {
+            name: 'guest_count',
+            type: 'number',
+            description: 'Expected number of guests',
+            required: true
+          },
+          {
+            name: 'event_type',
+            type: 'string',
+            description: 'private_dining for the private room, buyout for the whole restaurant',
+            required: false
+          },
+          {
+            name: 'occasion',
+            type: 'string',
+            description: 'What the event is for, e.g. wedding rehearsal dinner, company party',
+            required: false
+          },
+          {
+            name: 'dietary_requirements',
+            type: 'string',
+            description: 'Allergies or dietary needs in the group',
+            required: false
+          },
+          {
+            name: 'notes',
+            type: 'string',
+            description: 'Anything else the events team should know',
+            required: false
+          }
+        ]
+      },
       {
         type: 'webhook',
         name: 'send_appointment_reminder',
         description: 'Send SMS appointment reminder to patient',
         webhook: {
-          url: `${WEBHOOK_BASE_URL}/api/webhooks/tools/send-reminder`,
+          url: this.toolUrl('send-reminder'),
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -432,8 +796,9 @@ REMEMBER:
 
 // Run the setup if this file is executed directly
 if (require.main === module) {
+  // Optional location slug: npm run setup:agent -- downtown
   const setup = new ElevenLabsAgentSetup();
-  setup.setupAgent()
+  setup.setupAgent(process.argv[2])
     .then(agentId => {
       console.log('✅ Agent setup completed successfully!');
       console.log(`Agent ID: ${agentId}`);
@@ -0,0 +1,195 @@
+import supabaseService, { MenuItem, Reservation } from './supabaseService';
+import { normalizeAllergen } from './menuService';
+import locationService from './locationService';
+
+// Allergens the booking flow asks about, in the spelling menu items are tagged with
+export const COMMON_ALLERGENS = [
+  'gluten',
+  'dairy',
+  'eggs',
+  'peanuts',
+  'tree_nuts',
+  'fish',
+  'shellfish',
+  'molluscs',
+  'soy',
+  'sesame',
+  'mustard',
+  'celery',
+  'sulphites',
+  'lupin'
+];
+
+// Words that give an allergy away in free-text dietary notes
+const ALLERGY_TERMS = [
+  ...COMMON_ALLERGENS.map(tag => tag.replace(/_/g, ' ')),
+  'milk', 'lactose', 'wheat', 'celiac', 'coeliac', 'egg', 'nut', 'peanut',
+  'shrimp', 'prawn', 'crab', 'lobster', 'crustaceans', 'mollusc', 'soya', 'sulfites'
+];
+
+// Reservations the kitchen still has to cook for
+const INACTIVE_STATUSES = ['cancelled', 'no-show', 'completed'];
+
+export interface UnsafeMenuItem {
+  menu_item_id: string;
+  name: string;
+  category?: string;
+  allergens: string[]; // the guest's allergens this dish contains
+}
+
+export interface AllergySheetEntry {
+  reservation_id: string;
+  reservation_time: string;
+  guest_name: string;
+  party_size: number;
+  status?: string;
+  tables: string[];
+  allergies: string[];
+  dietary_restrictions?: string;
+  unsafe_items: UnsafeMenuItem[];
+}
+
+/**
+ * Allergen tags from a list or a comma-separated answer ("nuts, shellfish and dairy")
+ */
+export function normalizeAllergies(value?: string[] | string | null): string[] {
+  if (!value) {
+    return [];
+  }
+  const terms = Array.isArray(value) ? value : value.split(/,|;|\/|\band\b/i);
+  return [...new Set(terms.map(term => String(term).trim()).filter(Boolean).map(normalizeAllergen))];
+}
+
+/**
+ * Allergens mentioned in free text such as dietary_restrictions ("severe peanut allergy, no milk")
+ */
+export function extractAllergies(text?: string | null): string[] {
+  if (!text) {
+    return [];
+  }
+  const lower = text.toLowerCase();
+  return [...new Set(ALLERGY_TERMS
+    .filter(term => new RegExp(`\\b${term}s?\\b`).test(lower))
+    .map(normalizeAllergen))];
+}
+
+/**
+ * The reservation's allergies, falling back to its dietary notes for bookings made
+ * before allergies were captured
+ */
+export function reservationAllergies(reservation: Reservation): string[] {
+  return reservation.allergies?.length
+    ? normalizeAllergies(reservation.allergies)
+    : extractAllergies(reservation.dietary_restrictions);
+}
+
+/**
+ * Dishes containing any of the allergens, with the allergens each one contains
+ */
+export function unsafeMenuItems(allergies: string[], menu: MenuItem[]): UnsafeMenuItem[] {
+  if (allergies.length === 0) {
+    return [];
+  }
+  return menu
+    .map(item => ({
+      menu_item_id: item.id,
+      name: item.name,
+      category: item.category,
+      allergens: [...new Set((item.allergens || []).map(normalizeAllergen))].filter(tag => allergies.includes(tag))
+    }))
+    .filter(item => item.allergens.length > 0);
+}
+
+export class AllergyService {
+  /**
+   * Which dishes a reservation's party must avoid. Dishes without an allergen list
+   * are reported separately since the kitchen has to check them by hand.
+   */
+  async getReservationReport(id: string) {
+    const { data: reservation, error } = await supabaseService.getReservation(id);
+    if (!reservation) {
+      return { success: false, error: error || 'Reservation not found' };
+    }
+
+    const { data: menu } = await supabaseService.getMenuItems({ available: true });
+    const allergies = reservationAllergies(reservation);
+
+    return {
+      success: true,
+      data: {
+        reservation_id: reservation.id,
+        guest_name: reservation.guest_name,
+        reservation_date: reservation.reservation_date,
+        reservation_time: reservation.reservation_time,
+        allergies,
+        dietary_restrictions: reservation.dietary_restrictions,
+        unsafe_items: unsafeMenuItems(allergies, menu || []),
+        unlabelled_items: allergies.length > 0
+          ? (menu || []).filter(item => !item.allergens?.length).map(item => item.name)
+          : []
+      }
+    };
+  }
+
+  /**
+   * Pre-service sheet for the kitchen: every table with an allergy on the night,
+   * the dishes it must not be served and how many tables have each allergen
+   */
+  async getKitchenSheet(date: string) {
+    const [{ data: reservations, error }, { data: tables }, { data: menu }, { data: info }] = await Promise.all([
+      supabaseService.getReservations({ date }),
+      supabaseService.getTables(),
+      supabaseService.getMenuItems({ available: true }),
+      supabaseService.getSetting<Record<string, string>>('restaurant_info')
+    ]);
+    if (!reservations) {
+      return { success: false, error: error || 'Could not load reservations' };
+    }
+
+    const tableNumbers = new Map((tables || []).map(table => [table.id, table.table_number]));
+    const entries: AllergySheetEntry[] = [];
+    const allergenCounts: Record<string, number> = {};
+
+    for (const reservation of reservations) {
+      if (INACTIVE_STATUSES.includes(reservation.status || '')) {
+        continue;
+      }
+      const allergies = reservationAllergies(reservation);
+      if (allergies.length === 0) {
+        continue;
+      }
+
+      const tableIds = reservation.reservation_tables?.length
+        ? reservation.reservation_tables.map(link => link.table_id)
+        : [reservation.table_id].filter(Boolean);
+
+      entries.push({
+        reservation_id: reservation.id,
+        reservation_time: reservation.reservation_time,
+        guest_name: reservation.guest_name,
+        party_size: reservation.party_size,
+        status: reservation.status,
+        tables: tableIds.map(tableId => tableNumbers.get(tableId) || 'Unassigned'),
+        allergies,
+        dietary_restrictions: reservation.dietary_restrictions,
+        unsafe_items: unsafeMenuItems(allergies, menu || [])
+      });
+      for (const allergen of allergies) {
+        allergenCounts[allergen] = (allergenCounts[allergen] || 0) + 1;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        date,
+        restaurant: info?.name || locationService.restaurantName(),
+        reservations: entries,
+        allergen_counts: allergenCounts,
+        covers: entries.reduce((sum, entry) => sum + entry.party_size, 0)
+      }
+    };
+  }
+}
+
+export default new AllergyService();
@@ -0,0 +1,628 @@
+import supabaseService, {
+  Reservation,
+  RestaurantTable,
+  SpecialHours,
+  SpecialHoursPeriod,
+  TableCombination
+} from './supabaseService';
+import { addDays, format, parseISO } from 'date-fns';
+import { addDaysToDate, localDate, localMinutes } from './restaurantTime';
+
+export interface DayHours {
+  open: string;
+  close: string;
+  closed?: boolean;
+  periods?: SpecialHoursPeriod[];
+}
+
+export type BusinessHours = Record<string, DayHours>;
+
+/**
+ * Kitchen pacing for one service period: how many covers and parties may be seated
+ * in each pacing interval. Leave a limit out to not enforce it.
+ */
+export interface PacingPeriod {
+  name: string;
+  start: string;
+  end: string;
+  max_covers?: number;
+  max_parties?: number;
+}
+
+export interface PacingSettings {
+  interval_minutes: number;
+  periods: PacingPeriod[];
+}
+
+export interface ReservationSettings {
+  min_party_size: number;
+  max_party_size: number;
+  default_duration_minutes: number;
+  advance_booking_days: number;
+  cancellation_hours: number;
+  time_slot_interval_minutes: number;
+  waitlist_hold_minutes: number;
+  table_clean_minutes: number;
+  no_show_grace_minutes: number;
+  pacing: PacingSettings;
+}
+
+/**
+ * Opening hours for one date after special hours, closures and blackouts are applied
+ */
+export interface DaySchedule {
+  date: string;
+  open: boolean;
+  periods: SpecialHoursPeriod[];
+  blackouts: SpecialHoursPeriod[];
+  reason?: string;
+  note?: string;
+}
+
+export interface OpeningStatus {
+  open_now: boolean;
+  today: DaySchedule;
+  next_open_day: DaySchedule | null;
+}
+
+/**
+ * A manager-set turn time. Any field left out matches every booking;
+ * the first matching override wins.
+ */
+export interface TurnTimeOverride {
+  party_size_min?: number;
+  party_size_max?: number;
+  days?: string[];
+  period?: string;
+  minutes: number;
+}
+
+export interface TurnTimeSettings {
+  lookback_days: number;
+  min_samples: number;
+  overrides: TurnTimeOverride[];
+}
+
+export interface LearnedTurnTime {
+  minutes: number;
+  samples: number;
+}
+
+/**
+ * Turn times learned from seated -> completed history, keyed by turnTimeKey()
+ */
+export interface TurnTimeModel {
+  learned_at?: string;
+  turn_times: Record<string, LearnedTurnTime>;
+}
+
+export interface AvailabilityQuery {
+  date: string;
+  party_size: number;
+  time?: string;
+  exclude_reservation_id?: string; // a booking being moved, so it doesn't block itself
+}
+
+/**
+ * A single table or a combinable group, booked as one unit
+ */
+export interface SeatingOption {
+  table_ids: string[];
+  table_number: string;
+  capacity: number;
+  location?: string;
+  is_combination: boolean;
+}
+
+export interface TableSlot {
+  start_time: string;
+  end_time: string;
+  available: boolean;
+  tables: SeatingOption[];
+  throttled?: boolean;
+}
+
+export interface AvailabilityResult {
+  date: string;
+  party_size: number;
+  open: boolean;
+  duration_minutes: number;
+  slots: TableSlot[];
+  reason?: string;
+}
+
+// Statuses that no longer hold a table
+const INACTIVE_STATUSES = ['cancelled', 'no-show', 'completed'];
+
+const DEFAULT_SETTINGS: ReservationSettings = {
+  min_party_size: 1,
+  max_party_size: 12,
+  default_duration_minutes: 90,
+  advance_booking_days: 30,
+  cancellation_hours: 2,
+  time_slot_interval_minutes: 15,
+  waitlist_hold_minutes: 10,
+  table_clean_minutes: 10,
+  no_show_grace_minutes: 15,
+  pacing: { interval_minutes: 15, periods: [] }
+};
+
+/**
+ * Convert an "HH:mm" or "HH:mm:ss" string to minutes after midnight
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Convert minutes after midnight back to "HH:mm"
+ */
+export function fromMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Every table a reservation occupies, including legacy rows that only set table_id
+ */
+export function getReservationTableIds(reservation: Reservation): string[] {
+  const ids = (reservation.reservation_tables || []).map(rt => rt.table_id);
+  if (reservation.table_id && !ids.includes(reservation.table_id)) {
+    ids.push(reservation.table_id);
+  }
+  return ids;
+}
+
+const DEFAULT_TURN_TIME_SETTINGS: TurnTimeSettings = {
+  lookback_days: 90,
+  min_samples: 5,
+  overrides: []
+};
+
+/**
+ * Party size bands the turn-time model learns separately
+ */
+export function partySizeBucket(partySize: number): string {
+  if (partySize <= 2) return '1-2';
+  if (partySize <= 4) return '3-4';
+  if (partySize <= 6) return '5-6';
+  return '7+';
+}
+
+/**
+ * Name of the service period (from the pacing settings) a time falls in
+ */
+export function getServicePeriod(settings: ReservationSettings, time: string): string {
+  const minutes = toMinutes(time);
+  const period = (settings.pacing?.periods || []).find(
+    p => minutes >= toMinutes(p.start) && minutes < toMinutes(p.end)
+  );
+  return period?.name || 'all_day';
+}
+
+/**
+ * Model key for a party size band, weekday and service period; '*' matches any
+ */
+export function turnTimeKey(bucket: string, weekday: string, period: string): string {
+  return `${bucket}|${weekday}|${period}`;
+}
+
+/**
+ * Predicts how long a party will hold its table: a matching override first, then the
+ * learned turn time (most specific first), then default_duration_minutes.
+ */
+export class TurnTimePredictor {
+  constructor(
+    private settings: ReservationSettings,
+    private turnTimes: TurnTimeSettings,
+    private model: TurnTimeModel
+  ) {}
+
+  predict(partySize: number, date: string, time: string): number {
+    const weekday = format(parseISO(date), 'EEEE').toLowerCase();
+    const period = getServicePeriod(this.settings, time);
+
+    const override = this.turnTimes.overrides.find(o =>
+      partySize >= (o.party_size_min ?? 1) &&
+      partySize <= (o.party_size_max ?? Infinity) &&
+      (!o.days?.length || o.days.includes(weekday)) &&
+      (!o.period || o.period === period)
+    );
+    if (override) {
+      return override.minutes;
+    }
+
+    const bucket = partySizeBucket(partySize);
+    const learned = [
+      turnTimeKey(bucket, weekday, period),
+      turnTimeKey(bucket, '*', period),
+      turnTimeKey(bucket, '*', '*')
+    ].map(key => this.model.turn_times?.[key]).find(Boolean);
+
+    return learned?.minutes || this.settings.default_duration_minutes;
+  }
+
+  /**
+   * How long an existing reservation holds its table, preferring the turn time saved at booking
+   */
+  forReservation(reservation: Reservation): number {
+    return reservation.duration_minutes ||
+      this.predict(Number(reservation.party_size), reservation.reservation_date, reservation.reservation_time);
+  }
+}
+
+const SPECIAL_HOURS_KINDS: SpecialHours['kind'][] = ['closed', 'special_hours', 'blackout'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Check a special hours entry before saving it, returning the problem if there is one
+ */
+export function validateSpecialHours(entry: Partial<SpecialHours>): string | null {
+  if (!entry.start_date || !entry.kind) {
+    return 'start_date and kind are required';
+  }
+  if (!SPECIAL_HOURS_KINDS.includes(entry.kind)) {
+    return `kind must be one of ${SPECIAL_HOURS_KINDS.join(', ')}`;
+  }
+  if (entry.end_date && entry.end_date < entry.start_date) {
+    return 'end_date must not be before start_date';
+  }
+  if (entry.kind === 'special_hours' && !entry.periods?.length) {
+    return 'special_hours needs at least one period';
+  }
+
+  for (const period of entry.periods || []) {
+    if (!TIME_PATTERN.test(period.open) || !TIME_PATTERN.test(period.close)) {
+      return 'Period times must be HH:mm';
+    }
+    if (period.open >= period.close) {
+      return 'Each period must close after it opens';
+    }
+  }
+
+  return null;
+}
+
+export class AvailabilityService {
+  /**
+   * Load reservation settings, falling back to the seeded defaults
+   */
+  async getReservationSettings(): Promise<ReservationSettings> {
+    const { data } = await supabaseService.getSetting<Partial<ReservationSettings>>('reservation_settings');
+    return { ...DEFAULT_SETTINGS, ...(data || {}) };
+  }
+
+  /**
+   * Load turn-time overrides and learning parameters
+   */
+  async getTurnTimeSettings(): Promise<TurnTimeSettings> {
+    const { data } = await supabaseService.getSetting<Partial<TurnTimeSettings>>('turn_times');
+    return { ...DEFAULT_TURN_TIME_SETTINGS, ...(data || {}) };
+  }
+
+  /**
+   * Build a turn-time predictor from the current settings and learned model
+   */
+  async getTurnTimePredictor(settings?: ReservationSettings): Promise<TurnTimePredictor> {
+    const [reservationSettings, turnTimes, { data: model }] = await Promise.all([
+      settings || this.getReservationSettings(),
+      this.getTurnTimeSettings(),
+      supabaseService.getSetting<TurnTimeModel>('turn_time_model')
+    ]);
+
+    return new TurnTimePredictor(reservationSettings, turnTimes, model || { turn_times: {} });
+  }
+
+  /**
+   * Resolve opening hours for a date from business_hours and any special hours
+   */
+  async getScheduleForDate(date: string): Promise<DaySchedule> {
+    const [schedule] = await this.getSchedules(date, date);
+    return schedule;
+  }
+
+  /**
+   * Resolve opening hours for every date in a range, inclusive
+   */
+  async getSchedules(from: string, to: string): Promise<DaySchedule[]> {
+    const [{ data: hours }, { data: overrides }] = await Promise.all([
+      supabaseService.getSetting<BusinessHours>('business_hours'),
+      supabaseService.getSpecialHours({ from, to })
+    ]);
+
+    const schedules: DaySchedule[] = [];
+    for (let day = parseISO(from); format(day, 'yyyy-MM-dd') <= to; day = addDays(day, 1)) {
+      const date = format(day, 'yyyy-MM-dd');
+      schedules.push(this.buildSchedule(
+        date,
+        hours || {},
+        (overrides || []).filter(o => o.start_date <= date && o.end_date >= date)
+      ));
+    }
+
+    return schedules;
+  }
+
+  /**
+   * Whether the restaurant is open right now, and the next day it opens
+   */
+  async getOpeningStatus(now: Date = new Date(), lookaheadDays: number = 14): Promise<OpeningStatus> {
+    const date = localDate(now);
+    const [today, ...upcoming] = await this.getSchedules(date, addDaysToDate(date, lookaheadDays));
+    const minutes = localMinutes(now);
+
+    return {
+      open_now: this.isWithinHours(today, minutes, minutes + 1),
+      today,
+      next_open_day: upcoming.find(schedule => schedule.open) || null
+    };
+  }
+
+  /**
+   * Compute which tables are free at each bookable time on a date. Times already gone and
+   * dates past the advance booking window have none.
+   */
+  async getAvailability(query: AvailabilityQuery, now: Date = new Date()): Promise<AvailabilityResult> {
+    const settings = await this.getReservationSettings();
+    const turnTimes = await this.getTurnTimePredictor(settings);
+    // Turn time for this party at a given start, which can differ between lunch and dinner
+    const durationAt = (start: number) => turnTimes.predict(query.party_size, query.date, fromMinutes(start));
+    const result: AvailabilityResult = {
+      date: query.date,
+      party_size: query.party_size,
+      open: false,
+      duration_minutes: query.time ? durationAt(toMinutes(query.time)) : settings.default_duration_minutes,
+      slots: []
+    };
+
+    if (query.party_size < settings.min_party_size || query.party_size > settings.max_party_size) {
+      result.reason = `Party size must be between ${settings.min_party_size} and ${settings.max_party_size}`;
+      return result;
+    }
+
+    // Every booking path comes through here, so the booking window is enforced once
+    const today = localDate(now);
+    if (query.date < today) {
+      result.reason = 'That date has already passed';
+      return result;
+    }
+    if (query.date > addDaysToDate(today, settings.advance_booking_days)) {
+      result.reason = `We only take bookings up to ${settings.advance_booking_days} days ahead`;
+      return result;
+    }
+    // Minutes already gone today; nothing can start before them
+    const earliest = query.date === today ? localMinutes(now) : 0;
+
+    const schedule = await this.getScheduleForDate(query.date);
+    if (!schedule.open) {
+      result.reason = schedule.reason;
+      return result;
+    }
+    result.open = true;
+
+    const [{ data: tables }, { data: combinations }, { data: reservations }] = await Promise.all([
+      supabaseService.getTables(),
+      supabaseService.getTableCombinations(),
+      supabaseService.getReservations({ date: query.date })
+    ]);
+
+    const candidates = this.buildSeatingOptions(tables || [], combinations || [], query.party_size);
+    // Every live booking counts towards pacing, seated at a table yet or not
+    const paced = (reservations || [])
+      .filter(r => !INACTIVE_STATUSES.includes(r.status || '') && r.id !== query.exclude_reservation_id);
+    const active = paced.filter(r => getReservationTableIds(r).length > 0);
+    const activeDurations = new Map(active.map(r => [r.id, turnTimes.forReservation(r)]));
+
+    // Last seating of each service period must finish by its closing time
+    const times: number[] = [];
+
+    if (query.time) {
+      if (toMinutes(query.time) < earliest) {
+        result.reason = 'That time has already passed';
+        return result;
+      }
+      times.push(toMinutes(query.time));
+    } else {
+      for (const period of schedule.periods) {
+        const close = toMinutes(period.close);
+        for (let t = toMinutes(period.open); t + durationAt(t) <= close; t += settings.time_slot_interval_minutes) {
+          if (t >= earliest && !times.includes(t)) times.push(t);
+        }
+      }
+      times.sort((a, b) => a - b);
+    }
+
+    for (const start of times) {
+      const end = start + durationAt(start);
+      const withinHours = this.isWithinHours(schedule, start, end);
+      const throttled = withinHours && this.isThrottled(settings.pacing, start, query.party_size, paced);
+      const free = withinHours && !throttled
+        ? candidates.filter(option => !this.hasConflict(option, start, end, active, activeDurations))
+        : [];
+
+      result.slots.push({
+        start_time: fromMinutes(start),
+        end_time: fromMinutes(end),
+        available: free.length > 0,
+        tables: free,
+        throttled
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Load every seating option (single table or combination) that fits a party
+   */
+  async getSeatingOptions(partySize: number): Promise<SeatingOption[]> {
+    const [{ data: tables }, { data: combinations }] = await Promise.all([
+      supabaseService.getTables(),
+      supabaseService.getTableCombinations()
+    ]);
+
+    return this.buildSeatingOptions(tables || [], combinations || [], partySize);
+  }
+
+  /**
+   * Find the open times closest to a requested time on the same date
+   */
+  async getAlternatives(query: AvailabilityQuery, limit: number = 3): Promise<TableSlot[]> {
+    const { slots } = await this.getAvailability({
+      date: query.date,
+      party_size: query.party_size,
+      exclude_reservation_id: query.exclude_reservation_id
+    });
+    const target = query.time ? toMinutes(query.time) : 0;
+
+    return slots
+      .filter(slot => slot.available)
+      .sort((a, b) => Math.abs(toMinutes(a.start_time) - target) - Math.abs(toMinutes(b.start_time) - target))
+      .slice(0, limit);
+  }
+
+  /**
+   * Helper: Apply the overrides for one date to its weekly hours.
+   * Closures win over everything; the latest special_hours row replaces the weekly periods;
+   * blackouts without periods hold the whole day, otherwise only their windows.
+   */
+  private buildSchedule(date: string, hours: BusinessHours, overrides: SpecialHours[]): DaySchedule {
+    const weekday = format(parseISO(date), 'EEEE').toLowerCase();
+    const day = hours[weekday];
+    const weekly: SpecialHoursPeriod[] = !day || day.closed
+      ? []
+      : day.periods?.length
+        ? day.periods
+        : day.open && day.close ? [{ open: day.open, close: day.close }] : [];
+
+    const schedule: DaySchedule = { date, open: false, periods: weekly, blackouts: [] };
+
+    const closure = overrides.find(o => o.kind === 'closed');
+    const modified = overrides.filter(o => o.kind === 'special_hours').pop();
+    const blackouts = overrides.filter(o => o.kind === 'blackout');
+    const fullDayBlackout = blackouts.find(o => !o.periods?.length);
+
+    if (closure) {
+      schedule.periods = [];
+      schedule.reason = `The restaurant is closed on this date${closure.reason ? ` (${closure.reason})` : ''}`;
+      return schedule;
+    }
+
+    if (fullDayBlackout) {
+      schedule.periods = [];
+      schedule.reason = 'The restaurant is reserved for a private event on this date';
+      return schedule;
+    }
+
+    if (modified) {
+      schedule.periods = modified.periods || [];
+      schedule.note = modified.reason ? `Special hours for ${modified.reason}` : 'Special hours';
+    }
+
+    schedule.blackouts = blackouts.flatMap(o => o.periods || []);
+    schedule.open = schedule.periods.length > 0;
+
+    if (!schedule.open) {
+      schedule.reason = 'The restaurant is closed on this date';
+    } else if (schedule.blackouts.length > 0 && !schedule.note) {
+      schedule.note = 'Part of the day is reserved for a private event';
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Helper: Check a seating fits inside one service period and clear of every blackout
+   */
+  private isWithinHours(schedule: DaySchedule, start: number, end: number): boolean {
+    const inPeriod = schedule.periods.some(period =>
+      start >= toMinutes(period.open) && end <= toMinutes(period.close)
+    );
+    const blackedOut = schedule.blackouts.some(window =>
+      start < toMinutes(window.close) && end > toMinutes(window.open)
+    );
+
+    return inPeriod && !blackedOut;
+  }
+
+  /**
+   * Helper: Check whether seating another party at this time would break the kitchen
+   * pacing limits for its interval. Times outside every pacing period are never throttled.
+   */
+  private isThrottled(pacing: PacingSettings, start: number, partySize: number, reservations: Reservation[]): boolean {
+    const period = (pacing?.periods || []).find(p => start >= toMinutes(p.start) && start < toMinutes(p.end));
+    if (!period) {
+      return false;
+    }
+
+    const interval = pacing.interval_minutes || 15;
+    const bucket = Math.floor(start / interval) * interval;
+    const inInterval = reservations.filter(r => {
+      const time = toMinutes(r.reservation_time);
+      return time >= bucket && time < bucket + interval;
+    });
+    const covers = inInterval.reduce((sum, r) => sum + Number(r.party_size || 0), 0);
+
+    return (period.max_covers != null && covers + partySize > period.max_covers) ||
+      (period.max_parties != null && inInterval.length + 1 > period.max_parties);
+  }
+
+  /**
+   * Helper: Merge single tables and active combinations into the options that seat a party.
+   * Singles come first so a combination is only offered when no table fits.
+   */
+  private buildSeatingOptions(
+    tables: RestaurantTable[],
+    combinations: TableCombination[],
+    partySize: number
+  ): SeatingOption[] {
+    const byId = new Map(tables.map(table => [table.id, table]));
+
+    const singles: SeatingOption[] = tables
+      .filter(table => table.capacity >= partySize)
+      .map(table => ({
+        table_ids: [table.id],
+        table_number: table.table_number,
+        capacity: table.capacity,
+        location: table.location,
+        is_combination: false
+      }));
+
+    const combined: SeatingOption[] = combinations
+      .filter(combo => combo.max_party_size >= partySize && partySize >= (combo.min_party_size || 1))
+      // Skip a group if any member table is inactive
+      .filter(combo => combo.table_ids.every(id => byId.has(id)))
+      .map(combo => ({
+        table_ids: combo.table_ids,
+        table_number: combo.name,
+        capacity: combo.max_party_size,
+        location: byId.get(combo.table_ids[0])?.location,
+        is_combination: true
+      }));
+
+    const bySize = (a: SeatingOption, b: SeatingOption) => a.capacity - b.capacity;
+    return [...singles.sort(bySize), ...combined.sort(bySize)];
+  }
+
+  /**
+   * Helper: Check whether any table in an option is held by an overlapping reservation
+   */
+  private hasConflict(
+    option: SeatingOption,
+    start: number,
+    end: number,
+    reservations: Reservation[],
+    durations: Map<string | undefined, number>
+  ): boolean {
+    return reservations.some(r => {
+      if (!getReservationTableIds(r).some(id => option.table_ids.includes(id))) return false;
+      const rStart = toMinutes(r.reservation_time);
+      const rEnd = rStart + (durations.get(r.id) || 0);
+      return start < rEnd && rStart < end;
+    });
+  }
+}
+
+export default new AvailabilityService();
@@ -0,0 +1,284 @@
+import { randomBytes } from 'crypto';
+import { addMinutes } from 'date-fns';
+import supabaseService, { CalendarFeed, Reservation } from './supabaseService';
+import locationService from './locationService';
+import { currentRestaurantId, runInLocation } from './locationContext';
+import { getReservationTableIds } from './availabilityService';
+import { addDaysToDate, localDate, zonedTime } from './restaurantTime';
+
+export interface IcsEvent {
+  uid: string;
+  date: string; // yyyy-MM-dd
+  time: string; // HH:mm[:ss]
+  duration_minutes: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  updated_at?: string;
+}
+
+export interface FeedFilters {
+  name?: string;
+  section?: string | null;
+  statuses?: string[];
+  days_ahead?: number;
+}
+
+// Every status a reservation can be in; feeds may pick any of them
+const RESERVATION_STATUSES = ['pending_payment', 'confirmed', 'arrived', 'seated', 'completed', 'cancelled', 'no-show'];
+
+// What a feed shows when it doesn't name statuses: bookings still expected or in the room
+const LIVE_STATUSES = ['pending_payment', 'confirmed', 'arrived', 'seated'];
+
+const MAX_DAYS_AHEAD = 60;
+
+const DEFAULT_DURATION_MINUTES = 90;
+
+const ICS_STATUS: Record<string, IcsEvent['status']> = {
+  pending_payment: 'TENTATIVE',
+  cancelled: 'CANCELLED',
+  'no-show': 'CANCELLED'
+};
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 3.3.11)
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a content line into 75-octet pieces, continuation lines starting with a space
+ */
+export function foldIcsLine(line: string): string {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = pieces.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      pieces.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+/**
+ * Helper: UTC timestamp for DTSTART, DTEND, DTSTAMP and LAST-MODIFIED
+ */
+function utcTime(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+/**
+ * A complete VCALENDAR document with CRLF line endings
+ */
+export function buildCalendar(events: IcsEvent[], options: { name: string; method?: string }): string {
+  const now = utcTime(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Restaurant Host//Reservations//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method || 'PUBLISH'}`,
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`
+  ];
+
+  for (const event of events) {
+    // Pinned to the restaurant's timezone so subscribers elsewhere see the right hour
+    const start = zonedTime(event.date, event.time);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${utcTime(start.toISOString())}`,
+      `DTEND:${utcTime(addMinutes(start, event.duration_minutes).toISOString())}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.updated_at) lines.push(`LAST-MODIFIED:${utcTime(event.updated_at)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A reservation as the floor sees it: who, how many, where and anything to prepare
+ */
+export function staffEvent(reservation: Reservation, tableNumbers: string[] = []): IcsEvent {
+  const details = [
+    `Party of ${reservation.party_size}`,
+    reservation.guest_phone && `Phone: ${reservation.guest_phone}`,
+    tableNumbers.length > 0 && `Table ${tableNumbers.join(' + ')}`,
+    `Status: ${reservation.status}`,
+    reservation.occasion && `Occasion: ${reservation.occasion}`,
+    reservation.allergies?.length && `Allergies: ${reservation.allergies.join(', ').replace(/_/g, ' ')}`,
+    reservation.dietary_restrictions && `Dietary: ${reservation.dietary_restrictions}`,
+    reservation.special_requests && `Requests: ${reservation.special_requests}`,
+    reservation.guests?.vip_status && 'VIP'
+  ].filter(Boolean);
+
+  return {
+    uid: `reservation-${reservation.id}@ai-restaurant-host`,
+    date: reservation.reservation_date,
+    time: reservation.reservation_time,
+    duration_minutes: reservation.duration_minutes || DEFAULT_DURATION_MINUTES,
+    summary: `${reservation.guest_name} (${reservation.party_size})${tableNumbers.length ? ` · T${tableNumbers.join('+')}` : ''}`,
+    description: details.join('\n'),
+    status: ICS_STATUS[reservation.status || ''] || 'CONFIRMED',
+    updated_at: reservation.updated_at
+  };
+}
+
+/**
+ * A reservation as the guest sees it, for the invite attached to their confirmation
+ */
+export function guestEvent(reservation: Reservation, restaurant: Record<string, string> = {}): IcsEvent {
+  const name = restaurant.name || locationService.restaurantName();
+  return {
+    uid: `reservation-${reservation.id}@ai-restaurant-host`,
+    date: reservation.reservation_date,
+    time: reservation.reservation_time,
+    duration_minutes: reservation.duration_minutes || DEFAULT_DURATION_MINUTES,
+    summary: `Dinner at ${name}`,
+    description: [
+      `Table for ${reservation.party_size} under ${reservation.guest_name}.`,
+      `Confirmation #${reservation.id}`,
+      restaurant.phone && `To change or cancel, call ${restaurant.phone}.`
+    ].filter(Boolean).join('\n'),
+    location: restaurant.address,
+    status: ICS_STATUS[reservation.status || ''] || 'CONFIRMED',
+    updated_at: reservation.updated_at
+  };
+}
+
+export class CalendarService {
+  /**
+   * Create a feed for a staff member. The token in its URL is the only credential,
+   * so it is long and random.
+   */
+  async createFeed(userId: string, filters: FeedFilters) {
+    const validation = this.validateFilters(filters);
+    if (validation) {
+      return { success: false, error: validation };
+    }
+
+    return supabaseService.createCalendarFeed({
+      token: randomBytes(24).toString('hex'),
+      user_id: userId,
+      name: filters.name?.trim() || 'Reservations',
+      section: filters.section || null,
+      statuses: filters.statuses || [],
+      days_ahead: filters.days_ahead ?? 7
+    });
+  }
+
+  /**
+   * A staff member's feeds
+   */
+  async getFeeds(userId: string) {
+    return supabaseService.getCalendarFeeds(userId);
+  }
+
+  /**
+   * Revoke a feed; calendar apps subscribed to it stop updating
+   */
+  async deleteFeed(id: string, userId: string) {
+    const result = await supabaseService.deleteCalendarFeed(id, userId);
+    if (result.success && (result.data || []).length === 0) {
+      return { success: false, error: 'Calendar feed not found' };
+    }
+    return result;
+  }
+
+  /**
+   * The ICS document behind a feed URL, from today through the feed's window.
+   * ?section= and ?status= on the URL narrow it further.
+   */
+  async renderFeed(token: string, overrides: { section?: string; status?: string } = {}) {
+    const { data: feed } = await supabaseService.getCalendarFeedByToken(token);
+    if (!feed) {
+      return { success: false, error: 'Calendar feed not found' };
+    }
+
+    // Calendar apps fetch feeds without a location, so read from the one the feed was made in
+    const location = feed.restaurant_id && !currentRestaurantId()
+      ? await locationService.getById(feed.restaurant_id)
+      : undefined;
+    return location
+      ? runInLocation(location, () => this.buildFeed(feed, overrides))
+      : this.buildFeed(feed, overrides);
+  }
+
+  /**
+   * Helper: The ICS document for a feed's reservations
+   */
+  private async buildFeed(feed: CalendarFeed, overrides: { section?: string; status?: string }) {
+    const today = localDate();
+    const [{ data: reservations, error }, { data: tables }] = await Promise.all([
+      supabaseService.getReservations({
+        startDate: today,
+        endDate: addDaysToDate(today, feed.days_ahead ?? 7)
+      }),
+      supabaseService.getTables()
+    ]);
+    if (!reservations) {
+      return { success: false, error };
+    }
+
+    const section = overrides.section || feed.section;
+    const statuses = overrides.status
+      ? overrides.status.split(',')
+      : feed.statuses?.length ? feed.statuses : LIVE_STATUSES;
+    const tableById = new Map((tables || []).map(table => [table.id, table]));
+
+    const events = reservations
+      .filter(reservation => statuses.includes(reservation.status || ''))
+      .map(reservation => ({ reservation, tableIds: getReservationTableIds(reservation) }))
+      .filter(({ tableIds }) => !section || tableIds.some(id => tableById.get(id)?.location === section))
+      .map(({ reservation, tableIds }) =>
+        staffEvent(reservation, tableIds.map(id => tableById.get(id)?.table_number).filter(Boolean) as string[]));
+
+    await supabaseService.updateCalendarFeed(feed.id!, { last_accessed_at: new Date().toISOString() });
+
+    return { success: true, data: buildCalendar(events, { name: feed.name || 'Reservations' }) };
+  }
+
+  /**
+   * The invite attached to a guest's confirmation email
+   */
+  async getGuestInvite(reservation: Reservation): Promise<string> {
+    const { data: info } = await supabaseService.getSetting<Record<string, string>>('restaurant_info');
+    return buildCalendar([guestEvent(reservation, info || {})], {
+      name: info?.name || locationService.restaurantName()
+    });
+  }
+
+  /**
+   * Helper: Why a feed's filters are invalid, if they are
+   */
+  private validateFilters(filters: FeedFilters): string | null {
+    const unknown = (filters.statuses || []).filter(status => !RESERVATION_STATUSES.includes(status));
+    if (unknown.length > 0) {
+      return `Unknown status: ${unknown.join(', ')}`;
+    }
+    if (filters.days_ahead !== undefined
+      && (!Number.isInteger(filters.days_ahead) || filters.days_ahead < 0 || filters.days_ahead > MAX_DAYS_AHEAD)) {
+      return `days_ahead must be between 0 and ${MAX_DAYS_AHEAD}`;
+    }
+    return null;
+  }
+}
+
+export default new CalendarService();
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import { v4 as uuidv4 } from 'uuid';
+import { currentLocation } from './locationContext';
 
 interface ElevenLabsConfig {
   apiKey: string;
@@ -11,6 +12,7 @@ interface PhoneCallRequest {
   phoneNumber: string;
   metadata?: Record<string, any>;
   initialMessage?: string;
+  dynamicVariables?: Record<string, string | number | boolean>; // filled into the agent's prompt
 }
 
 interface ConversationData {
@@ -41,13 +43,23 @@ export class ElevenLabsService {
     });
   }
 
+  /**
+   * Helper: The current location's agent, else the one configured for the whole group
+   */
+  private agentId(): string {
+    return currentLocation()?.elevenlabs_agent_id || this.config.agentId;
+  }
+
   /**
    * Create a phone call with the AI agent
    */
   async createPhoneCall(request: PhoneCallRequest) {
     try {
+      const location = currentLocation();
       const response = await this.client.post('/convai/conversation/create_phone_call', {
-        agent_id: this.config.agentId,
+        agent_id: this.agentId(),
+        // Call from the location's own number, so guests see who is ringing
+        ...(location?.elevenlabs_phone_number_id ? { agent_phone_number_id: location.elevenlabs_phone_number_id } : {}),
         customer: {
           number: request.phoneNumber
         },
@@ -56,7 +68,10 @@ export class ElevenLabsService {
           call_id: uuidv4(),
           timestamp: new Date().toISOString()
         },
-        webhook_url: this.config.webhookUrl
+        webhook_url: this.config.webhookUrl,
+        ...(request.dynamicVariables
+          ? { conversation_initiation_client_data: { dynamic_variables: request.dynamicVariables } }
+          : {})
       });
 
       return {
@@ -77,7 +92,7 @@ export class ElevenLabsService {
    */
   async getAgent() {
     try {
-      const response = await this.client.get(`/convai/agents/${this.config.agentId}`);
+      const response = await this.client.get(`/convai/agents/${this.agentId()}`);
       return response.data;
     } catch (error: any) {
       console.error('Error fetching agent:', error.response?.data || error.message);
@@ -90,7 +105,7 @@ export class ElevenLabsService {
    */
   async updateAgent(updates: any) {
     try {
-      const response = await this.client.patch(`/convai/agents/${this.config.agentId}`, updates);
+      const response = await this.client.patch(`/convai/agents/${this.agentId()}`, updates);
       return response.data;
     } catch (error: any) {
       console.error('Error updating agent:', error.response?.data || error.message);
@@ -208,7 +223,7 @@ Always:
    * Create WebSocket connection for real-time conversation
    */
   createWebSocketConnection(sessionId: string) {
-    const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${this.config.agentId}`;
+    const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${this.agentId()}`;
 
     // Return WebSocket URL and headers for client connection
     return {
@@ -0,0 +1,108 @@
+import { SES } from 'aws-sdk';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string; // e.g. 'text/calendar; method=PUBLISH'
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+/**
+ * A single plain address (guest@example.com). Anything with whitespace, line breaks or
+ * header punctuation is refused, so an address can't add headers such as Bcc.
+ */
+export function isValidEmailAddress(address: string): boolean {
+  return /^[^\s@<>()",;:\[\]\\]+@[^\s@<>()",;:\[\]\\]+\.[^\s@<>()",;:\[\]\\]+$/.test(address || '');
+}
+
+/**
+ * Helper: RFC 2047 encoding for headers that may contain non-ASCII text
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Helper: Base64 wrapped at 76 characters, as MIME expects
+ */
+function base64Lines(content: string): string {
+  return (Buffer.from(content).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/**
+ * A multipart/mixed message: the plain-text body followed by each attachment
+ */
+export function buildMimeMessage(from: string, message: EmailMessage): string {
+  if (/[\r\n]/.test(from) || !isValidEmailAddress(message.to)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(message.to)}`);
+  }
+
+  const boundary = `mixed-${uuidv4()}`;
+  const parts = [
+    [
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(message.text)
+    ].join('\r\n'),
+    ...(message.attachments || []).map(attachment => [
+      `Content-Type: ${attachment.contentType}; charset=UTF-8; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(attachment.content)
+    ].join('\r\n'))
+  ];
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+export class EmailService {
+  private ses: SES | null = null;
+
+  /**
+   * Send an email through Amazon SES. Without EMAIL_FROM configured the message
+   * is only logged, so local setups keep working.
+   */
+  async sendEmail(message: EmailMessage): Promise<{ success: boolean; error?: string }> {
+    const from = process.env.EMAIL_FROM;
+    if (!from) {
+      console.log(`[email] not configured, skipped "${message.subject}" to ${message.to}`);
+      return { success: false, error: 'Email is not configured' };
+    }
+    if (!isValidEmailAddress(message.to)) {
+      console.warn(`[email] skipped "${message.subject}": ${JSON.stringify(message.to)} is not a valid address`);
+      return { success: false, error: 'Invalid email address' };
+    }
+
+    try {
+      this.ses = this.ses || new SES({ region: process.env.SES_REGION || process.env.AWS_REGION || 'us-east-1' });
+      await this.ses.sendRawEmail({
+        RawMessage: { Data: buildMimeMessage(from, message) }
+      }).promise();
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error sending email:', error);
+      return { success: false, error: error.message };
+    }
+  }
+}
+
+export default new EmailService();
@@ -0,0 +1,581 @@
+import supabaseService, {
+  DepositInstalment,
+  EventMenuItem,
+  PrivateEvent,
+  Reservation,
+  RestaurantTable
+} from './supabaseService';
+import availabilityService, { fromMinutes, toMinutes } from './availabilityService';
+import reservationService from './reservationService';
+import guestService from './guestService';
+import { addDaysToDate, localDate } from './restaurantTime';
+
+export interface EventSettings {
+  private_room_location: string;
+  minimum_spend: Record<PrivateEvent['event_type'], number>;
+  room_fee: Record<PrivateEvent['event_type'], number>;
+  service_charge_percent: number;
+  deposit_percent: number;
+  deposit_due_days: number;
+  balance_due_days_before: number;
+  default_duration_minutes: number;
+}
+
+export interface EventTotals {
+  food: number;
+  minimum_spend_shortfall: number;
+  room_fee: number;
+  service_charge: number;
+  total: number;
+  paid: number;
+  outstanding: number;
+}
+
+interface InquiryRequest {
+  contact_name: string;
+  contact_phone?: string;
+  contact_email?: string;
+  company?: string;
+  event_type?: PrivateEvent['event_type'];
+  event_date: string;
+  start_time?: string;
+  end_time?: string;
+  guest_count: number;
+  occasion?: string;
+  dietary_requirements?: string;
+  notes?: string;
+  source?: string;
+  conversation_id?: string;
+}
+
+type EventResult = { success: boolean; data?: PrivateEvent; error?: string };
+
+export const EVENT_TYPES: PrivateEvent['event_type'][] = ['private_dining', 'buyout'];
+
+export const EVENT_TRANSITIONS: Record<string, string[]> = {
+  inquiry: ['proposal_sent', 'lost', 'cancelled'],
+  proposal_sent: ['confirmed', 'lost', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  lost: []
+};
+
+// Fields staff may edit while the event is still open
+const EDITABLE_FIELDS: (keyof PrivateEvent)[] = [
+  'contact_name',
+  'contact_phone',
+  'contact_email',
+  'company',
+  'event_type',
+  'event_date',
+  'start_time',
+  'end_time',
+  'guest_count',
+  'occasion',
+  'price_per_guest',
+  'minimum_spend',
+  'room_fee',
+  'service_charge_percent',
+  'deposit_schedule',
+  'dietary_requirements',
+  'notes'
+];
+
+// Changes that move or resize the room hold of a confirmed event
+const HOLD_FIELDS: (keyof PrivateEvent)[] = ['event_type', 'event_date', 'start_time', 'end_time', 'guest_count'];
+
+// Reservation statuses that still occupy a table
+const ACTIVE_RESERVATION_STATUSES = ['pending_payment', 'confirmed', 'arrived', 'seated'];
+
+const DEFAULT_EVENT_SETTINGS: EventSettings = {
+  private_room_location: 'private',
+  minimum_spend: { private_dining: 0, buyout: 0 },
+  room_fee: { private_dining: 0, buyout: 0 },
+  service_charge_percent: 0,
+  deposit_percent: 30,
+  deposit_due_days: 7,
+  balance_due_days_before: 7,
+  default_duration_minutes: 180
+};
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Per-guest price of a set menu. Guests choose one dish per course, so each course
+ * is priced at its dearest option.
+ */
+export function setMenuPricePerGuest(menu: EventMenuItem[]): number {
+  const courses = new Map<string, number>();
+  for (const item of menu) {
+    const course = item.category || item.name;
+    courses.set(course, Math.max(courses.get(course) || 0, Number(item.price) || 0));
+  }
+  return roundMoney([...courses.values()].reduce((sum, price) => sum + price, 0));
+}
+
+/**
+ * What the event costs. Food below the minimum spend is charged as a shortfall,
+ * and the service charge applies to food and shortfall but not the room fee.
+ */
+export function computeEventTotals(event: PrivateEvent): EventTotals {
+  const food = roundMoney(Number(event.price_per_guest || 0) * Number(event.guest_count));
+  const shortfall = roundMoney(Math.max(0, Number(event.minimum_spend || 0) - food));
+  const roomFee = roundMoney(Number(event.room_fee || 0));
+  const serviceCharge = roundMoney((food + shortfall) * Number(event.service_charge_percent || 0) / 100);
+  const total = roundMoney(food + shortfall + roomFee + serviceCharge);
+  const paid = roundMoney((event.deposit_schedule || [])
+    .filter(instalment => instalment.paid_at)
+    .reduce((sum, instalment) => sum + Number(instalment.amount), 0));
+
+  return {
+    food,
+    minimum_spend_shortfall: shortfall,
+    room_fee: roomFee,
+    service_charge: serviceCharge,
+    total,
+    paid,
+    outstanding: roundMoney(total - paid)
+  };
+}
+
+/**
+ * Deposit now, balance shortly before the event. Due dates never fall after the event
+ * or before today, so short-notice events collect everything up front.
+ */
+export function buildDepositSchedule(
+  total: number,
+  eventDate: string,
+  settings: EventSettings,
+  today: Date = new Date()
+): DepositInstalment[] {
+  const first = localDate(today);
+  const clamp = (value: string) => value > eventDate ? eventDate : value < first ? first : value;
+
+  const deposit = roundMoney(total * settings.deposit_percent / 100);
+  const depositDue = clamp(addDaysToDate(first, settings.deposit_due_days));
+  const balanceDue = clamp(addDaysToDate(eventDate, -settings.balance_due_days_before));
+
+  if (deposit <= 0 || deposit >= total || balanceDue <= depositDue) {
+    return [{ label: 'Full payment', due_date: depositDue, amount: total }];
+  }
+
+  return [
+    { label: 'Deposit', due_date: depositDue, amount: deposit },
+    { label: 'Balance', due_date: balanceDue, amount: roundMoney(total - deposit) }
+  ];
+}
+
+export class EventService {
+  /**
+   * Load event pricing and deposit settings
+   */
+  async getEventSettings(): Promise<EventSettings> {
+    const { data } = await supabaseService.getSetting<Partial<EventSettings>>('event_settings');
+    return { ...DEFAULT_EVENT_SETTINGS, ...(data || {}) };
+  }
+
+  /**
+   * Record a new inquiry, priced from the event settings for its type
+   */
+  async createInquiry(request: InquiryRequest, createdBy: string = 'staff'): Promise<EventResult> {
+    const eventType = request.event_type || 'private_dining';
+    if (!EVENT_TYPES.includes(eventType)) {
+      return { success: false, error: `event_type must be one of ${EVENT_TYPES.join(', ')}` };
+    }
+
+    const guestCount = Number(request.guest_count);
+    if (!guestCount || guestCount < 1) {
+      return { success: false, error: 'guest_count must be a positive number' };
+    }
+
+    const settings = await this.getEventSettings();
+    const endTime = request.end_time || (request.start_time
+      ? fromMinutes(Math.min(toMinutes(request.start_time) + settings.default_duration_minutes, 23 * 60 + 59))
+      : undefined);
+
+    let guestId: string | undefined;
+    if (request.contact_phone) {
+      const { data: guest } = await guestService.findOrCreateByPhone(
+        request.contact_name,
+        request.contact_phone,
+        request.contact_email
+      );
+      guestId = guest?.id;
+    }
+
+    return supabaseService.createEvent({
+      ...request,
+      guest_id: guestId,
+      event_type: eventType,
+      guest_count: guestCount,
+      end_time: endTime,
+      minimum_spend: settings.minimum_spend[eventType] || 0,
+      room_fee: settings.room_fee[eventType] || 0,
+      service_charge_percent: settings.service_charge_percent,
+      set_menu: [],
+      deposit_schedule: [],
+      source: request.source || 'phone',
+      created_by: createdBy
+    });
+  }
+
+  /**
+   * Edit an open event. set_menu takes menu item ids and snapshots their names and prices;
+   * changing the date, time, type or size of a confirmed event moves its room hold.
+   */
+  async updateEvent(
+    id: string,
+    updates: Partial<Omit<PrivateEvent, 'set_menu'>> & { set_menu?: string[] },
+    performedBy: string = 'staff'
+  ): Promise<EventResult & { conflicts?: Reservation[] }> {
+    const { data: current, error } = await supabaseService.getEvent(id);
+    if (!current) {
+      return { success: false, error: error || 'Event not found' };
+    }
+
+    if (EVENT_TRANSITIONS[current.status || 'inquiry'].length === 0) {
+      return { success: false, error: `Cannot edit a ${current.status} event` };
+    }
+
+    if (updates.event_type && !EVENT_TYPES.includes(updates.event_type)) {
+      return { success: false, error: `event_type must be one of ${EVENT_TYPES.join(', ')}` };
+    }
+
+    const changes: Partial<PrivateEvent> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (updates[field] !== undefined) {
+        (changes as any)[field] = updates[field];
+      }
+    }
+
+    if (updates.set_menu) {
+      const menu = await this.resolveMenu(updates.set_menu);
+      if (!menu.success) {
+        return { success: false, error: menu.error };
+      }
+      changes.set_menu = menu.data;
+      if (updates.price_per_guest === undefined) {
+        changes.price_per_guest = setMenuPricePerGuest(menu.data);
+      }
+    }
+
+    const moved = current.status === 'confirmed'
+      && HOLD_FIELDS.some(field => changes[field] !== undefined && changes[field] !== current[field]);
+
+    if (moved) {
+      await this.releaseHold(current, performedBy, 'Event changed');
+      const hold = await this.placeHold({ ...current, ...changes }, performedBy);
+      if (!hold.success) {
+        // Put the original hold back so the event isn't left without a room
+        const restored = await this.placeHold(current, performedBy);
+        if (restored.success) {
+          await supabaseService.updateEvent(id, restored.fields);
+        }
+        return { success: false, error: hold.error, conflicts: hold.conflicts };
+      }
+
+      const result = await supabaseService.updateEvent(id, { ...changes, ...hold.fields });
+      return { ...result, conflicts: hold.conflicts };
+    }
+
+    return supabaseService.updateEvent(id, changes);
+  }
+
+  /**
+   * Move an event through its pipeline. Sending a proposal prices it and sets the
+   * deposit schedule; confirming holds the private room or blocks the restaurant for a
+   * buyout; cancelling or losing it releases that hold again.
+   */
+  async updateStatus(
+    id: string,
+    status: string,
+    performedBy: string = 'staff',
+    options: { reason?: string } = {}
+  ): Promise<EventResult & { conflicts?: Reservation[] }> {
+    const { data: current, error } = await supabaseService.getEvent(id);
+    if (!current) {
+      return { success: false, error: error || 'Event not found' };
+    }
+
+    const from = current.status || 'inquiry';
+    if (!EVENT_TRANSITIONS[status]) {
+      return { success: false, error: `Unknown event status: ${status}` };
+    }
+    if (!EVENT_TRANSITIONS[from].includes(status)) {
+      return { success: false, error: `Cannot change a ${from} event to ${status}` };
+    }
+
+    const now = new Date().toISOString();
+
+    switch (status) {
+      case 'proposal_sent': {
+        if (!current.start_time) {
+          return { success: false, error: 'Set a start time before sending the proposal' };
+        }
+        if (!current.set_menu?.length && !current.price_per_guest) {
+          return { success: false, error: 'Choose a set menu or a price per guest before sending the proposal' };
+        }
+
+        const settings = await this.getEventSettings();
+        const priced = {
+          ...current,
+          price_per_guest: current.price_per_guest ?? setMenuPricePerGuest(current.set_menu || [])
+        };
+        const schedule = current.deposit_schedule?.length
+          ? current.deposit_schedule
+          : buildDepositSchedule(computeEventTotals(priced).total, current.event_date, settings);
+
+        return supabaseService.updateEvent(id, {
+          status: 'proposal_sent',
+          price_per_guest: priced.price_per_guest,
+          deposit_schedule: schedule,
+          proposal_sent_at: now
+        });
+      }
+
+      case 'confirmed': {
+        const hold = await this.placeHold(current, performedBy);
+        if (!hold.success) {
+          return { success: false, error: hold.error, conflicts: hold.conflicts };
+        }
+
+        const result = await supabaseService.updateEvent(id, {
+          status: 'confirmed',
+          confirmed_at: now,
+          ...hold.fields
+        });
+        return { ...result, conflicts: hold.conflicts };
+      }
+
+      case 'completed':
+        if (current.reservation_id) {
+          // Straight to completed: the room hold never went through seating, so it stays
+          // out of the turn-time samples
+          await supabaseService.updateReservation(current.reservation_id, { status: 'completed' });
+          await supabaseService.createReservationLog({
+            reservation_id: current.reservation_id,
+            action: 'completed',
+            details: { event_id: id },
+            performed_by: performedBy
+          });
+        }
+        return supabaseService.updateEvent(id, { status: 'completed' });
+
+      default:
+        await this.releaseHold(current, performedBy, options.reason || `Event ${status}`);
+        return supabaseService.updateEvent(id, {
+          status: status as PrivateEvent['status'],
+          reservation_id: null,
+          special_hours_id: null,
+          ...(status === 'lost' ? { lost_reason: options.reason } : {})
+        });
+    }
+  }
+
+  /**
+   * Mark one instalment of the deposit schedule paid, or unpaid again
+   */
+  async recordDeposit(id: string, index: number, paid: boolean = true): Promise<EventResult> {
+    const { data: current, error } = await supabaseService.getEvent(id);
+    if (!current) {
+      return { success: false, error: error || 'Event not found' };
+    }
+
+    const schedule = [...(current.deposit_schedule || [])];
+    if (!schedule[index]) {
+      return { success: false, error: 'No such instalment' };
+    }
+
+    schedule[index] = { ...schedule[index], paid_at: paid ? new Date().toISOString() : undefined };
+    return supabaseService.updateEvent(id, { deposit_schedule: schedule });
+  }
+
+  /**
+   * Everything the kitchen and floor need for the night, for the printable BEO
+   * (banquet event order)
+   */
+  async getBeo(id: string) {
+    const [{ data: event, error }, { data: info }] = await Promise.all([
+      supabaseService.getEvent(id),
+      supabaseService.getSetting<Record<string, string>>('restaurant_info')
+    ]);
+    if (!event) {
+      return { success: false, error: error || 'Event not found' };
+    }
+
+    const courses: Record<string, EventMenuItem[]> = {};
+    for (const item of event.set_menu || []) {
+      const course = item.category || 'other';
+      courses[course] = [...(courses[course] || []), item];
+    }
+
+    let room: RestaurantTable | undefined;
+    if (event.reservation_id) {
+      const { data: hold } = await supabaseService.getReservation(event.reservation_id);
+      if (hold?.table_id) {
+        room = (await supabaseService.getTable(hold.table_id)).data;
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        restaurant: info || {},
+        event,
+        space: event.event_type === 'buyout' ? 'Full restaurant' : room?.table_number || 'Private room',
+        courses,
+        allergens: [...new Set((event.set_menu || []).flatMap(item => item.allergens || []))].sort(),
+        totals: computeEventTotals(event)
+      }
+    };
+  }
+
+  /**
+   * Helper: Look up menu items and snapshot them for the proposal
+   */
+  private async resolveMenu(ids: string[]): Promise<{ success: boolean; data?: EventMenuItem[]; error?: string }> {
+    if (ids.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const { data: items, error } = await supabaseService.getMenuItems({ ids });
+    if (!items) {
+      return { success: false, error: error || 'Failed to load menu items' };
+    }
+
+    const missing = ids.filter(menuItemId => !items.some(item => item.id === menuItemId));
+    if (missing.length > 0) {
+      return { success: false, error: `Unknown menu items: ${missing.join(', ')}` };
+    }
+
+    return {
+      success: true,
+      data: items.map(item => ({
+        menu_item_id: item.id!,
+        name: item.name,
+        category: item.category,
+        price: Number(item.price || 0),
+        allergens: item.allergens || []
+      }))
+    };
+  }
+
+  /**
+   * Helper: Hold the space for a confirmed event. A private dining event books the
+   * smallest private room that seats everyone; a buyout blacks out the restaurant.
+   * Existing reservations in the way are returned for the host to move; the room can't be
+   * held while one of them is on it.
+   */
+  private async placeHold(event: PrivateEvent, performedBy: string): Promise<{
+    success: boolean;
+    fields?: Partial<PrivateEvent>;
+    conflicts?: Reservation[];
+    error?: string;
+  }> {
+    if (!event.start_time || !event.end_time) {
+      return { success: false, error: 'Set a start and end time before confirming' };
+    }
+
+    const start = toMinutes(event.start_time);
+    const end = toMinutes(event.end_time);
+    const [settings, reservationSettings, { data: reservations }] = await Promise.all([
+      this.getEventSettings(),
+      availabilityService.getReservationSettings(),
+      supabaseService.getReservations({ date: event.event_date })
+    ]);
+
+    const overlapping = (reservations || []).filter(r => {
+      if (!ACTIVE_RESERVATION_STATUSES.includes(r.status || '') || r.id === event.reservation_id) {
+        return false;
+      }
+      const rStart = toMinutes(r.reservation_time);
+      const rEnd = rStart + (r.duration_minutes || reservationSettings.default_duration_minutes);
+      return rStart < end && start < rEnd;
+    });
+
+    if (event.event_type === 'buyout') {
+      const { data: blackout, error } = await supabaseService.createSpecialHours({
+        start_date: event.event_date,
+        end_date: event.event_date,
+        kind: 'blackout',
+        periods: [{ name: 'buyout', open: event.start_time.slice(0, 5), close: event.end_time.slice(0, 5) }],
+        reason: `Private event: ${event.company || event.contact_name}`,
+        created_by: performedBy
+      });
+      if (!blackout) {
+        return { success: false, error: error || 'Failed to block the restaurant' };
+      }
+
+      return { success: true, fields: { special_hours_id: blackout.id, reservation_id: null }, conflicts: overlapping };
+    }
+
+    const { data: tables } = await supabaseService.getTables();
+    const room = (tables || [])
+      .filter(table => table.location === settings.private_room_location && table.capacity >= event.guest_count)
+      .sort((a, b) => a.capacity - b.capacity)[0];
+    if (!room) {
+      return {
+        success: false,
+        error: `No private room seats ${event.guest_count}; book it as a buyout instead`
+      };
+    }
+
+    const { data: hold, error, conflict } = await supabaseService.createReservationOnTables({
+      guest_id: event.guest_id,
+      guest_name: event.company || event.contact_name,
+      guest_phone: event.contact_phone,
+      guest_email: event.contact_email,
+      reservation_date: event.event_date,
+      reservation_time: event.start_time,
+      party_size: event.guest_count,
+      table_id: room.id,
+      duration_minutes: end - start,
+      status: 'confirmed',
+      occasion: event.occasion,
+      special_requests: 'Private dining event',
+      dietary_restrictions: event.dietary_requirements,
+      source: 'event',
+      created_by: performedBy
+    }, [room.id]);
+
+    const roomBookings = overlapping.filter(r =>
+      r.table_id === room.id || (r.reservation_tables || []).some(t => t.table_id === room.id));
+
+    if (conflict) {
+      return { success: false, error: 'The private room is already booked then', conflicts: roomBookings };
+    }
+    if (!hold) {
+      return { success: false, error: error || 'Failed to hold the private room' };
+    }
+
+    return {
+      success: true,
+      fields: { reservation_id: hold.id, special_hours_id: null },
+      conflicts: roomBookings
+    };
+  }
+
+  /**
+   * Helper: Give back the room or the restaurant held for an event
+   */
+  private async releaseHold(event: PrivateEvent, performedBy: string, reason: string) {
+    if (event.reservation_id) {
+      await reservationService.updateStatus(
+        event.reservation_id,
+        'cancelled',
+        performedBy,
+        { event_id: event.id, reason },
+        { cancelled_at: new Date().toISOString() }
+      );
+    }
+
+    if (event.special_hours_id) {
+      await supabaseService.deleteSpecialHours(event.special_hours_id);
+    }
+  }
+}
+
+export default new EventService();
@@ -0,0 +1,169 @@
+import supabaseService, { Guest, MenuItem, Reservation, RowFilter } from './supabaseService';
+import { getReservationTableIds } from './availabilityService';
+import { localDayRange } from './restaurantTime';
+
+export type ExportType = 'reservations' | 'guests' | 'call_logs' | 'menu';
+
+export interface ExportFilters {
+  from?: string; // yyyy-MM-dd
+  to?: string;
+  status?: string;
+}
+
+type ExportResult = { success: boolean; data?: string; error?: string };
+
+// Columns per export. Names match the import fields, so an export can be loaded back in as-is.
+const EXPORT_COLUMNS: Record<ExportType, string[]> = {
+  reservations: [
+    'id', 'guest_name', 'guest_phone', 'guest_email', 'reservation_date', 'reservation_time', 'party_size',
+    'status', 'table_number', 'duration_minutes', 'occasion', 'allergies', 'dietary_restrictions',
+    'special_requests', 'source', 'created_at'
+  ],
+  guests: [
+    'id', 'name', 'phone', 'email', 'vip', 'tags', 'visit_count', 'no_show_count', 'last_visit_date',
+    'reliability_score', 'allergies', 'dietary', 'seating', 'notes', 'created_at'
+  ],
+  call_logs: [
+    'id', 'created_at', 'call_type', 'phone_number', 'duration_seconds', 'outcome', 'guest_id',
+    'reservation_id', 'agent_notes', 'transcript'
+  ],
+  menu: [
+    'id', 'name', 'category', 'description', 'price', 'allergens', 'dietary', 'is_available', 'is_featured',
+    'preparation_time_minutes', 'image_url'
+  ]
+};
+
+/**
+ * One CSV cell: lists joined with commas, quoted when needed. Text a spreadsheet would run as a
+ * formula (=, @, or + and - not followed by a number) is prefixed with an apostrophe.
+ */
+export function csvCell(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=@\t\r]/.test(text) || /^[+-](?![\d\s().-]*$)/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * A CSV document with a header row, CRLF line endings and a byte-order mark so Excel
+ * reads it as UTF-8
+ */
+export function toCsv(columns: string[], rows: Record<string, any>[]): string {
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))];
+  return `\ufeff${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Helper: Filters on a date column for an inclusive from/to range
+ */
+function dateRange(column: string, filters: ExportFilters, timestamps = false): RowFilter[] {
+  const range: RowFilter[] = [];
+  if (filters.from) {
+    range.push({ column, op: 'gte', value: timestamps ? localDayRange(filters.from).start : filters.from });
+  }
+  if (filters.to) {
+    // Timestamps on the last day are after midnight, so stop at the start of the next restaurant day
+    range.push(timestamps
+      ? { column, op: 'lt', value: localDayRange(filters.to).end }
+      : { column, op: 'lte', value: filters.to });
+  }
+  return range;
+}
+
+export class ExportService {
+  /**
+   * A CSV export, with optional from/to dates (reservation date, or call time for call logs)
+   * and a status for reservations
+   */
+  async exportCsv(type: ExportType, filters: ExportFilters = {}): Promise<ExportResult> {
+    const invalid = [filters.from, filters.to].find(date => date && !/^\d{4}-\d{2}-\d{2}$/.test(date));
+    if (invalid) {
+      return { success: false, error: `Dates must be yyyy-MM-dd, got "${invalid}"` };
+    }
+
+    const result = await this.getRows(type, filters);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: toCsv(EXPORT_COLUMNS[type], result.data) };
+  }
+
+  /**
+   * Helper: The rows of an export, flattened into its columns
+   */
+  private async getRows(type: ExportType, filters: ExportFilters): Promise<{ success: boolean; data?: Record<string, any>[]; error?: string }> {
+    switch (type) {
+      case 'reservations': {
+        const [{ data: reservations, error }, { data: tables }] = await Promise.all([
+          supabaseService.getAllRows<Reservation>('reservations', {
+            select: '*, reservation_tables ( table_id )',
+            order: ['reservation_date', 'reservation_time'],
+            filters: [
+              ...dateRange('reservation_date', filters),
+              ...(filters.status ? [{ column: 'status', op: 'eq' as const, value: filters.status }] : [])
+            ]
+          }),
+          supabaseService.getTables()
+        ]);
+        if (!reservations) {
+          return { success: false, error };
+        }
+        const tableNumbers = new Map((tables || []).map(table => [table.id, table.table_number]));
+        return {
+          success: true,
+          data: reservations.map(reservation => ({
+            ...reservation,
+            reservation_time: reservation.reservation_time?.slice(0, 5),
+            table_number: getReservationTableIds(reservation).map(id => tableNumbers.get(id)).filter(Boolean).join('+')
+          }))
+        };
+      }
+      case 'guests': {
+        const { data: guests, error } = await supabaseService.getAllRows<Guest>('guests', { order: ['name'] });
+        if (!guests) {
+          return { success: false, error };
+        }
+        return {
+          success: true,
+          data: guests.map(guest => ({
+            ...guest,
+            vip: guest.vip_status ? 'yes' : 'no',
+            allergies: guest.preferences?.allergies,
+            dietary: guest.preferences?.dietary,
+            seating: guest.preferences?.seating
+          }))
+        };
+      }
+      case 'call_logs': {
+        const { data: calls, error } = await supabaseService.getAllRows('call_logs', {
+          order: ['created_at'],
+          filters: dateRange('created_at', filters, true)
+        });
+        return calls ? { success: true, data: calls } : { success: false, error };
+      }
+      case 'menu': {
+        const { data: items, error } = await supabaseService.getAllRows<MenuItem>('menu_items', { order: ['category', 'name'] });
+        if (!items) {
+          return { success: false, error };
+        }
+        return {
+          success: true,
+          data: items.map(item => ({
+            ...item,
+            dietary: Object.entries(item.dietary_info || {}).filter(([, value]) => value).map(([tag]) => tag),
+            is_available: item.is_available === false ? 'no' : 'yes',
+            is_featured: item.is_featured ? 'yes' : 'no'
+          }))
+        };
+      }
+      default:
+        return { success: false, error: `Unknown export type: ${type}` };
+    }
+  }
+}
+
+export default new ExportService();
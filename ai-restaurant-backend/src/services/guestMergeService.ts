@@ -0,0 +1,289 @@
+import supabaseService, { Guest } from './supabaseService';
+import guestService, { normalizePhone, normalizeTags } from './guestService';
+
+export interface DuplicateProposal {
+  guests: [Guest, Guest];
+  reasons: string[]; // phone, similar_phone, email, name
+  confidence: number; // 0-1
+  suggested_survivor_id: string;
+}
+
+// Names at least this similar are worth a look
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// The detector compares every guest, so cap what it reads in one pass
+const MAX_GUESTS_SCANNED = 5000;
+
+/**
+ * Lowercase, accents and punctuation removed: "José  O'Brien" -> "jose o brien"
+ */
+export function normalizeName(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike two names are, 0-1. "J. Smith" and "John Smith" count as a close match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (!first || !second) {
+    return 0;
+  }
+  if (first === second) {
+    return 1;
+  }
+
+  const firstTokens = first.split(' ');
+  const secondTokens = second.split(' ');
+  if (firstTokens.length > 1 && secondTokens.length > 1
+    && firstTokens[firstTokens.length - 1] === secondTokens[secondTokens.length - 1]
+    && firstTokens[0][0] === secondTokens[0][0]
+    && (firstTokens[0].length === 1 || secondTokens[0].length === 1)) {
+    return 0.9;
+  }
+
+  return 1 - levenshtein(first, second) / Math.max(first.length, second.length);
+}
+
+/**
+ * The profile left after folding the others into the survivor. The survivor's
+ * own details win; counts add up and tags, notes and preferences are combined.
+ */
+export function combineProfiles(survivor: Guest, merged: Guest[]): Partial<Guest> {
+  const all = [survivor, ...merged];
+  const lastVisits = all.map(guest => guest.last_visit_date).filter(Boolean).sort();
+  const notes = [...new Set(all.map(guest => guest.notes?.trim()).filter(Boolean))];
+
+  return {
+    phone: survivor.phone || merged.find(guest => guest.phone)?.phone,
+    email: survivor.email || merged.find(guest => guest.email)?.email,
+    preferences: Object.assign({}, ...[...merged].reverse().map(guest => guest.preferences || {}), survivor.preferences || {}),
+    visit_count: all.reduce((sum, guest) => sum + (guest.visit_count || 0), 0),
+    no_show_count: all.reduce((sum, guest) => sum + (guest.no_show_count || 0), 0),
+    vip_status: all.some(guest => guest.vip_status),
+    tags: normalizeTags(all.flatMap(guest => guest.tags || [])),
+    notes: notes.join('\n') || undefined,
+    last_visit_date: lastVisits[lastVisits.length - 1]
+  };
+}
+
+/**
+ * Helper: Same phone digits bar the country code, e.g. "5551234567" vs "+15551234567"
+ */
+function similarPhone(a?: string, b?: string): boolean {
+  const first = (a || '').replace(/\D/g, '');
+  const second = (b || '').replace(/\D/g, '');
+  return first.length >= 7 && second.length >= 7 && first.slice(-7) === second.slice(-7);
+}
+
+export class GuestMergeService {
+  /**
+   * Pairs of guests that look like the same person, most likely first.
+   * Pairs staff have dismissed are left out.
+   */
+  async findDuplicates(): Promise<{ success: boolean; data?: DuplicateProposal[]; error?: string }> {
+    const [{ data: guests, error }, { data: dismissals }] = await Promise.all([
+      supabaseService.getGuests({ limit: MAX_GUESTS_SCANNED }),
+      supabaseService.getDuplicateDismissals()
+    ]);
+    if (!guests) {
+      return { success: false, error };
+    }
+
+    const dismissed = new Set((dismissals || []).map(d => [d.guest_id_a, d.guest_id_b].sort().join(':')));
+    const pairs = new Map<string, DuplicateProposal>();
+
+    const propose = (a: Guest, b: Guest, reason: string) => {
+      const key = [a.id, b.id].sort().join(':');
+      if (a.id === b.id || dismissed.has(key)) {
+        return;
+      }
+      const proposal = pairs.get(key) || {
+        guests: [a, b] as [Guest, Guest],
+        reasons: [],
+        confidence: 0,
+        suggested_survivor_id: this.pickSurvivor(a, b).id!
+      };
+      if (!proposal.reasons.includes(reason)) {
+        proposal.reasons.push(reason);
+      }
+      pairs.set(key, proposal);
+    };
+
+    // Exact matches are grouped by key; names are only compared within a surname bucket
+    const byPhone = new Map<string, Guest[]>();
+    const byPhoneTail = new Map<string, Guest[]>();
+    const byEmail = new Map<string, Guest[]>();
+    const bySurname = new Map<string, Guest[]>();
+    const add = (map: Map<string, Guest[]>, key: string, guest: Guest) => {
+      if (key) {
+        map.set(key, [...(map.get(key) || []), guest]);
+      }
+    };
+
+    for (const guest of guests) {
+      add(byPhone, normalizePhone(guest.phone || ''), guest);
+      add(byPhoneTail, (guest.phone || '').replace(/\D/g, '').slice(-7), guest);
+      add(byEmail, (guest.email || '').trim().toLowerCase(), guest);
+      const tokens = normalizeName(guest.name).split(' ');
+      add(bySurname, tokens[tokens.length - 1].slice(0, 2), guest);
+    }
+
+    const eachPair = (map: Map<string, Guest[]>, check: (a: Guest, b: Guest) => string | null) => {
+      for (const group of map.values()) {
+        for (let i = 0; i < group.length; i++) {
+          for (let j = i + 1; j < group.length; j++) {
+            const reason = check(group[i], group[j]);
+            if (reason) {
+              propose(group[i], group[j], reason);
+            }
+          }
+        }
+      }
+    };
+
+    eachPair(byPhone, () => 'phone');
+    eachPair(byPhoneTail, (a, b) => similarPhone(a.phone, b.phone) && normalizePhone(a.phone!) !== normalizePhone(b.phone!)
+      ? 'similar_phone'
+      : null);
+    eachPair(byEmail, () => 'email');
+    eachPair(bySurname, (a, b) => nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD ? 'name' : null);
+
+    const proposals = [...pairs.values()]
+      .map(proposal => ({ ...proposal, confidence: this.score(proposal) }))
+      // Two different phone numbers and nothing but a similar name is usually two people
+      .filter(proposal => proposal.reasons.length > 1 || proposal.reasons[0] !== 'name'
+        || !proposal.guests[0].phone || !proposal.guests[1].phone)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    return { success: true, data: proposals };
+  }
+
+  /**
+   * Remember that two guests are different people
+   */
+  async dismiss(guestIdA: string, guestIdB: string, dismissedBy: string) {
+    const [first, second] = [guestIdA, guestIdB].sort();
+    return supabaseService.createDuplicateDismissal(first, second, dismissedBy);
+  }
+
+  /**
+   * Fold guests into a survivor: their reservations, calls, waitlist entries, standing
+   * reservations and events move across, each merge is audited, then they are deleted
+   */
+  async mergeGuests(survivorId: string, mergedIds: string[], performedBy: string, reason?: string) {
+    const ids = [...new Set(mergedIds)].filter(id => id && id !== survivorId);
+    if (ids.length === 0) {
+      return { success: false, error: 'Choose at least one other guest to merge' };
+    }
+
+    const { data: survivor } = await supabaseService.getGuest(survivorId);
+    if (!survivor) {
+      return { success: false, error: 'Surviving guest not found' };
+    }
+
+    const merged: Guest[] = [];
+    for (const id of ids) {
+      const { data: guest } = await supabaseService.getGuest(id);
+      if (!guest) {
+        return { success: false, error: `Guest ${id} not found` };
+      }
+      merged.push(guest);
+    }
+
+    const combined = combineProfiles(survivor, merged);
+    const audits = [];
+
+    for (const guest of merged) {
+      const moved = await supabaseService.reassignGuest(guest.id!, survivor.id!);
+      if (!moved.success) {
+        return { success: false, error: moved.error };
+      }
+
+      const audit = await supabaseService.createGuestMerge({
+        surviving_guest_id: survivor.id!,
+        merged_guest_id: guest.id!,
+        merged_guest: guest,
+        moved: moved.data,
+        reason,
+        merged_by: performedBy
+      });
+      audits.push(audit.data);
+
+      // Frees the merged guest's phone number for the survivor
+      await supabaseService.deleteGuest(guest.id!);
+    }
+
+    const phone = combined.phone || survivor.phone;
+    const reliability = phone ? await guestService.getReliability(phone) : undefined;
+    const updated = await supabaseService.updateGuest(survivor.id!, {
+      ...combined,
+      ...(reliability ? { reliability_score: reliability.reliability_score } : {})
+    });
+
+    if (!updated.success) {
+      return { success: false, error: updated.error };
+    }
+
+    return { success: true, data: { guest: updated.data, merges: audits.filter(Boolean) } };
+  }
+
+  /**
+   * Merges into a guest, or all recent merges
+   */
+  async getMergeHistory(guestId?: string) {
+    return supabaseService.getGuestMerges(guestId);
+  }
+
+  /**
+   * Helper: Confidence for a pair from what matched
+   */
+  private score(proposal: DuplicateProposal): number {
+    const [a, b] = proposal.guests;
+    const base = proposal.reasons.includes('phone') ? 0.95
+      : proposal.reasons.includes('email') ? 0.9
+        : proposal.reasons.includes('similar_phone') ? 0.8
+          : 0.7 * nameSimilarity(a.name, b.name);
+    const corroborated = proposal.reasons.length > 1 ? 0.05 : 0;
+    return Math.round(100 * Math.min(1, base + corroborated)) / 100;
+  }
+
+  /**
+   * Helper: Keep the record with the longer history, then the older one
+   */
+  private pickSurvivor(a: Guest, b: Guest): Guest {
+    const visits = (b.visit_count || 0) - (a.visit_count || 0);
+    if (visits !== 0) {
+      return visits > 0 ? b : a;
+    }
+    return (b.created_at || '') < (a.created_at || '') ? b : a;
+  }
+}
+
+export default new GuestMergeService();
@@ -0,0 +1,457 @@
+import supabaseService, { Guest, Reservation } from './supabaseService';
+import { localDate, localTime, wallClock } from './restaurantTime';
+import { format, parseISO } from 'date-fns';
+
+export interface GuestReliability {
+  guest_id?: string;
+  kept: number;
+  no_show_count: number;
+  late_cancellations: number;
+  reliability_score: number;
+  deposit_recommended: boolean;
+}
+
+export interface GuestFilters {
+  search?: string;
+  vip?: boolean;
+  tag?: string;
+}
+
+type GuestResult = { success: boolean; data?: Guest; error?: string; duplicate_id?: string };
+
+// Statuses that mean the guest turned up
+const KEPT_STATUSES = ['arrived', 'seated', 'completed'];
+
+// Statuses of bookings still to come
+const UPCOMING_STATUSES = ['pending_payment', 'confirmed'];
+
+// Local numbers without a country code are assumed to be from here
+const DEFAULT_COUNTRY_CODE = process.env.DEFAULT_COUNTRY_CODE || '1';
+
+// Fields staff may set on a guest profile
+const GUEST_FIELDS: (keyof Guest)[] = ['name', 'phone', 'email', 'preferences', 'vip_status', 'tags', 'notes'];
+
+// Hosts should ask for a deposit below this score or at this many no-shows
+const DEPOSIT_SCORE_THRESHOLD = 60;
+const DEPOSIT_NO_SHOW_THRESHOLD = 2;
+
+/**
+ * Score 0-100 from a guest's history. Late cancellations count as half a no-show,
+ * and the +1 smoothing keeps first-time guests at 100.
+ */
+export function computeReliabilityScore(kept: number, noShows: number, lateCancellations: number): number {
+  return Math.round(100 * (kept + 1) / (kept + noShows + lateCancellations / 2 + 1));
+}
+
+/**
+ * One spelling per phone number, so "(555) 123-4567" and "+15551234567" find the same guest
+ */
+export function normalizePhone(phone: string): string {
+  const trimmed = (phone || '').trim();
+  const digits = trimmed.replace(/\D/g, '');
+  if (!digits) {
+    return '';
+  }
+  if (trimmed.startsWith('+')) {
+    return `+${digits}`;
+  }
+  if (digits.startsWith('00')) {
+    return `+${digits.slice(2)}`;
+  }
+  if (digits.length === 10) {
+    return `+${DEFAULT_COUNTRY_CODE}${digits}`;
+  }
+  return `+${digits}`;
+}
+
+/**
+ * Tags are matched case-insensitively, so store them lowercase and once each
+ */
+export function normalizeTags(tags: string[] | string): string[] {
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  return [...new Set(list.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Check a guest profile before saving; returns an error message or null
+ */
+export function validateGuest(guest: Partial<Guest>, creating: boolean): string | null {
+  if ((creating || guest.name !== undefined) && !guest.name?.trim()) {
+    return 'name is required';
+  }
+  if (guest.phone && !normalizePhone(guest.phone)) {
+    return 'phone must contain digits';
+  }
+  if (guest.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(guest.email)) {
+    return 'email is not valid';
+  }
+  if (guest.preferences !== undefined && guest.preferences !== null
+    && (typeof guest.preferences !== 'object' || Array.isArray(guest.preferences))) {
+    return 'preferences must be an object';
+  }
+  return null;
+}
+
+/**
+ * Only the fields staff may set, with phone and tags normalized
+ */
+export function pickGuestFields(body: Record<string, any>): Partial<Guest> {
+  const guest: Partial<Guest> = {};
+  for (const field of GUEST_FIELDS) {
+    if (body[field] !== undefined) {
+      (guest as any)[field] = body[field];
+    }
+  }
+  if (guest.phone) {
+    guest.phone = normalizePhone(guest.phone);
+  }
+  if (guest.tags) {
+    guest.tags = normalizeTags(guest.tags);
+  }
+  return guest;
+}
+
+export type CallerSummary = {
+  id?: string;
+  name: string;
+  visit_count: number;
+  last_visit_date?: string;
+  vip: boolean;
+  preferences: Record<string, any>;
+  upcoming: { id?: string; date: string; time: string; party_size: number }[];
+};
+
+/**
+ * Dynamic variables for the voice agent. Every key is always set, since the agent
+ * rejects a conversation whose prompt references a variable it wasn't given.
+ */
+export function callerVariables(phone: string, summary?: CallerSummary | null): Record<string, string | number | boolean> {
+  const upcoming = summary?.upcoming || [];
+  const preferences = Object.entries(summary?.preferences || {})
+    .filter(([, values]) => Array.isArray(values) && values.length > 0)
+    .map(([category, values]) => `${category.replace(/_/g, ' ')}: ${(values as string[]).join(', ')}`);
+
+  return {
+    caller_phone: phone || '',
+    caller_known: !!summary,
+    guest_name: summary?.name || '',
+    guest_first_name: (summary?.name || '').split(' ')[0],
+    is_vip: !!summary?.vip,
+    visit_count: summary?.visit_count || 0,
+    upcoming_reservations: upcoming.length
+      ? upcoming
+        .map(r => `${format(parseISO(r.date), 'EEEE MMMM d')} at ${r.time.slice(0, 5)} for ${r.party_size} (reservation ${r.id})`)
+        .join('; ')
+      : 'none',
+    next_reservation_id: upcoming[0]?.id || '',
+    guest_preferences: preferences.length ? preferences.join('; ') : 'none',
+    // The agent has no clock of its own, so "tonight" and "tomorrow" are resolved from these
+    today: format(wallClock(localDate()), 'EEEE MMMM d, yyyy'),
+    current_time: localTime()
+  };
+}
+
+export class GuestService {
+  /**
+   * Find the guest for a phone number, creating the record on first contact
+   */
+  async findOrCreateByPhone(
+    name: string,
+    phone: string,
+    email?: string
+  ): Promise<GuestResult> {
+    const existing = await this.findByPhone(phone);
+    if (existing) {
+      return { success: true, data: existing };
+    }
+
+    const created = await supabaseService.createGuest({ name, phone: normalizePhone(phone) || undefined, email });
+    if (created.data) {
+      await this.linkReservations(created.data);
+    }
+    return created;
+  }
+
+  /**
+   * The guest with this phone number, however it was typed
+   */
+  async findByPhone(phone: string): Promise<Guest | null> {
+    const normalized = normalizePhone(phone);
+    if (!normalized) {
+      return null;
+    }
+
+    const { data: guest } = await supabaseService.getGuestByPhone(normalized);
+    if (guest || normalized === phone) {
+      return guest || null;
+    }
+
+    // Profiles created before phones were normalized
+    return (await supabaseService.getGuestByPhone(phone)).data || null;
+  }
+
+  /**
+   * Work out how reliably a guest honours their reservations
+   */
+  async getReliability(phone: string): Promise<GuestReliability> {
+    const guest = await this.findByPhone(phone);
+    const { data: reservations } = await supabaseService.getReservations(
+      guest ? { guest_id: guest.id } : { guest_phone: phone }
+    );
+
+    const history = reservations || [];
+    const kept = history.filter(r => KEPT_STATUSES.includes(r.status || '')).length;
+    const noShows = Math.max(
+      guest?.no_show_count || 0,
+      history.filter(r => r.status === 'no-show').length
+    );
+    const lateCancellations = history.filter(r => r.late_cancellation).length;
+    const score = computeReliabilityScore(kept, noShows, lateCancellations);
+
+    return {
+      guest_id: guest?.id,
+      kept,
+      no_show_count: noShows,
+      late_cancellations: lateCancellations,
+      reliability_score: score,
+      deposit_recommended: score < DEPOSIT_SCORE_THRESHOLD || noShows >= DEPOSIT_NO_SHOW_THRESHOLD
+    };
+  }
+
+  /**
+   * Count a no-show against the guest and refresh their reliability score
+   */
+  async recordNoShow(reservation: Reservation) {
+    if (!reservation.guest_phone) {
+      return { success: false, error: 'Reservation has no phone number' };
+    }
+
+    const { data: guest, error } = await this.findOrCreateByPhone(
+      reservation.guest_name,
+      reservation.guest_phone,
+      reservation.guest_email
+    );
+    if (!guest) {
+      return { success: false, error };
+    }
+
+    if (!reservation.guest_id) {
+      await supabaseService.updateReservation(reservation.id!, { guest_id: guest.id });
+    }
+
+    const reliability = await this.getReliability(reservation.guest_phone);
+
+    return supabaseService.updateGuest(guest.id!, {
+      no_show_count: (guest.no_show_count || 0) + 1,
+      reliability_score: reliability.reliability_score
+    });
+  }
+
+  /**
+   * Count a completed reservation as a visit
+   */
+  async recordVisit(reservation: Reservation) {
+    let guest: Guest | undefined;
+    if (reservation.guest_id) {
+      guest = (await supabaseService.getGuest(reservation.guest_id)).data;
+    } else if (reservation.guest_phone) {
+      guest = (await this.findOrCreateByPhone(
+        reservation.guest_name,
+        reservation.guest_phone,
+        reservation.guest_email
+      )).data;
+    }
+    if (!guest) {
+      return { success: false, error: 'Reservation has no guest' };
+    }
+
+    if (!reservation.guest_id) {
+      await supabaseService.updateReservation(reservation.id!, { guest_id: guest.id });
+    }
+
+    const reliability = await this.getReliability(guest.phone || reservation.guest_phone || '');
+
+    return supabaseService.updateGuest(guest.id!, {
+      visit_count: (guest.visit_count || 0) + 1,
+      last_visit_date: !guest.last_visit_date || reservation.reservation_date > guest.last_visit_date
+        ? reservation.reservation_date
+        : guest.last_visit_date,
+      reliability_score: reliability.reliability_score
+    });
+  }
+
+  /**
+   * Search guests by name, email or phone, optionally only VIPs or a tag
+   */
+  async searchGuests(filters: GuestFilters = {}) {
+    return supabaseService.getGuests({
+      search: filters.search?.trim() || undefined,
+      vip: filters.vip,
+      tag: filters.tag ? normalizeTags(filters.tag)[0] : undefined
+    });
+  }
+
+  /**
+   * A guest with their reliability and upcoming reservations
+   */
+  async getProfile(id: string) {
+    const { data: guest, error } = await supabaseService.getGuest(id);
+    if (!guest) {
+      return { success: false, error: error || 'Guest not found' };
+    }
+
+    const { data: reservations } = await supabaseService.getReservations({ guest_id: id });
+    const today = localDate();
+    const reliability = guest.phone ? await this.getReliability(guest.phone) : undefined;
+
+    return {
+      success: true,
+      data: {
+        ...guest,
+        reliability,
+        upcoming: (reservations || []).filter(r =>
+          r.reservation_date >= today && UPCOMING_STATUSES.includes(r.status || ''))
+      }
+    };
+  }
+
+  /**
+   * Every reservation a guest has made, newest first, with totals
+   */
+  async getVisitHistory(id: string) {
+    const { data: reservations, error } = await supabaseService.getReservations({ guest_id: id });
+    if (!reservations) {
+      return { success: false, error };
+    }
+
+    const history = [...reservations].reverse();
+    const visits = history.filter(r => KEPT_STATUSES.includes(r.status || ''));
+
+    return {
+      success: true,
+      data: {
+        reservations: history,
+        summary: {
+          total: history.length,
+          visits: visits.length,
+          no_shows: history.filter(r => r.status === 'no-show').length,
+          cancellations: history.filter(r => r.status === 'cancelled').length,
+          average_party_size: visits.length
+            ? Math.round(10 * visits.reduce((sum, r) => sum + r.party_size, 0) / visits.length) / 10
+            : 0,
+          first_visit: visits[visits.length - 1]?.reservation_date,
+          last_visit: visits[0]?.reservation_date
+        }
+      }
+    };
+  }
+
+  /**
+   * Add a guest profile and link their earlier bookings by phone
+   */
+  async createGuest(input: Partial<Guest>): Promise<GuestResult> {
+    const invalid = validateGuest(input, true);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const guest = pickGuestFields(input);
+    if (guest.phone) {
+      const existing = await this.findByPhone(guest.phone);
+      if (existing) {
+        return { success: false, error: 'A guest with this phone number already exists', duplicate_id: existing.id };
+      }
+    }
+
+    const created = await supabaseService.createGuest(guest as Guest);
+    if (created.data) {
+      await this.linkReservations(created.data);
+    }
+    return created;
+  }
+
+  /**
+   * Update a guest profile; a new phone number links any bookings made under it
+   */
+  async updateGuest(id: string, input: Partial<Guest>): Promise<GuestResult> {
+    const invalid = validateGuest(input, false);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const updates = pickGuestFields(input);
+    if (updates.phone) {
+      const existing = await this.findByPhone(updates.phone);
+      if (existing && existing.id !== id) {
+        return { success: false, error: 'A guest with this phone number already exists', duplicate_id: existing.id };
+      }
+    }
+
+    const updated = await supabaseService.updateGuest(id, updates);
+    if (updated.data && updates.phone) {
+      await this.linkReservations(updated.data);
+    }
+    return updated;
+  }
+
+  /**
+   * What the agent may tell a caller about their own profile
+   */
+  async getCallerSummary(phone: string): Promise<{ success: boolean; data?: CallerSummary; error?: string }> {
+    const guest = await this.findByPhone(phone);
+    if (!guest) {
+      return { success: false, error: 'Guest not found' };
+    }
+
+    const { data: reservations } = await supabaseService.getReservations({ guest_id: guest.id });
+    const today = localDate();
+
+    return {
+      success: true,
+      data: {
+        id: guest.id,
+        name: guest.name,
+        visit_count: guest.visit_count || 0,
+        last_visit_date: guest.last_visit_date,
+        vip: !!guest.vip_status,
+        preferences: guest.preferences || {},
+        upcoming: (reservations || [])
+          .filter(r => r.reservation_date >= today && UPCOMING_STATUSES.includes(r.status || ''))
+          .map(r => ({ id: r.id, date: r.reservation_date, time: r.reservation_time, party_size: r.party_size }))
+      }
+    };
+  }
+
+  /**
+   * Who is calling, looked up before the agent speaks so it can greet a returning
+   * guest by name and offer to change their booking
+   */
+  async getCallerContext(phone?: string): Promise<{ guest_id?: string; dynamic_variables: Record<string, string | number | boolean> }> {
+    const result = phone && phone !== 'unknown' ? await this.getCallerSummary(phone) : null;
+    const summary = result?.success ? result.data : null;
+    return {
+      guest_id: summary?.id,
+      dynamic_variables: callerVariables(phone || '', summary)
+    };
+  }
+
+  /**
+   * Helper: Attach reservations booked under the guest's phone before they had a profile
+   */
+  private async linkReservations(guest: Guest) {
+    const phone = normalizePhone(guest.phone || '');
+    if (!phone) {
+      return;
+    }
+
+    const { data: candidates } = await supabaseService.getUnlinkedReservationsByPhone(phone.slice(-4));
+    const ids = (candidates || [])
+      .filter(r => normalizePhone(r.guest_phone || '') === phone)
+      .map(r => r.id!);
+    if (ids.length > 0) {
+      await supabaseService.linkReservationsToGuest(ids, guest.id!);
+    }
+  }
+}
+
+export default new GuestService();
@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import supabaseService, { IdempotencyKey } from './supabaseService';
+
+// A repeat within a day gets the original response; after that the key is forgotten
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A request still pending after this long crashed or timed out, so a retry may run it again
+const PENDING_TIMEOUT_MS = 2 * 60 * 1000;
+
+export type IdempotencyOutcome =
+  | { state: 'new' }
+  | { state: 'replay'; status_code: number; response: any }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+/**
+ * Helper: JSON with object keys sorted, so the same request always hashes the same
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export class IdempotencyService {
+  /**
+   * The key for a request: the Idempotency-Key sent with it, else one derived from the
+   * conversation and the request's details. Without either a retry can't be told apart
+   * from a new request, so there is no key.
+   */
+  keyFor(scope: string, conversationId: string | undefined, details: Record<string, any>, explicitKey?: string) {
+    if (explicitKey) {
+      return `${scope}:${explicitKey}`;
+    }
+    if (!conversationId) {
+      return undefined;
+    }
+    return `${scope}:${sha256(`${conversationId}:${stableStringify(details)}`)}`;
+  }
+
+  /**
+   * Start a request under a key: 'new' to go ahead, 'replay' with the stored response,
+   * 'in_progress' while the first attempt is still running, or 'mismatch' when the key
+   * was used for a different request
+   */
+  async begin(key: string, scope: string, details: Record<string, any>, now: Date = new Date()): Promise<IdempotencyOutcome> {
+    const entry: IdempotencyKey = { key, scope, request_hash: sha256(stableStringify(details)) };
+    const claim = await supabaseService.claimIdempotencyKey(entry);
+
+    // Without the store we can't dedupe, but that's no reason to turn the guest away
+    if (!claim.success) {
+      return { state: 'new' };
+    }
+    if (claim.claimed) {
+      return { state: 'new' };
+    }
+
+    const existing = claim.data!;
+    if (existing.request_hash !== entry.request_hash) {
+      return { state: 'mismatch' };
+    }
+
+    const age = now.getTime() - new Date(existing.created_at!).getTime();
+    if (existing.status === 'completed' && age < KEY_TTL_MS) {
+      return { state: 'replay', status_code: existing.status_code || 200, response: existing.response };
+    }
+    if (existing.status === 'pending' && age < PENDING_TIMEOUT_MS) {
+      return { state: 'in_progress' };
+    }
+
+    const reclaim = await supabaseService.reclaimIdempotencyKey(entry, existing.created_at!);
+    return reclaim.success && reclaim.claimed ? { state: 'new' } : { state: 'in_progress' };
+  }
+
+  /**
+   * Store a request's response for repeats. Server errors are forgotten instead, so a
+   * retry gets another attempt rather than the same failure.
+   */
+  async complete(key: string, statusCode: number, response: any) {
+    if (statusCode >= 500) {
+      await supabaseService.deleteIdempotencyKey(key);
+      return;
+    }
+    await supabaseService.completeIdempotencyKey(key, statusCode, response);
+  }
+
+  /**
+   * Run fn once per key. Repeats get the first result; a repeat arriving while the
+   * first is still running gets an in_progress failure.
+   */
+  async run<T>(scope: string, key: string | undefined, details: Record<string, any>, fn: () => Promise<T>): Promise<T | any> {
+    if (!key) {
+      return fn();
+    }
+
+    const outcome = await this.begin(key, scope, details);
+    if (outcome.state === 'replay') {
+      return outcome.response;
+    }
+    if (outcome.state === 'in_progress') {
+      return { success: false, in_progress: true, error: 'This request is already being processed' };
+    }
+    if (outcome.state === 'mismatch') {
+      return { success: false, error: 'Idempotency key was already used for a different request' };
+    }
+
+    try {
+      const result = await fn();
+      await this.complete(key, 200, result ?? null);
+      return result;
+    } catch (error) {
+      await supabaseService.deleteIdempotencyKey(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Forget keys older than a day
+   */
+  async purgeExpired(now: Date = new Date()) {
+    const result = await supabaseService.deleteIdempotencyKeysBefore(new Date(now.getTime() - KEY_TTL_MS).toISOString());
+    return result.success ? result.data!.length : 0;
+  }
+}
+
+export default new IdempotencyService();
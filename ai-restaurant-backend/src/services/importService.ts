@@ -0,0 +1,901 @@
+import { format, isValid, parse } from 'date-fns';
+import supabaseService, { Guest, MenuItem, Reservation, RestaurantTable } from './supabaseService';
+import { normalizePhone, normalizeTags, validateGuest } from './guestService';
+import { normalizeMenuItem, normalizeTag, validateMenuItem } from './menuService';
+import { normalizeAllergies } from './allergyService';
+import { RESERVATION_TRANSITIONS } from './reservationService';
+
+export type ImportType = 'guests' | 'reservations' | 'menu';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  alternatives?: string[]; // fields that can stand in for a required one, e.g. first_name for name
+  aliases?: string[]; // header spellings other systems use
+}
+
+export interface ImportOptions {
+  dry_run?: boolean;
+  duplicates?: 'skip' | 'update';
+  date_format?: 'mdy' | 'dmy'; // how to read dates like 03/04/2026
+}
+
+export interface RowError {
+  row: number; // spreadsheet row, the header being row 1
+  field?: string;
+  message: string;
+}
+
+export interface RowDuplicate {
+  row: number;
+  key: string;
+  existing_id?: string;
+  duplicate_of_row?: number;
+  action: 'skip' | 'update';
+}
+
+export interface ImportReport {
+  type: ImportType;
+  dry_run: boolean;
+  total_rows: number;
+  valid_rows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  guests_created?: number;
+  errors: RowError[];
+  duplicates: RowDuplicate[];
+}
+
+type ImportResult = { success: boolean; data?: ImportReport; error?: string };
+
+type ImportSettings = { dry_run: boolean; duplicates: 'skip' | 'update' };
+
+// A parsed row: the record to save, the key duplicates are matched on, and what was wrong with it
+type ParsedRow<T> = { row: number; record: T; key: string; errors: RowError[] };
+
+// Every column each import understands, with the header names other systems export them under
+export const IMPORT_FIELDS: Record<ImportType, ImportField[]> = {
+  guests: [
+    { key: 'name', label: 'Name', required: true, alternatives: ['first_name', 'last_name'], aliases: ['full name', 'guest name', 'guest', 'customer', 'customer name', 'nome'] },
+    { key: 'first_name', label: 'First name', aliases: ['first', 'firstname', 'given name'] },
+    { key: 'last_name', label: 'Last name', aliases: ['last', 'lastname', 'surname', 'family name', 'cognome'] },
+    { key: 'phone', label: 'Phone', aliases: ['phone number', 'mobile', 'mobile phone', 'cell', 'telephone', 'tel', 'telefono'] },
+    { key: 'email', label: 'Email', aliases: ['e mail', 'email address'] },
+    { key: 'vip', label: 'VIP', aliases: ['vip status', 'is vip'] },
+    { key: 'tags', label: 'Tags', aliases: ['tag', 'labels', 'segments'] },
+    { key: 'visit_count', label: 'Visits', aliases: ['visits', 'total visits', 'visit count'] },
+    { key: 'no_show_count', label: 'No-shows', aliases: ['no shows', 'noshows', 'no show count'] },
+    { key: 'last_visit_date', label: 'Last visit', aliases: ['last visit', 'last visit date', 'last seen'] },
+    { key: 'allergies', label: 'Allergies', aliases: ['allergy', 'allergens'] },
+    { key: 'dietary', label: 'Dietary', aliases: ['diet', 'dietary restrictions', 'dietary requirements'] },
+    { key: 'seating', label: 'Seating preference', aliases: ['seating', 'table preference', 'seating preferences'] },
+    { key: 'notes', label: 'Notes', aliases: ['note', 'comments', 'guest notes'] }
+  ],
+  reservations: [
+    { key: 'guest_name', label: 'Guest name', required: true, alternatives: ['first_name', 'last_name'], aliases: ['name', 'guest', 'customer', 'customer name', 'full name'] },
+    { key: 'first_name', label: 'First name', aliases: ['first', 'firstname'] },
+    { key: 'last_name', label: 'Last name', aliases: ['last', 'lastname', 'surname'] },
+    { key: 'guest_phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'telephone', 'tel'] },
+    { key: 'guest_email', label: 'Email', aliases: ['email', 'e mail', 'email address'] },
+    { key: 'reservation_date', label: 'Date', required: true, aliases: ['date', 'booking date', 'visit date', 'data'] },
+    { key: 'reservation_time', label: 'Time', required: true, aliases: ['time', 'booking time', 'start time', 'ora'] },
+    { key: 'party_size', label: 'Party size', required: true, aliases: ['covers', 'guests', 'party', 'people', 'pax', 'size'] },
+    { key: 'status', label: 'Status', aliases: ['state', 'booking status'] },
+    { key: 'table_number', label: 'Table', aliases: ['table', 'table number', 'table no'] },
+    { key: 'duration_minutes', label: 'Duration (minutes)', aliases: ['duration', 'length', 'turn time'] },
+    { key: 'occasion', label: 'Occasion', aliases: ['event', 'celebration'] },
+    { key: 'allergies', label: 'Allergies', aliases: ['allergy', 'allergens'] },
+    { key: 'dietary_restrictions', label: 'Dietary', aliases: ['dietary', 'diet', 'dietary requirements'] },
+    { key: 'special_requests', label: 'Special requests', aliases: ['requests', 'notes', 'comments', 'booking notes'] }
+  ],
+  menu: [
+    { key: 'name', label: 'Name', required: true, aliases: ['item', 'item name', 'dish', 'product'] },
+    { key: 'description', label: 'Description', aliases: ['details'] },
+    { key: 'category', label: 'Category', aliases: ['section', 'course', 'type'] },
+    { key: 'price', label: 'Price', aliases: ['cost', 'amount'] },
+    { key: 'allergens', label: 'Allergens', aliases: ['allergies', 'contains'] },
+    { key: 'dietary', label: 'Dietary tags', aliases: ['dietary', 'dietary info', 'diet', 'dietary tags'] },
+    { key: 'is_available', label: 'Available', aliases: ['available', 'active', 'in stock'] },
+    { key: 'is_featured', label: 'Featured', aliases: ['featured', 'special'] },
+    { key: 'preparation_time_minutes', label: 'Preparation time (minutes)', aliases: ['prep time', 'preparation time'] },
+    { key: 'image_url', label: 'Image URL', aliases: ['image', 'photo', 'picture'] }
+  ]
+};
+
+// Large enough for a restaurant's whole guest book, small enough for one request
+const MAX_IMPORT_ROWS = 20000;
+
+const PREVIEW_ROWS = 5;
+
+// Statuses that mean the guest turned up, counted as visits for guests an import creates
+const KEPT_STATUSES = ['arrived', 'seated', 'completed'];
+
+// How other systems spell reservation statuses
+const STATUS_SYNONYMS: Record<string, string> = {
+  booked: 'confirmed',
+  reserved: 'confirmed',
+  pending: 'pending_payment',
+  'checked in': 'arrived',
+  finished: 'completed',
+  done: 'completed',
+  canceled: 'cancelled',
+  'no show': 'no-show',
+  noshow: 'no-show'
+};
+
+const DATE_FORMATS = {
+  common: ['yyyy-MM-dd', 'yyyy-M-d', 'yyyy/M/d', 'MMM d, yyyy', 'MMMM d, yyyy', 'd MMM yyyy', 'd MMMM yyyy'],
+  mdy: ['M/d/yyyy', 'M/d/yy', 'M-d-yyyy', 'M.d.yyyy'],
+  dmy: ['d/M/yyyy', 'd/M/yy', 'd-M-yyyy', 'd.M.yyyy']
+};
+
+/**
+ * Rows of cells from CSV text (RFC 4180: quoted cells may hold delimiters, quotes and
+ * line breaks). Comma, semicolon and tab delimiters are detected from the header line,
+ * since spreadsheets in many locales save with semicolons. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\ufeff/, '');
+  const headerLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: headerLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Helper: Header spelling used for matching, so "E-mail", "email" and "EMAIL " agree
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Best guess at which CSV column feeds each field, from header names. Each column is used once.
+ */
+export function suggestMapping(headers: string[], type: ImportType): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  for (const field of IMPORT_FIELDS[type]) {
+    const names = [field.key, field.label, ...(field.aliases || [])].map(normalizeHeader);
+    const header = headers.find(h => !used.has(h) && names.includes(normalizeHeader(h)));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Required fields the mapping leaves without a column
+ */
+export function missingFields(mapping: Record<string, string>, type: ImportType): string[] {
+  return IMPORT_FIELDS[type]
+    .filter(field => field.required && !mapping[field.key] && !(field.alternatives || []).some(key => mapping[key]))
+    .map(field => field.key);
+}
+
+/**
+ * Helper: A list cell such as "nuts; dairy" or "regular, wine lover"
+ */
+function splitList(value: string): string[] {
+  return value.split(/[;,|]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Yes/no cells: yes, y, true, 1, x and no, n, false, 0. Null when it is neither.
+ */
+export function parseBoolean(value: string): boolean | null {
+  const lower = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'x', 'si', 'sì'].includes(lower)) {
+    return true;
+  }
+  if (['no', 'n', 'false', '0'].includes(lower)) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * A date cell as yyyy-MM-dd, or null. Slash dates follow date_format since 03/04 is ambiguous;
+ * a trailing time ("2026-03-04 19:30") is ignored.
+ */
+export function parseDateValue(value: string, dateFormat: 'mdy' | 'dmy' = 'mdy'): string | null {
+  const datePart = value.trim().replace(/(?:T|\s+)\d{1,2}[:.]\d{2}.*$/i, '');
+  for (const pattern of [...DATE_FORMATS.common, ...DATE_FORMATS[dateFormat]]) {
+    const date = parse(datePart, pattern, new Date());
+    if (isValid(date) && date.getFullYear() >= 1900 && date.getFullYear() <= 2100) {
+      return format(date, 'yyyy-MM-dd');
+    }
+  }
+  return null;
+}
+
+/**
+ * A time cell as HH:mm ("19:30", "7:30 PM", "7pm", "19.30"), or null. When the cell also
+ * holds a date, the time after it is used.
+ */
+export function parseTimeValue(value: string): string | null {
+  const match = value.trim().match(/(?:^|[\sT])(\d{1,2})(?:[:.h](\d{2}))?(?::\d{2})?\s*([ap])?\.?m?\.?$/i);
+  if (!match) {
+    return null;
+  }
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (!match[2] && !meridiem) {
+    return null; // a bare number is more likely a party size than a time
+  }
+  if (meridiem && (hours < 1 || hours > 12)) {
+    return null;
+  }
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * A price cell as a number ("$12.50", "12,50 €", "1,250.00"), or null
+ */
+export function parsePrice(value: string): number | null {
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    cleaned = cleaned.replace(/,/g, '');
+  } else if (cleaned.includes(',')) {
+    cleaned = cleaned.replace(',', '.');
+  }
+  const price = Number(cleaned);
+  return cleaned !== '' && !isNaN(price) ? price : null;
+}
+
+/**
+ * Helper: A whole number of at least min, or null
+ */
+function parseCount(value: string, min = 0): number | null {
+  const count = Number(value.trim());
+  return Number.isInteger(count) && count >= min ? count : null;
+}
+
+/**
+ * Helper: Reads a row's cells by field through the column mapping. Blank cells read as undefined,
+ * so unmapped or empty columns never overwrite existing data.
+ */
+function rowReader(headers: string[], mapping: Record<string, string>) {
+  const index: Record<string, number> = {};
+  for (const [field, header] of Object.entries(mapping)) {
+    if (header) {
+      index[field] = headers.indexOf(header);
+    }
+  }
+  return (cells: string[], field: string): string | undefined => {
+    // Exports guard formula-like text with a leading apostrophe; drop it on the way back in
+    const value = index[field] === undefined ? undefined : cells[index[field]]?.trim().replace(/^'(?=[=@+-])/, '');
+    return value ? value : undefined;
+  };
+}
+
+type Read = (field: string) => string | undefined;
+
+/**
+ * Helper: The name from a name column, or first and last name columns joined
+ */
+function readName(read: Read, field: string): string | undefined {
+  return read(field) || [read('first_name'), read('last_name')].filter(Boolean).join(' ') || undefined;
+}
+
+/**
+ * A guest profile from a row, with the field-level problems found
+ */
+export function guestFromRow(read: Read, dateFormat?: 'mdy' | 'dmy'): { guest: Partial<Guest>; errors: { field: string; message: string }[] } {
+  const errors: { field: string; message: string }[] = [];
+  const guest: Partial<Guest> = {};
+  const set = (field: keyof Guest, value: any) => {
+    if (value !== undefined) (guest as any)[field] = value;
+  };
+
+  set('name', readName(read, 'name'));
+  set('email', read('email')?.toLowerCase());
+  set('notes', read('notes'));
+
+  const phone = read('phone');
+  if (phone) {
+    set('phone', normalizePhone(phone) || undefined);
+    if (!guest.phone) errors.push({ field: 'phone', message: 'phone must contain digits' });
+  }
+
+  for (const [field, column] of [['vip_status', 'vip']] as const) {
+    const value = read(column);
+    if (value !== undefined) {
+      const flag = parseBoolean(value);
+      if (flag === null) errors.push({ field: column, message: `"${value}" is not yes or no` });
+      else set(field, flag);
+    }
+  }
+
+  for (const field of ['visit_count', 'no_show_count'] as const) {
+    const value = read(field);
+    if (value !== undefined) {
+      const count = parseCount(value);
+      if (count === null) errors.push({ field, message: `"${value}" is not a whole number` });
+      else set(field, count);
+    }
+  }
+
+  const lastVisit = read('last_visit_date');
+  if (lastVisit) {
+    set('last_visit_date', parseDateValue(lastVisit, dateFormat) || undefined);
+    if (!guest.last_visit_date) errors.push({ field: 'last_visit_date', message: `"${lastVisit}" is not a date` });
+  }
+
+  const tags = read('tags');
+  if (tags) set('tags', normalizeTags(splitList(tags)));
+
+  const preferences: Record<string, string[]> = {};
+  const allergies = read('allergies');
+  if (allergies) preferences.allergies = normalizeAllergies(allergies);
+  for (const category of ['dietary', 'seating']) {
+    const value = read(category);
+    if (value) preferences[category] = splitList(value).map(item => item.toLowerCase());
+  }
+  if (Object.keys(preferences).length > 0) set('preferences', preferences);
+
+  const invalid = validateGuest(guest, true);
+  if (invalid) errors.push({ field: invalid.split(' ')[0], message: invalid });
+
+  return { guest, errors };
+}
+
+/**
+ * A reservation from a row, with the field-level problems found. Tables are given by number.
+ */
+export function reservationFromRow(
+  read: Read,
+  tableIds: Map<string, string>,
+  dateFormat?: 'mdy' | 'dmy'
+): { reservation: Partial<Reservation>; errors: { field: string; message: string }[] } {
+  const errors: { field: string; message: string }[] = [];
+  const reservation: Partial<Reservation> = {
+    guest_name: readName(read, 'guest_name'),
+    guest_email: read('guest_email')?.toLowerCase(),
+    occasion: read('occasion')?.toLowerCase(),
+    dietary_restrictions: read('dietary_restrictions'),
+    special_requests: read('special_requests')
+  };
+
+  if (!reservation.guest_name) {
+    errors.push({ field: 'guest_name', message: 'guest name is required' });
+  }
+
+  const phone = read('guest_phone');
+  if (phone) {
+    reservation.guest_phone = normalizePhone(phone) || undefined;
+    if (!reservation.guest_phone) errors.push({ field: 'guest_phone', message: 'phone must contain digits' });
+  }
+
+  const date = read('reservation_date');
+  reservation.reservation_date = date ? parseDateValue(date, dateFormat) || undefined : undefined;
+  if (!reservation.reservation_date) {
+    errors.push({ field: 'reservation_date', message: date ? `"${date}" is not a date` : 'date is required' });
+  }
+
+  // Some systems export date and time in one column
+  const time = read('reservation_time') || date;
+  reservation.reservation_time = time ? parseTimeValue(time) || undefined : undefined;
+  if (!reservation.reservation_time) {
+    errors.push({ field: 'reservation_time', message: read('reservation_time') ? `"${time}" is not a time` : 'time is required' });
+  }
+
+  const partySize = read('party_size');
+  reservation.party_size = partySize ? parseCount(partySize, 1) ?? undefined : undefined;
+  if (!reservation.party_size) {
+    errors.push({ field: 'party_size', message: partySize ? `"${partySize}" is not a party size` : 'party size is required' });
+  }
+
+  const status = read('status');
+  if (status) {
+    const lower = status.toLowerCase().replace(/[_-]+/g, ' ').trim();
+    const normalized = STATUS_SYNONYMS[lower] || Object.keys(RESERVATION_TRANSITIONS).find(key => key.replace(/[_-]/g, ' ') === lower);
+    if (normalized) reservation.status = normalized;
+    else errors.push({ field: 'status', message: `unknown status "${status}"` });
+  }
+
+  // Combined tables are written "3+4", as exports show them
+  const tableNumber = read('table_number');
+  if (tableNumber) {
+    const numbers = tableNumber.split('+').map(number => number.trim().replace(/^t(?=\d)/i, '').toLowerCase());
+    const unknown = numbers.filter(number => !tableIds.has(number));
+    if (unknown.length > 0) {
+      errors.push({ field: 'table_number', message: `no table numbered "${unknown.join('", "')}"` });
+    } else {
+      reservation.table_id = tableIds.get(numbers[0]);
+      reservation.reservation_tables = numbers.map(number => ({ table_id: tableIds.get(number)! }));
+    }
+  }
+
+  const duration = read('duration_minutes');
+  if (duration) {
+    reservation.duration_minutes = parseCount(duration, 1) ?? undefined;
+    if (!reservation.duration_minutes) errors.push({ field: 'duration_minutes', message: `"${duration}" is not a number of minutes` });
+  }
+
+  const allergies = read('allergies');
+  if (allergies) reservation.allergies = normalizeAllergies(allergies);
+
+  return {
+    reservation: Object.fromEntries(Object.entries(reservation).filter(([, value]) => value !== undefined)) as Partial<Reservation>,
+    errors
+  };
+}
+
+/**
+ * A menu item from a row, with the field-level problems found
+ */
+export function menuItemFromRow(read: Read): { item: Partial<MenuItem>; errors: { field: string; message: string }[] } {
+  const errors: { field: string; message: string }[] = [];
+  const item: Partial<MenuItem> = {};
+  const set = (field: keyof MenuItem, value: any) => {
+    if (value !== undefined) (item as any)[field] = value;
+  };
+
+  set('name', read('name'));
+  set('description', read('description'));
+  set('category', read('category'));
+  set('image_url', read('image_url'));
+
+  const price = read('price');
+  if (price) {
+    set('price', parsePrice(price) ?? undefined);
+    if (item.price === undefined) errors.push({ field: 'price', message: `"${price}" is not a price` });
+  }
+
+  const prepTime = read('preparation_time_minutes');
+  if (prepTime) {
+    set('preparation_time_minutes', parseCount(prepTime) ?? undefined);
+    if (item.preparation_time_minutes === undefined) {
+      errors.push({ field: 'preparation_time_minutes', message: `"${prepTime}" is not a number of minutes` });
+    }
+  }
+
+  for (const field of ['is_available', 'is_featured'] as const) {
+    const value = read(field);
+    if (value !== undefined) {
+      const flag = parseBoolean(value);
+      if (flag === null) errors.push({ field, message: `"${value}" is not yes or no` });
+      else set(field, flag);
+    }
+  }
+
+  const allergens = read('allergens');
+  if (allergens) set('allergens', splitList(allergens));
+
+  const dietary = read('dietary');
+  if (dietary) set('dietary_info', Object.fromEntries(splitList(dietary).map(tag => [normalizeTag(tag), true])));
+
+  const invalid = validateMenuItem(item, true);
+  if (invalid) errors.push({ field: invalid.split(' ')[0], message: invalid });
+
+  return { item: normalizeMenuItem(item), errors };
+}
+
+export class ImportService {
+  /**
+   * First look at a file: its columns, the suggested mapping and a few rows, so staff can
+   * check the mapping before validating anything
+   */
+  preview(type: ImportType, csv: string) {
+    const rows = parseCsv(csv || '');
+    if (rows.length === 0) {
+      return { success: false, error: 'The file is empty' };
+    }
+
+    const [headers, ...body] = rows;
+    return {
+      success: true,
+      data: {
+        headers,
+        fields: IMPORT_FIELDS[type],
+        mapping: suggestMapping(headers, type),
+        sample: body.slice(0, PREVIEW_ROWS).map(cells => Object.fromEntries(headers.map((h, i) => [h, cells[i] || '']))),
+        total_rows: body.length
+      }
+    };
+  }
+
+  /**
+   * Validate a file against the mapping and, unless dry_run is set, save it. Rows that fail
+   * validation are reported and left out; rows matching an existing record (or an earlier
+   * row) are duplicates, skipped or used to update the existing record per options.duplicates.
+   */
+  async runImport(
+    type: ImportType,
+    csv: string,
+    mapping: Record<string, string>,
+    options: ImportOptions = {},
+    performedBy = 'import'
+  ): Promise<ImportResult> {
+    const rows = parseCsv(csv || '');
+    if (rows.length < 2) {
+      return { success: false, error: 'The file has no rows to import' };
+    }
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      return { success: false, error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+    }
+
+    const [headers, ...body] = rows;
+    const unknown = Object.entries(mapping || {})
+      .filter(([field, header]) => header && (!IMPORT_FIELDS[type].some(f => f.key === field) || !headers.includes(header)));
+    if (unknown.length > 0) {
+      return { success: false, error: `Unknown field or column in mapping: ${unknown.map(([field]) => field).join(', ')}` };
+    }
+    const missing = missingFields(mapping, type);
+    if (missing.length > 0) {
+      return { success: false, error: `Map a column to: ${missing.join(', ')}` };
+    }
+
+    const read = rowReader(headers, mapping);
+    const readers = body.map(cells => (field: string) => read(cells, field));
+    const settings = { dry_run: !!options.dry_run, duplicates: options.duplicates === 'update' ? 'update' as const : 'skip' as const };
+
+    try {
+      switch (type) {
+        case 'guests':
+          return await this.importGuests(readers, options.date_format, settings);
+        case 'reservations':
+          return await this.importReservations(readers, options.date_format, settings, performedBy);
+        case 'menu':
+          return await this.importMenu(readers, settings);
+        default:
+          return { success: false, error: `Unknown import type: ${type}` };
+      }
+    } catch (error: any) {
+      console.error('Error importing CSV:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Helper: Guests, matched to existing profiles by phone, then email
+   */
+  private async importGuests(readers: Read[], dateFormat: ImportOptions['date_format'], settings: ImportSettings): Promise<ImportResult> {
+    const { data: existing, error } = await supabaseService.getAllRows<Guest>('guests');
+    if (!existing) {
+      return { success: false, error };
+    }
+
+    const byPhone = new Map(existing.filter(g => g.phone).map(g => [g.phone!, g]));
+    const byEmail = new Map(existing.filter(g => g.email).map(g => [g.email!.toLowerCase(), g]));
+
+    const parsed = readers.map((read, index) => {
+      const { guest, errors } = guestFromRow(read, dateFormat);
+      return { row: index + 2, record: guest, key: guest.phone || guest.email || '', errors: withRow(errors, index + 2) };
+    });
+
+    const plan = planRows(parsed, record => (record.phone && byPhone.get(record.phone)) || (record.email && byEmail.get(record.email)) || undefined, settings);
+
+    if (!settings.dry_run) {
+      const { data: created, error: insertError } = await supabaseService.insertRows<Guest>('guests', plan.create.map(p => p.record as Guest));
+      if (!created) {
+        return { success: false, error: insertError };
+      }
+      plan.report.created = created.length;
+
+      for (const { row, record, existing: current } of plan.update) {
+        const result = await supabaseService.updateGuest(current.id!, mergeGuest(current, record));
+        if (result.success) plan.report.updated++;
+        else plan.report.errors.push({ row, message: result.error });
+      }
+    }
+
+    return { success: true, data: { type: 'guests', ...plan.report } };
+  }
+
+  /**
+   * Helper: Reservations, matched to existing bookings by phone (or name), date and time.
+   * Bookings are linked to guest profiles by phone; phones with no profile get one, with
+   * visits counted from the imported history. Imported bookings send no confirmations.
+   */
+  private async importReservations(
+    readers: Read[],
+    dateFormat: ImportOptions['date_format'],
+    settings: ImportSettings,
+    performedBy: string
+  ): Promise<ImportResult> {
+    const { data: tables } = await supabaseService.getTables();
+    const tableIds = new Map((tables || []).map((table: RestaurantTable) => [table.table_number.toLowerCase(), table.id]));
+
+    const parsed: ParsedRow<Partial<Reservation>>[] = readers.map((read, index) => {
+      const { reservation, errors } = reservationFromRow(read, tableIds, dateFormat);
+      return { row: index + 2, record: reservation, key: reservationKey(reservation), errors: withRow(errors, index + 2) };
+    });
+
+    const dates = parsed.map(p => p.record.reservation_date).filter(Boolean).sort() as string[];
+    const [{ data: existing, error }, { data: guests }] = await Promise.all([
+      dates.length
+        ? supabaseService.getAllRows<Reservation>('reservations', {
+          filters: [
+            { column: 'reservation_date', op: 'gte', value: dates[0] },
+            { column: 'reservation_date', op: 'lte', value: dates[dates.length - 1] }
+          ]
+        })
+        : Promise.resolve({ success: true, data: [] as Reservation[], error: undefined }),
+      supabaseService.getAllRows<Guest>('guests', { select: 'id, name, phone' })
+    ]);
+    if (!existing) {
+      return { success: false, error };
+    }
+
+    const byKey = new Map(existing.map(r => [reservationKey(r), r]));
+    const plan = planRows(parsed, record => byKey.get(reservationKey(record)), settings);
+
+    // Phones with no guest profile yet, with the visits their imported bookings add up to
+    const guestIds = new Map((guests || []).filter(g => g.phone).map(g => [g.phone!, g.id!]));
+    const newGuests = new Map<string, Guest>();
+    for (const { record } of [...plan.create, ...plan.update]) {
+      if (!record.guest_phone || guestIds.has(record.guest_phone)) {
+        continue;
+      }
+      const guest = newGuests.get(record.guest_phone)
+        || { name: record.guest_name!, phone: record.guest_phone, email: record.guest_email, visit_count: 0 };
+      if (KEPT_STATUSES.includes(record.status || '')) {
+        guest.visit_count! += 1;
+        if (!guest.last_visit_date || record.reservation_date! > guest.last_visit_date) {
+          guest.last_visit_date = record.reservation_date;
+        }
+      }
+      newGuests.set(record.guest_phone, guest);
+    }
+    plan.report.guests_created = newGuests.size;
+
+    if (!settings.dry_run) {
+      const { data: createdGuests, error: guestError } = await supabaseService.insertRows<Guest>('guests', [...newGuests.values()]);
+      if (!createdGuests) {
+        return { success: false, error: guestError };
+      }
+      createdGuests.forEach(guest => guestIds.set(guest.phone!, guest.id!));
+
+      // Table links live in reservation_tables, not on the reservation row
+      const withGuest = ({ reservation_tables, ...record }: Partial<Reservation>) => ({
+        ...record,
+        ...(record.guest_phone && guestIds.has(record.guest_phone) ? { guest_id: guestIds.get(record.guest_phone) } : {})
+      });
+
+      const toReservation = (record: Partial<Reservation>) =>
+        ({ status: 'confirmed', ...withGuest(record), source: 'import', created_by: performedBy }) as Reservation;
+
+      // Rows naming tables are booked onto them one by one, in a transaction each, so a row
+      // that clashes with another booking is reported and nothing of it is saved
+      const seated = plan.create.filter(p => p.record.reservation_tables?.length);
+      const unseated = plan.create.filter(p => !p.record.reservation_tables?.length);
+
+      plan.report.created = 0;
+      if (unseated.length > 0) {
+        const { data: created, error: insertError } = await supabaseService.insertRows<Reservation>(
+          'reservations',
+          unseated.map(p => toReservation(p.record))
+        );
+        if (!created) {
+          return { success: false, error: insertError };
+        }
+        plan.report.created = created.length;
+      }
+
+      for (const { row, record } of seated) {
+        const result = await supabaseService.createReservationOnTables(toReservation(record), tableIdsOf(record));
+        if (result.success) {
+          plan.report.created++;
+        } else {
+          plan.report.errors.push({ row, field: 'table_number', message: result.error });
+        }
+      }
+
+      for (const { row, record, existing: current } of plan.update) {
+        // New tables move the booking with its hold first; a clash leaves it as it was
+        if (record.reservation_tables?.length) {
+          const moved = await supabaseService.moveReservation(current.id!, {
+            reservation_date: record.reservation_date,
+            reservation_time: record.reservation_time,
+            party_size: record.party_size,
+            duration_minutes: record.duration_minutes
+          }, tableIdsOf(record));
+          if (!moved.success) {
+            plan.report.errors.push({ row, field: 'table_number', message: moved.error });
+            continue;
+          }
+        }
+
+        const result = await supabaseService.updateReservation(current.id!, withGuest(record));
+        if (result.success) {
+          plan.report.updated++;
+        } else {
+          plan.report.errors.push({ row, message: result.error });
+        }
+      }
+    }
+
+    return { success: true, data: { type: 'reservations', ...plan.report } };
+  }
+
+  /**
+   * Helper: Menu items, matched to existing dishes by name
+   */
+  private async importMenu(readers: Read[], settings: ImportSettings): Promise<ImportResult> {
+    const { data: existing, error } = await supabaseService.getAllRows<MenuItem>('menu_items');
+    if (!existing) {
+      return { success: false, error };
+    }
+
+    const byName = new Map(existing.map(item => [item.name.trim().toLowerCase(), item]));
+    const parsed = readers.map((read, index) => {
+      const { item, errors } = menuItemFromRow(read);
+      return { row: index + 2, record: item, key: item.name?.trim().toLowerCase() || '', errors: withRow(errors, index + 2) };
+    });
+
+    const plan = planRows(parsed, record => byName.get(record.name!.trim().toLowerCase()), settings);
+
+    if (!settings.dry_run) {
+      const { data: created, error: insertError } = await supabaseService.insertRows<MenuItem>(
+        'menu_items',
+        plan.create.map(p => ({ is_available: true, ...p.record }) as MenuItem)
+      );
+      if (!created) {
+        return { success: false, error: insertError };
+      }
+      plan.report.created = created.length;
+
+      for (const { row, record, existing: current } of plan.update) {
+        const result = await supabaseService.updateMenuItem(current.id!, record);
+        if (result.success) plan.report.updated++;
+        else plan.report.errors.push({ row, message: result.error });
+      }
+    }
+
+    return { success: true, data: { type: 'menu', ...plan.report } };
+  }
+}
+
+/**
+ * Helper: Field errors tagged with their spreadsheet row
+ */
+function withRow(errors: { field: string; message: string }[], row: number): RowError[] {
+  return errors.map(error => ({ row, ...error }));
+}
+
+/**
+ * Helper: The tables a row named, for bookings on combined tables
+ */
+function tableIdsOf(reservation: Partial<Reservation>): string[] {
+  return (reservation.reservation_tables || []).map(link => link.table_id);
+}
+
+/**
+ * Helper: What makes two bookings the same: who (phone, else name), date and time
+ */
+function reservationKey(reservation: Partial<Reservation>): string {
+  const who = reservation.guest_phone || reservation.guest_name?.trim().toLowerCase() || '';
+  return `${who}|${reservation.reservation_date}|${reservation.reservation_time?.slice(0, 5)}`;
+}
+
+/**
+ * Helper: Sort valid rows into creates and updates, reporting errors and duplicates. Counts in
+ * the report are what would happen; the caller replaces created/updated once it has saved.
+ */
+function planRows<T extends Record<string, any>, E extends { id?: string }>(
+  parsed: ParsedRow<Partial<T>>[],
+  findExisting: (record: Partial<T>) => E | undefined,
+  settings: ImportSettings
+) {
+  const report: Omit<ImportReport, 'type'> = {
+    dry_run: settings.dry_run,
+    total_rows: parsed.length,
+    valid_rows: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: [],
+    duplicates: []
+  };
+  const create: ParsedRow<Partial<T>>[] = [];
+  const update: (ParsedRow<Partial<T>> & { existing: E })[] = [];
+  const firstRow = new Map<string, number>();
+
+  for (const parsedRow of parsed) {
+    if (parsedRow.errors.length > 0) {
+      report.errors.push(...parsedRow.errors);
+      continue;
+    }
+    report.valid_rows++;
+
+    const { row, key } = parsedRow;
+    if (key && firstRow.has(key)) {
+      report.duplicates.push({ row, key, duplicate_of_row: firstRow.get(key), action: 'skip' });
+      report.skipped++;
+      continue;
+    }
+    if (key) {
+      firstRow.set(key, row);
+    }
+
+    const existing = findExisting(parsedRow.record);
+    if (!existing) {
+      create.push(parsedRow);
+      continue;
+    }
+
+    report.duplicates.push({ row, key, existing_id: existing.id, action: settings.duplicates });
+    if (settings.duplicates === 'update') {
+      update.push({ ...parsedRow, existing });
+    } else {
+      report.skipped++;
+    }
+  }
+
+  report.created = create.length;
+  report.updated = settings.dry_run ? update.length : 0;
+  return { report, create, update };
+}
+
+/**
+ * Helper: An imported profile laid over an existing one. Tags and preference lists are
+ * combined rather than replaced, so nothing staff recorded is lost.
+ */
+function mergeGuest(current: Guest, imported: Partial<Guest>): Partial<Guest> {
+  const merged: Partial<Guest> = { ...imported };
+  if (imported.tags) {
+    merged.tags = [...new Set([...(current.tags || []), ...imported.tags])];
+  }
+  if (imported.preferences) {
+    const preferences: Record<string, any> = { ...(current.preferences || {}) };
+    for (const [category, values] of Object.entries(imported.preferences)) {
+      preferences[category] = [...new Set([...(Array.isArray(preferences[category]) ? preferences[category] : []), ...values])];
+    }
+    merged.preferences = preferences;
+  }
+  return merged;
+}
+
+export default new ImportService();
@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Restaurant } from './supabaseService';
+
+// The location a request or scheduled job is working in. Database calls made while one
+// is set only see that location's rows.
+const storage = new AsyncLocalStorage<{ restaurant: Restaurant }>();
+
+/**
+ * Run fn, and everything it awaits, in a location
+ */
+export function runInLocation<T>(restaurant: Restaurant, fn: () => T): T {
+  return storage.run({ restaurant }, fn);
+}
+
+/**
+ * The current location; undefined on single-location setups and outside any location
+ */
+export function currentLocation(): Restaurant | undefined {
+  return storage.getStore()?.restaurant;
+}
+
+export function currentRestaurantId(): string | undefined {
+  return currentLocation()?.id;
+}
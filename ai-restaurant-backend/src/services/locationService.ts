@@ -0,0 +1,202 @@
+import supabaseService, { Restaurant, StaffLocation } from './supabaseService';
+import { normalizePhone } from './guestService';
+import { currentLocation, runInLocation } from './locationContext';
+import { isValidTimezone } from './restaurantTime';
+
+// Locations change rarely but are looked up on every request
+const LOCATIONS_CACHE_MS = 60 * 1000;
+
+/**
+ * "Trattoria Roma - Downtown" -> "trattoria-roma-downtown"
+ */
+export function slugify(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export class LocationService {
+  private cache: { restaurants: Restaurant[]; loadedAt: number } | null = null;
+
+  /**
+   * Every location, active or not. Empty on single-restaurant setups, where nothing is scoped.
+   */
+  async getAll(): Promise<Restaurant[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < LOCATIONS_CACHE_MS) {
+      return this.cache.restaurants;
+    }
+
+    const result = await supabaseService.getRestaurants();
+    if (!result.success) {
+      // Keep serving the last known list rather than dropping every request's scope
+      return this.cache?.restaurants || [];
+    }
+
+    this.cache = { restaurants: result.data, loadedAt: Date.now() };
+    return result.data;
+  }
+
+  async getById(id: string): Promise<Restaurant | undefined> {
+    return (await this.getAll()).find(restaurant => restaurant.id === id);
+  }
+
+  /**
+   * The location an ElevenLabs agent or a dialled phone number belongs to
+   */
+  async resolve(match: { agent_id?: string; phone?: string }): Promise<Restaurant | undefined> {
+    const restaurants = await this.getAll();
+    if (match.agent_id) {
+      const byAgent = restaurants.find(restaurant => restaurant.elevenlabs_agent_id === match.agent_id);
+      if (byAgent) {
+        return byAgent;
+      }
+    }
+    if (match.phone) {
+      const phone = normalizePhone(match.phone);
+      return restaurants.find(restaurant => restaurant.phone_number && normalizePhone(restaurant.phone_number) === phone);
+    }
+    return undefined;
+  }
+
+  /**
+   * The locations a staff member may open. Admins see all; everyone else sees the ones they're assigned to.
+   */
+  async getLocations(user?: any): Promise<Restaurant[]> {
+    const restaurants = await this.getAll();
+    if (!user || user.role === 'admin') {
+      return restaurants;
+    }
+
+    const allowed = await this.getStaffAccess(user.id || user.email);
+    return restaurants.filter(restaurant => allowed.includes(restaurant.id));
+  }
+
+  async canAccess(user: any, restaurantId: string): Promise<boolean> {
+    if (!user || user.role === 'admin') {
+      return true;
+    }
+    return (await this.getStaffAccess(user.id || user.email)).includes(restaurantId);
+  }
+
+  /**
+   * Ids of the locations a staff member is assigned to
+   */
+  async getStaffAccess(userId: string): Promise<string[]> {
+    const result = await supabaseService.getStaffLocations(userId);
+    return result.success ? result.data.map(assignment => assignment.restaurant_id) : [];
+  }
+
+  /**
+   * Every staff member's location assignments
+   */
+  async getAssignments(): Promise<{ success: boolean; data?: StaffLocation[]; error?: string }> {
+    return supabaseService.getStaffLocations();
+  }
+
+  async setStaffAccess(userId: string, restaurantIds: string[]): Promise<{ success: boolean; data?: string[]; error?: string }> {
+    const known = (await this.getAll()).map(restaurant => restaurant.id);
+    const unknown = restaurantIds.find(id => !known.includes(id));
+    if (unknown) {
+      return { success: false, error: `Unknown location: ${unknown}` };
+    }
+
+    const result = await supabaseService.setStaffLocations(userId, [...new Set(restaurantIds)]);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(assignment => assignment.restaurant_id) };
+  }
+
+  async createLocation(input: Partial<Restaurant>): Promise<{ success: boolean; data?: Restaurant; error?: string }> {
+    if (!input.name?.trim()) {
+      return { success: false, error: 'Location name is required' };
+    }
+    if (input.timezone && !isValidTimezone(input.timezone)) {
+      return { success: false, error: `Unknown timezone: ${input.timezone}` };
+    }
+
+    const result = await supabaseService.createRestaurant({
+      name: input.name.trim(),
+      slug: slugify(input.slug || input.name),
+      phone_number: input.phone_number ? normalizePhone(input.phone_number) : null,
+      elevenlabs_agent_id: input.elevenlabs_agent_id || null,
+      elevenlabs_phone_number_id: input.elevenlabs_phone_number_id || null,
+      timezone: input.timezone || null,
+      is_active: input.is_active !== false
+    });
+
+    this.cache = null;
+    return result;
+  }
+
+  async updateLocation(id: string, input: Partial<Restaurant>): Promise<{ success: boolean; data?: Restaurant; error?: string }> {
+    const updates: Partial<Restaurant> = {};
+    if (input.name !== undefined) {
+      if (!input.name.trim()) {
+        return { success: false, error: 'Location name is required' };
+      }
+      updates.name = input.name.trim();
+    }
+    if (input.slug !== undefined) updates.slug = slugify(input.slug);
+    if (input.phone_number !== undefined) updates.phone_number = input.phone_number ? normalizePhone(input.phone_number) : null;
+    if (input.elevenlabs_agent_id !== undefined) updates.elevenlabs_agent_id = input.elevenlabs_agent_id || null;
+    if (input.elevenlabs_phone_number_id !== undefined) updates.elevenlabs_phone_number_id = input.elevenlabs_phone_number_id || null;
+    if (input.timezone !== undefined) {
+      if (input.timezone && !isValidTimezone(input.timezone)) {
+        return { success: false, error: `Unknown timezone: ${input.timezone}` };
+      }
+      updates.timezone = input.timezone || null;
+    }
+    if (input.is_active !== undefined) updates.is_active = input.is_active;
+
+    const result = await supabaseService.updateRestaurant(id, updates);
+
+    this.cache = null;
+    return result;
+  }
+
+  /**
+   * Run a job once per active location, each in its own scope. Single-restaurant setups run it once, unscoped.
+   */
+  async forEachLocation(job: () => Promise<any>): Promise<void> {
+    const restaurants = (await this.getAll()).filter(restaurant => restaurant.is_active !== false);
+    if (restaurants.length === 0) {
+      await job();
+      return;
+    }
+
+    for (const restaurant of restaurants) {
+      try {
+        await runInLocation(restaurant, job);
+      } catch (error) {
+        console.error(`Error running job for ${restaurant.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * The name guests hear and read: the current location's, else the configured one
+   */
+  restaurantName(): string {
+    return currentLocation()?.name || process.env.RESTAURANT_NAME || process.env.CLINIC_NAME || 'our restaurant';
+  }
+
+  /**
+   * The number guests are told to call: the current location's, else the configured one
+   */
+  restaurantPhone(): string | undefined {
+    return currentLocation()?.phone_number || process.env.RESTAURANT_PHONE || process.env.CLINIC_PHONE;
+  }
+
+  /**
+   * The ElevenLabs agent answering for the current location
+   */
+  agentId(): string | undefined {
+    return currentLocation()?.elevenlabs_agent_id || process.env.ELEVENLABS_AGENT_ID;
+  }
+}
+
+export default new LocationService();
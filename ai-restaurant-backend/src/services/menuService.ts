@@ -0,0 +1,163 @@
+import supabaseService, { MenuItem } from './supabaseService';
+
+export interface MenuFilters {
+  category?: string;
+  available?: boolean;
+  dietary?: string[];
+  exclude_allergens?: string[];
+  search?: string;
+}
+
+type MenuResult = { success: boolean; data?: MenuItem[]; error?: string };
+
+/**
+ * Dietary and allergen tags are stored snake_case ("gluten_free"); callers and staff
+ * say "Gluten-free" or "gluten free"
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+// What guests and staff say, mapped to the allergen tag dishes are labelled with
+const ALLERGEN_SYNONYMS: Record<string, string> = {
+  milk: 'dairy',
+  lactose: 'dairy',
+  wheat: 'gluten',
+  celiac: 'gluten',
+  coeliac: 'gluten',
+  egg: 'eggs',
+  nut: 'tree_nuts',
+  nuts: 'tree_nuts',
+  tree_nut: 'tree_nuts',
+  peanut: 'peanuts',
+  shrimp: 'shellfish',
+  prawn: 'shellfish',
+  prawns: 'shellfish',
+  crab: 'shellfish',
+  lobster: 'shellfish',
+  crustaceans: 'shellfish',
+  mollusc: 'molluscs',
+  mollusk: 'molluscs',
+  mollusks: 'molluscs',
+  soya: 'soy',
+  sulfites: 'sulphites',
+  sulphite: 'sulphites'
+};
+
+/**
+ * Allergen tag for "Nut allergy", "gluten-free" or "prawns", so a guest's allergy and
+ * a dish's allergens compare equal
+ */
+export function normalizeAllergen(allergen: string): string {
+  const tag = normalizeTag(allergen).replace(/_(allergy|allergic|intolerance|intolerant|free)$/, '');
+  return ALLERGEN_SYNONYMS[tag] || tag;
+}
+
+/**
+ * Categories are stored singular ("main"), callers ask for "mains"
+ */
+export function normalizeCategory(category: string): string {
+  const value = category.trim().toLowerCase();
+  return value.endsWith('s') && !value.endsWith('ss') ? value.slice(0, -1) : value;
+}
+
+/**
+ * Readable dietary labels for a dish, e.g. ["vegetarian", "gluten free"]
+ */
+export function describeDietary(item: MenuItem): string[] {
+  return Object.entries(item.dietary_info || {})
+    .filter(([, value]) => value)
+    .map(([tag]) => tag.replace(/_/g, ' '));
+}
+
+/**
+ * Check a menu item before saving; returns an error message or null
+ */
+export function validateMenuItem(item: Partial<MenuItem>, creating: boolean): string | null {
+  if (creating && !item.name?.trim()) {
+    return 'name is required';
+  }
+  if (item.price !== undefined && item.price !== null && (isNaN(Number(item.price)) || Number(item.price) < 0)) {
+    return 'price must be zero or more';
+  }
+  if (item.preparation_time_minutes !== undefined && item.preparation_time_minutes !== null
+    && Number(item.preparation_time_minutes) < 0) {
+    return 'preparation_time_minutes must be zero or more';
+  }
+  if (item.allergens !== undefined && !Array.isArray(item.allergens)) {
+    return 'allergens must be a list';
+  }
+  if (item.dietary_info !== undefined && (typeof item.dietary_info !== 'object' || Array.isArray(item.dietary_info))) {
+    return 'dietary_info must be an object, e.g. {"vegetarian": true}';
+  }
+  return null;
+}
+
+/**
+ * Store tags in one spelling so filters and the agent match them
+ */
+export function normalizeMenuItem<T extends Partial<MenuItem>>(item: T): T {
+  return {
+    ...item,
+    ...(item.category ? { category: normalizeCategory(item.category) } : {}),
+    ...(item.allergens ? { allergens: item.allergens.map(normalizeAllergen) } : {}),
+    ...(item.dietary_info
+      ? { dietary_info: Object.fromEntries(Object.entries(item.dietary_info).map(([tag, value]) => [normalizeTag(tag), value])) }
+      : {})
+  };
+}
+
+export class MenuService {
+  /**
+   * Menu items matching the filters. Allergen exclusion happens here because dishes
+   * without an allergens list should still be offered.
+   */
+  async getMenu(filters: MenuFilters = {}): Promise<MenuResult> {
+    const result = await supabaseService.getMenuItems({
+      available: filters.available,
+      category: filters.category ? normalizeCategory(filters.category) : undefined,
+      dietary: filters.dietary?.map(normalizeTag),
+      search: filters.search
+    });
+
+    if (!result.success || !filters.exclude_allergens?.length) {
+      return result;
+    }
+
+    const excluded = filters.exclude_allergens.map(normalizeAllergen);
+    return {
+      success: true,
+      data: (result.data || []).filter(item =>
+        !(item.allergens || []).some(allergen => excluded.includes(normalizeAllergen(allergen))))
+    };
+  }
+
+  /**
+   * Find the dish a caller is asking about: an exact name first, then the closest
+   * partial match, then any dish sharing a word with the request
+   */
+  async findDish(name: string): Promise<MenuItem | null> {
+    const wanted = name.trim().toLowerCase();
+    const { data: matches } = await supabaseService.getMenuItems({ search: wanted });
+
+    if (matches?.length) {
+      return matches.find(item => item.name.toLowerCase() === wanted)
+        || [...matches].sort((a, b) => a.name.length - b.name.length)[0];
+    }
+
+    const words = wanted.split(/\s+/).filter(word => word.length > 2);
+    if (words.length === 0) {
+      return null;
+    }
+
+    const { data: all } = await supabaseService.getMenuItems();
+    const scored = (all || [])
+      .map(item => ({ item, score: words.filter(word => item.name.toLowerCase().includes(word)).length }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    return scored[0]?.item || null;
+  }
+}
+
+export default new MenuService();
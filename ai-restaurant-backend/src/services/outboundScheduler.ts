@@ -2,6 +2,7 @@ import * as cron from 'node-cron';
 import googleSheetsService from './googleSheetsService';
 import elevenLabsService from './elevenlabsService';
 import supabaseService from './supabaseService';
+import { localDate, localMinutes, restaurantTimezone } from './restaurantTime';
 
 interface OutboundLead {
   id: string;
@@ -29,11 +30,14 @@ export class OutboundCallScheduler {
     this.isRunning = true;
     console.log('Starting outbound call scheduler...');
 
+    // Cron hours are the restaurant's, not the server's
+    const timezone = restaurantTimezone();
+
     // Schedule lead checking every 30 minutes (9 AM to 6 PM)
     const leadCheckTask = cron.schedule('*/30 9-18 * * *', async () => {
       console.log('Checking for new leads...');
       await this.checkAndQueueLeads();
-    });
+    }, { timezone });
 
     // Process call queue every 2 minutes
     const callProcessTask = cron.schedule('*/2 * * * *', async () => {
@@ -43,7 +47,7 @@ export class OutboundCallScheduler {
     // Daily report at 7 PM
     const reportTask = cron.schedule('0 19 * * *', async () => {
       await this.generateDailyReport();
-    });
+    }, { timezone });
 
     this.tasks.push(leadCheckTask, callProcessTask, reportTask);
 
@@ -97,10 +101,9 @@ export class OutboundCallScheduler {
       return;
     }
 
-    // Check if we're within calling hours (9 AM to 6 PM)
-    const now = new Date();
-    const hour = now.getHours();
-    if (hour < 9 || hour >= 18) {
+    // Check if we're within calling hours (9 AM to 6 PM, restaurant time)
+    const minutes = localMinutes();
+    if (minutes < 9 * 60 || minutes >= 18 * 60) {
       console.log('Outside calling hours');
       return;
     }
@@ -216,12 +219,11 @@ export class OutboundCallScheduler {
    */
   private async generateDailyReport() {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const today = localDate();
 
       // Get today's call logs
       const { data: calls } = await supabaseService.getCallLogs({
-        date: today.toISOString()
+        date: today
       });
 
       const totalCalls = calls?.length || 0;
@@ -229,7 +231,7 @@ export class OutboundCallScheduler {
       const successfulBookings = calls?.filter(c => c.outcome === 'booked').length || 0;
 
       const report = {
-        date: today.toISOString(),
+        date: today,
         totalCalls,
         outboundCalls,
         successfulBookings,
@@ -0,0 +1,88 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface PaymentLinkRequest {
+  amount: number;
+  currency: string;
+  kind: 'deposit' | 'card_hold';
+  description: string;
+  reference: string;
+  expires_at: string;
+}
+
+export interface PaymentLink {
+  provider_payment_id: string;
+  url: string;
+}
+
+/**
+ * What the restaurant needs from a card processor. Amounts are in major units (e.g. dollars).
+ */
+export interface PaymentProvider {
+  name: string;
+  // Request header carrying the processor's webhook signature
+  signatureHeader: string;
+  createPaymentLink(request: PaymentLinkRequest): Promise<PaymentLink>;
+  // Whether a webhook's raw body was really signed by the processor
+  verifyWebhook(payload: string, signature: string | undefined): boolean;
+  refund(providerPaymentId: string, amount: number): Promise<void>;
+  capture(providerPaymentId: string, amount: number): Promise<void>;
+  release(providerPaymentId: string): Promise<void>;
+}
+
+/**
+ * Local stand-in for a real processor. Links point back at this backend,
+ * where POST /api/payments/fake/:id/pay simulates the guest paying (outside production).
+ * Webhooks are signed with an HMAC-SHA256 of the body under PAYMENT_WEBHOOK_SECRET.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  name = 'fake';
+  signatureHeader = 'x-payment-signature';
+
+  async createPaymentLink(request: PaymentLinkRequest): Promise<PaymentLink> {
+    const providerPaymentId = `fake_${uuidv4()}`;
+    const baseUrl = process.env.WEBHOOK_BASE_URL || 'http://localhost:5000';
+
+    console.log(`[fake payments] ${request.kind} link for ${request.amount} ${request.currency}: ${request.description}`);
+
+    return {
+      provider_payment_id: providerPaymentId,
+      url: `${baseUrl}/api/payments/fake/${providerPaymentId}`
+    };
+  }
+
+  verifyWebhook(payload: string, signature: string | undefined): boolean {
+    const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+    if (!secret || !signature) {
+      return false;
+    }
+    const expected = Buffer.from(createHmac('sha256', secret).update(payload).digest('hex'));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  async refund(providerPaymentId: string, amount: number): Promise<void> {
+    console.log(`[fake payments] refunded ${amount} on ${providerPaymentId}`);
+  }
+
+  async capture(providerPaymentId: string, amount: number): Promise<void> {
+    console.log(`[fake payments] captured ${amount} on ${providerPaymentId}`);
+  }
+
+  async release(providerPaymentId: string): Promise<void> {
+    console.log(`[fake payments] released hold ${providerPaymentId}`);
+  }
+}
+
+/**
+ * Pick the provider named by PAYMENT_PROVIDER
+ */
+export function createPaymentProvider(): PaymentProvider {
+  switch (process.env.PAYMENT_PROVIDER || 'fake') {
+    case 'fake':
+      return new FakePaymentProvider();
+    default:
+      console.warn(`Unknown PAYMENT_PROVIDER "${process.env.PAYMENT_PROVIDER}", using fake payments`);
+      return new FakePaymentProvider();
+  }
+}
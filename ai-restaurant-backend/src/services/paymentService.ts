@@ -0,0 +1,303 @@
+import supabaseService, { Payment, Reservation } from './supabaseService';
+import twilioService from './twilioService';
+import { createPaymentProvider, PaymentProvider } from './paymentProvider';
+import { toMinutes } from './availabilityService';
+import { GuestReliability } from './guestService';
+import locationService from './locationService';
+import { format, parseISO } from 'date-fns';
+
+export interface PeakPeriod {
+  days: string[];
+  start: string;
+  end: string;
+}
+
+export interface DepositSettings {
+  enabled: boolean;
+  kind: 'deposit' | 'card_hold';
+  party_size_threshold: number;
+  amount_per_guest: number;
+  currency: string;
+  peak_periods: PeakPeriod[];
+  require_for_unreliable_guests: boolean;
+  payment_window_minutes: number;
+  late_cancellation_refund_percent: number;
+  no_show_refund_percent: number;
+}
+
+export interface DepositRequirement {
+  kind: 'deposit' | 'card_hold';
+  amount: number;
+  currency: string;
+  reason: string;
+}
+
+type PaymentResult = { success: boolean; data?: Payment; error?: string };
+
+// How a reservation ended, for the refund rules
+export type ReservationOutcome = 'cancelled' | 'late_cancellation' | 'no-show' | 'completed';
+
+const DEFAULT_DEPOSIT_SETTINGS: DepositSettings = {
+  enabled: false,
+  kind: 'deposit',
+  party_size_threshold: 8,
+  amount_per_guest: 20,
+  currency: 'USD',
+  peak_periods: [],
+  require_for_unreliable_guests: false,
+  payment_window_minutes: 30,
+  late_cancellation_refund_percent: 0,
+  no_show_refund_percent: 0
+};
+
+export class PaymentService {
+  private provider: PaymentProvider = createPaymentProvider();
+
+  /**
+   * The configured processor's name; 'fake' for the local stand-in
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Whether a webhook, given its raw body and headers, was signed by the configured processor
+   */
+  verifyWebhook(payload: string, headers: Record<string, string | string[] | undefined>): boolean {
+    return this.provider.verifyWebhook(payload, headers[this.provider.signatureHeader] as string | undefined);
+  }
+
+  /**
+   * Load deposit settings, falling back to deposits switched off
+   */
+  async getDepositSettings(): Promise<DepositSettings> {
+    const { data } = await supabaseService.getSetting<Partial<DepositSettings>>('deposit_settings');
+    return { ...DEFAULT_DEPOSIT_SETTINGS, ...(data || {}) };
+  }
+
+  /**
+   * Decide whether a booking needs a deposit or card hold, and how much
+   */
+  async getDepositRequirement(
+    booking: { reservation_date: string; reservation_time: string; party_size: number },
+    reliability?: GuestReliability
+  ): Promise<DepositRequirement | null> {
+    const settings = await this.getDepositSettings();
+    if (!settings.enabled) {
+      return null;
+    }
+
+    let reason: string | null = null;
+    if (booking.party_size >= settings.party_size_threshold) {
+      reason = `parties of ${settings.party_size_threshold} or more`;
+    } else if (this.isPeakTime(booking.reservation_date, booking.reservation_time, settings.peak_periods)) {
+      reason = 'peak-time bookings';
+    } else if (settings.require_for_unreliable_guests && reliability?.deposit_recommended) {
+      reason = 'guests with previous no-shows';
+    }
+
+    if (!reason) {
+      return null;
+    }
+
+    return {
+      kind: settings.kind,
+      amount: settings.amount_per_guest * booking.party_size,
+      currency: settings.currency,
+      reason
+    };
+  }
+
+  /**
+   * Create a payment link for a reservation and text it to the guest
+   */
+  async requestPayment(reservation: Reservation, requirement: DepositRequirement): Promise<PaymentResult> {
+    try {
+      const settings = await this.getDepositSettings();
+      const expiresAt = new Date(Date.now() + settings.payment_window_minutes * 60 * 1000).toISOString();
+      const description = `${requirement.kind === 'deposit' ? 'Deposit' : 'Card hold'} for ${reservation.guest_name}, party of ${reservation.party_size} on ${reservation.reservation_date} at ${reservation.reservation_time.slice(0, 5)}`;
+
+      const link = await this.provider.createPaymentLink({
+        amount: requirement.amount,
+        currency: requirement.currency,
+        kind: requirement.kind,
+        description,
+        reference: reservation.id!,
+        expires_at: expiresAt
+      });
+
+      const payment = await supabaseService.createPayment({
+        reservation_id: reservation.id!,
+        provider: this.provider.name,
+        provider_payment_id: link.provider_payment_id,
+        kind: requirement.kind,
+        amount: requirement.amount,
+        currency: requirement.currency,
+        payment_url: link.url,
+        expires_at: expiresAt
+      });
+
+      if (payment.success && reservation.guest_phone) {
+        try {
+          await twilioService.sendSMS({
+            to: reservation.guest_phone,
+            body: `To secure your table at ${locationService.restaurantName()} on ${reservation.reservation_date} at ${reservation.reservation_time.slice(0, 5)}, please complete the ${requirement.amount} ${requirement.currency} ${requirement.kind === 'deposit' ? 'deposit' : 'card hold'} within ${settings.payment_window_minutes} minutes: ${link.url}`
+          });
+        } catch (smsError) {
+          console.error('Error sending payment link SMS:', smsError);
+        }
+      }
+
+      return payment;
+    } catch (error: any) {
+      console.error('Error requesting payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Record that the guest paid (or authorized the hold)
+   */
+  async markPaid(providerPaymentId: string): Promise<PaymentResult> {
+    const { data: payment, error } = await supabaseService.getPaymentByProviderId(providerPaymentId);
+    if (!payment) {
+      return { success: false, error: error || 'Payment not found' };
+    }
+
+    if (payment.status !== 'pending') {
+      return { success: false, error: `Payment is already ${payment.status}` };
+    }
+
+    if (payment.expires_at && new Date(payment.expires_at) < new Date()) {
+      return { success: false, error: 'Payment link has expired' };
+    }
+
+    return supabaseService.updatePayment(payment.id!, {
+      status: payment.kind === 'deposit' ? 'paid' : 'held',
+      paid_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Pending payments whose window has closed
+   */
+  async getExpiredPayments(now: Date = new Date()) {
+    const { data } = await supabaseService.getPayments({
+      status: 'pending',
+      expires_before: now.toISOString()
+    });
+    return data || [];
+  }
+
+  /**
+   * Close an unpaid payment link
+   */
+  async expire(payment: Payment) {
+    return supabaseService.updatePayment(payment.id!, { status: 'expired' });
+  }
+
+  /**
+   * Apply the refund rules once a reservation ends.
+   * On-time cancellations get everything back; late cancellations and no-shows keep the
+   * configured share. Completed visits release holds and keep deposits against the bill.
+   */
+  async settle(reservationId: string, outcome: ReservationOutcome) {
+    const settings = await this.getDepositSettings();
+    const { data: payments } = await supabaseService.getPayments({ reservation_id: reservationId });
+    const settled: Payment[] = [];
+
+    for (const payment of payments || []) {
+      if (payment.status === 'pending') {
+        const expired = await this.expire(payment);
+        if (expired.data) settled.push(expired.data);
+        continue;
+      }
+
+      if (payment.status !== 'paid' && payment.status !== 'held') continue;
+
+      const refundPercent = outcome === 'cancelled'
+        ? 100
+        : outcome === 'late_cancellation'
+          ? settings.late_cancellation_refund_percent
+          : outcome === 'no-show'
+            ? settings.no_show_refund_percent
+            : null;
+
+      const updates = await this.applyRefundPercent(payment, refundPercent);
+      const result = await supabaseService.updatePayment(payment.id!, updates);
+      if (result.data) settled.push(result.data);
+    }
+
+    return { success: true, data: settled };
+  }
+
+  /**
+   * Manually refund part or all of a deposit
+   */
+  async refund(payment: Payment, amount: number): Promise<PaymentResult> {
+    const refundable = Number(payment.amount) - Number(payment.refunded_amount || 0);
+    if (payment.status !== 'paid' && payment.status !== 'partially_refunded') {
+      return { success: false, error: `Cannot refund a ${payment.status} payment` };
+    }
+    if (amount <= 0 || amount > refundable) {
+      return { success: false, error: `Refund must be between 0 and ${refundable}` };
+    }
+
+    await this.provider.refund(payment.provider_payment_id!, amount);
+
+    const refunded = Number(payment.refunded_amount || 0) + amount;
+    return supabaseService.updatePayment(payment.id!, {
+      refunded_amount: refunded,
+      status: refunded >= Number(payment.amount) ? 'refunded' : 'partially_refunded'
+    });
+  }
+
+  /**
+   * Helper: Refund or capture a settled payment. A null percent means the visit went ahead.
+   */
+  private async applyRefundPercent(payment: Payment, refundPercent: number | null): Promise<Partial<Payment>> {
+    const amount = Number(payment.amount);
+
+    if (payment.kind === 'card_hold') {
+      // Holds are only charged for the share the guest forfeits
+      const capture = refundPercent === null ? 0 : Math.round(amount * (100 - refundPercent)) / 100;
+      if (capture > 0) {
+        await this.provider.capture(payment.provider_payment_id!, capture);
+        return { status: 'captured', captured_amount: capture };
+      }
+      await this.provider.release(payment.provider_payment_id!);
+      return { status: 'released' };
+    }
+
+    if (refundPercent === null) {
+      return {};
+    }
+
+    const refund = Math.round(amount * refundPercent) / 100;
+    if (refund <= 0) {
+      return {};
+    }
+
+    await this.provider.refund(payment.provider_payment_id!, refund);
+    return {
+      refunded_amount: refund,
+      status: refund >= amount ? 'refunded' : 'partially_refunded'
+    };
+  }
+
+  /**
+   * Helper: Check whether a booking falls in a configured peak period
+   */
+  private isPeakTime(date: string, time: string, periods: PeakPeriod[]): boolean {
+    const weekday = format(parseISO(date), 'EEEE').toLowerCase();
+    const minutes = toMinutes(time);
+
+    return periods.some(period =>
+      period.days.includes(weekday) &&
+      minutes >= toMinutes(period.start) &&
+      minutes < toMinutes(period.end)
+    );
+  }
+}
+
+export default new PaymentService();
@@ -0,0 +1,286 @@
+import supabaseService, { Guest, MenuItem, PreferenceSuggestion } from './supabaseService';
+import guestService from './guestService';
+import { extractAllergies } from './allergyService';
+
+export const PREFERENCE_CATEGORIES = ['seating', 'dietary', 'allergies', 'occasions', 'favorite_dishes'];
+
+export interface ExtractedPreference {
+  category: string;
+  value: string;
+  evidence: string;
+}
+
+export interface BookingDefaults {
+  allergies: string[];
+  dietary_restrictions?: string;
+  seating_note?: string;
+  table_location?: string; // a tables.location to prefer when seating
+  applied: string[]; // seating and dietary carried over, for the agent to mention
+}
+
+// Seating wishes and the tables.location each one maps to, if any
+const SEATING_PATTERNS: { pattern: RegExp; value: string; location?: string }[] = [
+  { pattern: /\bbooths?\b/, value: 'booth' },
+  { pattern: /\bwindow\b/, value: 'window table' },
+  { pattern: /\b(patio|terrace|outside|outdoors?)\b/, value: 'patio', location: 'patio' },
+  { pattern: /\bquiet (table|corner|spot|area)\b/, value: 'quiet table' },
+  { pattern: /\bcorner table\b/, value: 'corner table' },
+  { pattern: /\b(at the bar|bar (seats?|seating|stools?))\b/, value: 'bar', location: 'bar' },
+  { pattern: /\bprivate room\b/, value: 'private room', location: 'private' },
+  { pattern: /\bhigh ?chairs?\b/, value: 'high chair' },
+  { pattern: /\b(wheelchair|step[- ]free|accessible)\b/, value: 'wheelchair accessible' }
+];
+
+// Needs that only come up because they matter, so no preference wording is required
+const ALWAYS_RELEVANT_SEATING = ['high chair', 'wheelchair accessible'];
+
+const DIETARY_PATTERNS: { pattern: RegExp; value: string }[] = [
+  { pattern: /\bvegan\b/, value: 'vegan' },
+  { pattern: /\bvegetarian\b/, value: 'vegetarian' },
+  { pattern: /\bpescatarian\b/, value: 'pescatarian' },
+  { pattern: /\bgluten[- ]free\b/, value: 'gluten free' },
+  { pattern: /\bdairy[- ]free\b/, value: 'dairy free' },
+  { pattern: /\blactose intolerant\b/, value: 'lactose intolerant' },
+  { pattern: /\bhalal\b/, value: 'halal' },
+  { pattern: /\bkosher\b/, value: 'kosher' }
+];
+
+const OCCASIONS = ['birthday', 'anniversary', 'graduation', 'engagement', 'promotion', 'retirement', 'honeymoon'];
+
+const MONTHS = 'january|february|march|april|may|june|july|august|september|october|november|december';
+
+const PREFERENCE_CUE = /\b(prefer|preferably|like|love|always|usually|could we|can we|would like|we'd like|i'd like|want|need|please)\b/;
+
+// The caller talking about themselves or their party, not asking about the menu
+const SELF_REFERENCE = /\b(i|i'm|im|we|we're|my|our|wife|husband|partner|son|daughter|friend|mother|father|mom|mum|dad|kids?)\b/;
+
+const FAVORITE_CUE = /\b(love|loved|favou?rite|always (get|order|have)|best|amazing|delicious)\b/;
+
+/**
+ * What the caller said, one sentence each. Transcripts arrive as text ("User: ...")
+ * or as a list of turns; the agent's own lines are dropped.
+ */
+export function callerSentences(transcript: unknown): string[] {
+  let turns: { role?: string; message?: string }[] | null = null;
+  if (Array.isArray(transcript)) {
+    turns = transcript;
+  } else if (typeof transcript === 'string' && transcript.trim().startsWith('[')) {
+    try {
+      turns = JSON.parse(transcript);
+    } catch {
+      turns = null;
+    }
+  }
+
+  let lines: string[];
+  if (turns) {
+    lines = turns.filter(turn => turn.role === 'user').map(turn => turn.message || '');
+  } else {
+    const text = String(transcript || '');
+    const labelled = /^(user|caller|guest|customer)\s*:/im.test(text);
+    lines = text.split('\n')
+      .filter(line => !labelled || /^(user|caller|guest|customer)\s*:/i.test(line.trim()))
+      .map(line => line.replace(/^\s*(user|caller|guest|customer)\s*:/i, ''));
+  }
+
+  return lines
+    .flatMap(line => line.split(/(?<=[.!?])\s+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Preferences a caller mentioned: seating, dietary needs, allergies, occasions and
+ * dishes from our menu they said they love
+ */
+export function extractPreferences(transcript: unknown, menu: MenuItem[] = []): ExtractedPreference[] {
+  const found: ExtractedPreference[] = [];
+  const add = (category: string, value: string, evidence: string) => {
+    if (!found.some(p => p.category === category && p.value === value)) {
+      found.push({ category, value, evidence });
+    }
+  };
+
+  for (const sentence of callerSentences(transcript)) {
+    const lower = sentence.toLowerCase();
+    const question = sentence.endsWith('?');
+
+    for (const seating of SEATING_PATTERNS) {
+      if (seating.pattern.test(lower) && (PREFERENCE_CUE.test(lower) || ALWAYS_RELEVANT_SEATING.includes(seating.value))) {
+        add('seating', seating.value, sentence);
+      }
+    }
+
+    if (!question && SELF_REFERENCE.test(lower)) {
+      for (const dietary of DIETARY_PATTERNS) {
+        if (dietary.pattern.test(lower)) {
+          add('dietary', dietary.value, sentence);
+        }
+      }
+    }
+
+    if (/allerg|intoleran|celiac|coeliac/.test(lower)) {
+      for (const allergen of extractAllergies(lower)) {
+        add('allergies', allergen, sentence);
+      }
+    }
+
+    for (const occasion of OCCASIONS) {
+      if (new RegExp(`\\b(my|our|his|her|their|it's|its)\\b[^.]*\\b${occasion}\\b`).test(lower)) {
+        const date = lower.match(new RegExp(`\\b(${MONTHS}) (\\d{1,2})(st|nd|rd|th)?\\b`))
+          || lower.match(new RegExp(`\\b(\\d{1,2})(st|nd|rd|th)? of (${MONTHS})\\b`));
+        const when = !date ? ''
+          : /^\d/.test(date[1]) ? ` on ${capitalize(date[3])} ${date[1]}` : ` on ${capitalize(date[1])} ${date[2]}`;
+        add('occasions', `${occasion}${when}`, sentence);
+      }
+    }
+
+    if (FAVORITE_CUE.test(lower)) {
+      for (const item of menu) {
+        if (item.name && lower.includes(item.name.toLowerCase())) {
+          add('favorite_dishes', item.name, sentence);
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * What a guest's approved preferences contribute to their next booking
+ */
+export function bookingDefaults(preferences?: Record<string, any> | null): BookingDefaults {
+  const list = (category: string): string[] => Array.isArray(preferences?.[category]) ? preferences![category] : [];
+  const seating = list('seating');
+  const dietary = list('dietary');
+  const allergies = list('allergies');
+  const location = SEATING_PATTERNS.find(s => s.location && seating.includes(s.value))?.location;
+
+  return {
+    allergies,
+    dietary_restrictions: dietary.length ? dietary.join(', ') : undefined,
+    seating_note: seating.length ? `Prefers ${seating.join(', ')}` : undefined,
+    table_location: location,
+    // Allergies are read back with the booking's own, so they aren't repeated here
+    applied: [...seating, ...dietary]
+  };
+}
+
+/**
+ * Helper: "june" -> "June"
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export class PreferenceService {
+  /**
+   * Propose preferences heard on a call for the caller's guest profile.
+   * Anything already on the profile or already proposed is skipped.
+   */
+  async extractFromCall(callLogId: string): Promise<{ success: boolean; data?: PreferenceSuggestion[]; error?: string }> {
+    const { data: call, error } = await supabaseService.getCallLog(callLogId);
+    if (!call) {
+      return { success: false, error: error || 'Call not found' };
+    }
+    if (!call.transcript) {
+      return { success: true, data: [] };
+    }
+
+    let guest: Guest | null = call.guest_id ? (await supabaseService.getGuest(call.guest_id)).data || null : null;
+    if (!guest && call.phone_number && call.phone_number !== 'unknown') {
+      guest = await guestService.findByPhone(call.phone_number);
+    }
+    if (!guest) {
+      return { success: true, data: [] };
+    }
+    if (!call.guest_id) {
+      await supabaseService.updateCallLog(call.id!, { guest_id: guest.id });
+    }
+
+    const [{ data: menu }, { data: existing }] = await Promise.all([
+      supabaseService.getMenuItems(),
+      supabaseService.getPreferenceSuggestions({ guest_id: guest.id })
+    ]);
+
+    const known = (category: string, value: string) =>
+      (Array.isArray(guest!.preferences?.[category]) && guest!.preferences![category].includes(value))
+      || (existing || []).some(s => s.category === category && s.value === value && s.status !== 'rejected');
+
+    const suggestions: PreferenceSuggestion[] = extractPreferences(call.transcript, menu || [])
+      .filter(p => !known(p.category, p.value))
+      .map(p => ({ guest_id: guest!.id!, call_log_id: call.id, ...p }));
+
+    if (suggestions.length === 0) {
+      return { success: true, data: [] };
+    }
+    return supabaseService.createPreferenceSuggestions(suggestions);
+  }
+
+  /**
+   * Suggestions awaiting review, newest first
+   */
+  async getSuggestions(filters: { status?: string; guest_id?: string } = {}) {
+    return supabaseService.getPreferenceSuggestions({
+      status: filters.status || 'pending',
+      guest_id: filters.guest_id
+    });
+  }
+
+  /**
+   * Add a suggestion to the guest's preferences; the host may correct the value first
+   */
+  async approve(id: string, reviewedBy: string, value?: string): Promise<{ success: boolean; data?: PreferenceSuggestion; error?: string }> {
+    const { data: suggestion, error } = await supabaseService.getPreferenceSuggestion(id);
+    if (!suggestion) {
+      return { success: false, error: error || 'Suggestion not found' };
+    }
+    if (suggestion.status !== 'pending') {
+      return { success: false, error: `Suggestion is already ${suggestion.status}` };
+    }
+
+    const { data: guest } = await supabaseService.getGuest(suggestion.guest_id);
+    if (!guest) {
+      return { success: false, error: 'Guest not found' };
+    }
+
+    const approvedValue = value?.trim() || suggestion.value;
+    const preferences = { ...(guest.preferences || {}) };
+    const current: string[] = Array.isArray(preferences[suggestion.category]) ? preferences[suggestion.category] : [];
+    preferences[suggestion.category] = current.includes(approvedValue) ? current : [...current, approvedValue];
+
+    const updated = await supabaseService.updateGuest(guest.id!, { preferences });
+    if (!updated.success) {
+      return { success: false, error: updated.error };
+    }
+
+    return supabaseService.updatePreferenceSuggestion(id, {
+      status: 'approved',
+      value: approvedValue,
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Turn a suggestion down so it isn't proposed again
+   */
+  async reject(id: string, reviewedBy: string): Promise<{ success: boolean; data?: PreferenceSuggestion; error?: string }> {
+    const { data: suggestion, error } = await supabaseService.getPreferenceSuggestion(id);
+    if (!suggestion) {
+      return { success: false, error: error || 'Suggestion not found' };
+    }
+    if (suggestion.status !== 'pending') {
+      return { success: false, error: `Suggestion is already ${suggestion.status}` };
+    }
+
+    return supabaseService.updatePreferenceSuggestion(id, {
+      status: 'rejected',
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString()
+    });
+  }
+}
+
+export default new PreferenceService();
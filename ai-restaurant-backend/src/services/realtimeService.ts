@@ -0,0 +1,75 @@
+import WebSocket from 'ws';
+import { IncomingMessage } from 'http';
+import { currentRestaurantId } from './locationContext';
+
+// Decides whether a socket may subscribe, and to which location
+type SocketAuthorizer = (req: IncomingMessage) => Promise<{ restaurantId: string | null } | { error: string }>;
+
+/**
+ * Helper: Subscribers are kept per channel and location; '' is used only when no locations are set up
+ */
+function channelKey(channel: string, restaurantId?: string | null) {
+  return `${channel}:${restaurantId || ''}`;
+}
+
+/**
+ * Pushes live updates to dashboard clients connected on /websocket?channel=<name>&restaurant_id=<location>
+ */
+export class RealtimeService {
+  private channels: Map<string, Set<WebSocket>> = new Map();
+
+  /**
+   * Register dashboard subscribers on the shared WebSocket server. Each socket is authorized for
+   * one location before it receives anything.
+   */
+  attach(wss: WebSocket.Server, authorize: SocketAuthorizer) {
+    wss.on('connection', async (ws: WebSocket, req: IncomingMessage) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      const channel = url.searchParams.get('channel');
+
+      if (!channel) return;
+
+      const access = await authorize(req);
+      if ('error' in access) {
+        ws.close(1008, access.error);
+        return;
+      }
+
+      // The client may have left while it was authorized
+      if (ws.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      const key = channelKey(channel, access.restaurantId);
+      if (!this.channels.has(key)) {
+        this.channels.set(key, new Set());
+      }
+      const subscribers = this.channels.get(key)!;
+      subscribers.add(ws);
+
+      ws.on('close', () => subscribers.delete(ws));
+      ws.on('error', (error) => {
+        console.error(`Realtime ${channel} WebSocket error:`, error);
+        subscribers.delete(ws);
+      });
+    });
+  }
+
+  /**
+   * Send an event to every subscriber of a channel watching the current location
+   */
+  broadcast(channel: string, event: string, payload: any) {
+    const subscribers = [...(this.channels.get(channelKey(channel, currentRestaurantId())) || [])];
+    if (subscribers.length === 0) return;
+
+    const message = JSON.stringify({ channel, event, payload, sent_at: new Date().toISOString() });
+
+    subscribers.forEach(ws => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(message);
+      }
+    });
+  }
+}
+
+export default new RealtimeService();
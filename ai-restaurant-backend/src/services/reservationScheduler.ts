@@ -0,0 +1,175 @@
+import * as cron from 'node-cron';
+import supabaseService from './supabaseService';
+import availabilityService from './availabilityService';
+import reservationService from './reservationService';
+import seriesService from './seriesService';
+import turnTimeService from './turnTimeService';
+import locationService from './locationService';
+import idempotencyService from './idempotencyService';
+import { localDate, localMinutes, zonedTime } from './restaurantTime';
+
+export type ScheduledJob = 'no-shows' | 'unpaid-deposits' | 'series' | 'turn-times' | 'idempotency-keys';
+
+// When each job runs, in UTC. serverless.yml schedules the same jobs for the Lambda deploy.
+export const JOB_SCHEDULES: Record<ScheduledJob, string> = {
+  'no-shows': '*/5 * * * *',
+  'unpaid-deposits': '* * * * *',
+  // Nightly jobs tick hourly and run for each location when its own clock reaches the hour
+  'series': '0 * * * *',
+  'turn-times': '0 * * * *',
+  'idempotency-keys': '15 * * * *'
+};
+
+export class ReservationScheduler {
+  private tasks: cron.ScheduledTask[] = [];
+  private isRunning: boolean = false;
+
+  /**
+   * Start the reservation housekeeping jobs
+   */
+  start() {
+    if (this.isRunning) {
+      console.log('Reservation scheduler already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('Starting reservation scheduler...');
+
+    for (const [job, schedule] of Object.entries(JOB_SCHEDULES) as [ScheduledJob, string][]) {
+      this.tasks.push(cron.schedule(schedule, () => this.runJob(job)));
+    }
+  }
+
+  /**
+   * Run one housekeeping job. Each job runs once per location, against that location's
+   * reservations and settings.
+   */
+  async runJob(job: ScheduledJob) {
+    switch (job) {
+      // Check for no-shows every 5 minutes
+      case 'no-shows':
+        return locationService.forEachLocation(() => this.detectNoShows());
+
+      // Release tables held for unpaid deposits every minute
+      case 'unpaid-deposits':
+        return locationService.forEachLocation(() => this.expireUnpaidReservations());
+
+      // Book the next occurrences of standing reservations every day at 3 AM
+      case 'series':
+        return this.forEachLocationAtHour(3, () => this.generateSeriesOccurrences());
+
+      // Relearn turn times from the day's completed visits at 4 AM
+      case 'turn-times':
+        return this.forEachLocationAtHour(4, async () => {
+          const result = await turnTimeService.learnTurnTimes();
+          if (result.success) {
+            console.log(`Learned turn times from ${result.visits} visit(s)`);
+          }
+        });
+
+      // Forget stored booking responses once retries are long over, every hour
+      case 'idempotency-keys':
+        return locationService.forEachLocation(() => idempotencyService.purgeExpired());
+
+      default:
+        throw new Error(`Unknown scheduled job: ${job}`);
+    }
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop() {
+    this.isRunning = false;
+    this.tasks.forEach(task => task.stop());
+    this.tasks = [];
+    console.log('Reservation scheduler stopped');
+  }
+
+  /**
+   * Mark confirmed reservations as no-shows once the grace period after their time has passed
+   */
+  async detectNoShows(now: Date = new Date()) {
+    try {
+      const { no_show_grace_minutes } = await availabilityService.getReservationSettings();
+      const cutoff = now.getTime() - no_show_grace_minutes * 60 * 1000;
+
+      const { data: confirmed } = await supabaseService.getReservations({
+        status: 'confirmed',
+        endDate: localDate(now)
+      });
+
+      const missed = (confirmed || []).filter(r => {
+        // Private event room holds are closed out with their event
+        if (r.source === 'event') return false;
+        return zonedTime(r.reservation_date, r.reservation_time).getTime() < cutoff;
+      });
+
+      for (const reservation of missed) {
+        await reservationService.updateStatus(reservation.id!, 'no-show', 'system', {
+          grace_minutes: no_show_grace_minutes
+        });
+      }
+
+      if (missed.length > 0) {
+        console.log(`Marked ${missed.length} reservation(s) as no-show`);
+      }
+
+      return { success: true, marked: missed.length };
+    } catch (error: any) {
+      console.error('Error detecting no-shows:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Cancel pending_payment reservations whose payment window has closed
+   */
+  async expireUnpaidReservations(now: Date = new Date()) {
+    try {
+      const result = await reservationService.expireUnpaidReservations(now);
+
+      if (result.cancelled > 0) {
+        console.log(`Released ${result.cancelled} unpaid reservation(s)`);
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('Error expiring unpaid reservations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Book standing reservation occurrences that have come into the booking window
+   */
+  async generateSeriesOccurrences(now: Date = new Date()): Promise<{ success: boolean; created?: number; conflicts?: number; error?: string }> {
+    try {
+      const result = await seriesService.generateAll(now);
+
+      if (result.created > 0 || result.conflicts > 0) {
+        console.log(`Booked ${result.created} recurring reservation(s), ${result.conflicts} conflict(s)`);
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('Error generating recurring reservations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Helper: Run a daily job for each location whose local time is within the given hour.
+   * Called on the hour, so each location runs it once a day in its own timezone.
+   */
+  private async forEachLocationAtHour(hour: number, job: () => Promise<any>) {
+    await locationService.forEachLocation(async () => {
+      if (Math.floor(localMinutes() / 60) === hour) {
+        await job();
+      }
+    });
+  }
+}
+
+export default new ReservationScheduler();
@@ -1,70 +1,119 @@
-import supabaseService from './supabaseService';
+import supabaseService, { Payment, Reservation, TableConflict } from './supabaseService';
 import twilioService from './twilioService';
-import { addMinutes, format, parseISO, startOfDay, endOfDay } from 'date-fns';
+import availabilityService, { AvailabilityResult, SeatingOption, TableSlot, toMinutes } from './availabilityService';
+import waitlistService from './waitlistService';
+import tableService from './tableService';
+import guestService, { GuestReliability, normalizePhone } from './guestService';
+import paymentService, { DepositRequirement } from './paymentService';
+import { extractAllergies, normalizeAllergies } from './allergyService';
+import { bookingDefaults } from './preferenceService';
+import calendarService from './calendarService';
+import emailService from './emailService';
+import locationService from './locationService';
+import { zonedTime, wallClock } from './restaurantTime';
+import { format } from 'date-fns';
 
 interface BookingRequest {
-  patient_name: string;
-  patient_phone: string;
-  patient_email?: string;
-  appointment_date: string;
-  appointment_time: string;
-  procedure_type?: string;
-  service_type?: string;
+  guest_name: string;
+  guest_phone: string;
+  guest_email?: string;
+  reservation_date: string;
+  reservation_time: string;
+  party_size: number;
+  special_requests?: string;
+  dietary_restrictions?: string;
+  allergies?: string[] | string;
+  occasion?: string;
   notes?: string;
+  source?: string;
   created_by?: string;
   conversation_id?: string;
+  series_id?: string;
+  preferred_table_id?: string;
+  notify?: boolean;
 }
 
-interface TimeSlot {
-  start_time: string;
-  end_time: string;
-  available: boolean;
-  dentist?: string;
+type ReservationResult = {
+  success: boolean;
+  data?: Reservation;
+  error?: string;
+  conflict?: TableConflict;
+  alternatives?: string[];
+};
+
+interface CancellationOptions {
+  override?: boolean;
+  reason?: string;
 }
 
+// A booking, with how it was seated and any deposit asked for, or why it couldn't be made
+export type BookingResult =
+  | {
+      success: true;
+      reservation: Reservation;
+      table: SeatingOption;
+      guest_reliability: GuestReliability;
+      applied_preferences: string[];
+      payment?: Payment;
+      deposit?: DepositRequirement;
+      message: string;
+    }
+  | {
+      success: false;
+      error: string;
+      throttled?: boolean;
+      conflict?: TableConflict;
+      alternatives?: string[];
+    };
+
+// A cancellation, flagged late (with the policy to read back) unless a manager waived it
+export type CancellationResult =
+  | { success: true; data: Reservation; late_cancellation: boolean; policy?: string }
+  | { success: false; error: string };
+
+type RescheduleResult = ReservationResult & { table?: SeatingOption };
+
+// Reservation lifecycle: confirmed → arrived → seated → completed, with cancelled and no-show as exits.
+// Bookings that need a deposit start as pending_payment until the guest pays.
+export const RESERVATION_TRANSITIONS: Record<string, string[]> = {
+  pending_payment: ['confirmed', 'cancelled'],
+  confirmed: ['arrived', 'cancelled', 'no-show'],
+  arrived: ['seated', 'cancelled'],
+  seated: ['completed'],
+  completed: [],
+  cancelled: [],
+  'no-show': []
+};
+
+// Fields staff may edit outside the lifecycle
+const EDITABLE_FIELDS = [
+  'guest_name',
+  'guest_phone',
+  'guest_email',
+  'reservation_date',
+  'reservation_time',
+  'party_size',
+  'table_id',
+  'special_requests',
+  'dietary_restrictions',
+  'allergies',
+  'occasion'
+];
+
+// Edits that move the booking's hold on its tables
+const MOVE_FIELDS = ['reservation_date', 'reservation_time', 'party_size', 'table_id'];
+
 export class AppointmentService {
   /**
-   * Check availability for a specific date
+   * Check table availability for a date and party size
    */
-  async checkAvailability(date: string): Promise<TimeSlot[]> {
+  async checkAvailability(date: string, partySize: number, time?: string): Promise<AvailabilityResult> {
     try {
-      // Get available slots from database
-      const { data: slots } = await supabaseService.getAvailableSlots(date);
-
-      // Get existing appointments for the date
-      const { data: appointments } = await supabaseService.getAppointments({ date });
-
-      // Generate time slots for the day (9 AM to 6 PM, 30-minute intervals)
-      const timeSlots: TimeSlot[] = [];
-      const startHour = 9;
-      const endHour = 18;
-      const intervalMinutes = 30;
-
-      for (let hour = startHour; hour < endHour; hour++) {
-        for (let minute = 0; minute < 60; minute += intervalMinutes) {
-          const slotTime = new Date(date);
-          slotTime.setHours(hour, minute, 0, 0);
-
-          const endTime = addMinutes(slotTime, intervalMinutes);
-
-          // Check if slot is in available_slots and not booked
-          const isAvailable = this.isSlotAvailable(
-            slotTime,
-            endTime,
-            slots || [],
-            appointments || []
-          );
-
-          timeSlots.push({
-            start_time: format(slotTime, 'HH:mm'),
-            end_time: format(endTime, 'HH:mm'),
-            available: isAvailable,
-            dentist: this.getAvailableDentist(slotTime, slots || [])
-          });
-        }
-      }
-
-      return timeSlots;
+      return await availabilityService.getAvailability({
+        date,
+        party_size: partySize,
+        time
+      });
     } catch (error: any) {
       console.error('Error checking availability:', error);
       throw error;
@@ -72,104 +121,162 @@ export class AppointmentService {
   }
 
   /**
-   * Book an appointment
+   * Book a table reservation
    */
-  async bookAppointment(request: BookingRequest) {
+  async bookReservation(request: BookingRequest): Promise<BookingResult> {
     try {
-      // Parse date and time
-      const appointmentDateTime = this.parseDateTime(
-        request.appointment_date,
-        request.appointment_time
-      );
-
-      // Check if slot is available
-      const availability = await this.checkAvailability(request.appointment_date);
-      const requestedSlot = availability.find(
-        slot => slot.start_time === request.appointment_time
+      const partySize = Number(request.party_size);
+      const reservationDateTime = wallClock(request.reservation_date, request.reservation_time);
+
+      // Check the requested time against the table engine
+      const availability = await this.checkAvailability(
+        request.reservation_date,
+        partySize,
+        request.reservation_time
       );
+      const requestedSlot = availability.slots[0];
 
       if (!requestedSlot || !requestedSlot.available) {
+        const alternatives: TableSlot[] = availability.open
+          ? await availabilityService.getAlternatives({
+              date: request.reservation_date,
+              party_size: partySize,
+              time: request.reservation_time
+            })
+          : [];
+
         return {
           success: false,
-          error: 'The requested time slot is not available'
+          error: availability.reason || (requestedSlot?.throttled
+            ? 'The kitchen is fully paced at the requested time'
+            : 'The requested time is not available'),
+          throttled: !!requestedSlot?.throttled,
+          alternatives: alternatives.map(slot => slot.start_time)
         };
       }
 
-      // Determine duration based on procedure type
-      const duration = this.getProcedureDuration(request.procedure_type);
-
-      // Create appointment
-      const appointment = await supabaseService.createAppointment({
-        patient_name: request.patient_name,
-        patient_phone: request.patient_phone,
-        patient_email: request.patient_email,
-        appointment_date: appointmentDateTime.toISOString(),
-        duration_minutes: duration,
-        procedure_type: request.procedure_type,
-        status: 'scheduled',
-        notes: request.notes,
-        created_by: request.created_by || 'ai_agent'
-      });
-
-      if (appointment.success && appointment.data) {
-        // Send confirmation SMS
-        await this.sendAppointmentConfirmation(appointment.data);
+      // Every booking belongs to a guest profile, matched by normalized phone
+      const { data: guest } = await guestService.findOrCreateByPhone(
+        request.guest_name,
+        request.guest_phone,
+        request.guest_email
+      );
+      // Preferences hosts approved from earlier calls fill in what this request leaves out
+      const defaults = bookingDefaults(guest?.preferences);
+
+      // Options are sorted smallest first, so the first one wastes the fewest seats
+      const seating = (request.preferred_table_id
+        && requestedSlot.tables.find(option => option.table_ids.includes(request.preferred_table_id!)))
+        || (defaults.table_location && requestedSlot.tables.find(option => option.location === defaults.table_location))
+        || requestedSlot.tables[0];
+
+      // Surfaced to the agent and host so repeat no-shows can be asked for a deposit
+      const reliability = await guestService.getReliability(request.guest_phone);
+      // Standing reservations are arranged with the regular directly, so occurrences skip deposits
+      const deposit = request.series_id
+        ? null
+        : await paymentService.getDepositRequirement(
+            { reservation_date: request.reservation_date, reservation_time: requestedSlot.start_time, party_size: partySize },
+            reliability
+          );
 
-        // Schedule reminder (24 hours before)
-        await this.scheduleReminder(appointment.data);
+      // Saved with its tables in one transaction, so a booking that raced us to them is refused here
+      const reservation = await supabaseService.createReservationOnTables({
+        guest_id: guest?.id || reliability.guest_id,
+        guest_name: request.guest_name,
+        guest_phone: request.guest_phone,
+        guest_email: request.guest_email,
+        reservation_date: request.reservation_date,
+        reservation_time: requestedSlot.start_time,
+        party_size: partySize,
+        table_id: seating.table_ids[0],
+        status: deposit ? 'pending_payment' : 'confirmed',
+        special_requests: [request.special_requests || request.notes, defaults.seating_note].filter(Boolean).join('. ') || undefined,
+        dietary_restrictions: request.dietary_restrictions || defaults.dietary_restrictions,
+        // Structured for the kitchen; a booking that only describes them in words still gets them
+        allergies: normalizeAllergies([
+          ...(request.allergies ? normalizeAllergies(request.allergies) : extractAllergies(request.dietary_restrictions)),
+          ...defaults.allergies
+        ]),
+        occasion: request.occasion,
+        source: request.source || 'ai-host',
+        created_by: request.created_by || 'ai_agent',
+        series_id: request.series_id,
+        // Predicted turn time, so later availability checks don't re-predict this booking
+        duration_minutes: toMinutes(requestedSlot.end_time) - toMinutes(requestedSlot.start_time)
+      }, seating.table_ids);
+
+      if (reservation.conflict) {
+        // Offer what's still free now that the other booking has its table
+        const alternatives = await availabilityService.getAlternatives({
+          date: request.reservation_date,
+          party_size: partySize,
+          time: request.reservation_time
+        });
 
         return {
-          success: true,
-          appointment: appointment.data,
-          message: `Appointment booked for ${format(appointmentDateTime, 'PPpp')}`
+          success: false,
+          error: reservation.error,
+          conflict: reservation.conflict,
+          alternatives: alternatives.map(slot => slot.start_time)
         };
       }
 
-      return appointment;
-    } catch (error: any) {
-      console.error('Error booking appointment:', error);
-      return {
-        success: false,
-        error: error.message
-      };
-    }
-  }
+      if (reservation.success && reservation.data) {
+        await supabaseService.createReservationLog({
+          reservation_id: reservation.data.id,
+          action: 'created',
+          details: {
+            status: reservation.data.status,
+            tables: seating.table_number,
+            source: reservation.data.source
+          },
+          performed_by: reservation.data.created_by
+        });
+
+        // Hold the tables on the floor when the booking is for tonight
+        await tableService.applyReservationEvent({
+          ...reservation.data,
+          reservation_tables: seating.table_ids.map(table_id => ({ table_id }))
+        });
+
+        if (deposit) {
+          // Confirmation is sent once the guest pays
+          const payment = await paymentService.requestPayment(reservation.data, deposit);
+
+          return {
+            success: true,
+            reservation: reservation.data,
+            table: seating,
+            guest_reliability: reliability,
+            applied_preferences: defaults.applied,
+            payment: payment.data,
+            deposit,
+            message: `Reservation held for ${format(reservationDateTime, 'PPpp')} at table ${seating.table_number} pending a ${deposit.amount} ${deposit.currency} ${deposit.kind === 'deposit' ? 'deposit' : 'card hold'}`
+          };
+        }
 
-  /**
-   * Get patient information by phone number
-   */
-  async getPatientInfo(phoneNumber: string) {
-    try {
-      // Get patient's appointment history
-      const { data: appointments } = await supabaseService.getAppointments({
-        patient_phone: phoneNumber
-      });
+        // Send confirmation SMS (skipped for occurrences generated in bulk)
+        if (request.notify !== false) {
+          await this.sendReservationConfirmation(reservation.data);
+        }
+
+        // Schedule reminder (24 hours before)
+        await this.scheduleReminder(reservation.data);
 
-      if (!appointments || appointments.length === 0) {
         return {
-          success: false,
-          message: 'No patient records found'
+          success: true,
+          reservation: reservation.data,
+          table: seating,
+          guest_reliability: reliability,
+          applied_preferences: defaults.applied,
+          message: `Reservation booked for ${format(reservationDateTime, 'PPpp')} at table ${seating.table_number}`
         };
       }
 
-      // Get most recent appointment
-      const latestAppointment = appointments[0];
-
-      return {
-        success: true,
-        patient: {
-          name: latestAppointment.patient_name,
-          phone: latestAppointment.patient_phone,
-          email: latestAppointment.patient_email,
-          lastVisit: latestAppointment.appointment_date,
-          totalAppointments: appointments.length,
-          upcomingAppointments: appointments.filter(
-            a => new Date(a.appointment_date) > new Date() && a.status === 'scheduled'
-          )
-        }
-      };
+      return { success: false, error: reservation.error || 'Failed to book reservation' };
     } catch (error: any) {
-      console.error('Error fetching patient info:', error);
+      console.error('Error booking reservation:', error);
       return {
         success: false,
         error: error.message
@@ -217,159 +324,578 @@ export class AppointmentService {
   /**
    * Cancel appointment by phone number
    */
-  async cancelAppointmentByPhone(phoneNumber: string) {
+  async cancelAppointmentByPhone(phoneNumber: string): Promise<CancellationResult> {
     try {
-      // Find the next upcoming appointment
-      const { data: appointments } = await supabaseService.getAppointments({
-        patient_phone: phoneNumber,
-        status: 'scheduled'
-      });
+      const upcoming = await this.findUpcomingReservation(phoneNumber);
 
-      if (!appointments || appointments.length === 0) {
-        return { success: false, message: 'No appointments found' };
+      if (!upcoming) {
+        return { success: false, error: 'No upcoming reservations' };
       }
 
-      const upcomingAppointment = appointments.find(
-        a => new Date(a.appointment_date) > new Date()
-      );
+      return await this.cancelReservation(upcoming.id!, 'guest');
+    } catch (error: any) {
+      console.error('Error cancelling reservation:', error);
+      return { success: false, error: error.message };
+    }
+  }
 
-      if (!upcomingAppointment) {
-        return { success: false, message: 'No upcoming appointments' };
+  /**
+   * Reschedule a caller's booking: the one they name, if it was made under their
+   * phone, otherwise their next upcoming one
+   */
+  async rescheduleByPhone(
+    phoneNumber: string,
+    reservationId: string | undefined,
+    changes: { reservation_date?: string; reservation_time?: string; party_size?: number }
+  ): Promise<RescheduleResult> {
+    try {
+      let reservation: Reservation | undefined;
+      if (reservationId) {
+        const { data } = await supabaseService.getReservation(reservationId);
+        reservation = data && normalizePhone(data.guest_phone || '') === normalizePhone(phoneNumber) ? data : undefined;
+      } else {
+        reservation = await this.findUpcomingReservation(phoneNumber);
       }
 
-      // Cancel the appointment
-      const result = await supabaseService.cancelAppointment(
-        upcomingAppointment.id!,
-        'Cancelled by patient via SMS'
-      );
-
-      // Free up the slot
-      if (result.success) {
-        await this.freeUpSlot(upcomingAppointment.appointment_date);
+      if (!reservation) {
+        return { success: false, error: 'No upcoming reservations' };
       }
 
-      return result;
+      return await this.rescheduleReservation(reservation.id!, changes, 'guest');
     } catch (error: any) {
-      console.error('Error cancelling appointment:', error);
+      console.error('Error rescheduling reservation:', error);
       return { success: false, error: error.message };
     }
   }
 
   /**
-   * Send appointment confirmation SMS
+   * Move a reservation through its lifecycle, logging the change and updating its tables
    */
-  private async sendAppointmentConfirmation(appointment: any) {
-    try {
-      const appointmentDate = new Date(appointment.appointment_date);
-      const formattedDate = format(appointmentDate, 'PPP');
-      const formattedTime = format(appointmentDate, 'p');
+  async updateStatus(
+    id: string,
+    status: string,
+    performedBy: string = 'system',
+    details: Record<string, any> = {},
+    fields: Partial<Reservation> = {}
+  ): Promise<ReservationResult> {
+    const { data: current, error } = await supabaseService.getReservation(id);
+    if (!current) {
+      return { success: false, error: error || 'Reservation not found' };
+    }
 
-      await twilioService.sendAppointmentConfirmation(
-        appointment.patient_phone,
-        {
-          patientName: appointment.patient_name,
-          date: formattedDate,
-          time: formattedTime,
-          service: appointment.procedure_type
+    const from = current.status || 'confirmed';
+    if (!RESERVATION_TRANSITIONS[status]) {
+      return { success: false, error: `Unknown reservation status: ${status}` };
+    }
+    if (!RESERVATION_TRANSITIONS[from]?.includes(status)) {
+      return { success: false, error: `Cannot change a ${from} reservation to ${status}` };
+    }
+
+    // seated_at starts the turn the floor and waitlist count down from
+    const result = await supabaseService.updateReservation(id, {
+      ...fields,
+      status,
+      ...(status === 'seated' ? { seated_at: new Date().toISOString() } : {})
+    });
+
+    if (result.success && result.data) {
+      await supabaseService.createReservationLog({
+        reservation_id: id,
+        action: status,
+        details: { ...details, from, to: status },
+        performed_by: performedBy
+      });
+
+      await tableService.applyReservationEvent(result.data);
+
+      if (status === 'no-show') {
+        await guestService.recordNoShow(result.data);
+      }
+
+      if (status === 'completed') {
+        await guestService.recordVisit(result.data);
+      }
+
+      if (status === 'no-show' || status === 'completed') {
+        await paymentService.settle(id, status);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Edit reservation details, logging the before and after values.
+   * Status changes are routed through the lifecycle.
+   */
+  async modifyReservation(
+    id: string,
+    updates: Record<string, any>,
+    performedBy: string = 'system'
+  ): Promise<ReservationResult> {
+    const { data: current, error } = await supabaseService.getReservation(id);
+    if (!current) {
+      return { success: false, error: error || 'Reservation not found' };
+    }
+
+    if (updates.status && updates.status !== current.status) {
+      const statusResult = updates.status === 'cancelled'
+        ? await this.cancelReservation(id, performedBy)
+        : await this.updateStatus(id, updates.status, performedBy);
+      if (!statusResult.success) {
+        return statusResult;
+      }
+    }
+
+    if ('allergies' in updates) {
+      updates = { ...updates, allergies: normalizeAllergies(updates.allergies) };
+    }
+
+    const before: Record<string, any> = {};
+    const after: Record<string, any> = {};
+    for (const field of EDITABLE_FIELDS) {
+      // Compared as JSON so an unchanged allergies list isn't logged as a change
+      if (field in updates && JSON.stringify(updates[field]) !== JSON.stringify((current as any)[field])) {
+        before[field] = (current as any)[field];
+        after[field] = updates[field];
+      }
+    }
+
+    if (Object.keys(after).length === 0) {
+      return supabaseService.getReservation(id);
+    }
+
+    // A new date, time or size is checked against hours, capacity and pacing like any booking,
+    // with this one left out. The move and its tables are then one transaction, so a clash with
+    // a booking made meanwhile is refused rather than leaving it without a hold.
+    if (MOVE_FIELDS.some(field => field in after)) {
+      const query = {
+        date: after.reservation_date || current.reservation_date,
+        time: after.reservation_time || current.reservation_time,
+        party_size: Number(after.party_size || current.party_size),
+        exclude_reservation_id: id
+      };
+      const availability = await availabilityService.getAvailability(query);
+      const slot = availability.slots[0];
+
+      // Stay on the chosen table, else the booking's current tables, when they still seat the party
+      const currentTables = (current.reservation_tables || []).map(link => link.table_id);
+      const preferred = after.table_id
+        ? [after.table_id]
+        : currentTables.length > 0 ? currentTables : current.table_id ? [current.table_id] : [];
+      const seating = slot?.available
+        ? slot.tables.find(option => preferred.length > 0 && preferred.every(tableId => option.table_ids.includes(tableId)))
+          || (after.table_id ? undefined : slot.tables[0])
+        : undefined;
+
+      if (!slot || !seating) {
+        const alternatives = availability.open ? await availabilityService.getAlternatives(query) : [];
+        return {
+          success: false,
+          error: slot?.available
+            ? `That table can't seat a party of ${query.party_size} then`
+            : availability.reason || 'The requested time is not available',
+          alternatives: alternatives.map(alternative => alternative.start_time)
+        };
+      }
+
+      const moved = await supabaseService.moveReservation(id, {
+        reservation_date: query.date,
+        reservation_time: slot.start_time,
+        party_size: query.party_size,
+        duration_minutes: toMinutes(slot.end_time) - toMinutes(slot.start_time)
+      }, seating.table_ids);
+
+      if (moved.conflict) {
+        const alternatives = await availabilityService.getAlternatives(query);
+        return {
+          success: false,
+          error: moved.error,
+          conflict: moved.conflict,
+          alternatives: alternatives.map(alternative => alternative.start_time)
+        };
+      }
+      if (!moved.success) {
+        return moved;
+      }
+
+      // Log where the booking actually landed
+      if ('reservation_time' in after) {
+        after.reservation_time = slot.start_time;
+      }
+      if (seating.table_ids[0] !== current.table_id) {
+        before.table_id = current.table_id;
+        after.table_id = seating.table_ids[0];
+      }
+    }
+
+    const details = Object.fromEntries(Object.entries(after).filter(([field]) => !MOVE_FIELDS.includes(field)));
+    const result = Object.keys(details).length > 0
+      ? await supabaseService.updateReservation(id, details)
+      : await supabaseService.getReservation(id);
+
+    if (result.success) {
+      await supabaseService.createReservationLog({
+        reservation_id: id,
+        action: 'modified',
+        details: { before, after },
+        performed_by: performedBy
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Move a booking to a new date, time or party size, checked against the table
+   * engine with the booking itself left out. Alternatives are offered when it won't fit.
+   */
+  async rescheduleReservation(
+    id: string,
+    changes: { reservation_date?: string; reservation_time?: string; party_size?: number },
+    performedBy: string = 'system'
+  ): Promise<RescheduleResult> {
+    const { data: current, error } = await supabaseService.getReservation(id);
+    if (!current) {
+      return { success: false, error: error || 'Reservation not found' };
+    }
+    if (!['confirmed', 'pending_payment'].includes(current.status || '')) {
+      return { success: false, error: `A ${current.status} reservation can't be changed` };
+    }
+
+    const query = {
+      date: changes.reservation_date || current.reservation_date,
+      time: changes.reservation_time || current.reservation_time,
+      party_size: Number(changes.party_size || current.party_size),
+      exclude_reservation_id: id
+    };
+    const availability = await availabilityService.getAvailability(query);
+    const slot = availability.slots[0];
+
+    if (!slot || !slot.available) {
+      const alternatives = availability.open ? await availabilityService.getAlternatives(query) : [];
+      return {
+        success: false,
+        error: availability.reason || 'The requested time is not available',
+        alternatives: alternatives.map(alternative => alternative.start_time)
+      };
+    }
+
+    // Keep the guest at their table when it still fits
+    const seating = slot.tables.find(option => current.table_id && option.table_ids.includes(current.table_id))
+      || slot.tables[0];
+
+    const changed: Record<string, any> = {
+      reservation_date: query.date,
+      reservation_time: slot.start_time,
+      party_size: query.party_size,
+      table_id: seating.table_ids[0]
+    };
+
+    // The move and its tables are one transaction, so a booking that took them meanwhile is refused
+    const result = await supabaseService.moveReservation(id, {
+      reservation_date: query.date,
+      reservation_time: slot.start_time,
+      party_size: query.party_size,
+      duration_minutes: toMinutes(slot.end_time) - toMinutes(slot.start_time)
+    }, seating.table_ids);
+
+    if (result.conflict) {
+      const alternatives = await availabilityService.getAlternatives(query);
+      return {
+        success: false,
+        error: result.error,
+        conflict: result.conflict,
+        alternatives: alternatives.map(alternative => alternative.start_time)
+      };
+    }
+
+    if (result.success) {
+      const before: Record<string, any> = {};
+      const after: Record<string, any> = {};
+      for (const [field, value] of Object.entries(changed)) {
+        if (String(value) !== String((current as any)[field])) {
+          before[field] = (current as any)[field];
+          after[field] = value;
         }
-      );
-    } catch (error) {
-      console.error('Error sending confirmation SMS:', error);
+      }
+
+      if (Object.keys(after).length > 0) {
+        await supabaseService.createReservationLog({
+          reservation_id: id,
+          action: 'modified',
+          details: { before, after },
+          performed_by: performedBy
+        });
+      }
     }
+
+    return { ...result, table: seating };
   }
 
   /**
-   * Schedule appointment reminder
+   * Get a reservation's audit trail, oldest first
    */
-  private async scheduleReminder(appointment: any) {
-    // This would integrate with a job scheduler like Bull or node-cron
-    // For now, we'll just log it
-    console.log('Reminder scheduled for appointment:', appointment.id);
+  async getHistory(id: string) {
+    return supabaseService.getReservationLogs(id);
   }
 
   /**
-   * Helper: Check if a time slot is available
+   * Cancel a reservation and offer its slot to the waitlist.
+   * Cancellations inside the policy window are flagged late unless a manager overrides.
    */
-  private isSlotAvailable(
-    startTime: Date,
-    endTime: Date,
-    availableSlots: any[],
-    appointments: any[]
-  ): boolean {
-    // Check if slot exists in available_slots
-    const slotExists = availableSlots.some(slot => {
-      const slotStart = new Date(slot.start_time);
-      return slotStart.getTime() === startTime.getTime() && slot.is_available;
-    });
+  async cancelReservation(
+    id: string,
+    performedBy: string = 'system',
+    options: CancellationOptions = {}
+  ): Promise<CancellationResult> {
+    const { data: current, error } = await supabaseService.getReservation(id);
+    if (!current) {
+      return { success: false, error: error || 'Reservation not found' };
+    }
+
+    const { cancellation_hours } = await availabilityService.getReservationSettings();
+    const now = new Date();
+    const hoursNotice = (this.parseDateTime(current.reservation_date, current.reservation_time).getTime() - now.getTime())
+      / (60 * 60 * 1000);
+    const late = hoursNotice < cancellation_hours;
+    const waived = late && !!options.override;
+
+    const lateCancellation = late && !waived;
+    const result = await this.updateStatus(
+      id,
+      'cancelled',
+      performedBy,
+      {
+        hours_notice: Math.round(hoursNotice * 10) / 10,
+        cancellation_hours,
+        late_cancellation: lateCancellation,
+        ...(waived ? { override: true, override_reason: options.reason } : {})
+      },
+      {
+        cancelled_at: now.toISOString(),
+        late_cancellation: lateCancellation,
+        ...(waived
+          ? { cancellation_override_by: performedBy, cancellation_override_reason: options.reason }
+          : {})
+      }
+    );
 
-    if (!slotExists && availableSlots.length > 0) {
-      return false;
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to cancel reservation' };
     }
 
-    // Check if there's no conflicting appointment
-    const hasConflict = appointments.some(apt => {
-      const aptStart = new Date(apt.appointment_date);
-      const aptEnd = addMinutes(aptStart, apt.duration_minutes);
+    await paymentService.settle(id, lateCancellation ? 'late_cancellation' : 'cancelled');
+    await waitlistService.offerCancelledSlot(result.data);
 
-      return (
-        apt.status !== 'cancelled' &&
-        ((startTime >= aptStart && startTime < aptEnd) ||
-          (endTime > aptStart && endTime <= aptEnd) ||
-          (startTime <= aptStart && endTime >= aptEnd))
-      );
+    return {
+      success: true,
+      data: result.data,
+      late_cancellation: lateCancellation,
+      ...(lateCancellation ? { policy: this.getCancellationPolicy(cancellation_hours) } : {})
+    };
+  }
+
+  /**
+   * Confirm a pending_payment reservation once its deposit or hold comes through
+   */
+  async confirmPayment(providerPaymentId: string): Promise<ReservationResult> {
+    const payment = await paymentService.markPaid(providerPaymentId);
+    if (!payment.success || !payment.data) {
+      return { success: false, error: payment.error };
+    }
+
+    const result = await this.updateStatus(payment.data.reservation_id, 'confirmed', 'payment', {
+      payment_id: payment.data.id,
+      amount: payment.data.amount
     });
 
-    return !hasConflict;
+    if (result.success && result.data) {
+      await this.sendReservationConfirmation(result.data);
+      await this.scheduleReminder(result.data);
+    }
+
+    return result;
   }
 
   /**
-   * Helper: Get available dentist for a slot
+   * Release reservations whose deposit was not paid in time
    */
-  private getAvailableDentist(time: Date, slots: any[]): string | undefined {
-    const slot = slots.find(s => {
-      const slotTime = new Date(s.start_time);
-      return slotTime.getTime() === time.getTime();
-    });
+  async expireUnpaidReservations(now: Date = new Date()) {
+    const expired = await paymentService.getExpiredPayments(now);
+    let cancelled = 0;
 
-    return slot?.dentist_name;
+    for (const payment of expired) {
+      await paymentService.expire(payment);
+
+      const { data: reservation } = await supabaseService.getReservation(payment.reservation_id);
+      if (reservation?.status !== 'pending_payment') continue;
+
+      const result = await this.updateStatus(reservation.id!, 'cancelled', 'system', {
+        reason: 'payment_expired'
+      }, {
+        cancelled_at: now.toISOString()
+      });
+
+      if (result.success && result.data) {
+        cancelled++;
+        await waitlistService.offerCancelledSlot(result.data);
+      }
+    }
+
+    return { success: true, expired: expired.length, cancelled };
   }
 
   /**
-   * Helper: Parse date and time strings
+   * The cancellation policy as read to guests by the voice agent and SMS
    */
-  private parseDateTime(dateStr: string, timeStr: string): Date {
-    const date = new Date(dateStr);
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    date.setHours(hours, minutes, 0, 0);
-    return date;
+  getCancellationPolicy(cancellationHours: number): string {
+    return `Our policy asks for at least ${cancellationHours} hours' notice to cancel, so this has been recorded as a late cancellation.`;
   }
 
   /**
-   * Helper: Get procedure duration in minutes
+   * Late and waived cancellations for a date range
    */
-  private getProcedureDuration(procedureType: string): number {
-    const durations: Record<string, number> = {
-      'checkup': 30,
-      'cleaning': 45,
-      'filling': 60,
-      'root_canal': 90,
-      'extraction': 45,
-      'crown': 60,
-      'emergency': 45,
-      'consultation': 20,
-      'orthodontic': 30
+  async getLateCancellationReport(startDate?: string, endDate?: string): Promise<{
+    success: boolean;
+    data?: { total_cancellations: number; late_cancellations: number; waived: number; reservations: Reservation[] };
+    error?: string;
+  }> {
+    const result = await supabaseService.getReservations({ status: 'cancelled', startDate, endDate });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const cancelled = result.data || [];
+    const late = cancelled.filter(r => r.late_cancellation);
+    const waived = cancelled.filter(r => r.cancellation_override_by);
+
+    return {
+      success: true,
+      data: {
+        total_cancellations: cancelled.length,
+        late_cancellations: late.length,
+        waived: waived.length,
+        reservations: [...late, ...waived]
+      }
     };
+  }
+
+  /**
+   * Book the slot a waitlisted guest was offered after a cancellation
+   */
+  async claimWaitlistOffer(phoneNumber: string): Promise<BookingResult> {
+    const offer = await waitlistService.getOpenOffer(phoneNumber);
 
-    return durations[procedureType.toLowerCase().replace(/\s+/g, '_')] || 30;
+    if (!offer) {
+      return { success: false, error: 'No open offers' };
+    }
+
+    const result = await this.bookReservation({
+      guest_name: offer.guest_name,
+      guest_phone: offer.guest_phone,
+      reservation_date: offer.offered_date!,
+      reservation_time: offer.offered_time!.slice(0, 5),
+      party_size: offer.party_size,
+      special_requests: offer.notes,
+      source: 'waitlist',
+      created_by: 'waitlist'
+    });
+
+    if (result.success) {
+      await waitlistService.markBooked(offer.id!, result.reservation.id!);
+    }
+
+    return result;
   }
 
   /**
-   * Helper: Free up a cancelled appointment slot
+   * Send reservation confirmation SMS
    */
-  private async freeUpSlot(appointmentDate: string) {
-    // This would update the available_slots table
-    // Implementation depends on your slot management strategy
-    console.log('Freeing up slot for:', appointmentDate);
+  private async sendReservationConfirmation(reservation: any) {
+    try {
+      const reservationDate = wallClock(reservation.reservation_date, reservation.reservation_time);
+
+      await twilioService.sendAppointmentConfirmation(
+        reservation.guest_phone,
+        {
+          patientName: reservation.guest_name,
+          date: format(reservationDate, 'PPP'),
+          time: format(reservationDate, 'p'),
+          service: `Table for ${reservation.party_size}`
+        }
+      );
+    } catch (error) {
+      console.error('Error sending confirmation SMS:', error);
+    }
+
+    if (reservation.guest_email) {
+      await this.sendConfirmationEmail(reservation);
+    }
+  }
+
+  /**
+   * Email the guest their confirmation with an .ics invite for their calendar
+   */
+  private async sendConfirmationEmail(reservation: Reservation) {
+    try {
+      const reservationDate = wallClock(reservation.reservation_date, reservation.reservation_time);
+      const restaurant = locationService.restaurantName();
+
+      await emailService.sendEmail({
+        to: reservation.guest_email!,
+        subject: `Your reservation at ${restaurant} on ${format(reservationDate, 'PPP')}`,
+        text: [
+          `Hi ${reservation.guest_name},`,
+          '',
+          `Your table for ${reservation.party_size} is confirmed for ${format(reservationDate, 'PPPP')} at ${format(reservationDate, 'p')}.`,
+          `Confirmation #${reservation.id}`,
+          '',
+          'Open the attached invite to add it to your calendar.',
+          '',
+          'See you soon,',
+          restaurant
+        ].join('\n'),
+        attachments: [{
+          filename: 'reservation.ics',
+          content: await calendarService.getGuestInvite(reservation),
+          contentType: 'text/calendar; method=PUBLISH'
+        }]
+      });
+    } catch (error) {
+      console.error('Error sending confirmation email:', error);
+    }
+  }
+
+  /**
+   * Schedule appointment reminder
+   */
+  private async scheduleReminder(appointment: any) {
+    // This would integrate with a job scheduler like Bull or node-cron
+    // For now, we'll just log it
+    console.log('Reminder scheduled for appointment:', appointment.id);
+  }
+
+  /**
+   * Helper: The instant a reservation starts, in the restaurant's timezone
+   */
+  private parseDateTime(dateStr: string, timeStr: string): Date {
+    return zonedTime(dateStr, timeStr);
+  }
+
+  /**
+   * Helper: Find a guest's next confirmed reservation
+   */
+  private async findUpcomingReservation(phoneNumber: string): Promise<Reservation | undefined> {
+    const { data: reservations } = await supabaseService.getReservations({
+      guest_phone: phoneNumber,
+      status: 'confirmed'
+    });
+
+    return (reservations || []).find(
+      r => this.parseDateTime(r.reservation_date, r.reservation_time) > new Date()
+    );
   }
 }
 
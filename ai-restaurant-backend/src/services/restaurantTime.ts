@@ -0,0 +1,133 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { currentLocation } from './locationContext';
+
+// Reservation dates and times are stored as the restaurant's wall clock ('2025-03-30', '19:30').
+// The server's own clock is UTC on Lambda, so every "today", "now" and hour-of-day goes through
+// here instead of Date's local getters.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether an IANA zone name such as 'Europe/Rome' is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The current location's timezone, else RESTAURANT_TIMEZONE, else UTC
+ */
+export function restaurantTimezone(): string {
+  const timezone = currentLocation()?.timezone || process.env.RESTAURANT_TIMEZONE;
+  return timezone && isValidTimezone(timezone) ? timezone : 'UTC';
+}
+
+/**
+ * Helper: The wall-clock fields of an instant in a timezone
+ */
+function zonedParts(date: Date, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+/**
+ * Helper: How far a timezone is ahead of UTC at an instant, in milliseconds
+ */
+function offsetAt(date: Date, timezone: string): number {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timezone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The restaurant's date at an instant, as yyyy-MM-dd
+ */
+export function localDate(date: Date = new Date(), timezone: string = restaurantTimezone()): string {
+  const { year, month, day } = zonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * The restaurant's wall-clock time at an instant, as HH:mm
+ */
+export function localTime(date: Date = new Date(), timezone: string = restaurantTimezone()): string {
+  const { hour, minute } = zonedParts(date, timezone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes since the restaurant's midnight at an instant
+ */
+export function localMinutes(date: Date = new Date(), timezone: string = restaurantTimezone()): number {
+  const { hour, minute } = zonedParts(date, timezone);
+  return hour * 60 + minute;
+}
+
+/**
+ * The instant a restaurant date and time happen, using the offset in force that day. When clocks
+ * go back the time happens twice and the first is used; a time skipped when they go forward
+ * lands that far after the jump (02:30 becomes 03:30).
+ */
+export function zonedTime(date: string, time: string = '00:00', timezone: string = restaurantTimezone()): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // DST changes are months apart, so the offsets half a day either side are the only candidates
+  const halfDay = 12 * 60 * 60 * 1000;
+  const candidates = [offsetAt(new Date(wallClock - halfDay), timezone), offsetAt(new Date(wallClock + halfDay), timezone)];
+  const valid = candidates.filter(offset => offsetAt(new Date(wallClock - offset), timezone) === offset);
+
+  const offset = valid.length > 0 ? Math.max(...valid) : Math.min(...candidates);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * A restaurant date and time as a Date to format with date-fns ('PPP', 'p'). It reads as the
+ * wall clock wherever the server runs, so it is not the instant itself; zonedTime gives that.
+ */
+export function wallClock(date: string, time: string = '00:00'): Date {
+  return parseISO(`${date.slice(0, 10)}T${time.slice(0, 5)}`);
+}
+
+/**
+ * A yyyy-MM-dd date some days later (or earlier), independent of the server's timezone
+ */
+export function addDaysToDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+/**
+ * The instants bounding restaurant dates, for filtering timestamp columns:
+ * from the start of the first day up to (not including) the start of the day after the last
+ */
+export function localDayRange(from: string, to: string = from, timezone: string = restaurantTimezone()) {
+  return {
+    start: zonedTime(from, '00:00', timezone).toISOString(),
+    end: zonedTime(addDaysToDate(to, 1), '00:00', timezone).toISOString()
+  };
+}
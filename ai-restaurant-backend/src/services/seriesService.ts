@@ -0,0 +1,265 @@
+import supabaseService, { Reservation, ReservationSeries, SeriesConflict } from './supabaseService';
+import reservationService from './reservationService';
+import availabilityService from './availabilityService';
+import { addMonths, addWeeks, format, parseISO } from 'date-fns';
+import { addDaysToDate, localDate } from './restaurantTime';
+
+interface SeriesRequest {
+  guest_name: string;
+  guest_phone: string;
+  guest_email?: string;
+  party_size: number;
+  reservation_time: string;
+  frequency: ReservationSeries['frequency'];
+  start_date: string;
+  end_date?: string;
+  preferred_table_id?: string;
+  special_requests?: string;
+}
+
+// Statuses that still hold the occurrence's table
+const ACTIVE_STATUSES = ['pending_payment', 'confirmed'];
+
+// A new series with the occurrences booked for it and those that couldn't get a table
+type SeriesResult =
+  | { success: true; data: { series: ReservationSeries; created: Reservation[]; conflicts: SeriesConflict[] } }
+  | { success: false; error: string };
+
+export const FREQUENCIES: ReservationSeries['frequency'][] = ['weekly', 'biweekly', 'monthly'];
+
+/**
+ * The nth occurrence of a series. Monthly dates are counted from the start date so
+ * a series starting on the 31st doesn't drift to the 28th after February.
+ */
+function occurrenceDate(start: Date, frequency: ReservationSeries['frequency'], n: number): Date {
+  switch (frequency) {
+    case 'weekly':
+      return addWeeks(start, n);
+    case 'biweekly':
+      return addWeeks(start, n * 2);
+    case 'monthly':
+      return addMonths(start, n);
+  }
+}
+
+export class SeriesService {
+  /**
+   * Create a standing reservation and book its first occurrences
+   */
+  async createSeries(request: SeriesRequest, createdBy: string = 'staff'): Promise<SeriesResult> {
+    if (!FREQUENCIES.includes(request.frequency)) {
+      return { success: false, error: `frequency must be one of ${FREQUENCIES.join(', ')}` };
+    }
+
+    if (request.end_date && request.end_date < request.start_date) {
+      return { success: false, error: 'end_date must be after start_date' };
+    }
+
+    const series = await supabaseService.createSeries({
+      ...request,
+      party_size: Number(request.party_size),
+      end_date: request.end_date || null,
+      skipped_dates: [],
+      created_by: createdBy
+    });
+
+    if (!series.success || !series.data) {
+      return { success: false, error: series.error || 'Failed to create series' };
+    }
+
+    const generated = await this.generateOccurrences(series.data);
+
+    return {
+      success: true,
+      data: {
+        series: series.data,
+        ...generated
+      }
+    };
+  }
+
+  /**
+   * Occurrence dates of a series between two dates, inclusive
+   */
+  getOccurrenceDates(series: ReservationSeries, from: string, through: string): string[] {
+    const start = parseISO(series.start_date);
+    const last = series.end_date && series.end_date < through ? series.end_date : through;
+    const dates: string[] = [];
+
+    for (let n = 0; ; n++) {
+      const date = format(occurrenceDate(start, series.frequency, n), 'yyyy-MM-dd');
+      if (date > last) break;
+      if (date >= from) dates.push(date);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Book every occurrence inside the advance booking window that doesn't have a reservation yet.
+   * Occurrences that can't get a table are recorded as conflicts and retried on the next run.
+   */
+  async generateOccurrences(series: ReservationSeries, now: Date = new Date()) {
+    const created: Reservation[] = [];
+    const conflicts: SeriesConflict[] = [];
+
+    if (series.status !== 'active') {
+      return { created, conflicts };
+    }
+
+    const settings = await availabilityService.getReservationSettings();
+    const today = localDate(now);
+    const horizon = addDaysToDate(today, settings.advance_booking_days);
+
+    const { data: existing } = await supabaseService.getReservations({ series_id: series.id });
+    const booked = new Set((existing || []).map(r => r.reservation_date));
+    const skipped = new Set(series.skipped_dates || []);
+
+    const dates = this.getOccurrenceDates(series, today, horizon)
+      .filter(date => !booked.has(date) && !skipped.has(date));
+
+    for (const date of dates) {
+      const result = await reservationService.bookReservation({
+        guest_name: series.guest_name,
+        guest_phone: series.guest_phone,
+        guest_email: series.guest_email,
+        reservation_date: date,
+        reservation_time: series.reservation_time.slice(0, 5),
+        party_size: series.party_size,
+        special_requests: series.special_requests,
+        source: 'recurring',
+        created_by: series.created_by || 'recurring',
+        series_id: series.id,
+        preferred_table_id: series.preferred_table_id,
+        notify: false
+      });
+
+      if (result.success) {
+        created.push(result.reservation);
+        await supabaseService.deleteSeriesConflict(series.id!, date);
+      } else if (result.success === false) {
+        const conflict = await supabaseService.upsertSeriesConflict({
+          series_id: series.id!,
+          occurrence_date: date,
+          reason: result.error || 'No table available',
+          alternatives: result.alternatives || []
+        });
+        if (conflict.data) conflicts.push(conflict.data);
+      }
+    }
+
+    await supabaseService.updateSeries(series.id!, { generated_through: horizon });
+
+    return { created, conflicts };
+  }
+
+  /**
+   * Generate occurrences for every active series and close series that have run out
+   */
+  async generateAll(now: Date = new Date()) {
+    const today = localDate(now);
+    const { data: seriesList } = await supabaseService.getSeriesList({ status: 'active' });
+    let created = 0;
+    let conflicts = 0;
+
+    for (const series of seriesList || []) {
+      if (series.end_date && series.end_date < today) {
+        await supabaseService.updateSeries(series.id!, { status: 'ended' });
+        continue;
+      }
+
+      const result = await this.generateOccurrences(series, now);
+      created += result.created.length;
+      conflicts += result.conflicts.length;
+    }
+
+    return { success: true, created, conflicts };
+  }
+
+  /**
+   * A series with its booked occurrences and open conflicts
+   */
+  async getSeriesDetail(id: string) {
+    const series = await supabaseService.getSeries(id);
+    if (!series.success || !series.data) {
+      return series;
+    }
+
+    const [{ data: occurrences }, { data: conflicts }] = await Promise.all([
+      supabaseService.getReservations({ series_id: id }),
+      supabaseService.getSeriesConflicts(id)
+    ]);
+
+    return {
+      success: true,
+      data: {
+        ...series.data,
+        occurrences: occurrences || [],
+        conflicts: conflicts || []
+      }
+    };
+  }
+
+  /**
+   * Skip one occurrence, cancelling it if it was already booked
+   */
+  async skipOccurrence(id: string, date: string, performedBy: string = 'staff') {
+    const { data: series, error } = await supabaseService.getSeries(id);
+    if (!series) {
+      return { success: false, error: error || 'Series not found' };
+    }
+
+    if (!this.getOccurrenceDates(series, date, date).includes(date)) {
+      return { success: false, error: `${date} is not an occurrence of this series` };
+    }
+
+    const skipped = Array.from(new Set([...(series.skipped_dates || []), date])).sort();
+    const updated = await supabaseService.updateSeries(id, { skipped_dates: skipped });
+
+    const { data: occurrences } = await supabaseService.getReservations({ series_id: id, date });
+    for (const occurrence of occurrences || []) {
+      if (ACTIVE_STATUSES.includes(occurrence.status || '')) {
+        // The restaurant called it off, so it isn't held against the guest as a late cancellation
+        await reservationService.cancelReservation(occurrence.id!, performedBy, {
+          override: true,
+          reason: `Series occurrence on ${date} skipped`
+        });
+      }
+    }
+
+    await supabaseService.deleteSeriesConflict(id, date);
+
+    return updated;
+  }
+
+  /**
+   * End a series, cancelling occurrences booked after the end date
+   */
+  async endSeries(id: string, endDate?: string, performedBy: string = 'staff') {
+    const today = localDate();
+    const lastDate = endDate || today;
+
+    const updated = await supabaseService.updateSeries(id, {
+      end_date: lastDate,
+      status: lastDate <= today ? 'ended' : 'active'
+    });
+
+    if (!updated.success) {
+      return updated;
+    }
+
+    const { data: occurrences } = await supabaseService.getReservations({ series_id: id });
+    for (const occurrence of occurrences || []) {
+      if (occurrence.reservation_date > lastDate && ACTIVE_STATUSES.includes(occurrence.status || '')) {
+        await reservationService.cancelReservation(occurrence.id!, performedBy, {
+          override: true,
+          reason: `Series ended on ${lastDate}`
+        });
+      }
+    }
+
+    return updated;
+  }
+}
+
+export default new SeriesService();
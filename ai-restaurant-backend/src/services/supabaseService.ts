@@ -1,5 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import { currentRestaurantId } from './locationContext';
+import { localDayRange } from './restaurantTime';
 
 interface Appointment {
   id?: string;
@@ -27,6 +29,323 @@ interface AvailableSlot {
   last_synced?: string;
 }
 
+export interface Reservation {
+  id?: string;
+  restaurant_id?: string;
+  guest_id?: string;
+  guest_name: string;
+  guest_phone?: string;
+  guest_email?: string;
+  reservation_date: string;
+  reservation_time: string;
+  party_size: number;
+  table_id?: string;
+  status?: string;
+  special_requests?: string;
+  dietary_restrictions?: string;
+  allergies?: string[];
+  occasion?: string;
+  source?: string;
+  created_by?: string;
+  cancelled_at?: string;
+  late_cancellation?: boolean;
+  cancellation_override_by?: string;
+  cancellation_override_reason?: string;
+  series_id?: string;
+  duration_minutes?: number;
+  seated_at?: string;
+  created_at?: string;
+  updated_at?: string;
+  reservation_tables?: { table_id: string }[];
+  guests?: Pick<Guest, 'id' | 'no_show_count' | 'reliability_score' | 'vip_status'>;
+}
+
+export interface Guest {
+  id?: string;
+  restaurant_id?: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  preferences?: Record<string, any>;
+  visit_count?: number;
+  no_show_count?: number;
+  reliability_score?: number;
+  vip_status?: boolean;
+  tags?: string[];
+  notes?: string;
+  last_visit_date?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface GuestMerge {
+  id?: string;
+  surviving_guest_id: string;
+  merged_guest_id: string;
+  merged_guest: Guest;
+  moved: Record<string, number>;
+  reason?: string;
+  merged_by?: string;
+  created_at?: string;
+}
+
+export interface PreferenceSuggestion {
+  id?: string;
+  guest_id: string;
+  call_log_id?: string;
+  category: string;
+  value: string;
+  evidence?: string;
+  status?: 'pending' | 'approved' | 'rejected';
+  reviewed_by?: string;
+  reviewed_at?: string;
+  created_at?: string;
+  guests?: Pick<Guest, 'id' | 'name' | 'phone'>;
+}
+
+export interface ReservationSeries {
+  id?: string;
+  guest_id?: string;
+  guest_name: string;
+  guest_phone?: string;
+  guest_email?: string;
+  party_size: number;
+  reservation_time: string;
+  frequency: 'weekly' | 'biweekly' | 'monthly';
+  start_date: string;
+  end_date?: string | null;
+  preferred_table_id?: string;
+  special_requests?: string;
+  skipped_dates?: string[];
+  generated_through?: string;
+  status?: 'active' | 'ended';
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SeriesConflict {
+  id?: string;
+  series_id: string;
+  occurrence_date: string;
+  reason?: string;
+  alternatives?: string[];
+  created_at?: string;
+}
+
+export interface ReservationLog {
+  id?: string;
+  reservation_id: string;
+  action: string;
+  details?: Record<string, any>;
+  performed_by?: string;
+  created_at?: string;
+}
+
+export interface Payment {
+  id?: string;
+  restaurant_id?: string;
+  reservation_id: string;
+  provider: string;
+  provider_payment_id?: string;
+  kind: 'deposit' | 'card_hold';
+  amount: number;
+  currency?: string;
+  status?: 'pending' | 'paid' | 'held' | 'expired' | 'refunded' | 'partially_refunded' | 'released' | 'captured';
+  payment_url?: string;
+  expires_at?: string;
+  paid_at?: string;
+  refunded_amount?: number;
+  captured_amount?: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface RestaurantTable {
+  id: string;
+  table_number: string;
+  capacity: number;
+  location?: string;
+  status: 'available' | 'occupied' | 'reserved' | 'cleaning';
+  is_active: boolean;
+  notes?: string;
+  status_changed_at?: string;
+  expected_free_at?: string; // computed for occupied tables, not stored
+}
+
+export interface TableCombination {
+  id: string;
+  name: string;
+  table_ids: string[];
+  min_party_size: number;
+  max_party_size: number;
+  is_active: boolean;
+}
+
+export interface SpecialHoursPeriod {
+  name?: string;
+  open: string;
+  close: string;
+}
+
+export interface SpecialHours {
+  id?: string;
+  start_date: string;
+  end_date: string;
+  kind: 'closed' | 'special_hours' | 'blackout';
+  periods?: SpecialHoursPeriod[];
+  reason?: string;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MenuItem {
+  id?: string;
+  name: string;
+  description?: string;
+  category?: string;
+  price?: number;
+  dietary_info?: Record<string, boolean>;
+  allergens?: string[];
+  is_available?: boolean;
+  is_featured?: boolean;
+  preparation_time_minutes?: number;
+  image_url?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface EventMenuItem {
+  menu_item_id: string;
+  name: string;
+  category?: string;
+  price: number;
+  allergens?: string[];
+}
+
+export interface DepositInstalment {
+  label: string;
+  due_date: string;
+  amount: number;
+  paid_at?: string;
+}
+
+export interface PrivateEvent {
+  id?: string;
+  guest_id?: string;
+  contact_name: string;
+  contact_phone?: string;
+  contact_email?: string;
+  company?: string;
+  event_type: 'private_dining' | 'buyout';
+  event_date: string;
+  start_time?: string;
+  end_time?: string;
+  guest_count: number;
+  occasion?: string;
+  status?: 'inquiry' | 'proposal_sent' | 'confirmed' | 'completed' | 'cancelled' | 'lost';
+  set_menu?: EventMenuItem[];
+  price_per_guest?: number;
+  minimum_spend?: number;
+  room_fee?: number;
+  service_charge_percent?: number;
+  deposit_schedule?: DepositInstalment[];
+  dietary_requirements?: string;
+  notes?: string;
+  source?: string;
+  conversation_id?: string;
+  reservation_id?: string;
+  special_hours_id?: string;
+  proposal_sent_at?: string;
+  confirmed_at?: string;
+  lost_reason?: string;
+  created_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface WaitlistEntry {
+  id?: string;
+  guest_id?: string;
+  guest_name: string;
+  guest_phone: string;
+  party_size: number;
+  requested_date?: string;
+  preferred_time?: string;
+  time_range_start?: string;
+  time_range_end?: string;
+  status?: 'waiting' | 'contacted' | 'booked' | 'seated' | 'expired';
+  notes?: string;
+  estimated_wait_minutes?: number;
+  notified_at?: string;
+  offered_date?: string;
+  offered_time?: string;
+  respond_by?: string; // when a cancellation offer lapses
+  seated_at?: string;
+  reservation_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CalendarFeed {
+  id?: string;
+  restaurant_id?: string;
+  token: string;
+  user_id: string;
+  name?: string;
+  section?: string | null;
+  statuses?: string[];
+  days_ahead?: number;
+  last_accessed_at?: string;
+  created_at?: string;
+}
+
+// A booking refused because its tables are already held at that time
+export interface TableConflict {
+  table_ids: string[];
+}
+
+export const TABLE_CONFLICT_MESSAGE = 'The table is already booked at that time';
+
+export interface IdempotencyKey {
+  id?: string;
+  restaurant_id?: string;
+  key: string;
+  scope: string;
+  request_hash: string;
+  status?: 'pending' | 'completed';
+  status_code?: number | null;
+  response?: any;
+  created_at?: string;
+  completed_at?: string | null;
+}
+
+export interface Restaurant {
+  id?: string;
+  name: string;
+  slug: string;
+  phone_number?: string | null;
+  elevenlabs_agent_id?: string | null;
+  elevenlabs_phone_number_id?: string | null;
+  timezone?: string | null; // IANA name, e.g. 'Europe/Rome'
+  is_active?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface StaffLocation {
+  user_id: string;
+  restaurant_id: string;
+  created_at?: string;
+}
+
+export interface RowFilter {
+  column: string;
+  op: 'eq' | 'gte' | 'lte' | 'lt';
+  value: string | number | boolean;
+}
+
 interface CallLog {
   id?: string;
   call_id?: string;
@@ -39,6 +358,7 @@ interface CallLog {
   agent_notes?: string;
   lead_id?: string;
   appointment_id?: string;
+  guest_id?: string;
   cost_cents?: number;
   created_at?: string;
 }
@@ -57,16 +377,77 @@ interface Lead {
   updated_at?: string;
 }
 
+// Tables with a guest_id, re-pointed when guests are merged and cleared when one is deleted
+const GUEST_LINKED_TABLES = ['reservations', 'reservation_series', 'call_logs', 'waitlist', 'events'];
+
+// Rows per request for bulk reads and inserts; the API caps responses at 1000 rows
+const BULK_PAGE_SIZE = 1000;
+
+// Tables holding one location's data, scoped by restaurant_id while a location is current
+const LOCATION_TABLES = [
+  'restaurant_settings', 'special_hours', 'tables', 'table_combinations', 'guests', 'guest_merges',
+  'guest_preference_suggestions', 'reservation_series', 'reservation_series_conflicts', 'reservations',
+  'waitlist', 'menu_items', 'payments', 'call_logs', 'events', 'calendar_feeds', 'idempotency_keys'
+];
+
+/**
+ * Helper: Whether a write hit reservation_tables_no_double_booking
+ */
+function isTableConflict(error: any): boolean {
+  return error?.code === '23P01';
+}
+
+/**
+ * Helper: A table query builder limited to one location. Reads, updates and deletes only
+ * reach its rows; inserts and upserts are stamped with it.
+ */
+function scopeTable(builder: any, restaurantId: string) {
+  const stamp = (values: any) => Array.isArray(values)
+    ? values.map(row => ({ restaurant_id: restaurantId, ...row }))
+    : { restaurant_id: restaurantId, ...values };
+
+  return {
+    select: (columns?: string, options?: any) => builder.select(columns, options).eq('restaurant_id', restaurantId),
+    insert: (values: any, options?: any) => builder.insert(stamp(values), options),
+    upsert: (values: any, options?: any) => builder.upsert(stamp(values), options),
+    update: (values: any, options?: any) => builder.update(values, options).eq('restaurant_id', restaurantId),
+    delete: (options?: any) => builder.delete(options).eq('restaurant_id', restaurantId)
+  };
+}
+
 export class SupabaseService {
-  private client: SupabaseClient;
+  private supabase: SupabaseClient;
 
   constructor() {
-    this.client = createClient(
+    this.supabase = createClient(
       process.env.SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_KEY! // Use service key for backend operations
     );
   }
 
+  /**
+   * The client every query goes through. While a location is current (see locationContext),
+   * location tables are scoped to it; otherwise queries see every location.
+   */
+  private get client(): SupabaseClient {
+    const restaurantId = currentRestaurantId();
+    if (!restaurantId) {
+      return this.supabase;
+    }
+
+    return new Proxy(this.supabase, {
+      get: (target, property) => {
+        if (property === 'from') {
+          return (table: string) => LOCATION_TABLES.includes(table)
+            ? scopeTable(target.from(table), restaurantId)
+            : target.from(table);
+        }
+        const value = Reflect.get(target, property);
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
   // ============= Appointments =============
 
   async createAppointment(appointment: Appointment) {
@@ -108,14 +489,11 @@ export class SupabaseService {
         .order('appointment_date', { ascending: true });
 
       if (filters?.date) {
-        const startOfDay = new Date(filters.date);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(filters.date);
-        endOfDay.setHours(23, 59, 59, 999);
+        const { start, end } = localDayRange(filters.date.slice(0, 10));
 
         query = query
-          .gte('appointment_date', startOfDay.toISOString())
-          .lte('appointment_date', endOfDay.toISOString());
+          .gte('appointment_date', start)
+          .lt('appointment_date', end);
       }
 
       if (filters?.status) {
@@ -167,17 +545,14 @@ export class SupabaseService {
 
   async getAvailableSlots(date: string) {
     try {
-      const startOfDay = new Date(date);
-      startOfDay.setHours(0, 0, 0, 0);
-      const endOfDay = new Date(date);
-      endOfDay.setHours(23, 59, 59, 999);
+      const { start, end } = localDayRange(date.slice(0, 10));
 
       const { data, error } = await this.client
         .from('available_slots')
         .select('*')
         .eq('is_available', true)
-        .gte('start_time', startOfDay.toISOString())
-        .lte('start_time', endOfDay.toISOString())
+        .gte('start_time', start)
+        .lt('start_time', end)
         .order('start_time', { ascending: true });
 
       if (error) throw error;
@@ -224,15 +599,15 @@ export class SupabaseService {
     }
   }
 
-  // ============= Call Logs =============
+  // ============= Reservations =============
 
-  async createCallLog(callLog: CallLog) {
+  async createReservation(reservation: Reservation) {
     try {
       const { data, error } = await this.client
-        .from('call_logs')
+        .from('reservations')
         .insert({
           id: uuidv4(),
-          ...callLog,
+          ...reservation,
           created_at: new Date().toISOString()
         })
         .select()
@@ -241,74 +616,1845 @@ export class SupabaseService {
       if (error) throw error;
       return { success: true, data };
     } catch (error: any) {
-      console.error('Error creating call log:', error);
+      console.error('Error creating reservation:', error);
       return { success: false, error: error.message };
     }
   }
 
-  async getCallLogs(filters?: {
-    limit?: number;
-    offset?: number;
-    phone?: string;
-    type?: string;
+  /**
+   * Create a reservation and hold its tables in one transaction (book_reservation). Fails with
+   * a conflict, and nothing saved, when another booking holds any of the tables at that time.
+   */
+  async createReservationOnTables(reservation: Reservation, tableIds: string[]) {
+    try {
+      const restaurantId = currentRestaurantId();
+      const { data, error } = await this.client.rpc('book_reservation', {
+        p_reservation: {
+          id: uuidv4(),
+          ...(restaurantId ? { restaurant_id: restaurantId } : {}),
+          ...reservation,
+          created_at: new Date().toISOString()
+        },
+        p_table_ids: tableIds
+      });
+
+      if (error) throw error;
+      if (data?.conflict) {
+        return { success: false, error: TABLE_CONFLICT_MESSAGE, conflict: { table_ids: data.table_ids } as TableConflict };
+      }
+      return { success: true, data: { ...data.reservation, reservation_tables: tableIds.map(table_id => ({ table_id })) } as Reservation };
+    } catch (error: any) {
+      console.error('Error booking reservation tables:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Move a reservation to a new date, time, party size or tables in one transaction (move_reservation)
+   */
+  async moveReservation(
+    id: string,
+    changes: { reservation_date?: string; reservation_time?: string; party_size?: number; duration_minutes?: number },
+    tableIds: string[]
+  ) {
+    try {
+      const { data, error } = await this.client.rpc('move_reservation', {
+        p_reservation_id: id,
+        p_changes: changes,
+        p_table_ids: tableIds
+      });
+
+      if (error) throw error;
+      if (data?.conflict) {
+        return { success: false, error: TABLE_CONFLICT_MESSAGE, conflict: { table_ids: data.table_ids } as TableConflict };
+      }
+      return { success: true, data: { ...data.reservation, reservation_tables: tableIds.map(table_id => ({ table_id })) } as Reservation };
+    } catch (error: any) {
+      console.error('Error moving reservation:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getReservations(filters?: {
     date?: string;
+    startDate?: string;
+    endDate?: string;
+    status?: string;
+    guest_phone?: string;
+    guest_id?: string;
+    series_id?: string;
   }) {
     try {
       let query = this.client
-        .from('call_logs')
-        .select('*')
-        .order('created_at', { ascending: false });
+        .from('reservations')
+        .select('*, reservation_tables ( table_id ), guests ( id, no_show_count, reliability_score, vip_status )')
+        .order('reservation_date', { ascending: true })
+        .order('reservation_time', { ascending: true });
 
-      if (filters?.limit) {
-        query = query.limit(filters.limit);
+      if (filters?.date) {
+        query = query.eq('reservation_date', filters.date);
       }
 
-      if (filters?.offset) {
-        query = query.range(filters.offset, filters.offset + (filters.limit || 10) - 1);
+      if (filters?.startDate) {
+        query = query.gte('reservation_date', filters.startDate);
       }
 
-      if (filters?.phone) {
-        query = query.eq('phone_number', filters.phone);
+      if (filters?.endDate) {
+        query = query.lte('reservation_date', filters.endDate);
       }
 
-      if (filters?.type) {
-        query = query.eq('call_type', filters.type);
+      if (filters?.status) {
+        query = query.eq('status', filters.status);
       }
 
-      if (filters?.date) {
-        const startOfDay = new Date(filters.date);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(filters.date);
-        endOfDay.setHours(23, 59, 59, 999);
+      if (filters?.guest_phone) {
+        query = query.eq('guest_phone', filters.guest_phone);
+      }
 
-        query = query
-          .gte('created_at', startOfDay.toISOString())
-          .lte('created_at', endOfDay.toISOString());
+      if (filters?.guest_id) {
+        query = query.eq('guest_id', filters.guest_id);
+      }
+
+      if (filters?.series_id) {
+        query = query.eq('series_id', filters.series_id);
       }
 
       const { data, error } = await query;
 
       if (error) throw error;
-      return { success: true, data };
+      return { success: true, data: data as Reservation[] };
     } catch (error: any) {
-      console.error('Error fetching call logs:', error);
+      console.error('Error fetching reservations:', error);
       return { success: false, error: error.message };
     }
   }
 
-  async updateCallLog(id: string, updates: Partial<CallLog>) {
+  async getReservation(id: string) {
     try {
       const { data, error } = await this.client
-        .from('call_logs')
-        .update(updates)
+        .from('reservations')
+        .select('*, reservation_tables ( table_id )')
         .eq('id', id)
-        .select()
         .single();
 
       if (error) throw error;
-      return { success: true, data };
+      return { success: true, data: data as Reservation };
     } catch (error: any) {
-      console.error('Error updating call log:', error);
+      console.error('Error fetching reservation:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateReservation(id: string, updates: Partial<Reservation>) {
+    try {
+      const { data, error } = await this.client
+        .from('reservations')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select('*, reservation_tables ( table_id )')
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Reservation };
+    } catch (error: any) {
+      console.error('Error updating reservation:', error);
+      // A new time or status can clash with another booking on the same tables
+      return { success: false, error: isTableConflict(error) ? TABLE_CONFLICT_MESSAGE : error.message };
+    }
+  }
+
+  async setReservationTables(reservationId: string, tableIds: string[]) {
+    try {
+      const { error: deleteError } = await this.client
+        .from('reservation_tables')
+        .delete()
+        .eq('reservation_id', reservationId);
+
+      if (deleteError) throw deleteError;
+
+      const { error } = await this.client
+        .from('reservation_tables')
+        .insert(tableIds.map(tableId => ({ reservation_id: reservationId, table_id: tableId })));
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error linking reservation tables:', error);
+      return isTableConflict(error)
+        ? { success: false, error: TABLE_CONFLICT_MESSAGE, conflict: { table_ids: tableIds } as TableConflict }
+        : { success: false, error: error.message };
+    }
+  }
+
+  // ============= Guests =============
+
+  async getGuests(filters?: { search?: string; vip?: boolean; tag?: string; limit?: number }) {
+    try {
+      let query = this.client
+        .from('guests')
+        .select('*')
+        .order('name', { ascending: true })
+        .limit(filters?.limit || 100);
+
+      if (filters?.search) {
+        const term = filters.search.replace(/[,()%]/g, ' ').trim();
+        const digits = term.replace(/\D/g, '');
+        query = query.or([
+          `name.ilike.%${term}%`,
+          `email.ilike.%${term}%`,
+          ...(digits.length >= 3 ? [`phone.ilike.%${digits}%`] : [])
+        ].join(','));
+      }
+
+      if (filters?.vip !== undefined) {
+        query = query.eq('vip_status', filters.vip);
+      }
+
+      if (filters?.tag) {
+        query = query.contains('tags', [filters.tag]);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as Guest[] };
+    } catch (error: any) {
+      console.error('Error fetching guests:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getGuest(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('guests')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Guest };
+    } catch (error: any) {
+      console.error('Error fetching guest:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteGuest(id: string) {
+    try {
+      // Bookings, calls and events outlive the profile
+      for (const table of GUEST_LINKED_TABLES) {
+        const { error } = await this.client.from(table).update({ guest_id: null }).eq('guest_id', id);
+        if (error) throw error;
+      }
+
+      const { error } = await this.client
+        .from('guests')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting guest:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Move everything linked to one guest onto another; returns rows moved per table
+   */
+  async reassignGuest(fromGuestId: string, toGuestId: string) {
+    try {
+      const moved: Record<string, number> = {};
+      for (const table of GUEST_LINKED_TABLES) {
+        const { data, error } = await this.client
+          .from(table)
+          .update({ guest_id: toGuestId })
+          .eq('guest_id', fromGuestId)
+          .select('id');
+
+        if (error) throw error;
+        moved[table] = (data || []).length;
+      }
+      return { success: true, data: moved };
+    } catch (error: any) {
+      console.error('Error reassigning guest:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createGuestMerge(merge: GuestMerge) {
+    try {
+      const { data, error } = await this.client
+        .from('guest_merges')
+        .insert({
+          id: uuidv4(),
+          ...merge,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as GuestMerge };
+    } catch (error: any) {
+      console.error('Error recording guest merge:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getGuestMerges(guestId?: string) {
+    try {
+      let query = this.client
+        .from('guest_merges')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (guestId) {
+        query = query.eq('surviving_guest_id', guestId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as GuestMerge[] };
+    } catch (error: any) {
+      console.error('Error fetching guest merges:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getDuplicateDismissals() {
+    try {
+      const { data, error } = await this.client
+        .from('guest_duplicate_dismissals')
+        .select('guest_id_a, guest_id_b');
+
+      if (error) throw error;
+      return { success: true, data: data as { guest_id_a: string; guest_id_b: string }[] };
+    } catch (error: any) {
+      console.error('Error fetching duplicate dismissals:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createDuplicateDismissal(guestIdA: string, guestIdB: string, dismissedBy?: string) {
+    try {
+      const { error } = await this.client
+        .from('guest_duplicate_dismissals')
+        .upsert({
+          guest_id_a: guestIdA,
+          guest_id_b: guestIdB,
+          dismissed_by: dismissedBy
+        }, { onConflict: 'guest_id_a,guest_id_b' });
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error dismissing duplicate:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Reservations not yet linked to a guest whose phone ends in the given digits
+   */
+  async getUnlinkedReservationsByPhone(phoneSuffix: string) {
+    try {
+      const { data, error } = await this.client
+        .from('reservations')
+        .select('id, guest_phone')
+        .is('guest_id', null)
+        .ilike('guest_phone', `%${phoneSuffix}`);
+
+      if (error) throw error;
+      return { success: true, data: data as Pick<Reservation, 'id' | 'guest_phone'>[] };
+    } catch (error: any) {
+      console.error('Error fetching unlinked reservations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async linkReservationsToGuest(reservationIds: string[], guestId: string) {
+    try {
+      const { error } = await this.client
+        .from('reservations')
+        .update({ guest_id: guestId, updated_at: new Date().toISOString() })
+        .in('id', reservationIds);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error linking reservations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getGuestByPhone(phone: string) {
+    try {
+      const { data, error } = await this.client
+        .from('guests')
+        .select('*')
+        .eq('phone', phone)
+        .maybeSingle();
+
+      if (error) throw error;
+      return { success: true, data: data as Guest | null };
+    } catch (error: any) {
+      console.error('Error fetching guest:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createGuest(guest: Guest) {
+    try {
+      const { data, error } = await this.client
+        .from('guests')
+        .insert({
+          id: uuidv4(),
+          ...guest,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Guest };
+    } catch (error: any) {
+      console.error('Error creating guest:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateGuest(id: string, updates: Partial<Guest>) {
+    try {
+      const { data, error } = await this.client
+        .from('guests')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Guest };
+    } catch (error: any) {
+      console.error('Error updating guest:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Preference Suggestions =============
+
+  async createPreferenceSuggestions(suggestions: PreferenceSuggestion[]) {
+    try {
+      const { data, error } = await this.client
+        .from('guest_preference_suggestions')
+        .insert(suggestions.map(suggestion => ({
+          id: uuidv4(),
+          ...suggestion,
+          status: 'pending',
+          created_at: new Date().toISOString()
+        })))
+        .select();
+
+      if (error) throw error;
+      return { success: true, data: data as PreferenceSuggestion[] };
+    } catch (error: any) {
+      console.error('Error creating preference suggestions:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getPreferenceSuggestions(filters?: { status?: string; guest_id?: string }) {
+    try {
+      let query = this.client
+        .from('guest_preference_suggestions')
+        .select('*, guests ( id, name, phone )')
+        .order('created_at', { ascending: false });
+
+      if (filters?.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      if (filters?.guest_id) {
+        query = query.eq('guest_id', filters.guest_id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as PreferenceSuggestion[] };
+    } catch (error: any) {
+      console.error('Error fetching preference suggestions:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getPreferenceSuggestion(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('guest_preference_suggestions')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as PreferenceSuggestion };
+    } catch (error: any) {
+      console.error('Error fetching preference suggestion:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updatePreferenceSuggestion(id: string, updates: Partial<PreferenceSuggestion>) {
+    try {
+      const { data, error } = await this.client
+        .from('guest_preference_suggestions')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as PreferenceSuggestion };
+    } catch (error: any) {
+      console.error('Error updating preference suggestion:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Reservation Series =============
+
+  async createSeries(series: ReservationSeries) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_series')
+        .insert({
+          id: uuidv4(),
+          ...series,
+          status: series.status || 'active',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationSeries };
+    } catch (error: any) {
+      console.error('Error creating reservation series:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getSeriesList(filters?: { status?: string; guest_phone?: string }) {
+    try {
+      let query = this.client
+        .from('reservation_series')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (filters?.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      if (filters?.guest_phone) {
+        query = query.eq('guest_phone', filters.guest_phone);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationSeries[] };
+    } catch (error: any) {
+      console.error('Error fetching reservation series:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getSeries(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_series')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationSeries };
+    } catch (error: any) {
+      console.error('Error fetching reservation series:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateSeries(id: string, updates: Partial<ReservationSeries>) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_series')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationSeries };
+    } catch (error: any) {
+      console.error('Error updating reservation series:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getSeriesConflicts(seriesId?: string) {
+    try {
+      let query = this.client
+        .from('reservation_series_conflicts')
+        .select('*')
+        .order('occurrence_date', { ascending: true });
+
+      if (seriesId) {
+        query = query.eq('series_id', seriesId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as SeriesConflict[] };
+    } catch (error: any) {
+      console.error('Error fetching series conflicts:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async upsertSeriesConflict(conflict: SeriesConflict) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_series_conflicts')
+        .upsert(conflict, { onConflict: 'series_id,occurrence_date' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as SeriesConflict };
+    } catch (error: any) {
+      console.error('Error saving series conflict:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteSeriesConflict(seriesId: string, occurrenceDate: string) {
+    try {
+      const { error } = await this.client
+        .from('reservation_series_conflicts')
+        .delete()
+        .eq('series_id', seriesId)
+        .eq('occurrence_date', occurrenceDate);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting series conflict:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Reservation Logs =============
+
+  async createReservationLog(log: ReservationLog) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_logs')
+        .insert({
+          id: uuidv4(),
+          ...log,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationLog };
+    } catch (error: any) {
+      console.error('Error creating reservation log:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getReservationLogs(reservationId: string) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_logs')
+        .select('*')
+        .eq('reservation_id', reservationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationLog[] };
+    } catch (error: any) {
+      console.error('Error fetching reservation logs:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getStatusLogs(actions: string[], since: string) {
+    try {
+      const { data, error } = await this.client
+        .from('reservation_logs')
+        .select('*')
+        .in('action', actions)
+        .gte('created_at', since)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data as ReservationLog[] };
+    } catch (error: any) {
+      console.error('Error fetching reservation logs:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Payments =============
+
+  async createPayment(payment: Payment) {
+    try {
+      const { data, error } = await this.client
+        .from('payments')
+        .insert({
+          id: uuidv4(),
+          ...payment,
+          status: payment.status || 'pending',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Payment };
+    } catch (error: any) {
+      console.error('Error creating payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getPayments(filters?: {
+    reservation_id?: string;
+    status?: string;
+    expires_before?: string;
+  }) {
+    try {
+      let query = this.client
+        .from('payments')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (filters?.reservation_id) {
+        query = query.eq('reservation_id', filters.reservation_id);
+      }
+
+      if (filters?.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      if (filters?.expires_before) {
+        query = query.lt('expires_at', filters.expires_before);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as Payment[] };
+    } catch (error: any) {
+      console.error('Error fetching payments:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getPayment(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('payments')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Payment };
+    } catch (error: any) {
+      console.error('Error fetching payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getPaymentByProviderId(providerPaymentId: string) {
+    try {
+      const { data, error } = await this.client
+        .from('payments')
+        .select('*')
+        .eq('provider_payment_id', providerPaymentId)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Payment };
+    } catch (error: any) {
+      console.error('Error fetching payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updatePayment(id: string, updates: Partial<Payment>) {
+    try {
+      const { data, error } = await this.client
+        .from('payments')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Payment };
+    } catch (error: any) {
+      console.error('Error updating payment:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Tables =============
+
+  async getTables() {
+    try {
+      const { data, error } = await this.client
+        .from('tables')
+        .select('*')
+        .eq('is_active', true)
+        .order('capacity', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data as RestaurantTable[] };
+    } catch (error: any) {
+      console.error('Error fetching tables:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getTable(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('tables')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as RestaurantTable };
+    } catch (error: any) {
+      console.error('Error fetching table:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getTableCombinations(includeInactive = false) {
+    try {
+      let query = this.client
+        .from('table_combinations')
+        .select('*');
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query.order('max_party_size', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data as TableCombination[] };
+    } catch (error: any) {
+      console.error('Error fetching table combinations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createTableCombination(combination: Omit<TableCombination, 'id'>) {
+    try {
+      const { data, error } = await this.client
+        .from('table_combinations')
+        .insert(combination)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as TableCombination };
+    } catch (error: any) {
+      console.error('Error creating table combination:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateTableCombination(id: string, updates: Partial<TableCombination>) {
+    try {
+      const { data, error } = await this.client
+        .from('table_combinations')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as TableCombination };
+    } catch (error: any) {
+      console.error('Error updating table combination:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteTableCombination(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('table_combinations')
+        .delete()
+        .eq('id', id)
+        .select();
+
+      if (error) throw error;
+      return { success: true, data: data as TableCombination[] };
+    } catch (error: any) {
+      console.error('Error deleting table combination:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateTablesStatus(tableIds: string[], status: RestaurantTable['status']) {
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await this.client
+        .from('tables')
+        .update({ status, status_changed_at: now, updated_at: now })
+        .in('id', tableIds)
+        .select();
+
+      if (error) throw error;
+      return { success: true, data: data as RestaurantTable[] };
+    } catch (error: any) {
+      console.error('Error updating table status:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Waitlist =============
+
+  async createWaitlistEntry(entry: WaitlistEntry) {
+    try {
+      const { data, error } = await this.client
+        .from('waitlist')
+        .insert({
+          id: uuidv4(),
+          ...entry,
+          status: entry.status || 'waiting',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as WaitlistEntry };
+    } catch (error: any) {
+      console.error('Error creating waitlist entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getWaitlist(filters?: {
+    status?: string | string[];
+    date?: string;
+    guest_phone?: string;
+  }) {
+    try {
+      let query = this.client
+        .from('waitlist')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (Array.isArray(filters?.status)) {
+        query = query.in('status', filters.status);
+      } else if (filters?.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      if (filters?.date) {
+        query = query.eq('requested_date', filters.date);
+      }
+
+      if (filters?.guest_phone) {
+        query = query.eq('guest_phone', filters.guest_phone);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as WaitlistEntry[] };
+    } catch (error: any) {
+      console.error('Error fetching waitlist:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getWaitlistEntry(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('waitlist')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as WaitlistEntry };
+    } catch (error: any) {
+      console.error('Error fetching waitlist entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateWaitlistEntry(id: string, updates: Partial<WaitlistEntry>) {
+    try {
+      const { data, error } = await this.client
+        .from('waitlist')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as WaitlistEntry };
+    } catch (error: any) {
+      console.error('Error updating waitlist entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Restaurant Settings =============
+
+  /**
+   * A setting for the current location, falling back to the group-wide value
+   */
+  async getSetting<T = any>(key: string) {
+    try {
+      const restaurantId = currentRestaurantId();
+      let query = this.supabase
+        .from('restaurant_settings')
+        .select('restaurant_id, setting_value')
+        .eq('setting_key', key);
+
+      query = restaurantId
+        ? query.or(`restaurant_id.eq.${restaurantId},restaurant_id.is.null`)
+        : query.is('restaurant_id', null);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      const setting = (data || []).find(row => row.restaurant_id) || data?.[0];
+      return { success: true, data: (setting?.setting_value ?? null) as T | null };
+    } catch (error: any) {
+      console.error(`Error fetching setting ${key}:`, error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async upsertSetting<T = any>(key: string, value: T) {
+    try {
+      const { data, error } = await this.client
+        .from('restaurant_settings')
+        .upsert(
+          { setting_key: key, setting_value: value, updated_at: new Date().toISOString() },
+          { onConflict: 'restaurant_id,setting_key' }
+        )
+        .select('setting_value')
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data.setting_value as T };
+    } catch (error: any) {
+      console.error(`Error saving setting ${key}:`, error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Locations =============
+
+  async getRestaurants() {
+    try {
+      const { data, error } = await this.client
+        .from('restaurants')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return { success: true, data: data as Restaurant[] };
+    } catch (error: any) {
+      console.error('Error fetching restaurants:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createRestaurant(restaurant: Restaurant) {
+    try {
+      const { data, error } = await this.client
+        .from('restaurants')
+        .insert(restaurant)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Restaurant };
+    } catch (error: any) {
+      console.error('Error creating restaurant:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateRestaurant(id: string, updates: Partial<Restaurant>) {
+    try {
+      const { data, error } = await this.client
+        .from('restaurants')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as Restaurant };
+    } catch (error: any) {
+      console.error('Error updating restaurant:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Staff location assignments, for one user or everyone
+   */
+  async getStaffLocations(userId?: string) {
+    try {
+      let query = this.client
+        .from('staff_locations')
+        .select('*');
+
+      if (userId) {
+        query = query.eq('user_id', userId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as StaffLocation[] };
+    } catch (error: any) {
+      console.error('Error fetching staff locations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Replace the locations a staff member is assigned to
+   */
+  async setStaffLocations(userId: string, restaurantIds: string[]) {
+    try {
+      const { error: deleteError } = await this.client
+        .from('staff_locations')
+        .delete()
+        .eq('user_id', userId);
+
+      if (deleteError) throw deleteError;
+
+      if (restaurantIds.length === 0) {
+        return { success: true, data: [] as StaffLocation[] };
+      }
+
+      const { data, error } = await this.client
+        .from('staff_locations')
+        .insert(restaurantIds.map(restaurantId => ({ user_id: userId, restaurant_id: restaurantId })))
+        .select();
+
+      if (error) throw error;
+      return { success: true, data: data as StaffLocation[] };
+    } catch (error: any) {
+      console.error('Error saving staff locations:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Special Hours =============
+
+  async getSpecialHours(filters?: { from?: string; to?: string }) {
+    try {
+      let query = this.client
+        .from('special_hours')
+        .select('*')
+        .order('start_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      // Overrides that overlap the requested range
+      if (filters?.from) {
+        query = query.gte('end_date', filters.from);
+      }
+
+      if (filters?.to) {
+        query = query.lte('start_date', filters.to);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as SpecialHours[] };
+    } catch (error: any) {
+      console.error('Error fetching special hours:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createSpecialHours(specialHours: SpecialHours) {
+    try {
+      const { data, error } = await this.client
+        .from('special_hours')
+        .insert([specialHours])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as SpecialHours };
+    } catch (error: any) {
+      console.error('Error creating special hours:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateSpecialHours(id: string, updates: Partial<SpecialHours>) {
+    try {
+      const { data, error } = await this.client
+        .from('special_hours')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as SpecialHours };
+    } catch (error: any) {
+      console.error('Error updating special hours:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteSpecialHours(id: string) {
+    try {
+      const { error } = await this.client
+        .from('special_hours')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting special hours:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Menu =============
+
+  async getMenuItems(filters?: {
+    ids?: string[];
+    available?: boolean;
+    category?: string;
+    dietary?: string[];
+    search?: string;
+  }) {
+    try {
+      let query = this.client
+        .from('menu_items')
+        .select('*')
+        .order('category', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (filters?.ids) {
+        query = query.in('id', filters.ids);
+      }
+
+      if (filters?.available !== undefined) {
+        query = query.eq('is_available', filters.available);
+      }
+
+      if (filters?.category) {
+        query = query.eq('category', filters.category);
+      }
+
+      // Every requested tag must be set, e.g. {"vegetarian": true, "gluten_free": true}
+      if (filters?.dietary?.length) {
+        query = query.contains('dietary_info', Object.fromEntries(filters.dietary.map(tag => [tag, true])));
+      }
+
+      if (filters?.search) {
+        query = query.ilike('name', `%${filters.search}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as MenuItem[] };
+    } catch (error: any) {
+      console.error('Error fetching menu items:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getMenuItem(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('menu_items')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as MenuItem };
+    } catch (error: any) {
+      console.error('Error fetching menu item:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async createMenuItem(item: MenuItem) {
+    try {
+      const { data, error } = await this.client
+        .from('menu_items')
+        .insert([item])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as MenuItem };
+    } catch (error: any) {
+      console.error('Error creating menu item:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateMenuItem(id: string, updates: Partial<MenuItem>) {
+    try {
+      const { data, error } = await this.client
+        .from('menu_items')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as MenuItem };
+    } catch (error: any) {
+      console.error('Error updating menu item:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteMenuItem(id: string) {
+    try {
+      const { error } = await this.client
+        .from('menu_items')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting menu item:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Events =============
+
+  async createEvent(event: PrivateEvent) {
+    try {
+      const { data, error } = await this.client
+        .from('events')
+        .insert({
+          id: uuidv4(),
+          ...event,
+          status: event.status || 'inquiry',
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as PrivateEvent };
+    } catch (error: any) {
+      console.error('Error creating event:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getEvents(filters?: { status?: string; from?: string; to?: string; contact_phone?: string }) {
+    try {
+      let query = this.client
+        .from('events')
+        .select('*')
+        .order('event_date', { ascending: true })
+        .order('start_time', { ascending: true });
+
+      if (filters?.status) {
+        query = query.in('status', filters.status.split(','));
+      }
+
+      if (filters?.from) {
+        query = query.gte('event_date', filters.from);
+      }
+
+      if (filters?.to) {
+        query = query.lte('event_date', filters.to);
+      }
+
+      if (filters?.contact_phone) {
+        query = query.eq('contact_phone', filters.contact_phone);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data: data as PrivateEvent[] };
+    } catch (error: any) {
+      console.error('Error fetching events:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getEvent(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('events')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as PrivateEvent };
+    } catch (error: any) {
+      console.error('Error fetching event:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateEvent(id: string, updates: Partial<PrivateEvent>) {
+    try {
+      const { data, error } = await this.client
+        .from('events')
+        .update({
+          ...updates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as PrivateEvent };
+    } catch (error: any) {
+      console.error('Error updating event:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Calendar Feeds =============
+
+  async createCalendarFeed(feed: CalendarFeed) {
+    try {
+      const { data, error } = await this.client
+        .from('calendar_feeds')
+        .insert(feed)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as CalendarFeed };
+    } catch (error: any) {
+      console.error('Error creating calendar feed:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCalendarFeeds(userId: string) {
+    try {
+      const { data, error } = await this.client
+        .from('calendar_feeds')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data as CalendarFeed[] };
+    } catch (error: any) {
+      console.error('Error fetching calendar feeds:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCalendarFeedByToken(token: string) {
+    try {
+      const { data, error } = await this.client
+        .from('calendar_feeds')
+        .select('*')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (error) throw error;
+      return { success: true, data: data as CalendarFeed | null };
+    } catch (error: any) {
+      console.error('Error fetching calendar feed:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateCalendarFeed(id: string, updates: Partial<CalendarFeed>) {
+    try {
+      const { data, error } = await this.client
+        .from('calendar_feeds')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as CalendarFeed };
+    } catch (error: any) {
+      console.error('Error updating calendar feed:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteCalendarFeed(id: string, userId: string) {
+    try {
+      const { data, error } = await this.client
+        .from('calendar_feeds')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select();
+
+      if (error) throw error;
+      return { success: true, data: data as CalendarFeed[] };
+    } catch (error: any) {
+      console.error('Error deleting calendar feed:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Idempotency Keys =============
+
+  /**
+   * Record a request as in progress. A key that already exists is returned instead,
+   * with claimed false, so the caller can replay or wait on it.
+   */
+  async claimIdempotencyKey(entry: IdempotencyKey) {
+    try {
+      const { data, error } = await this.client
+        .from('idempotency_keys')
+        .insert({ ...entry, status: 'pending' })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code !== '23505') throw error;
+
+        const { data: existing, error: fetchError } = await this.client
+          .from('idempotency_keys')
+          .select('*')
+          .eq('key', entry.key)
+          .single();
+
+        if (fetchError) throw fetchError;
+        return { success: true, claimed: false, data: existing as IdempotencyKey };
+      }
+
+      return { success: true, claimed: true, data: data as IdempotencyKey };
+    } catch (error: any) {
+      console.error('Error claiming idempotency key:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Take over a key whose request was abandoned or has expired, as long as nobody else did first
+   */
+  async reclaimIdempotencyKey(entry: IdempotencyKey, previousCreatedAt: string) {
+    try {
+      const { data, error } = await this.client
+        .from('idempotency_keys')
+        .update({
+          ...entry,
+          status: 'pending',
+          status_code: null,
+          response: null,
+          created_at: new Date().toISOString(),
+          completed_at: null
+        })
+        .eq('key', entry.key)
+        .eq('created_at', previousCreatedAt)
+        .select();
+
+      if (error) throw error;
+      return { success: true, claimed: (data || []).length > 0 };
+    } catch (error: any) {
+      console.error('Error reclaiming idempotency key:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async completeIdempotencyKey(key: string, statusCode: number, response: any) {
+    try {
+      const { error } = await this.client
+        .from('idempotency_keys')
+        .update({
+          status: 'completed',
+          status_code: statusCode,
+          response,
+          completed_at: new Date().toISOString()
+        })
+        .eq('key', key);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error completing idempotency key:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteIdempotencyKey(key: string) {
+    try {
+      const { error } = await this.client
+        .from('idempotency_keys')
+        .delete()
+        .eq('key', key);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error deleting idempotency key:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async deleteIdempotencyKeysBefore(before: string) {
+    try {
+      const { data, error } = await this.client
+        .from('idempotency_keys')
+        .delete()
+        .lt('created_at', before)
+        .select('id');
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('Error deleting expired idempotency keys:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Call Logs =============
+
+  async createCallLog(callLog: CallLog) {
+    try {
+      const { data, error } = await this.client
+        .from('call_logs')
+        .insert({
+          id: uuidv4(),
+          ...callLog,
+          created_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('Error creating call log:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCallLogs(filters?: {
+    limit?: number;
+    offset?: number;
+    phone?: string;
+    type?: string;
+    date?: string;
+  }) {
+    try {
+      let query = this.client
+        .from('call_logs')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (filters?.limit) {
+        query = query.limit(filters.limit);
+      }
+
+      if (filters?.offset) {
+        query = query.range(filters.offset, filters.offset + (filters.limit || 10) - 1);
+      }
+
+      if (filters?.phone) {
+        query = query.eq('phone_number', filters.phone);
+      }
+
+      if (filters?.type) {
+        query = query.eq('call_type', filters.type);
+      }
+
+      if (filters?.date) {
+        const { start, end } = localDayRange(filters.date.slice(0, 10));
+
+        query = query
+          .gte('created_at', start)
+          .lt('created_at', end);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('Error fetching call logs:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCallLog(id: string) {
+    try {
+      const { data, error } = await this.client
+        .from('call_logs')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      return { success: true, data: data as CallLog };
+    } catch (error: any) {
+      console.error('Error fetching call log:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCallLogByCallId(callId: string) {
+    try {
+      const { data, error } = await this.client
+        .from('call_logs')
+        .select('*')
+        .eq('call_id', callId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return { success: true, data: data as CallLog | null };
+    } catch (error: any) {
+      console.error('Error fetching call log:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async updateCallLog(id: string, updates: Partial<CallLog>) {
+    try {
+      const { data, error } = await this.client
+        .from('call_logs')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('Error updating call log:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ============= Import / Export =============
+
+  /**
+   * Every row of a table, read page by page so large exports aren't cut off at the API's row limit
+   */
+  async getAllRows<T = any>(table: string, options?: {
+    select?: string;
+    order?: string[];
+    filters?: RowFilter[];
+  }) {
+    try {
+      const rows: T[] = [];
+      for (let from = 0; ; from += BULK_PAGE_SIZE) {
+        let query = this.client
+          .from(table)
+          .select(options?.select || '*');
+
+        for (const column of [...(options?.order || []), 'id']) {
+          query = query.order(column, { ascending: true });
+        }
+
+        for (const filter of options?.filters || []) {
+          query = query.filter(filter.column, filter.op, filter.value);
+        }
+
+        const { data, error } = await query.range(from, from + BULK_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data as T[]));
+        if (data.length < BULK_PAGE_SIZE) {
+          return { success: true, data: rows };
+        }
+      }
+    } catch (error: any) {
+      console.error(`Error reading ${table}:`, error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Insert many rows in batches; returns the inserted rows. Batches are separate requests,
+   * so a failure part-way leaves the earlier batches saved.
+   */
+  async insertRows<T = any>(table: string, rows: T[]) {
+    try {
+      const inserted: T[] = [];
+      for (let start = 0; start < rows.length; start += BULK_PAGE_SIZE) {
+        const { data, error } = await this.client
+          .from(table)
+          .insert(rows.slice(start, start + BULK_PAGE_SIZE) as any[], { defaultToNull: false }) // rows without a column get its default
+          .select();
+
+        if (error) throw error;
+        inserted.push(...(data as T[]));
+      }
+      return { success: true, data: inserted };
+    } catch (error: any) {
+      console.error(`Error inserting into ${table}:`, error);
       return { success: false, error: error.message };
     }
   }
@@ -0,0 +1,297 @@
+import supabaseService, { Reservation, RestaurantTable, TableCombination } from './supabaseService';
+import availabilityService, { getReservationTableIds } from './availabilityService';
+import realtimeService from './realtimeService';
+import { localDate, zonedTime } from './restaurantTime';
+
+export type TableStatus = RestaurantTable['status'];
+
+type TableResult<T> = { success: boolean; data?: T; error?: string };
+
+// Allowed moves on the floor; an occupied table always goes through cleaning
+export const TABLE_TRANSITIONS: Record<TableStatus, TableStatus[]> = {
+  available: ['reserved', 'occupied', 'cleaning'],
+  reserved: ['available', 'occupied'],
+  occupied: ['cleaning'],
+  cleaning: ['available']
+};
+
+// Table status that each reservation event moves its tables to
+const RESERVATION_EVENTS: Record<string, TableStatus> = {
+  pending_payment: 'reserved',
+  confirmed: 'reserved',
+  seated: 'occupied',
+  completed: 'cleaning',
+  cancelled: 'available',
+  'no-show': 'available'
+};
+
+export class TableService {
+  /**
+   * Get the live floor, returning any tables whose clean time has passed first
+   */
+  async getFloor(status?: TableStatus): Promise<TableResult<RestaurantTable[]>> {
+    await this.releaseCleanedTables();
+
+    const result = await supabaseService.getTables();
+    if (!result.success) {
+      return result;
+    }
+
+    const tables = await this.withExpectedFreeTimes(result.data || []);
+    return { success: true, data: status ? tables.filter(table => table.status === status) : tables };
+  }
+
+  /**
+   * Check whether a table may move from one status to another
+   */
+  canTransition(from: TableStatus, to: TableStatus): boolean {
+    return TABLE_TRANSITIONS[from]?.includes(to) || false;
+  }
+
+  /**
+   * Move a single table to a new status, rejecting invalid transitions
+   */
+  async setStatus(id: string, status: TableStatus): Promise<TableResult<RestaurantTable>> {
+    const { data: table, error } = await supabaseService.getTable(id);
+    if (!table) {
+      return { success: false, error: error || 'Table not found' };
+    }
+
+    if (!TABLE_TRANSITIONS[status]) {
+      return { success: false, error: `Unknown table status: ${status}` };
+    }
+
+    if (table.status === status) {
+      return { success: true, data: table };
+    }
+
+    if (!this.canTransition(table.status, status)) {
+      return {
+        success: false,
+        error: `Table ${table.table_number} cannot go from ${table.status} to ${status}`
+      };
+    }
+
+    const result = await this.applyStatus([table.id], status);
+    return result.success
+      ? { success: true, data: result.data?.[0] }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * Move a reservation's tables to match a reservation event.
+   * Tables that cannot make the move (e.g. already occupied by another party) are left alone.
+   */
+  async applyReservationEvent(reservation: Reservation): Promise<TableResult<RestaurantTable[]>> {
+    const status = RESERVATION_EVENTS[reservation.status || ''];
+    const tableIds = getReservationTableIds(reservation);
+
+    // Future bookings don't hold a table on tonight's floor
+    const isTonight = reservation.reservation_date === localDate();
+
+    if (!status || tableIds.length === 0 || (status === 'reserved' && !isTonight)) {
+      return { success: true, data: [] };
+    }
+
+    const { data: tables } = await supabaseService.getTables();
+    const movable = (tables || [])
+      .filter(table => tableIds.includes(table.id))
+      .filter(table => this.canTransition(table.status, status))
+      .map(table => table.id);
+
+    if (movable.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    return this.applyStatus(movable, status);
+  }
+
+  /**
+   * Return tables to available once they have been cleaning for the configured clean time
+   */
+  async releaseCleanedTables(now: Date = new Date()): Promise<TableResult<RestaurantTable[]>> {
+    const settings = await availabilityService.getReservationSettings();
+    const cutoff = now.getTime() - settings.table_clean_minutes * 60 * 1000;
+
+    const { data: tables } = await supabaseService.getTables();
+    const ready = (tables || [])
+      .filter(table => table.status === 'cleaning')
+      .filter(table => !table.status_changed_at || new Date(table.status_changed_at).getTime() <= cutoff)
+      .map(table => table.id);
+
+    if (ready.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    return this.applyStatus(ready, 'available');
+  }
+
+  /**
+   * Get the table combinations, including inactive ones so they can be switched back on
+   */
+  async getCombinations(): Promise<TableResult<TableCombination[]>> {
+    return supabaseService.getTableCombinations(true);
+  }
+
+  /**
+   * Create a combination of two or more active tables
+   */
+  async createCombination(input: Partial<TableCombination>): Promise<TableResult<TableCombination>> {
+    const combination = {
+      name: input.name?.trim() || '',
+      table_ids: [...new Set(input.table_ids || [])],
+      min_party_size: Number(input.min_party_size ?? 1),
+      max_party_size: Number(input.max_party_size),
+      is_active: input.is_active ?? true
+    };
+
+    const invalid = await this.validateCombination(combination);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return supabaseService.createTableCombination(combination);
+  }
+
+  /**
+   * Update a combination, checking the result still describes a valid group
+   */
+  async updateCombination(id: string, updates: Partial<TableCombination>): Promise<TableResult<TableCombination>> {
+    const { data: combinations, error } = await supabaseService.getTableCombinations(true);
+    const current = combinations?.find(combo => combo.id === id);
+    if (!current) {
+      return { success: false, error: error || 'Table combination not found' };
+    }
+
+    const changes: Partial<TableCombination> = {};
+    if (updates.name !== undefined) changes.name = updates.name.trim();
+    if (updates.table_ids !== undefined) changes.table_ids = [...new Set(updates.table_ids)];
+    if (updates.min_party_size !== undefined) changes.min_party_size = Number(updates.min_party_size);
+    if (updates.max_party_size !== undefined) changes.max_party_size = Number(updates.max_party_size);
+    if (updates.is_active !== undefined) changes.is_active = updates.is_active;
+
+    // Tables deactivated since are left alone unless the group itself changes; availability skips them
+    const invalid = await this.validateCombination({ ...current, ...changes }, changes.table_ids !== undefined);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    return supabaseService.updateTableCombination(id, changes);
+  }
+
+  /**
+   * Delete a combination. Bookings keep their own table links, so none are affected.
+   */
+  async deleteCombination(id: string): Promise<TableResult<TableCombination>> {
+    const result = await supabaseService.deleteTableCombination(id);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const deleted = result.data?.[0];
+    return deleted ? { success: true, data: deleted } : { success: false, error: 'Table combination not found' };
+  }
+
+  /**
+   * Helper: Describe what is wrong with a combination, or return null when it is valid
+   */
+  private async validateCombination(
+    combination: Omit<TableCombination, 'id'>,
+    checkTables = true
+  ): Promise<string | null> {
+    if (!combination.name) {
+      return 'name is required';
+    }
+
+    const tableIds = combination.table_ids || [];
+    if (tableIds.length < 2) {
+      return 'A combination needs at least two tables';
+    }
+
+    if (checkTables) {
+      const { data: tables } = await supabaseService.getTables();
+      const known = new Set((tables || []).map(table => table.id));
+      if (!tableIds.every(id => known.has(id))) {
+        return 'Every table in a combination must be an active table at this location';
+      }
+    }
+
+    const min = combination.min_party_size;
+    const max = combination.max_party_size;
+    if (!Number.isInteger(min) || min < 1) {
+      return 'min_party_size must be a whole number of at least 1';
+    }
+    if (!Number.isInteger(max) || max < min) {
+      return 'max_party_size must be a whole number no smaller than min_party_size';
+    }
+
+    return null;
+  }
+
+  /**
+   * Helper: Stamp occupied tables with when their party is expected to leave,
+   * from the time they sat plus the predicted turn time
+   */
+  private async withExpectedFreeTimes(tables: RestaurantTable[]): Promise<RestaurantTable[]> {
+    if (!tables.some(table => table.status === 'occupied')) {
+      return tables;
+    }
+
+    const [{ data: seated }, turnTimes] = await Promise.all([
+      supabaseService.getReservations({ date: localDate(), status: 'seated' }),
+      availabilityService.getTurnTimePredictor()
+    ]);
+
+    const freeAt = new Map<string, string>();
+    for (const reservation of seated || []) {
+      const start = reservation.seated_at
+        ? new Date(reservation.seated_at)
+        : zonedTime(reservation.reservation_date, reservation.reservation_time);
+      const expected = new Date(start.getTime() + turnTimes.forReservation(reservation) * 60 * 1000).toISOString();
+      getReservationTableIds(reservation).forEach(id => freeAt.set(id, expected));
+    }
+
+    return tables.map(table =>
+      table.status === 'occupied' && freeAt.has(table.id)
+        ? { ...table, expected_free_at: freeAt.get(table.id) }
+        : table
+    );
+  }
+
+  /**
+   * Helper: Persist a status change, push it to the floor and arm the clean timer
+   */
+  private async applyStatus(tableIds: string[], status: TableStatus): Promise<TableResult<RestaurantTable[]>> {
+    const result = await supabaseService.updateTablesStatus(tableIds, status);
+
+    if (result.success) {
+      for (const table of result.data || []) {
+        realtimeService.broadcast('floor', 'table_status', table);
+      }
+
+      if (status === 'cleaning') {
+        await this.scheduleRelease();
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Helper: Sweep cleaning tables once the clean time has elapsed.
+   * The sweep in getFloor covers restarts, when pending timers are lost.
+   */
+  private async scheduleRelease() {
+    const settings = await availabilityService.getReservationSettings();
+
+    setTimeout(async () => {
+      try {
+        await this.releaseCleanedTables();
+      } catch (error) {
+        console.error('Error releasing cleaned tables:', error);
+      }
+    }, settings.table_clean_minutes * 60 * 1000);
+  }
+}
+
+export default new TableService();
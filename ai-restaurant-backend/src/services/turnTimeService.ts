@@ -0,0 +1,157 @@
+import supabaseService, { Reservation } from './supabaseService';
+import availabilityService, {
+  getServicePeriod,
+  LearnedTurnTime,
+  partySizeBucket,
+  turnTimeKey,
+  TurnTimeModel,
+  TurnTimeOverride
+} from './availabilityService';
+import { format, parseISO, subDays } from 'date-fns';
+import { localDate } from './restaurantTime';
+
+// Visits outside this range are data-entry mistakes, not real turns
+const MIN_TURN_MINUTES = 15;
+const MAX_TURN_MINUTES = 6 * 60;
+
+/**
+ * Middle value of a list of minutes, rounded to the nearest 5
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(value / 5) * 5;
+}
+
+export class TurnTimeService {
+  /**
+   * Learn turn times from how long parties actually stayed (seated -> completed in
+   * reservation_logs). Each visit counts towards its exact party size / weekday / service
+   * period key and the broader fallbacks; keys with too few visits are left out.
+   */
+  async learnTurnTimes(now: Date = new Date()) {
+    try {
+      const [settings, turnTimes] = await Promise.all([
+        availabilityService.getReservationSettings(),
+        availabilityService.getTurnTimeSettings()
+      ]);
+      const since = subDays(now, turnTimes.lookback_days);
+
+      const [{ data: logs }, { data: reservations }] = await Promise.all([
+        supabaseService.getStatusLogs(['seated', 'completed'], since.toISOString()),
+        supabaseService.getReservations({
+          startDate: localDate(since),
+          endDate: localDate(now),
+          status: 'completed'
+        })
+      ]);
+
+      const seatedAt = new Map<string, Date>();
+      const completedAt = new Map<string, Date>();
+      for (const log of logs || []) {
+        const at = new Date(log.created_at!);
+        if (log.action === 'seated' && !seatedAt.has(log.reservation_id)) {
+          seatedAt.set(log.reservation_id, at);
+        } else if (log.action === 'completed') {
+          completedAt.set(log.reservation_id, at);
+        }
+      }
+
+      const samples = new Map<string, number[]>();
+      let visits = 0;
+
+      for (const reservation of reservations || []) {
+        const minutes = this.visitLength(reservation, seatedAt, completedAt);
+        if (minutes === null) continue;
+
+        const bucket = partySizeBucket(Number(reservation.party_size));
+        const weekday = format(parseISO(reservation.reservation_date), 'EEEE').toLowerCase();
+        const period = getServicePeriod(settings, reservation.reservation_time);
+
+        for (const key of [
+          turnTimeKey(bucket, weekday, period),
+          turnTimeKey(bucket, '*', period),
+          turnTimeKey(bucket, '*', '*')
+        ]) {
+          samples.set(key, [...(samples.get(key) || []), minutes]);
+        }
+        visits++;
+      }
+
+      const learned: Record<string, LearnedTurnTime> = {};
+      for (const [key, values] of samples) {
+        if (values.length >= turnTimes.min_samples) {
+          learned[key] = { minutes: median(values), samples: values.length };
+        }
+      }
+
+      const model: TurnTimeModel = { learned_at: now.toISOString(), turn_times: learned };
+      const saved = await supabaseService.upsertSetting('turn_time_model', model);
+      if (!saved.success) {
+        return { success: false, error: saved.error };
+      }
+
+      return { success: true, visits, data: model };
+    } catch (error: any) {
+      console.error('Error learning turn times:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Current overrides, learned model and default, for the settings page
+   */
+  async getTurnTimes() {
+    const [settings, turnTimes, { data: model }] = await Promise.all([
+      availabilityService.getReservationSettings(),
+      availabilityService.getTurnTimeSettings(),
+      supabaseService.getSetting<TurnTimeModel>('turn_time_model')
+    ]);
+
+    return {
+      default_minutes: settings.default_duration_minutes,
+      service_periods: (settings.pacing?.periods || []).map(p => p.name),
+      ...turnTimes,
+      model: model || { turn_times: {} }
+    };
+  }
+
+  /**
+   * Replace the manager-set overrides
+   */
+  async saveOverrides(overrides: TurnTimeOverride[]) {
+    for (const override of overrides) {
+      if (!override.minutes || override.minutes < MIN_TURN_MINUTES || override.minutes > MAX_TURN_MINUTES) {
+        return { success: false, error: `minutes must be between ${MIN_TURN_MINUTES} and ${MAX_TURN_MINUTES}` };
+      }
+      if (override.party_size_min && override.party_size_max && override.party_size_min > override.party_size_max) {
+        return { success: false, error: 'party_size_min must not be above party_size_max' };
+      }
+    }
+
+    const turnTimes = await availabilityService.getTurnTimeSettings();
+    return supabaseService.upsertSetting('turn_times', { ...turnTimes, overrides });
+  }
+
+  /**
+   * Helper: Minutes between sitting down and leaving, or null when it can't be trusted.
+   * Walk-ins seated from the waitlist have no seated log, so fall back to seated_at.
+   */
+  private visitLength(
+    reservation: Reservation,
+    seatedAt: Map<string, Date>,
+    completedAt: Map<string, Date>
+  ): number | null {
+    const seated = seatedAt.get(reservation.id!) || (reservation.seated_at ? new Date(reservation.seated_at) : null);
+    const completed = completedAt.get(reservation.id!);
+    if (!seated || !completed) {
+      return null;
+    }
+
+    const minutes = Math.round((completed.getTime() - seated.getTime()) / 60000);
+    return minutes >= MIN_TURN_MINUTES && minutes <= MAX_TURN_MINUTES ? minutes : null;
+  }
+}
+
+export default new TurnTimeService();
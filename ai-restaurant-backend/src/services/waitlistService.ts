@@ -0,0 +1,337 @@
+import supabaseService, { Reservation, TableConflict, WaitlistEntry } from './supabaseService';
+import twilioService from './twilioService';
+import availabilityService, { getReservationTableIds, toMinutes, fromMinutes } from './availabilityService';
+import tableService from './tableService';
+import guestService from './guestService';
+import locationService from './locationService';
+import { localDate, localMinutes, localTime, zonedTime } from './restaurantTime';
+
+interface WaitlistRequest {
+  guest_name: string;
+  guest_phone: string;
+  party_size: number;
+  requested_date?: string;
+  time_range_start?: string;
+  time_range_end?: string;
+  notes?: string;
+}
+
+// Reservations that are holding (or about to hold) a table tonight
+const HOLDING_STATUSES = ['confirmed', 'arrived', 'seated'];
+
+export class WaitlistService {
+  /**
+   * Add a party to the waitlist with a quoted wait
+   */
+  async addToWaitlist(request: WaitlistRequest) {
+    try {
+      const today = localDate();
+      const requestedDate = request.requested_date || today;
+      const partySize = Number(request.party_size);
+
+      // Only walk-ins for tonight get a quote; future dates wait for a cancellation
+      const estimate = requestedDate === today
+        ? await this.estimateWait(partySize)
+        : null;
+
+      const guest = await guestService.findByPhone(request.guest_phone);
+
+      return await supabaseService.createWaitlistEntry({
+        guest_id: guest?.id,
+        guest_name: request.guest_name,
+        guest_phone: request.guest_phone,
+        party_size: partySize,
+        requested_date: requestedDate,
+        time_range_start: request.time_range_start,
+        time_range_end: request.time_range_end,
+        notes: request.notes,
+        estimated_wait_minutes: estimate ?? undefined
+      });
+    } catch (error: any) {
+      console.error('Error adding to waitlist:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Estimate minutes until a table fits this party.
+   * Each seating option frees up when its current party's turn time ends; parties
+   * already waiting for the same tables are served first.
+   * Returns null when no table in the restaurant can seat the party.
+   */
+  async estimateWait(partySize: number, now: Date = new Date()): Promise<number | null> {
+    const today = localDate(now);
+    const nowMinutes = localMinutes(now);
+
+    const [turnTimes, options, { data: reservations }, { data: waiting }] = await Promise.all([
+      availabilityService.getTurnTimePredictor(),
+      availabilityService.getSeatingOptions(partySize),
+      supabaseService.getReservations({ date: today }),
+      supabaseService.getWaitlist({ status: 'waiting', date: today })
+    ]);
+
+    if (options.length === 0) {
+      return null;
+    }
+
+    const turnTime = turnTimes.predict(partySize, today, fromMinutes(nowMinutes));
+    const holding = (reservations || []).filter(r => HOLDING_STATUSES.includes(r.status || ''));
+
+    // Seated parties count down from when they sat, everyone else from their booking time
+    const startOf = (r: Reservation) => {
+      if (!r.seated_at) return toMinutes(r.reservation_time);
+      return localMinutes(new Date(r.seated_at));
+    };
+
+    // Minutes from now until each option is free for a full turn
+    const freeIn = options
+      .map(option => {
+        const blocking = holding
+          .filter(r => getReservationTableIds(r).some(id => option.table_ids.includes(id)))
+          .sort((a, b) => startOf(a) - startOf(b));
+
+        let freeAt = nowMinutes;
+        for (const r of blocking) {
+          const start = startOf(r);
+          const end = start + turnTimes.forReservation(r);
+          // Seated parties and upcoming bookings that would overlap our turn both block the table
+          if (start < freeAt + turnTime && end > freeAt) {
+            freeAt = Math.max(freeAt, end);
+          }
+        }
+        return freeAt - nowMinutes;
+      })
+      .sort((a, b) => a - b);
+
+    // Parties ahead of us that could take the same tables
+    const optionTableIds = new Set(options.flatMap(option => option.table_ids));
+    const optionsBySize = new Map<number, string[]>();
+    let ahead = 0;
+    for (const entry of waiting || []) {
+      if (!optionsBySize.has(entry.party_size)) {
+        const theirOptions = await availabilityService.getSeatingOptions(entry.party_size);
+        optionsBySize.set(entry.party_size, theirOptions.flatMap(option => option.table_ids));
+      }
+      if (optionsBySize.get(entry.party_size)!.some(id => optionTableIds.has(id))) {
+        ahead++;
+      }
+    }
+
+    const rounds = Math.floor(ahead / freeIn.length);
+    return freeIn[ahead % freeIn.length] + rounds * turnTime;
+  }
+
+  /**
+   * Text the guest that their table is ready
+   */
+  async notifyReady(id: string): Promise<{ success: boolean; data?: WaitlistEntry; error?: string }> {
+    const { data: entry, error } = await supabaseService.getWaitlistEntry(id);
+    if (!entry) {
+      return { success: false, error: error || 'Waitlist entry not found' };
+    }
+
+    if (entry.status !== 'waiting') {
+      return { success: false, error: `Cannot notify a party that is ${entry.status}` };
+    }
+
+    const settings = await availabilityService.getReservationSettings();
+
+    try {
+      await twilioService.sendSMS({
+        to: entry.guest_phone,
+        body: `Hi ${entry.guest_name}, your table for ${entry.party_size} at ${locationService.restaurantName()} is ready! Please come to the host stand within ${settings.waitlist_hold_minutes} minutes.`
+      });
+    } catch (smsError: any) {
+      console.error('Error sending table ready SMS:', smsError);
+      return { success: false, error: 'Failed to send SMS' };
+    }
+
+    return supabaseService.updateWaitlistEntry(id, {
+      status: 'contacted',
+      notified_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Seat a waitlisted party, on the given tables or the first free option
+   */
+  async seat(id: string, tableIds?: string[]): Promise<{ success: boolean; data?: WaitlistEntry; error?: string; conflict?: TableConflict }> {
+    const { data: entry, error } = await supabaseService.getWaitlistEntry(id);
+    if (!entry) {
+      return { success: false, error: error || 'Waitlist entry not found' };
+    }
+
+    if (!['waiting', 'contacted'].includes(entry.status || '')) {
+      return { success: false, error: `Cannot seat a party that is ${entry.status}` };
+    }
+
+    const now = new Date();
+    const today = localDate(now);
+    const time = localTime(now);
+
+    let seatTableIds = tableIds;
+    if (!seatTableIds || seatTableIds.length === 0) {
+      const availability = await availabilityService.getAvailability({
+        date: today,
+        party_size: entry.party_size,
+        time
+      }, now);
+      const option = availability.slots[0]?.tables[0];
+      if (!option) {
+        return { success: false, error: 'No table is free for this party' };
+      }
+      seatTableIds = option.table_ids;
+    }
+
+    const turnTimes = await availabilityService.getTurnTimePredictor();
+    const guestId = entry.guest_id || (entry.guest_phone
+      ? (await guestService.findOrCreateByPhone(entry.guest_name, entry.guest_phone)).data?.id
+      : undefined);
+
+    // Walk-ins become reservations so they count toward turn times and the floor. The tables
+    // are claimed with it, so a booking made for them meanwhile refuses the seating.
+    const reservation = await supabaseService.createReservationOnTables({
+      guest_id: guestId,
+      guest_name: entry.guest_name,
+      guest_phone: entry.guest_phone,
+      reservation_date: today,
+      reservation_time: time,
+      party_size: entry.party_size,
+      table_id: seatTableIds[0],
+      status: 'seated',
+      special_requests: entry.notes,
+      source: 'walk-in',
+      created_by: 'waitlist',
+      seated_at: now.toISOString(),
+      duration_minutes: turnTimes.predict(entry.party_size, today, time)
+    }, seatTableIds);
+
+    if (!reservation.success || !reservation.data) {
+      return { success: false, error: reservation.error, conflict: reservation.conflict };
+    }
+
+    await supabaseService.createReservationLog({
+      reservation_id: reservation.data.id,
+      action: 'created',
+      details: { status: 'seated', source: 'walk-in', waitlist_id: id },
+      performed_by: 'waitlist'
+    });
+    await tableService.applyReservationEvent(reservation.data);
+
+    return supabaseService.updateWaitlistEntry(id, {
+      status: 'seated',
+      seated_at: now.toISOString(),
+      reservation_id: reservation.data.id
+    });
+  }
+
+  /**
+   * Remove a party from the waitlist
+   */
+  async expire(id: string) {
+    return supabaseService.updateWaitlistEntry(id, { status: 'expired' });
+  }
+
+  /**
+   * Expire entries from past days, parties that never came back after being told their table
+   * was ready, and cancellation offers left unanswered past their deadline
+   */
+  async expireStale(now: Date = new Date()) {
+    const today = localDate(now);
+    const settings = await availabilityService.getReservationSettings();
+    const holdCutoff = now.getTime() - settings.waitlist_hold_minutes * 60 * 1000;
+
+    const { data: open } = await supabaseService.getWaitlist({ status: ['waiting', 'contacted'] });
+
+    const stale = (open || []).filter(entry =>
+      (entry.requested_date && entry.requested_date < today) ||
+      (entry.status === 'contacted' && (entry.respond_by
+        ? new Date(entry.respond_by).getTime() <= now.getTime()
+        : !!entry.notified_at && new Date(entry.notified_at).getTime() < holdCutoff))
+    );
+
+    for (const entry of stale) {
+      await this.expire(entry.id!);
+    }
+
+    return { success: true, expired: stale.length };
+  }
+
+  /**
+   * Offer a cancelled reservation's slot to the first waiting party it fits
+   */
+  async offerCancelledSlot(cancelled: Reservation) {
+    try {
+      const time = cancelled.reservation_time.slice(0, 5);
+      const { data: waiting } = await supabaseService.getWaitlist({
+        status: 'waiting',
+        date: cancelled.reservation_date
+      });
+
+      for (const entry of waiting || []) {
+        if (!this.wantsTime(entry, time)) continue;
+
+        const availability = await availabilityService.getAvailability({
+          date: cancelled.reservation_date,
+          party_size: entry.party_size,
+          time
+        });
+        if (!availability.slots[0]?.available) continue;
+
+        await twilioService.sendSMS({
+          to: entry.guest_phone,
+          body: `Good news ${entry.guest_name}! A table for ${entry.party_size} just opened at ${locationService.restaurantName()} on ${cancelled.reservation_date} at ${time}. Reply BOOK to claim it.`
+        });
+
+        const offered = await supabaseService.updateWaitlistEntry(entry.id!, {
+          status: 'contacted',
+          notified_at: new Date().toISOString(),
+          offered_date: cancelled.reservation_date,
+          offered_time: time,
+          // The guest can claim the slot until it starts
+          respond_by: zonedTime(cancelled.reservation_date, time).toISOString()
+        });
+
+        return { success: true, offered: offered.data };
+      }
+
+      return { success: true, offered: null };
+    } catch (error: any) {
+      console.error('Error offering cancelled slot:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Find the open cancellation offer for a phone number
+   */
+  async getOpenOffer(phone: string, now: Date = new Date()): Promise<WaitlistEntry | null> {
+    const { data } = await supabaseService.getWaitlist({ status: 'contacted', guest_phone: phone });
+    return (data || []).find(entry =>
+      entry.offered_date && entry.offered_time &&
+      (!entry.respond_by || new Date(entry.respond_by).getTime() > now.getTime())
+    ) || null;
+  }
+
+  /**
+   * Mark a claimed offer as booked
+   */
+  async markBooked(id: string, reservationId: string) {
+    return supabaseService.updateWaitlistEntry(id, {
+      status: 'booked',
+      reservation_id: reservationId
+    });
+  }
+
+  /**
+   * Helper: Check a time against the party's acceptable range
+   */
+  private wantsTime(entry: WaitlistEntry, time: string): boolean {
+    const minutes = toMinutes(time);
+    if (entry.time_range_start && minutes < toMinutes(entry.time_range_start)) return false;
+    if (entry.time_range_end && minutes > toMinutes(entry.time_range_end)) return false;
+    return true;
+  }
+}
+
+export default new WaitlistService();
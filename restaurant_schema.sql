@@ -2,54 +2,199 @@
 -- For Supabase PostgreSQL
 
 -- Drop existing tables if they exist
+DROP FUNCTION IF EXISTS check_table_availability(DATE, TIME, INTEGER);
+DROP FUNCTION IF EXISTS check_table_availability(DATE, TIME, INTEGER, UUID);
+DROP FUNCTION IF EXISTS book_reservation(JSONB, UUID[]);
+DROP FUNCTION IF EXISTS move_reservation(UUID, JSONB, UUID[]);
+DROP TABLE IF EXISTS idempotency_keys CASCADE;
+DROP TABLE IF EXISTS calendar_feeds CASCADE;
+DROP TABLE IF EXISTS events CASCADE;
 DROP TABLE IF EXISTS reservation_logs CASCADE;
+DROP TABLE IF EXISTS payments CASCADE;
+DROP TABLE IF EXISTS reservation_tables CASCADE;
+DROP TABLE IF EXISTS reservation_series_conflicts CASCADE;
 DROP TABLE IF EXISTS reservations CASCADE;
+DROP TABLE IF EXISTS reservation_series CASCADE;
+DROP TABLE IF EXISTS table_combinations CASCADE;
 DROP TABLE IF EXISTS waitlist CASCADE;
+DROP TABLE IF EXISTS guest_preference_suggestions CASCADE;
+DROP TABLE IF EXISTS guest_duplicate_dismissals CASCADE;
+DROP TABLE IF EXISTS guest_merges CASCADE;
 DROP TABLE IF EXISTS guests CASCADE;
 DROP TABLE IF EXISTS tables CASCADE;
 DROP TABLE IF EXISTS menu_items CASCADE;
+DROP TABLE IF EXISTS special_hours CASCADE;
 DROP TABLE IF EXISTS restaurant_settings CASCADE;
 DROP TABLE IF EXISTS call_logs CASCADE;
+DROP TABLE IF EXISTS staff_locations CASCADE;
+DROP TABLE IF EXISTS restaurants CASCADE;
+
+-- Lets the table double-booking constraint combine = on table_id with && on time ranges
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Locations of the group. Location data carries a restaurant_id; it is NULL on
+-- single-location setups, which never create a row here.
+CREATE TABLE restaurants (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    slug VARCHAR(50) UNIQUE NOT NULL, -- e.g. 'downtown'
+    phone_number VARCHAR(20) UNIQUE, -- number guests call, normalized to +<country><number>
+    elevenlabs_agent_id VARCHAR(100) UNIQUE, -- voice agent answering this location
+    elevenlabs_phone_number_id VARCHAR(100), -- ElevenLabs number outbound calls are placed from
+    timezone VARCHAR(50), -- IANA name, e.g. 'Europe/Rome'; defaults to RESTAURANT_TIMEZONE
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Locations each staff member may work in; admins may work in all of them
+CREATE TABLE staff_locations (
+    user_id VARCHAR(255) NOT NULL,
+    restaurant_id UUID NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, restaurant_id)
+);
 
 -- Restaurant settings and configuration
 CREATE TABLE restaurant_settings (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    setting_key VARCHAR(100) UNIQUE NOT NULL,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE, -- NULL for group-wide defaults
+    setting_key VARCHAR(100) NOT NULL,
     setting_value JSONB NOT NULL,
     created_at TIMESTAMPTZ DEFAULT NOW(),
-    updated_at TIMESTAMPTZ DEFAULT NOW()
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (restaurant_id, setting_key)
+);
+
+-- Date-specific overrides of business_hours
+CREATE TABLE special_hours (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    kind VARCHAR(20) NOT NULL, -- closed, special_hours, blackout
+    periods JSONB DEFAULT '[]', -- [{"name", "open", "close"}]; for a blackout, the blocked windows (empty = all day)
+    reason TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_date >= start_date)
 );
 
 -- Tables in the restaurant
 CREATE TABLE tables (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
-    table_number VARCHAR(20) UNIQUE NOT NULL,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    table_number VARCHAR(20) NOT NULL,
     capacity INTEGER NOT NULL,
     location VARCHAR(50), -- e.g., 'main', 'patio', 'private', 'bar'
     status VARCHAR(50) DEFAULT 'available', -- available, occupied, reserved, cleaning
+    status_changed_at TIMESTAMPTZ DEFAULT NOW(), -- drives the automatic return from cleaning
     is_active BOOLEAN DEFAULT true,
     notes TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (restaurant_id, table_number)
+);
+
+-- Tables that can be pushed together and booked as one unit
+CREATE TABLE table_combinations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL, -- e.g., 'T3+T4'
+    table_ids UUID[] NOT NULL,
+    min_party_size INTEGER DEFAULT 1, -- avoid tying up two tables for a small party
+    max_party_size INTEGER NOT NULL, -- seats once combined, may differ from the sum
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Guest information
 CREATE TABLE guests (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE, -- each location keeps its own guest book
     name VARCHAR(200) NOT NULL,
-    phone VARCHAR(20) UNIQUE,
+    phone VARCHAR(20), -- normalized to +<country><number> so bookings link by phone
     email VARCHAR(255),
-    preferences JSONB, -- dietary restrictions, favorite dishes, etc.
-    visit_count INTEGER DEFAULT 0,
+    preferences JSONB, -- {"seating": [...], "dietary": [...], "allergies": [...], "occasions": [...], "favorite_dishes": [...]}
+    visit_count INTEGER DEFAULT 0, -- completed reservations
+    last_visit_date DATE,
+    no_show_count INTEGER DEFAULT 0,
+    reliability_score INTEGER DEFAULT 100, -- 0-100, from kept reservations vs no-shows and late cancellations
     vip_status BOOLEAN DEFAULT false,
+    tags TEXT[] DEFAULT '{}', -- e.g. regular, wine lover, press
     notes TEXT,
     created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (restaurant_id, phone)
+);
+
+-- Audit of guest records folded into another after duplicate detection
+CREATE TABLE guest_merges (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    surviving_guest_id UUID REFERENCES guests(id) ON DELETE SET NULL,
+    merged_guest_id UUID NOT NULL, -- deleted by the merge, kept for reference
+    merged_guest JSONB NOT NULL, -- the merged record as it was
+    moved JSONB DEFAULT '{}', -- rows re-pointed per table, e.g. {"reservations": 3, "call_logs": 1}
+    reason TEXT,
+    merged_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Preferences heard on calls, waiting for a host to approve them onto the guest
+CREATE TABLE guest_preference_suggestions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    guest_id UUID NOT NULL REFERENCES guests(id) ON DELETE CASCADE,
+    call_log_id UUID, -- the call it was heard on
+    category VARCHAR(30) NOT NULL, -- seating, dietary, allergies, occasions, favorite_dishes
+    value TEXT NOT NULL,
+    evidence TEXT, -- what the caller said
+    status VARCHAR(20) DEFAULT 'pending', -- pending, approved, rejected
+    reviewed_by VARCHAR(255),
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Pairs staff confirmed are different people, so they aren't proposed again
+CREATE TABLE guest_duplicate_dismissals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    guest_id_a UUID NOT NULL REFERENCES guests(id) ON DELETE CASCADE,
+    guest_id_b UUID NOT NULL REFERENCES guests(id) ON DELETE CASCADE,
+    dismissed_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (guest_id_a, guest_id_b)
+);
+
+-- Standing reservations for regulars; occurrences are generated into reservations ahead of time
+CREATE TABLE reservation_series (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    guest_id UUID REFERENCES guests(id),
+    guest_name VARCHAR(200) NOT NULL,
+    guest_phone VARCHAR(20),
+    guest_email VARCHAR(255),
+    party_size INTEGER NOT NULL,
+    reservation_time TIME NOT NULL,
+    frequency VARCHAR(20) NOT NULL, -- weekly, biweekly, monthly
+    start_date DATE NOT NULL,
+    end_date DATE, -- NULL runs until ended
+    preferred_table_id UUID REFERENCES tables(id),
+    special_requests TEXT,
+    skipped_dates DATE[] DEFAULT '{}',
+    generated_through DATE, -- last date occurrences were generated for
+    status VARCHAR(20) DEFAULT 'active', -- active, ended
+    created_by VARCHAR(100),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Reservations
 CREATE TABLE reservations (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
     guest_id UUID REFERENCES guests(id),
     guest_name VARCHAR(200) NOT NULL, -- For walk-ins or quick bookings
     guest_phone VARCHAR(20),
@@ -58,30 +203,59 @@ CREATE TABLE reservations (
     reservation_time TIME NOT NULL,
     party_size INTEGER NOT NULL,
     table_id UUID REFERENCES tables(id),
-    status VARCHAR(50) DEFAULT 'confirmed', -- confirmed, arrived, seated, completed, cancelled, no-show
+    status VARCHAR(50) DEFAULT 'confirmed', -- pending_payment, confirmed, arrived, seated, completed, cancelled, no-show
     special_requests TEXT,
     dietary_restrictions TEXT,
+    allergies TEXT[] DEFAULT '{}', -- normalized allergen tags, matched against menu_items.allergens
     occasion VARCHAR(100), -- birthday, anniversary, business, date, etc.
     confirmation_sent BOOLEAN DEFAULT false,
     reminder_sent BOOLEAN DEFAULT false,
-    source VARCHAR(50) DEFAULT 'ai-host', -- ai-host, phone, walk-in, online
+    source VARCHAR(50) DEFAULT 'ai-host', -- ai-host, phone, walk-in, online, import
     created_by VARCHAR(100),
+    cancelled_at TIMESTAMPTZ,
+    late_cancellation BOOLEAN DEFAULT false, -- cancelled inside reservation_settings.cancellation_hours
+    cancellation_override_by VARCHAR(100), -- manager who waived a late cancellation
+    cancellation_override_reason TEXT,
+    series_id UUID REFERENCES reservation_series(id), -- set on occurrences of a standing reservation
+    duration_minutes INTEGER, -- predicted turn time when booked
+    seated_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Every table a reservation occupies (one row per table, several for combinations)
+CREATE TABLE reservation_tables (
+    reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE,
+    table_id UUID REFERENCES tables(id),
+    held_during TSRANGE, -- restaurant-local start to start + duration_minutes; set by trigger
+    is_active BOOLEAN DEFAULT true, -- false once the reservation is cancelled, a no-show or completed
+    PRIMARY KEY (reservation_id, table_id),
+    -- No table is ever held by two live reservations at once, however the bookings raced
+    CONSTRAINT reservation_tables_no_double_booking
+        EXCLUDE USING gist (table_id WITH =, held_during WITH &&) WHERE (is_active)
+);
+
 -- Waitlist for busy times
 CREATE TABLE waitlist (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    guest_id UUID REFERENCES guests(id),
     guest_name VARCHAR(200) NOT NULL,
     guest_phone VARCHAR(20) NOT NULL,
     party_size INTEGER NOT NULL,
+    requested_date DATE DEFAULT CURRENT_DATE, -- today for walk-ins, a future date for cancellation offers
     preferred_time TIMESTAMPTZ,
     time_range_start TIME,
     time_range_end TIME,
-    status VARCHAR(50) DEFAULT 'waiting', -- waiting, contacted, seated, expired
+    status VARCHAR(50) DEFAULT 'waiting', -- waiting, contacted, booked, seated, expired
     notes TEXT,
     estimated_wait_minutes INTEGER,
+    notified_at TIMESTAMPTZ,
+    offered_date DATE, -- slot offered after a cancellation
+    offered_time TIME,
+    respond_by TIMESTAMPTZ, -- a cancellation offer lapses when its slot starts
+    seated_at TIMESTAMPTZ,
+    reservation_id UUID REFERENCES reservations(id),
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -89,6 +263,7 @@ CREATE TABLE waitlist (
 -- Menu items (for answering questions)
 CREATE TABLE menu_items (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
     name VARCHAR(200) NOT NULL,
     description TEXT,
     category VARCHAR(100), -- appetizer, main, dessert, beverage, etc.
@@ -106,6 +281,7 @@ CREATE TABLE menu_items (
 -- Call logs for AI interactions
 CREATE TABLE call_logs (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
     call_id VARCHAR(255), -- ElevenLabs call ID
     call_type VARCHAR(50), -- inbound, outbound
     phone_number VARCHAR(20),
@@ -123,21 +299,139 @@ CREATE TABLE call_logs (
 CREATE TABLE reservation_logs (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
     reservation_id UUID REFERENCES reservations(id),
-    action VARCHAR(100), -- created, modified, cancelled, completed, etc.
-    details JSONB,
+    action VARCHAR(100), -- created, modified, or the new status (arrived, seated, completed, cancelled, no-show)
+    details JSONB, -- from/to for status changes, before/after for edits
     performed_by VARCHAR(100),
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Occurrences of a standing reservation that could not get a table
+CREATE TABLE reservation_series_conflicts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    series_id UUID REFERENCES reservation_series(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    reason TEXT,
+    alternatives VARCHAR(5)[], -- nearest free times that day
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (series_id, occurrence_date)
+);
+
+-- Deposits and card holds taken to secure a reservation
+CREATE TABLE payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    reservation_id UUID REFERENCES reservations(id) ON DELETE CASCADE,
+    provider VARCHAR(50) NOT NULL, -- fake, stripe, ...
+    provider_payment_id VARCHAR(255) UNIQUE,
+    kind VARCHAR(20) NOT NULL, -- deposit (charged now) or card_hold (authorized, captured on no-show)
+    amount DECIMAL(10, 2) NOT NULL,
+    currency VARCHAR(3) DEFAULT 'USD',
+    status VARCHAR(30) DEFAULT 'pending', -- pending, paid, held, expired, refunded, partially_refunded, released, captured
+    payment_url TEXT,
+    expires_at TIMESTAMPTZ,
+    paid_at TIMESTAMPTZ,
+    refunded_amount DECIMAL(10, 2) DEFAULT 0,
+    captured_amount DECIMAL(10, 2) DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Private dining and buyout events, from first inquiry to the night itself
+CREATE TABLE events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    guest_id UUID REFERENCES guests(id),
+    contact_name VARCHAR(200) NOT NULL,
+    contact_phone VARCHAR(20),
+    contact_email VARCHAR(255),
+    company VARCHAR(200),
+    event_type VARCHAR(20) NOT NULL DEFAULT 'private_dining', -- private_dining (private room) or buyout (whole restaurant)
+    event_date DATE NOT NULL,
+    start_time TIME,
+    end_time TIME,
+    guest_count INTEGER NOT NULL,
+    occasion VARCHAR(100),
+    status VARCHAR(20) DEFAULT 'inquiry', -- inquiry, proposal_sent, confirmed, completed, cancelled, lost
+    set_menu JSONB DEFAULT '[]', -- [{"menu_item_id", "name", "category", "price", "allergens"}], guests choose one dish per course
+    price_per_guest DECIMAL(10, 2),
+    minimum_spend DECIMAL(10, 2) DEFAULT 0,
+    room_fee DECIMAL(10, 2) DEFAULT 0,
+    service_charge_percent DECIMAL(5, 2) DEFAULT 0,
+    deposit_schedule JSONB DEFAULT '[]', -- [{"label", "due_date", "amount", "paid_at"}]
+    dietary_requirements TEXT,
+    notes TEXT,
+    source VARCHAR(50), -- ai_agent, phone, email, walk_in
+    conversation_id VARCHAR(255),
+    reservation_id UUID REFERENCES reservations(id) ON DELETE SET NULL, -- holds the private room once confirmed
+    special_hours_id UUID REFERENCES special_hours(id) ON DELETE SET NULL, -- blocks the restaurant for a confirmed buyout
+    proposal_sent_at TIMESTAMPTZ,
+    confirmed_at TIMESTAMPTZ,
+    lost_reason TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_time IS NULL OR start_time IS NULL OR end_time > start_time)
+);
+
+-- Tokenized iCalendar subscriptions, so staff see upcoming bookings in their calendar apps
+CREATE TABLE calendar_feeds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    token VARCHAR(64) UNIQUE NOT NULL, -- the secret in /api/calendar/:token.ics
+    user_id VARCHAR(255) NOT NULL, -- staff member who owns the feed
+    name VARCHAR(100),
+    section VARCHAR(50), -- tables.location, e.g. 'patio'; every section when null
+    statuses TEXT[] DEFAULT '{}', -- reservation statuses to include; live bookings when empty
+    days_ahead INTEGER DEFAULT 7,
+    last_accessed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Results of booking requests, so a retried tool call or a repeated webhook gets the
+-- original response instead of booking twice
+CREATE TABLE idempotency_keys (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    restaurant_id UUID REFERENCES restaurants(id) ON DELETE CASCADE,
+    key VARCHAR(255) NOT NULL, -- Idempotency-Key header, or a hash of conversation_id and the request
+    scope VARCHAR(50) NOT NULL, -- e.g. 'book_reservation'
+    request_hash VARCHAR(64) NOT NULL, -- a reused key must come with the same request
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'completed')),
+    status_code INTEGER,
+    response JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    UNIQUE NULLS NOT DISTINCT (restaurant_id, key)
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_reservations_date ON reservations(reservation_date);
+CREATE INDEX idx_reservations_restaurant ON reservations(restaurant_id, reservation_date);
 CREATE INDEX idx_reservations_status ON reservations(status);
 CREATE INDEX idx_reservations_guest ON reservations(guest_id);
+CREATE INDEX idx_reservations_series ON reservations(series_id, reservation_date);
+CREATE INDEX idx_reservation_logs_reservation ON reservation_logs(reservation_id, created_at);
+CREATE INDEX idx_reservation_logs_action ON reservation_logs(action, created_at);
 CREATE INDEX idx_tables_status ON tables(status);
 CREATE INDEX idx_waitlist_status ON waitlist(status);
+CREATE INDEX idx_waitlist_date ON waitlist(requested_date);
 CREATE INDEX idx_guests_phone ON guests(phone);
+CREATE INDEX idx_guests_restaurant ON guests(restaurant_id);
+CREATE INDEX idx_guests_tags ON guests USING GIN (tags);
+CREATE INDEX idx_guest_merges_survivor ON guest_merges(surviving_guest_id, created_at);
+CREATE INDEX idx_preference_suggestions_status ON guest_preference_suggestions(status, created_at);
 CREATE INDEX idx_menu_items_category ON menu_items(category);
 CREATE INDEX idx_call_logs_reservation ON call_logs(reservation_id);
+CREATE INDEX idx_call_logs_restaurant ON call_logs(restaurant_id, created_at);
+CREATE INDEX idx_reservation_tables_table ON reservation_tables(table_id);
+CREATE INDEX idx_payments_reservation ON payments(reservation_id);
+CREATE INDEX idx_payments_status ON payments(status, expires_at);
+CREATE INDEX idx_special_hours_dates ON special_hours(start_date, end_date);
+CREATE INDEX idx_events_date ON events(event_date);
+CREATE INDEX idx_events_status ON events(status);
+CREATE INDEX idx_calendar_feeds_user ON calendar_feeds(user_id);
+CREATE INDEX idx_idempotency_keys_created ON idempotency_keys(created_at);
+CREATE INDEX idx_staff_locations_restaurant ON staff_locations(restaurant_id);
 
 -- Insert default restaurant settings
 INSERT INTO restaurant_settings (setting_key, setting_value) VALUES
@@ -163,7 +457,49 @@ INSERT INTO restaurant_settings (setting_key, setting_value) VALUES
     "default_duration_minutes": 90,
     "advance_booking_days": 30,
     "cancellation_hours": 2,
-    "time_slot_interval_minutes": 15
+    "time_slot_interval_minutes": 15,
+    "waitlist_hold_minutes": 10,
+    "table_clean_minutes": 10,
+    "no_show_grace_minutes": 15,
+    "pacing": {
+        "interval_minutes": 15,
+        "periods": [
+            {"name": "lunch", "start": "11:00", "end": "15:00", "max_covers": 30, "max_parties": 8},
+            {"name": "dinner", "start": "17:00", "end": "23:00", "max_covers": 24, "max_parties": 6}
+        ]
+    }
+}'::jsonb),
+('turn_times', '{
+    "lookback_days": 90,
+    "min_samples": 5,
+    "overrides": [
+        {"party_size_min": 7, "minutes": 150},
+        {"party_size_max": 2, "period": "lunch", "minutes": 60}
+    ]
+}'::jsonb),
+('event_settings', '{
+    "private_room_location": "private",
+    "minimum_spend": {"private_dining": 1500, "buyout": 10000},
+    "room_fee": {"private_dining": 250, "buyout": 0},
+    "service_charge_percent": 20,
+    "deposit_percent": 30,
+    "deposit_due_days": 7,
+    "balance_due_days_before": 7,
+    "default_duration_minutes": 180
+}'::jsonb),
+('deposit_settings', '{
+    "enabled": true,
+    "kind": "deposit",
+    "party_size_threshold": 8,
+    "amount_per_guest": 20,
+    "currency": "USD",
+    "peak_periods": [
+        {"days": ["friday", "saturday"], "start": "19:00", "end": "21:00"}
+    ],
+    "require_for_unreliable_guests": true,
+    "payment_window_minutes": 30,
+    "late_cancellation_refund_percent": 0,
+    "no_show_refund_percent": 0
 }'::jsonb),
 ('ai_agent_settings', '{
     "greeting": "Thank you for calling The Golden Fork. How may I assist you today?",
@@ -172,6 +508,13 @@ INSERT INTO restaurant_settings (setting_key, setting_value) VALUES
     "personality": "professional, warm, helpful"
 }'::jsonb);
 
+-- Insert sample special hours
+INSERT INTO special_hours (start_date, end_date, kind, periods, reason) VALUES
+('2025-12-24', '2025-12-24', 'special_hours', '[{"name": "dinner", "open": "17:00", "close": "21:00"}]'::jsonb, 'Christmas Eve'),
+('2025-12-25', '2025-12-26', 'closed', '[]'::jsonb, 'Christmas holidays'),
+('2025-12-31', '2025-12-31', 'special_hours', '[{"name": "lunch", "open": "11:00", "close": "15:00"}, {"name": "dinner", "open": "18:00", "close": "23:59"}]'::jsonb, 'New Year''s Eve'),
+('2025-10-18', '2025-10-18', 'blackout', '[{"name": "buyout", "open": "18:00", "close": "23:00"}]'::jsonb, 'Private buyout');
+
 -- Insert sample tables
 INSERT INTO tables (table_number, capacity, location, status) VALUES
 ('T1', 2, 'main', 'available'),
@@ -189,38 +532,76 @@ INSERT INTO tables (table_number, capacity, location, status) VALUES
 ('P3', 6, 'patio', 'available'),
 ('VIP1', 12, 'private', 'available');
 
+-- Insert sample table combinations
+INSERT INTO table_combinations (name, table_ids, min_party_size, max_party_size)
+SELECT 'T3+T4', ARRAY(SELECT id FROM tables WHERE table_number IN ('T3', 'T4')), 5, 8
+UNION ALL
+SELECT 'T6+T7', ARRAY(SELECT id FROM tables WHERE table_number IN ('T6', 'T7')), 7, 12
+UNION ALL
+SELECT 'P1+P2', ARRAY(SELECT id FROM tables WHERE table_number IN ('P1', 'P2')), 5, 8;
+
 -- Insert sample menu items
-INSERT INTO menu_items (name, description, category, price, dietary_info, is_available) VALUES
-('Caesar Salad', 'Fresh romaine lettuce with parmesan and croutons', 'appetizer', 12.00, '{"vegetarian": true}'::jsonb, true),
-('Tomato Soup', 'Creamy tomato soup with basil', 'appetizer', 9.00, '{"vegetarian": true, "gluten_free": true}'::jsonb, true),
-('Grilled Salmon', 'Atlantic salmon with seasonal vegetables', 'main', 28.00, '{"gluten_free": true}'::jsonb, true),
-('Ribeye Steak', '12oz ribeye with mashed potatoes', 'main', 42.00, '{"gluten_free": true}'::jsonb, true),
-('Chicken Parmesan', 'Breaded chicken with marinara and mozzarella', 'main', 24.00, '{}', true),
-('Vegetable Pasta', 'Fresh pasta with seasonal vegetables', 'main', 18.00, '{"vegetarian": true}'::jsonb, true),
-('Chocolate Lava Cake', 'Warm chocolate cake with vanilla ice cream', 'dessert', 10.00, '{"vegetarian": true}'::jsonb, true),
-('Tiramisu', 'Classic Italian dessert', 'dessert', 9.00, '{"vegetarian": true}'::jsonb, true);
+INSERT INTO menu_items (name, description, category, price, dietary_info, allergens, is_available) VALUES
+('Caesar Salad', 'Fresh romaine lettuce with parmesan and croutons', 'appetizer', 12.00, '{"vegetarian": true}'::jsonb, ARRAY['dairy', 'gluten', 'eggs'], true),
+('Tomato Soup', 'Creamy tomato soup with basil', 'appetizer', 9.00, '{"vegetarian": true, "gluten_free": true}'::jsonb, ARRAY['dairy'], true),
+('Grilled Salmon', 'Atlantic salmon with seasonal vegetables', 'main', 28.00, '{"gluten_free": true}'::jsonb, ARRAY['fish'], true),
+('Ribeye Steak', '12oz ribeye with mashed potatoes', 'main', 42.00, '{"gluten_free": true}'::jsonb, ARRAY['dairy'], true),
+('Chicken Parmesan', 'Breaded chicken with marinara and mozzarella', 'main', 24.00, '{}', ARRAY['gluten', 'dairy', 'eggs'], true),
+('Vegetable Pasta', 'Fresh pasta with seasonal vegetables', 'main', 18.00, '{"vegetarian": true}'::jsonb, ARRAY['gluten', 'eggs'], true),
+('Chocolate Lava Cake', 'Warm chocolate cake with vanilla ice cream', 'dessert', 10.00, '{"vegetarian": true}'::jsonb, ARRAY['gluten', 'dairy', 'eggs'], true),
+('Tiramisu', 'Classic Italian dessert', 'dessert', 9.00, '{"vegetarian": true}'::jsonb, ARRAY['gluten', 'dairy', 'eggs'], true);
 
 -- Create functions for common operations
 CREATE OR REPLACE FUNCTION check_table_availability(
     p_date DATE,
     p_time TIME,
-    p_party_size INTEGER
+    p_party_size INTEGER,
+    p_restaurant_id UUID DEFAULT NULL -- the location's tables; every table when NULL
 ) RETURNS TABLE (
-    table_id UUID,
-    table_number VARCHAR,
+    table_ids UUID[],
+    table_numbers VARCHAR[],
     capacity INTEGER,
-    location VARCHAR
+    location VARCHAR,
+    is_combination BOOLEAN
 ) AS $$
 BEGIN
     RETURN QUERY
-    SELECT t.id, t.table_number, t.capacity, t.location
-    FROM tables t
-    WHERE t.is_active = true
-      AND t.capacity >= p_party_size
+    WITH units AS (
+        -- Single tables
+        SELECT ARRAY[t.id] AS table_ids,
+               ARRAY[t.table_number] AS table_numbers,
+               t.capacity,
+               t.location,
+               false AS is_combination,
+               1 AS min_party_size
+        FROM tables t
+        WHERE t.is_active = true
+          AND (p_restaurant_id IS NULL OR t.restaurant_id = p_restaurant_id)
+        UNION ALL
+        -- Combinable groups, only while every member table is active
+        SELECT c.table_ids,
+               ARRAY(SELECT t.table_number FROM tables t WHERE t.id = ANY(c.table_ids) ORDER BY t.table_number),
+               c.max_party_size,
+               (SELECT MIN(t.location) FROM tables t WHERE t.id = ANY(c.table_ids)),
+               true,
+               c.min_party_size
+        FROM table_combinations c
+        WHERE c.is_active = true
+          AND (p_restaurant_id IS NULL OR c.restaurant_id = p_restaurant_id)
+          AND NOT EXISTS (
+              SELECT 1 FROM tables t
+              WHERE t.id = ANY(c.table_ids) AND t.is_active = false
+          )
+    )
+    SELECT u.table_ids, u.table_numbers, u.capacity, u.location, u.is_combination
+    FROM units u
+    WHERE u.capacity >= p_party_size
+      AND u.min_party_size <= p_party_size
       AND NOT EXISTS (
           SELECT 1
           FROM reservations r
-          WHERE r.table_id = t.id
+          LEFT JOIN reservation_tables rt ON rt.reservation_id = r.id
+          WHERE (rt.table_id = ANY(u.table_ids) OR r.table_id = ANY(u.table_ids))
             AND r.reservation_date = p_date
             AND r.status NOT IN ('cancelled', 'no-show')
             AND (
@@ -231,12 +612,119 @@ BEGIN
                  p_time + INTERVAL '90 minutes' > r.reservation_time)
             )
       )
-    ORDER BY t.capacity ASC
+    ORDER BY u.is_combination ASC, u.capacity ASC
     LIMIT 5;
 END;
 $$ LANGUAGE plpgsql;
 
--- Create view for today's reservations
+-- Keep each reservation_tables row's hold in step with its reservation
+CREATE OR REPLACE FUNCTION set_reservation_table_hold() RETURNS TRIGGER AS $$
+BEGIN
+    SELECT tsrange(
+               r.reservation_date + r.reservation_time,
+               r.reservation_date + r.reservation_time + make_interval(mins => COALESCE(r.duration_minutes, 90))
+           ),
+           COALESCE(r.status, 'confirmed') NOT IN ('cancelled', 'no-show', 'completed')
+    INTO NEW.held_during, NEW.is_active
+    FROM reservations r
+    WHERE r.id = NEW.reservation_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reservation_tables_hold
+    BEFORE INSERT OR UPDATE ON reservation_tables
+    FOR EACH ROW EXECUTE FUNCTION set_reservation_table_hold();
+
+CREATE OR REPLACE FUNCTION refresh_reservation_table_holds() RETURNS TRIGGER AS $$
+BEGIN
+    -- Touching the rows re-runs set_reservation_table_hold
+    UPDATE reservation_tables SET table_id = table_id WHERE reservation_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reservations_refresh_holds
+    AFTER UPDATE OF reservation_date, reservation_time, duration_minutes, status ON reservations
+    FOR EACH ROW EXECUTE FUNCTION refresh_reservation_table_holds();
+
+-- Book a reservation onto its tables in one transaction. Concurrent bookings for the same
+-- tables queue on the table row locks, and the exclusion constraint backs that up.
+-- Returns {"reservation": {...}}, or {"conflict": true, "table_ids": [...]} when the
+-- tables are already held at that time.
+CREATE OR REPLACE FUNCTION book_reservation(p_reservation JSONB, p_table_ids UUID[])
+RETURNS JSONB AS $$
+DECLARE
+    v_start TIMESTAMP := (p_reservation->>'reservation_date')::DATE + (p_reservation->>'reservation_time')::TIME;
+    v_held TSRANGE := tsrange(v_start, v_start + make_interval(mins => COALESCE((p_reservation->>'duration_minutes')::INTEGER, 90)));
+    v_taken UUID[];
+    v_columns TEXT;
+    v_id UUID;
+BEGIN
+    PERFORM 1 FROM tables WHERE id = ANY(p_table_ids) ORDER BY id FOR UPDATE;
+
+    SELECT ARRAY_AGG(DISTINCT rt.table_id) INTO v_taken
+    FROM reservation_tables rt
+    WHERE rt.table_id = ANY(p_table_ids)
+      AND rt.is_active
+      AND rt.held_during && v_held;
+
+    IF v_taken IS NOT NULL THEN
+        RETURN jsonb_build_object('conflict', true, 'table_ids', to_jsonb(v_taken));
+    END IF;
+
+    -- Only the columns given, so the others keep their defaults
+    SELECT string_agg(quote_ident(c.column_name::TEXT), ', ') INTO v_columns
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = 'reservations'
+      AND p_reservation ? c.column_name::TEXT;
+
+    EXECUTE format(
+        'INSERT INTO reservations (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::reservations, $1) RETURNING id',
+        v_columns
+    ) INTO v_id USING p_reservation;
+
+    INSERT INTO reservation_tables (reservation_id, table_id)
+    SELECT v_id, UNNEST(p_table_ids);
+
+    RETURN jsonb_build_object('reservation', (SELECT to_jsonb(r) FROM reservations r WHERE r.id = v_id));
+EXCEPTION
+    WHEN exclusion_violation THEN
+        RETURN jsonb_build_object('conflict', true, 'table_ids', to_jsonb(p_table_ids));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a reservation to a new date, time, party size or tables in one transaction, with
+-- the same conflict result as book_reservation. Its own old hold never counts against it.
+CREATE OR REPLACE FUNCTION move_reservation(p_reservation_id UUID, p_changes JSONB, p_table_ids UUID[])
+RETURNS JSONB AS $$
+BEGIN
+    PERFORM 1 FROM tables WHERE id = ANY(p_table_ids) ORDER BY id FOR UPDATE;
+
+    DELETE FROM reservation_tables WHERE reservation_id = p_reservation_id;
+
+    UPDATE reservations SET
+        reservation_date = COALESCE((p_changes->>'reservation_date')::DATE, reservation_date),
+        reservation_time = COALESCE((p_changes->>'reservation_time')::TIME, reservation_time),
+        party_size = COALESCE((p_changes->>'party_size')::INTEGER, party_size),
+        duration_minutes = COALESCE((p_changes->>'duration_minutes')::INTEGER, duration_minutes),
+        table_id = p_table_ids[1],
+        updated_at = NOW()
+    WHERE id = p_reservation_id;
+
+    INSERT INTO reservation_tables (reservation_id, table_id)
+    SELECT p_reservation_id, UNNEST(p_table_ids);
+
+    RETURN jsonb_build_object('reservation', (SELECT to_jsonb(r) FROM reservations r WHERE r.id = p_reservation_id));
+EXCEPTION
+    WHEN exclusion_violation THEN
+        RETURN jsonb_build_object('conflict', true, 'table_ids', to_jsonb(p_table_ids));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create view for today's reservations. "Today" is each location's local date; locations
+-- without a timezone, and single-restaurant setups, use the database's TimeZone setting.
 CREATE OR REPLACE VIEW today_reservations AS
 SELECT
     r.*,
@@ -247,6 +735,7 @@ SELECT
 FROM reservations r
 LEFT JOIN tables t ON r.table_id = t.id
 LEFT JOIN guests g ON r.guest_id = g.id
-WHERE r.reservation_date = CURRENT_DATE
+LEFT JOIN restaurants loc ON r.restaurant_id = loc.id
+WHERE r.reservation_date = (NOW() AT TIME ZONE COALESCE(loc.timezone, current_setting('TimeZone')))::DATE
   AND r.status NOT IN ('cancelled', 'no-show')
 ORDER BY r.reservation_time;
\ No newline at end of file